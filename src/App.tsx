@@ -8,14 +8,19 @@ import CalculationsPage from "./pages/CalculationsPage";
 import Dashboard from "./pages/Dashboard";
 import DriverProfile from "./pages/DriverProfile";
 import DriversPage from "./pages/DriversPage";
+import FuelLedgerPage from "./pages/FuelLedgerPage";
 import { LoginPage } from "./pages/LoginPage";
 import MasterSheet from "./pages/MasterSheet";
+import PaymentRunsPage from "./pages/PaymentRunsPage";
 import PerformancePage from "./pages/PerformancePage";
+import PeriodBonusesPage from "./pages/PeriodBonusesPage";
+import PolicySimulatorPage from "./pages/PolicySimulatorPage";
 import ScorecardAdminPage from "./pages/ScorecardAdminPage";
 import ScorecardEmployeesPage from "./pages/ScorecardEmployeesPage";
 import ScorecardPage from "./pages/ScorecardPage";
 import ScorecardTargetsPage from "./pages/ScorecardTargetsPage";
 import SettingsPage from "./pages/SettingsPage";
+import VehiclesPage from "./pages/VehiclesPage";
 import YearComparisonPage from "./pages/YearComparisonPage";
 import { useStore } from "./store/useStore";
 
@@ -38,9 +43,14 @@ function AppContent() {
           <Route index element={<Dashboard />} />
           <Route path="drivers" element={<DriversPage />} />
           <Route path="drivers/:id" element={<DriverProfile />} />
+          <Route path="vehicles" element={<VehiclesPage />} />
           <Route path="master-sheet" element={<MasterSheet />} />
           <Route path="performance" element={<PerformancePage />} />
+          <Route path="fuel" element={<FuelLedgerPage />} />
           <Route path="calculations" element={<CalculationsPage />} />
+          <Route path="payment-runs" element={<PaymentRunsPage />} />
+          <Route path="period-bonuses" element={<PeriodBonusesPage />} />
+          <Route path="simulator" element={<PolicySimulatorPage />} />
           <Route path="analytics" element={<AnalyticsPage />} />
           <Route path="comparison" element={<YearComparisonPage />} />
           <Route path="scorecards" element={<ScorecardPage />} />
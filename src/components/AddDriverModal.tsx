@@ -2,13 +2,14 @@ import { useState } from "react";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
 import type { DriverInsert } from "../types/database";
+import { getDepots } from "../utils/workingCalendar";
 
 interface AddDriverModalProps {
   onClose: () => void;
 }
 
 export default function AddDriverModal({ onClose }: AddDriverModalProps) {
-  const { showToast } = useStore();
+  const { drivers, calendarDays, showToast } = useStore();
   const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState<Partial<DriverInsert>>({
     employee_id: "",
@@ -24,6 +25,7 @@ export default function AddDriverModal({ onClose }: AddDriverModalProps) {
     passport_number: "",
     passport_expiry: "",
     driver_type: "local",
+    depot: "",
     status: "active",
     usd_base_salary: 0,
     zig_base_salary: 0,
@@ -69,7 +71,7 @@ export default function AddDriverModal({ onClose }: AddDriverModalProps) {
     try {
       const { error } = await supabase
         .from("drivers")
-        .insert(formData as DriverInsert);
+        .insert({ ...formData, depot: formData.depot?.trim() || null } as DriverInsert);
       if (error) throw error;
       showToast("Driver added successfully");
       onClose();
@@ -293,6 +295,23 @@ export default function AddDriverModal({ onClose }: AddDriverModalProps) {
                   <option value="suspended">Suspended</option>
                 </select>
               </div>
+              <div>
+                <label className="form-label">Depot</label>
+                <input
+                  type="text"
+                  name="depot"
+                  className="form-input"
+                  list="add-driver-depots"
+                  placeholder="Company calendar"
+                  value={formData.depot ?? ""}
+                  onChange={handleChange}
+                />
+                <datalist id="add-driver-depots">
+                  {getDepots(drivers.map((d) => d.depot), calendarDays).map((depot) => (
+                    <option key={depot} value={depot} />
+                  ))}
+                </datalist>
+              </div>
               <div className="p-3 rounded-lg bg-blue-50 border border-blue-100">
                 <p className="text-sm text-blue-700 font-medium">💡 Salary Setup</p>
                 <p className="text-xs text-blue-600 mt-1">
@@ -8,6 +8,7 @@ import
         formatNumber,
         getMonthName,
     } from "../utils/formatters";
+import { getSettingsVersion, resolveSettingsForPeriod } from "../utils/settingsVersions";
 
 interface AddPerformanceModalProps {
   driver?: Driver;
@@ -64,6 +65,12 @@ export default function AddPerformanceModal({
     );
   }, [monthlyBudgets, formData.year, formData.month, selectedDriver]);
 
+  // Settings versions in force for the selected period
+  const periodSettings = useMemo(
+    () => resolveSettingsForPeriod(incentiveSettings, formData.year, formData.month),
+    [incentiveSettings, formData.year, formData.month],
+  );
+
   // Get the incentive divisor based on driver type
   const incentiveDivisor = useMemo(() => {
     if (!selectedDriver) return 1;
@@ -71,11 +78,11 @@ export default function AddPerformanceModal({
       selectedDriver.driver_type === "local"
         ? "incentive_divisor_local"
         : "incentive_divisor_export";
-    const setting = incentiveSettings.find(
+    const setting = periodSettings.find(
       (s) => s.setting_key === settingKey && s.is_active,
     );
     return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings, selectedDriver]);
+  }, [periodSettings, selectedDriver]);
 
   // Calculate target KM per truck
   const targetKmPerTruck = useMemo(() => {
@@ -116,6 +123,10 @@ export default function AddPerformanceModal({
   ]);
 
   const isEditMode = !!existingPerformance;
+  // Ledger-computed km/L is owned by the fuel ledger
+  const fuelFromLedger = existingRecord?.fuel_efficiency_source === "ledger";
+  // Kilometres and trips rolled up from the trip log are owned by the trip log
+  const tripsFromLog = existingRecord?.trip_totals_source === "trips";
 
   const handleDelete = async () => {
     if (!existingPerformance || !isSupabaseConfigured()) {
@@ -169,7 +180,7 @@ export default function AddPerformanceModal({
       return;
     }
 
-    if (formData.actual_kilometers <= 0) {
+    if (!tripsFromLog && formData.actual_kilometers <= 0) {
       showToast("Please enter kilometers achieved");
       return;
     }
@@ -180,11 +191,19 @@ export default function AddPerformanceModal({
         driver_id: selectedDriverId,
         year: formData.year,
         month: formData.month,
-        actual_kilometers: formData.actual_kilometers,
-        trips_completed: formData.trips_completed,
-        fuel_efficiency: formData.fuel_efficiency
-          ? parseFloat(formData.fuel_efficiency)
-          : null,
+        ...(tripsFromLog
+          ? {}
+          : {
+              actual_kilometers: formData.actual_kilometers,
+              trips_completed: formData.trips_completed,
+            }),
+        ...(fuelFromLedger
+          ? {}
+          : {
+              fuel_efficiency: formData.fuel_efficiency
+                ? parseFloat(formData.fuel_efficiency)
+                : null,
+            }),
         on_time_delivery_rate: formData.on_time_delivery_rate
           ? parseFloat(formData.on_time_delivery_rate)
           : null,
@@ -231,6 +250,7 @@ export default function AddPerformanceModal({
           rate_per_km: calculatedIncentive.ratePerKm,
           actual_km: formData.actual_kilometers,
         },
+        settings_version_id: getSettingsVersion(periodSettings).id,
         status: "draft" as const,
       };
 
@@ -426,7 +446,11 @@ export default function AddPerformanceModal({
               type="number"
               step="0.01"
               className="form-input text-2xl font-semibold"
-              value={formData.actual_kilometers || ""}
+              value={
+                tripsFromLog
+                  ? existingRecord?.actual_kilometers || ""
+                  : formData.actual_kilometers || ""
+              }
               onChange={(e) =>
                 setFormData((prev) => ({
                   ...prev,
@@ -434,11 +458,18 @@ export default function AddPerformanceModal({
                 }))
               }
               placeholder="Enter kilometers driven this month"
+              readOnly={tripsFromLog}
               required
             />
             <p className="text-sm text-primary-600 mt-2">
-              Enter the total kilometers the driver achieved for{" "}
-              {getMonthName(formData.month)} {formData.year}
+              {tripsFromLog ? (
+                <>Rolled up from the trip log; edit the trips to change it</>
+              ) : (
+                <>
+                  Enter the total kilometers the driver achieved for{" "}
+                  {getMonthName(formData.month)} {formData.year}
+                </>
+              )}
             </p>
           </div>
 
@@ -514,7 +545,11 @@ export default function AddPerformanceModal({
                 <input
                   type="number"
                   className="form-input"
-                  value={formData.trips_completed || ""}
+                  value={
+                    tripsFromLog
+                      ? existingRecord?.trips_completed || ""
+                      : formData.trips_completed || ""
+                  }
                   onChange={(e) =>
                     setFormData((prev) => ({
                       ...prev,
@@ -522,6 +557,7 @@ export default function AddPerformanceModal({
                     }))
                   }
                   placeholder="Number of trips"
+                  readOnly={tripsFromLog}
                 />
               </div>
               <div>
@@ -530,7 +566,11 @@ export default function AddPerformanceModal({
                   type="number"
                   step="0.01"
                   className="form-input"
-                  value={formData.fuel_efficiency}
+                  value={
+                    fuelFromLedger
+                      ? existingRecord?.fuel_efficiency?.toString() || ""
+                      : formData.fuel_efficiency
+                  }
                   onChange={(e) =>
                     setFormData((prev) => ({
                       ...prev,
@@ -538,7 +578,13 @@ export default function AddPerformanceModal({
                     }))
                   }
                   placeholder="e.g., 8.5"
+                  readOnly={fuelFromLedger}
                 />
+                {fuelFromLedger && (
+                  <p className="text-xs text-surface-500 mt-1">
+                    From the fuel ledger ({existingRecord?.fuel_transaction_ids.length} fills)
+                  </p>
+                )}
               </div>
               <div>
                 <label className="form-label">On-Time Delivery Rate (%)</label>
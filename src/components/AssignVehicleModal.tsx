@@ -0,0 +1,189 @@
+import { useMemo, useState } from "react";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { Vehicle } from "../types/database";
+import { formatDate } from "../utils/formatters";
+import { getAssignmentOn, planVehicleAssignment } from "../utils/vehicles";
+
+interface AssignVehicleModalProps {
+  vehicle: Vehicle;
+  onClose: () => void;
+}
+
+export default function AssignVehicleModal({ vehicle, onClose }: AssignVehicleModalProps) {
+  const { drivers, vehicleAssignments, showToast } = useStore();
+  const today = new Date().toISOString().split("T")[0];
+  const [driverId, setDriverId] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const current = getAssignmentOn(vehicleAssignments, { vehicleId: vehicle.id }, today);
+  const currentDriver = current ? drivers.find((d) => d.id === current.driver_id) : null;
+
+  // Drivers of the truck's fleet first
+  const driverOptions = useMemo(
+    () =>
+      drivers
+        .filter((d) => d.status === "active")
+        .sort((a, b) =>
+          a.driver_type === b.driver_type
+            ? a.first_name.localeCompare(b.first_name)
+            : a.driver_type === vehicle.fleet
+              ? -1
+              : 1
+        ),
+    [drivers, vehicle.fleet]
+  );
+
+  const handleAssign = async () => {
+    if (!driverId) {
+      showToast("Select a driver");
+      return;
+    }
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const plan = planVehicleAssignment(vehicleAssignments, vehicle.id, driverId, startDate);
+
+      // End the truck's and the driver's current assignments the day before
+      for (const close of plan.close) {
+        const { error } = await supabase
+          .from("vehicle_assignments")
+          .update({ end_date: close.end_date })
+          .eq("id", close.id);
+        if (error) throw error;
+      }
+
+      const { error } = await supabase.from("vehicle_assignments").insert({
+        vehicle_id: vehicle.id,
+        driver_id: driverId,
+        start_date: startDate,
+        end_date: null,
+        notes: notes || null,
+      });
+      if (error) throw error;
+
+      showToast(`${vehicle.registration_number} assigned`);
+      onClose();
+    } catch (error: unknown) {
+      console.error("Error assigning vehicle:", error);
+      showToast(error instanceof Error ? error.message : "Error assigning vehicle");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Close the current assignment without a replacement driver
+  const handleUnassign = async () => {
+    if (!current) return;
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("vehicle_assignments")
+        .update({ end_date: startDate < current.start_date ? current.start_date : startDate })
+        .eq("id", current.id);
+      if (error) throw error;
+
+      showToast(`${vehicle.registration_number} unassigned`);
+      onClose();
+    } catch (error) {
+      console.error("Error unassigning vehicle:", error);
+      showToast("Error unassigning vehicle");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-surface-900">Assign Driver</h2>
+              <p className="text-sm text-surface-500">
+                {vehicle.registration_number} · {vehicle.vehicle_type}
+              </p>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+              <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="p-3 rounded-lg bg-surface-50 text-sm">
+            {current ? (
+              <>
+                Currently driven by{" "}
+                <strong>{currentDriver ? `${currentDriver.first_name} ${currentDriver.last_name}` : "Unknown"}</strong>{" "}
+                since {formatDate(current.start_date)}
+              </>
+            ) : (
+              <span className="text-surface-500">Not assigned to a driver</span>
+            )}
+          </div>
+
+          <div>
+            <label className="form-label">Driver</label>
+            <select className="form-select" value={driverId} onChange={(e) => setDriverId(e.target.value)}>
+              <option value="">Select a driver...</option>
+              {driverOptions.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.first_name} {d.last_name} ({d.employee_id}){d.driver_type !== vehicle.fleet ? ` - ${d.driver_type}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="form-label">From</label>
+            <input type="date" className="form-input" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            <p className="text-xs text-surface-500 mt-1">
+              The truck's and the driver's current assignments end the day before.
+            </p>
+          </div>
+
+          <div>
+            <label className="form-label">Notes</label>
+            <input type="text" className="form-input" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="flex justify-between gap-3 pt-4 border-t border-surface-100">
+            <div>
+              {current && (
+                <button onClick={handleUnassign} disabled={isSaving} className="btn btn-secondary">
+                  End Assignment on {formatDate(startDate)}
+                </button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={onClose} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleAssign}
+                disabled={isSaving || vehicle.status === "retired"}
+                className="btn btn-primary"
+              >
+                {isSaving ? "Saving..." : "Assign"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
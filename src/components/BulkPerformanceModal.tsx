@@ -4,6 +4,7 @@
  */
 
 import { useCallback, useMemo, useState } from "react";
+import { fetchPeriodDriverRecords } from "../hooks/useRealtimeData";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
 import type { Driver, FuelEfficiencyTier } from "../types/database";
@@ -12,9 +13,16 @@ import
         calculateDriverIncentive,
         DEFAULT_EXPORT_FUEL_TIERS,
         DEFAULT_LOCAL_FUEL_TIERS,
+        findPerformanceBonusTier,
+        getAchievementTierConfig,
         getFuelEfficiencyConfig,
+        getIncentiveLimitsConfig,
+        getPayoutSplitConfig,
+        getPerformanceBonusConfigs,
+        getRateMode,
         resultToIncentiveCalculation
     } from "../utils/calculations";
+import { getDeductionRulesConfig } from "../utils/deductions";
 import
     {
         formatCurrency,
@@ -22,6 +30,9 @@ import
         generateInitials,
         getMonthName,
     } from "../utils/formatters";
+import { getEffectiveRate, getRateSegments } from "../utils/kilometerRates";
+import { filterDriverRecords } from "../utils/periods";
+import { getSettingsVersion, resolveSettingsForPeriod } from "../utils/settingsVersions";
 
 interface BulkPerformanceModalProps {
   onClose: () => void;
@@ -32,6 +43,8 @@ interface DriverEntry {
   actual_kilometers: number;
   trips_completed: number;
   fuel_efficiency: string;
+  fuelFromLedger: boolean;        // km/L computed from the fuel ledger, not editable here
+  tripsFromLog: boolean;          // km and trips rolled up from the trip log, not editable here
   on_time_delivery_rate: string;
   safety_score: string;
   notes: string;
@@ -39,6 +52,7 @@ interface DriverEntry {
   existingId?: string;
   estimatedIncentive: number;
   fuelBonus: number;
+  performanceBonus: number;
   ratePerKm: number;
 }
 
@@ -49,6 +63,9 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
     driverPerformance,
     incentiveSettings,
     customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
     showToast,
     setDriverPerformance,
     setIncentiveCalculations,
@@ -61,39 +78,58 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
   const [showOnlyEmpty, setShowOnlyEmpty] = useState(false);
   const [entries, setEntries] = useState<Record<string, DriverEntry>>({});
 
+  // Settings versions in force for the selected period
+  const periodSettings = useMemo(
+    () => resolveSettingsForPeriod(incentiveSettings, year, month),
+    [incentiveSettings, year, month]
+  );
+
   // Get divisors
   const localDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = periodSettings.find(
       (s) => s.setting_key === "incentive_divisor_local" && s.is_active
     );
     return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  }, [periodSettings]);
 
   const exportDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = periodSettings.find(
       (s) => s.setting_key === "incentive_divisor_export" && s.is_active
     );
     return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  }, [periodSettings]);
+
+  // Rate per KM for driver types priced from the fixed rate table (null in divisor mode)
+  const fixedRates = useMemo(() => {
+    const fixedRateFor = (type: "local" | "export"): number | null => {
+      if (getRateMode(periodSettings, type) !== "fixed_rate") return null;
+      try {
+        return getEffectiveRate(getRateSegments(kilometerRates, type, year, month));
+      } catch {
+        return 0;
+      }
+    };
+    return { local: fixedRateFor("local"), export: fixedRateFor("export") };
+  }, [periodSettings, kilometerRates, year, month]);
 
   // Get fuel efficiency bonus configs (use defaults if not configured)
   const localFuelConfig = useMemo(() => {
-    const config = getFuelEfficiencyConfig(incentiveSettings, "local");
+    const config = getFuelEfficiencyConfig(periodSettings, "local");
     // If no config or not enabled, use defaults
     if (!config.enabled || config.tiers.length === 0) {
       return DEFAULT_LOCAL_FUEL_TIERS;
     }
     return config;
-  }, [incentiveSettings]);
+  }, [periodSettings]);
 
   const exportFuelConfig = useMemo(() => {
-    const config = getFuelEfficiencyConfig(incentiveSettings, "export");
+    const config = getFuelEfficiencyConfig(periodSettings, "export");
     // If no config or not enabled, use defaults
     if (!config.enabled || config.tiers.length === 0) {
       return DEFAULT_EXPORT_FUEL_TIERS;
     }
     return config;
-  }, [incentiveSettings]);
+  }, [periodSettings]);
 
   // Helper function to calculate fuel efficiency bonus
   const calculateFuelBonus = useCallback((fuelEfficiency: string, driverType: "local" | "export"): number => {
@@ -111,6 +147,21 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
     return matchingTier?.bonus_amount || 0;
   }, [localFuelConfig, exportFuelConfig]);
 
+  // Get on-time and safety bonus configs
+  const localBonusConfigs = useMemo(() => getPerformanceBonusConfigs(periodSettings, "local"), [periodSettings]);
+  const exportBonusConfigs = useMemo(() => getPerformanceBonusConfigs(periodSettings, "export"), [periodSettings]);
+
+  // Helper function to calculate on-time + safety bonus (customer rating is not captured here)
+  const calculatePerformanceBonus = useCallback((onTimeRate: string, safetyScore: string, driverType: "local" | "export"): number => {
+    const configs = driverType === "export" ? exportBonusConfigs : localBonusConfigs;
+    const onTime = parseFloat(onTimeRate);
+    const safety = parseFloat(safetyScore);
+
+    const onTimeBonus = isNaN(onTime) ? 0 : findPerformanceBonusTier(onTime, configs.on_time)?.bonus_amount || 0;
+    const safetyBonus = isNaN(safety) ? 0 : findPerformanceBonusTier(safety, configs.safety)?.bonus_amount || 0;
+    return onTimeBonus + safetyBonus;
+  }, [localBonusConfigs, exportBonusConfigs]);
+
   // Initialize entries for all active drivers
   const activeDrivers = useMemo(() => {
     return drivers
@@ -142,11 +193,14 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
       const divisor = driver.driver_type === "export" ? exportDivisor : localDivisor;
       const truckCount = budget?.truck_count || 1;
       const targetKmPerTruck = budget ? budget.budgeted_kilometers / truckCount : 0;
-      const ratePerKm = targetKmPerTruck > 0 ? divisor / targetKmPerTruck : 0;
+      const ratePerKm = fixedRates[driver.driver_type] ?? (targetKmPerTruck > 0 ? divisor / targetKmPerTruck : 0);
 
       const km = existing?.actual_kilometers || entries[driver.id]?.actual_kilometers || 0;
       const fuelEff = existing?.fuel_efficiency?.toString() || entries[driver.id]?.fuel_efficiency || "";
       const fuelBonus = calculateFuelBonus(fuelEff, driver.driver_type);
+      const onTimeRate = existing?.on_time_delivery_rate?.toString() || entries[driver.id]?.on_time_delivery_rate || "";
+      const safetyScore = existing?.safety_score?.toString() || entries[driver.id]?.safety_score || "";
+      const performanceBonus = calculatePerformanceBonus(onTimeRate, safetyScore, driver.driver_type);
       const kmIncentive = km * ratePerKm;
 
       newEntries[driver.id] = {
@@ -154,20 +208,23 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
         actual_kilometers: km,
         trips_completed: existing?.trips_completed || entries[driver.id]?.trips_completed || 0,
         fuel_efficiency: fuelEff,
-        on_time_delivery_rate: existing?.on_time_delivery_rate?.toString() || entries[driver.id]?.on_time_delivery_rate || "",
-        safety_score: existing?.safety_score?.toString() || entries[driver.id]?.safety_score || "",
+        fuelFromLedger: existing?.fuel_efficiency_source === "ledger",
+        tripsFromLog: existing?.trip_totals_source === "trips",
+        on_time_delivery_rate: onTimeRate,
+        safety_score: safetyScore,
         notes: existing?.notes || entries[driver.id]?.notes || "",
         hasExisting: !!existing,
         existingId: existing?.id,
-        estimatedIncentive: kmIncentive + fuelBonus,
+        estimatedIncentive: kmIncentive + fuelBonus + performanceBonus,
         fuelBonus,
+        performanceBonus,
         ratePerKm,
       };
     });
 
     setEntries(newEntries);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeDrivers, year, month, driverPerformance, monthlyBudgets, localDivisor, exportDivisor, calculateFuelBonus]);
+  }, [activeDrivers, year, month, driverPerformance, monthlyBudgets, localDivisor, exportDivisor, fixedRates, calculateFuelBonus, calculatePerformanceBonus]);
 
   // Filter entries
   const filteredDrivers = useMemo(() => {
@@ -183,20 +240,29 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
 
       const updated = { ...entry, [field]: value };
 
-      // Recalculate incentive if KM or fuel efficiency changed
+      // Recalculate incentive if KM, fuel efficiency, on-time rate or safety score changed
       if (field === "actual_kilometers") {
         const kmIncentive = (value as number) * entry.ratePerKm;
-        updated.estimatedIncentive = kmIncentive + entry.fuelBonus;
+        updated.estimatedIncentive = kmIncentive + entry.fuelBonus + entry.performanceBonus;
       } else if (field === "fuel_efficiency") {
         const newFuelBonus = calculateFuelBonus(value as string, entry.driver.driver_type);
         updated.fuelBonus = newFuelBonus;
         const kmIncentive = entry.actual_kilometers * entry.ratePerKm;
-        updated.estimatedIncentive = kmIncentive + newFuelBonus;
+        updated.estimatedIncentive = kmIncentive + newFuelBonus + entry.performanceBonus;
+      } else if (field === "on_time_delivery_rate" || field === "safety_score") {
+        const newPerformanceBonus = calculatePerformanceBonus(
+          updated.on_time_delivery_rate,
+          updated.safety_score,
+          entry.driver.driver_type
+        );
+        updated.performanceBonus = newPerformanceBonus;
+        const kmIncentive = entry.actual_kilometers * entry.ratePerKm;
+        updated.estimatedIncentive = kmIncentive + entry.fuelBonus + newPerformanceBonus;
       }
 
       return { ...prev, [driverId]: updated };
     });
-  }, [calculateFuelBonus]);
+  }, [calculateFuelBonus, calculatePerformanceBonus]);
 
   // Calculate totals
   const totals = useMemo(() => {
@@ -208,6 +274,7 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
       totalKm: withKm.reduce((sum, e) => sum + e.actual_kilometers, 0),
       totalIncentives: withKm.reduce((sum, e) => sum + e.estimatedIncentive, 0),
       totalFuelBonus: withKm.reduce((sum, e) => sum + e.fuelBonus, 0),
+      totalPerformanceBonus: withKm.reduce((sum, e) => sum + e.performanceBonus, 0),
       newRecords: entriesList.filter((e) => !e.hasExisting && e.actual_kilometers > 0).length,
       updates: entriesList.filter((e) => e.hasExisting && e.actual_kilometers > 0).length,
     };
@@ -232,14 +299,23 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
     let errorCount = 0;
 
     try {
+      const periodRecords = await fetchPeriodDriverRecords(year, month);
+      const deductionRules = getDeductionRulesConfig(periodSettings);
+      const settingsVersion = getSettingsVersion(periodSettings);
+
       for (const entry of entriesToSave) {
         const performanceData = {
           driver_id: entry.driver.id,
           year,
           month,
-          actual_kilometers: entry.actual_kilometers,
-          trips_completed: entry.trips_completed,
-          fuel_efficiency: entry.fuel_efficiency ? parseFloat(entry.fuel_efficiency) : null,
+          // Trip-derived totals are owned by the trip log
+          ...(entry.tripsFromLog
+            ? {}
+            : { actual_kilometers: entry.actual_kilometers, trips_completed: entry.trips_completed }),
+          // Ledger-computed km/L is owned by the fuel ledger
+          ...(entry.fuelFromLedger
+            ? {}
+            : { fuel_efficiency: entry.fuel_efficiency ? parseFloat(entry.fuel_efficiency) : null }),
           on_time_delivery_rate: entry.on_time_delivery_rate ? parseFloat(entry.on_time_delivery_rate) : null,
           safety_score: entry.safety_score ? parseFloat(entry.safety_score) : null,
           notes: entry.notes || null,
@@ -268,6 +344,9 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
           );
           const divisor = entry.driver.driver_type === "export" ? exportDivisor : localDivisor;
           const fuelConfig = entry.driver.driver_type === "export" ? exportFuelConfig : localFuelConfig;
+          const bonusConfigs = entry.driver.driver_type === "export" ? exportBonusConfigs : localBonusConfigs;
+          const tierConfig = getAchievementTierConfig(periodSettings, entry.driver.driver_type);
+          const limits = getIncentiveLimitsConfig(periodSettings, entry.driver.driver_type);
 
           const calcResult = calculateDriverIncentive({
             driver: entry.driver,
@@ -279,6 +358,9 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
               actual_kilometers: entry.actual_kilometers,
               trips_completed: entry.trips_completed,
               fuel_efficiency: entry.fuel_efficiency ? parseFloat(entry.fuel_efficiency) : null,
+              fuel_efficiency_source: entry.fuelFromLedger ? "ledger" : "manual",
+              fuel_transaction_ids: [],
+              trip_totals_source: entry.tripsFromLog ? "trips" : "manual",
               on_time_delivery_rate: entry.on_time_delivery_rate ? parseFloat(entry.on_time_delivery_rate) : null,
               safety_score: entry.safety_score ? parseFloat(entry.safety_score) : null,
               customer_rating: null,
@@ -289,7 +371,18 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
             budget: budget || null,
             divisor,
             formulas: customFormulas,
+            rateMode: getRateMode(periodSettings, entry.driver.driver_type),
+            kilometerRates,
             fuelEfficiencyConfig: fuelConfig,
+            performanceBonusConfigs: bonusConfigs,
+            achievementTierConfig: tierConfig,
+            salaryHistory: driverSalaryHistory,
+            conversionRates: zigUsdConversionRates,
+            deductionRules,
+            records: filterDriverRecords(periodRecords, entry.driver.id),
+            incentiveLimits: limits,
+            payoutSplit: getPayoutSplitConfig(periodSettings),
+            settingsVersion,
           });
 
           const incentiveData = resultToIncentiveCalculation(calcResult, "draft");
@@ -346,7 +439,13 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
     exportDivisor,
     localFuelConfig,
     exportFuelConfig,
+    localBonusConfigs,
+    exportBonusConfigs,
     customFormulas,
+    periodSettings,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
     showToast,
     setDriverPerformance,
     setIncentiveCalculations,
@@ -366,14 +465,22 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
         (p) => p.driver_id === driverId && p.year === prevYear && p.month === prevMonth
       );
       if (prevPerf && !newEntries[driverId].hasExisting) {
+        const entry = newEntries[driverId];
+        const fuelEfficiency = prevPerf.fuel_efficiency?.toString() || "";
+        const onTimeRate = prevPerf.on_time_delivery_rate?.toString() || "";
+        const safetyScore = prevPerf.safety_score?.toString() || "";
+        const fuelBonus = calculateFuelBonus(fuelEfficiency, entry.driver.driver_type);
+        const performanceBonus = calculatePerformanceBonus(onTimeRate, safetyScore, entry.driver.driver_type);
         newEntries[driverId] = {
-          ...newEntries[driverId],
+          ...entry,
           actual_kilometers: prevPerf.actual_kilometers,
           trips_completed: prevPerf.trips_completed,
-          fuel_efficiency: prevPerf.fuel_efficiency?.toString() || "",
-          on_time_delivery_rate: prevPerf.on_time_delivery_rate?.toString() || "",
-          safety_score: prevPerf.safety_score?.toString() || "",
-          estimatedIncentive: prevPerf.actual_kilometers * newEntries[driverId].ratePerKm,
+          fuel_efficiency: fuelEfficiency,
+          on_time_delivery_rate: onTimeRate,
+          safety_score: safetyScore,
+          estimatedIncentive: prevPerf.actual_kilometers * entry.ratePerKm + fuelBonus + performanceBonus,
+          fuelBonus,
+          performanceBonus,
         };
         copiedCount++;
       }
@@ -381,7 +488,7 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
 
     setEntries(newEntries);
     showToast(`Copied data from ${getMonthName(prevMonth)} ${prevYear} for ${copiedCount} drivers`);
-  }, [entries, month, year, driverPerformance, showToast]);
+  }, [entries, month, year, driverPerformance, calculateFuelBonus, calculatePerformanceBonus, showToast]);
 
   // Clear all entries
   const clearAll = useCallback(() => {
@@ -397,6 +504,8 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
           safety_score: "",
           notes: "",
           estimatedIncentive: 0,
+          fuelBonus: 0,
+          performanceBonus: 0,
         };
       }
     });
@@ -524,6 +633,9 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
               {totals.totalFuelBonus > 0 && (
                 <span className="ml-1 text-green-600 text-xs">(incl. {formatCurrency(totals.totalFuelBonus)} fuel)</span>
               )}
+              {totals.totalPerformanceBonus > 0 && (
+                <span className="ml-1 text-green-600 text-xs">(incl. {formatCurrency(totals.totalPerformanceBonus)} bonuses)</span>
+              )}
             </div>
             <div>
               <span className="text-green-600">New:</span>{" "}
@@ -627,6 +739,8 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
                             updateEntry(driver.id, "actual_kilometers", parseInt(e.target.value) || 0)
                           }
                           placeholder="0"
+                          readOnly={entry.tripsFromLog}
+                          title={entry.tripsFromLog ? "Rolled up from the trip log" : undefined}
                         />
                       </td>
 
@@ -640,6 +754,8 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
                             updateEntry(driver.id, "trips_completed", parseInt(e.target.value) || 0)
                           }
                           placeholder="0"
+                          readOnly={entry.tripsFromLog}
+                          title={entry.tripsFromLog ? "Rolled up from the trip log" : undefined}
                         />
                       </td>
 
@@ -652,6 +768,8 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
                           value={entry.fuel_efficiency}
                           onChange={(e) => updateEntry(driver.id, "fuel_efficiency", e.target.value)}
                           placeholder="km/L"
+                          readOnly={entry.fuelFromLedger}
+                          title={entry.fuelFromLedger ? "Computed from the fuel ledger" : undefined}
                         />
                       </td>
 
@@ -691,9 +809,11 @@ export default function BulkPerformanceModal({ onClose }: BulkPerformanceModalPr
                               ? formatCurrency(entry.estimatedIncentive)
                               : "-"}
                           </span>
-                          {entry.actual_kilometers > 0 && entry.fuelBonus > 0 && (
+                          {entry.actual_kilometers > 0 && (entry.fuelBonus > 0 || entry.performanceBonus > 0) && (
                             <div className="text-xs text-surface-500">
-                              {formatCurrency(entry.estimatedIncentive - entry.fuelBonus)} km + {formatCurrency(entry.fuelBonus)} fuel
+                              {formatCurrency(entry.estimatedIncentive - entry.fuelBonus - entry.performanceBonus)} km
+                              {entry.fuelBonus > 0 && <> + {formatCurrency(entry.fuelBonus)} fuel</>}
+                              {entry.performanceBonus > 0 && <> + {formatCurrency(entry.performanceBonus)} bonus</>}
                             </div>
                           )}
                         </div>
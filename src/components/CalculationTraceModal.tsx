@@ -0,0 +1,123 @@
+import type { IncentiveCalculation } from "../types/database";
+import { getStoredTrace, type CalculationTraceStep } from "../utils/calculationTrace";
+import { formatCurrency, formatNumber, getMonthName } from "../utils/formatters";
+
+interface CalculationTraceModalProps {
+  calculation: IncentiveCalculation;
+  driverName: string;
+  onClose: () => void;
+}
+
+export default function CalculationTraceModal({ calculation, driverName, onClose }: CalculationTraceModalProps) {
+  const trace = getStoredTrace(calculation.calculation_details);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-surface-900">Calculation Trace</h2>
+              <p className="text-sm text-surface-500">
+                {driverName} · {getMonthName(calculation.month)} {calculation.year}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-surface-100 rounded-lg transition-colors"
+            >
+              <svg
+                className="w-5 h-5 text-surface-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {trace.length === 0 ? (
+            <p className="text-sm text-surface-500 text-center py-6">
+              No trace was recorded for this calculation. Recalculate it to generate one.
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {trace.map((step, index) => (
+                <li key={`${step.key}-${index}`} className="flex gap-3">
+                  <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary-100 text-primary-700 text-xs font-semibold flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm font-medium text-surface-900">{step.label}</p>
+                      <span
+                        className={`font-mono text-sm font-semibold whitespace-nowrap ${
+                          step.result < 0 ? "text-red-600" : "text-surface-900"
+                        }`}
+                      >
+                        {formatTraceValue(step.result, step.unit)}
+                      </span>
+                    </div>
+                    <p className="text-xs font-mono text-surface-500 mt-0.5">{step.formula}</p>
+                    {Object.keys(step.inputs).length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-1.5">
+                        {Object.entries(step.inputs).map(([name, value]) => (
+                          <span
+                            key={name}
+                            className="inline-flex items-center px-1.5 py-0.5 rounded bg-surface-100 text-xs text-surface-600"
+                          >
+                            {name} = <span className="font-mono ml-1">{formatTraceInput(value)}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-surface-100 flex justify-end">
+          <button onClick={onClose} className="btn btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatTraceValue(value: number, unit: CalculationTraceStep["unit"]): string {
+  switch (unit) {
+    case "usd":
+      return formatCurrency(value);
+    case "zig":
+      return formatCurrency(value, "ZIG ");
+    case "km":
+      return `${formatNumber(value)} km`;
+    case "percent":
+      return `${formatNumber(value, 1)}%`;
+    case "rate":
+      return `$${formatNumber(value, 4)}/km`;
+    case "factor":
+      return formatNumber(value, 4);
+  }
+}
+
+function formatTraceInput(value: number | string | null): string {
+  if (value === null) return "-";
+  if (typeof value === "string") return value;
+  return Number.isInteger(value) ? formatNumber(value) : formatNumber(value, 4);
+}
@@ -0,0 +1,149 @@
+import { format, subDays } from "date-fns";
+import { useMemo, useState } from "react";
+import { useDailyKilometers } from "../hooks/useRealtimeData";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import { calculateDailyProjection, getDailyKmTotals } from "../utils/analytics";
+import { formatNumber, getMonthName } from "../utils/formatters";
+import { resolveSettingsForPeriod } from "../utils/settingsVersions";
+import { getWorkingCalendarConfig, getWorkingDaysInMonth } from "../utils/workingCalendar";
+import { HeatmapCalendar } from "./charts";
+
+interface DailyKilometersCardProps {
+  driverId: string;
+  targetKm: number;               // this month's target per driver
+}
+
+// Days of history shown in the heatmap
+const HEATMAP_DAYS = 182;
+
+export default function DailyKilometersCard({ driverId, targetKm }: DailyKilometersCardProps) {
+  const { drivers, incentiveSettings, calendarDays, showToast } = useStore();
+  const now = new Date();
+  const today = format(now, "yyyy-MM-dd");
+  const start = format(subDays(now, HEATMAP_DAYS - 1), "yyyy-MM-dd");
+  const entries = useDailyKilometers(start, today, driverId);
+
+  const [logDate, setLogDate] = useState(today);
+  const [kilometers, setKilometers] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dailyTotals = useMemo(() => getDailyKmTotals(entries), [entries]);
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+  const day = now.getDate();
+  const depot = drivers.find((d) => d.id === driverId)?.depot ?? null;
+  const workingDays = useMemo(
+    () =>
+      getWorkingDaysInMonth(
+        year,
+        month,
+        calendarDays,
+        getWorkingCalendarConfig(resolveSettingsForPeriod(incentiveSettings, year, month)),
+        depot
+      ),
+    [year, month, calendarDays, incentiveSettings, depot]
+  );
+  const projection = useMemo(
+    () => calculateDailyProjection(dailyTotals, targetKm, year, month, day, workingDays),
+    [dailyTotals, targetKm, year, month, day, workingDays]
+  );
+
+  const selectDay = (date: string) => {
+    setLogDate(date);
+    const existing = entries.find((e) => e.log_date === date);
+    setKilometers(existing ? existing.kilometers.toString() : "");
+  };
+
+  const handleSave = async () => {
+    const km = parseFloat(kilometers);
+    if (isNaN(km) || km < 0) {
+      showToast("Enter the kilometers driven");
+      return;
+    }
+    if (logDate > today) {
+      showToast("Cannot log kilometers for a future date");
+      return;
+    }
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("daily_kilometers")
+        .upsert({ driver_id: driverId, log_date: logDate, kilometers: km }, { onConflict: "driver_id,log_date" });
+      if (error) throw error;
+      showToast("Daily kilometers saved");
+      setKilometers("");
+    } catch (error) {
+      console.error("Error saving daily kilometers:", error);
+      showToast("Error saving daily kilometers");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-surface-100">
+        <h2 className="font-semibold text-surface-900">Daily Kilometers</h2>
+        <p className="text-sm text-surface-500">Click a day to log or correct its kilometers</p>
+      </div>
+      <div className="p-6 space-y-5">
+        <HeatmapCalendar data={dailyTotals} startDate={start} endDate={today} onDayClick={selectDay} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="form-label">Date</label>
+              <input
+                type="date"
+                className="form-input"
+                max={today}
+                value={logDate}
+                onChange={(e) => selectDay(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="form-label">Kilometers</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                className="form-input w-28"
+                value={kilometers}
+                onChange={(e) => setKilometers(e.target.value)}
+              />
+            </div>
+            <button onClick={handleSave} disabled={isSaving} className="btn btn-primary">
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+
+          <div className="p-3 rounded-lg bg-surface-50 border border-surface-100 text-sm space-y-1">
+            <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">
+              {getMonthName(month)} projection (daily pace)
+            </p>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Pace (last 7 working days)</span>
+              <span className="font-medium text-surface-900">{formatNumber(Math.round(projection.currentPace))} km/day</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Projected Month End</span>
+              <span className="font-medium text-surface-900">
+                {formatNumber(projection.projectedMonthEnd)} / {formatNumber(targetKm)} km
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Needed Daily</span>
+              <span className="font-medium text-surface-900">{formatNumber(projection.dailyKmNeeded)} km/working day</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
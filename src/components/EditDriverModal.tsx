@@ -2,6 +2,7 @@ import { useState } from "react";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
 import type { Driver, DriverUpdate } from "../types/database";
+import { getDepots } from "../utils/workingCalendar";
 
 interface EditDriverModalProps {
   driver: Driver;
@@ -12,7 +13,7 @@ export default function EditDriverModal({
   driver,
   onClose,
 }: EditDriverModalProps) {
-  const { showToast } = useStore();
+  const { drivers, calendarDays, showToast } = useStore();
   const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState<DriverUpdate>({
     employee_id: driver.employee_id,
@@ -28,6 +29,7 @@ export default function EditDriverModal({
     passport_number: driver.passport_number || "",
     passport_expiry: driver.passport_expiry || "",
     driver_type: driver.driver_type,
+    depot: driver.depot || "",
     status: driver.status,
     usd_base_salary: driver.usd_base_salary || 0,
     zig_base_salary: driver.zig_base_salary || 0,
@@ -62,7 +64,7 @@ export default function EditDriverModal({
     try {
       const { error } = await supabase
         .from("drivers")
-        .update(formData)
+        .update({ ...formData, depot: formData.depot?.trim() || null })
         .eq("id", driver.id);
       if (error) throw error;
       showToast("Driver updated successfully");
@@ -283,6 +285,23 @@ export default function EditDriverModal({
                   <option value="terminated">Terminated</option>
                 </select>
               </div>
+              <div>
+                <label className="form-label">Depot</label>
+                <input
+                  type="text"
+                  name="depot"
+                  className="form-input"
+                  list="edit-driver-depots"
+                  placeholder="Company calendar"
+                  value={formData.depot ?? ""}
+                  onChange={handleChange}
+                />
+                <datalist id="edit-driver-depots">
+                  {getDepots(drivers.map((d) => d.depot), calendarDays).map((depot) => (
+                    <option key={depot} value={depot} />
+                  ))}
+                </datalist>
+              </div>
               <div className="p-3 rounded-lg bg-blue-50 border border-blue-100">
                 <p className="text-sm text-blue-700 font-medium">💡 Salary Management</p>
                 <p className="text-xs text-blue-600 mt-1">
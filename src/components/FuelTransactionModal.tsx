@@ -0,0 +1,281 @@
+import { addMonths, parseISO } from "date-fns";
+import { useState } from "react";
+import { syncLedgerFuelEfficiency } from "../hooks/useRealtimeData";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { FuelTransaction, FuelTransactionInsert } from "../types/database";
+import { getAssignmentOn } from "../utils/vehicles";
+
+interface FuelTransactionModalProps {
+  transaction?: FuelTransaction;  // edit this fill; omit to record a new one
+  onClose: () => void;
+}
+
+export default function FuelTransactionModal({ transaction, onClose }: FuelTransactionModalProps) {
+  const { drivers, vehicles, vehicleAssignments, showToast } = useStore();
+  const today = new Date().toISOString().split("T")[0];
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    transaction_date: transaction?.transaction_date ?? today,
+    driver_id: transaction?.driver_id ?? "",
+    vehicle_id: transaction?.vehicle_id ?? "",
+    litres: transaction?.litres?.toString() ?? "",
+    cost: transaction?.cost?.toString() ?? "",
+    currency: transaction?.currency ?? "USD",
+    odometer: transaction?.odometer?.toString() ?? "",
+    station: transaction?.station ?? "",
+    receipt_reference: transaction?.receipt_reference ?? "",
+    notes: transaction?.notes ?? "",
+  });
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>,
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => {
+      const next = { ...prev, [name]: value };
+      // Default the truck to the one the driver was assigned on the fill date
+      if ((name === "driver_id" || name === "transaction_date") && next.driver_id && next.transaction_date) {
+        next.vehicle_id =
+          getAssignmentOn(vehicleAssignments, { driverId: next.driver_id }, next.transaction_date)?.vehicle_id ??
+          prev.vehicle_id;
+      }
+      return next;
+    });
+  };
+
+  // Recompute the ledger km/L for the fill's month and the next one (whose
+  // first fill measures its distance from this reading)
+  const syncAffectedMonths = async (dates: string[]) => {
+    const months = new Set<string>();
+    for (const date of dates) {
+      const d = parseISO(date);
+      months.add(`${d.getFullYear()}-${d.getMonth() + 1}`);
+      const next = addMonths(d, 1);
+      if (next <= new Date()) months.add(`${next.getFullYear()}-${next.getMonth() + 1}`);
+    }
+    for (const key of months) {
+      const [year, month] = key.split("-").map(Number);
+      await syncLedgerFuelEfficiency(year, month, vehicles);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const litres = parseFloat(formData.litres);
+    const odometer = parseFloat(formData.odometer);
+    if (!formData.driver_id || !formData.transaction_date || isNaN(litres) || isNaN(odometer)) {
+      showToast("Please fill in all required fields");
+      return;
+    }
+    if (litres <= 0) {
+      showToast("Litres must be more than zero");
+      return;
+    }
+
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const data: FuelTransactionInsert = {
+      driver_id: formData.driver_id,
+      vehicle_id: formData.vehicle_id || null,
+      transaction_date: formData.transaction_date,
+      litres,
+      cost: parseFloat(formData.cost) || 0,
+      currency: formData.currency as "USD" | "ZIG",
+      odometer,
+      station: formData.station.trim() || null,
+      receipt_reference: formData.receipt_reference.trim() || null,
+      notes: formData.notes || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = transaction
+        ? await supabase.from("fuel_transactions").update(data).eq("id", transaction.id)
+        : await supabase.from("fuel_transactions").insert(data);
+      if (error) throw error;
+
+      await syncAffectedMonths(
+        transaction ? [transaction.transaction_date, data.transaction_date] : [data.transaction_date],
+      );
+      showToast(transaction ? "Fuel fill updated" : "Fuel fill recorded");
+      onClose();
+    } catch (error: unknown) {
+      console.error("Error saving fuel fill:", error);
+      const message = error instanceof Error ? error.message : "Error saving fuel fill";
+      showToast(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!transaction) return;
+    if (!confirm("Delete this fuel fill? The km/L for its month will be recomputed.")) return;
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot delete in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("fuel_transactions").delete().eq("id", transaction.id);
+      if (error) throw error;
+      await syncAffectedMonths([transaction.transaction_date]);
+      showToast("Fuel fill deleted");
+      onClose();
+    } catch (error) {
+      console.error("Error deleting fuel fill:", error);
+      showToast("Error deleting fuel fill");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-surface-900">
+              {transaction ? "Edit Fuel Fill" : "Record Fuel Fill"}
+            </h2>
+            <button onClick={onClose} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+              <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Date *</label>
+              <input
+                type="date"
+                name="transaction_date"
+                className="form-input"
+                max={today}
+                value={formData.transaction_date}
+                onChange={handleChange}
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">Driver *</label>
+              <select name="driver_id" className="form-select" value={formData.driver_id} onChange={handleChange} required>
+                <option value="">Select a driver...</option>
+                {drivers.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.first_name} {d.last_name} ({d.employee_id})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Truck</label>
+              <select name="vehicle_id" className="form-select" value={formData.vehicle_id} onChange={handleChange}>
+                <option value="">Not recorded</option>
+                {vehicles.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.registration_number}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Odometer *</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                name="odometer"
+                className="form-input"
+                value={formData.odometer}
+                onChange={handleChange}
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">Litres *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                name="litres"
+                className="form-input"
+                value={formData.litres}
+                onChange={handleChange}
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">Cost</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="cost"
+                  className="form-input"
+                  value={formData.cost}
+                  onChange={handleChange}
+                />
+                <select name="currency" className="form-select w-24" value={formData.currency} onChange={handleChange}>
+                  <option value="USD">USD</option>
+                  <option value="ZIG">ZIG</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="form-label">Station</label>
+              <input type="text" name="station" className="form-input" value={formData.station} onChange={handleChange} />
+            </div>
+            <div>
+              <label className="form-label">Receipt Reference</label>
+              <input
+                type="text"
+                name="receipt_reference"
+                className="form-input"
+                value={formData.receipt_reference}
+                onChange={handleChange}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">Notes</label>
+            <textarea name="notes" className="form-input" rows={2} value={formData.notes} onChange={handleChange} />
+          </div>
+
+          <p className="text-xs text-surface-500">
+            Fill the tank to full: km/L uses the distance since the truck's previous fill and the litres of this one.
+          </p>
+
+          <div className="flex justify-between gap-3 pt-4 border-t border-surface-100">
+            <div>
+              {transaction && (
+                <button type="button" onClick={handleDelete} disabled={isSaving} className="btn btn-secondary text-red-600">
+                  Delete
+                </button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button type="button" onClick={onClose} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                {isSaving ? "Saving..." : transaction ? "Save Changes" : "Record Fill"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
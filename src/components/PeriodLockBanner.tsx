@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { PayrollPeriodStatus } from "../types/database";
+import { formatDate, getMonthName, getMonthShortName } from "../utils/formatters";
+import
+  {
+    canReopenPeriod,
+    getLockedMonths,
+    getPayrollPeriod,
+    getPeriodCloseBlockers,
+    getPeriodCloseConfig,
+    getPeriodStatus,
+    PAYROLL_PERIOD_STATUS_LABELS,
+  } from "../utils/periodClose";
+import { getCurrentSettings } from "../utils/settingsVersions";
+
+interface PeriodLockBannerProps {
+  year: number;
+  month?: number;        // omit to summarise the locked months of the year
+  manage?: boolean;      // show the close and reopen actions
+}
+
+export default function PeriodLockBanner({ year, month, manage = false }: PeriodLockBannerProps) {
+  const { payrollPeriods, incentiveCalculations, incentiveSettings, setPayrollPeriods, showToast } = useStore();
+  const { user } = useAuth();
+  const userEmail = user?.email ?? null;
+  const [isSaving, setIsSaving] = useState(false);
+  const [showReopen, setShowReopen] = useState(false);
+  const [reopenReason, setReopenReason] = useState("");
+
+  // Year summary
+  if (month === undefined) {
+    const lockedMonths = getLockedMonths(payrollPeriods, year);
+    if (lockedMonths.length === 0) return null;
+    return (
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2">
+        <LockIcon />
+        <p className="text-sm text-amber-800">
+          <span className="font-medium">Locked payroll months in {year}:</span>{" "}
+          {lockedMonths
+            .map((m) => `${getMonthShortName(m)} (${PAYROLL_PERIOD_STATUS_LABELS[getPeriodStatus(payrollPeriods, year, m)].toLowerCase()})`)
+            .join(", ")}
+          . Their performance, budget, salary and rate rows cannot be changed.
+        </p>
+      </div>
+    );
+  }
+
+  const period = getPayrollPeriod(payrollPeriods, year, month);
+  const status = period?.status ?? "open";
+  const periodName = `${getMonthName(month)} ${year}`;
+  if (status === "open" && !manage) return null;
+
+  const setStatus = async (next: PayrollPeriodStatus, extra: Record<string, string | null> = {}) => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot update in demo mode");
+      return false;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("payroll_periods")
+        .upsert({ year, month, status: next, updated_by: userEmail ?? "system", ...extra }, { onConflict: "year,month" });
+      if (error) throw error;
+
+      // Refresh so the banner and the lock guards see the new status
+      const { data } = await supabase.from("payroll_periods").select("*").order("year", { ascending: false });
+      if (data) setPayrollPeriods(data);
+      showToast(`${periodName} is now ${PAYROLL_PERIOD_STATUS_LABELS[next].toLowerCase()}`);
+      return true;
+    } catch (error) {
+      console.error("Error updating payroll period:", error);
+      const message = error instanceof Error ? error.message : "Error updating payroll period";
+      showToast(message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    const blockers = getPeriodCloseBlockers(
+      incentiveCalculations.filter((c) => c.year === year && c.month === month)
+    );
+    if (blockers.length > 0) {
+      showToast(`Cannot close ${periodName}: ${blockers.join(", ")}`);
+      return;
+    }
+    if (!confirm(`Close ${periodName}? It can only be reopened by an authorised user, with a reason.`)) return;
+    await setStatus("closed", { closed_by: userEmail ?? "system", closed_at: new Date().toISOString() });
+  };
+
+  const handleReopen = async () => {
+    const config = getPeriodCloseConfig(getCurrentSettings(incentiveSettings));
+    if (config.reopen_approvers.length === 0) {
+      showToast("No reopen approvers are set up; add them under Settings → Period Close");
+      return;
+    }
+    if (!canReopenPeriod(config, userEmail)) {
+      showToast("You are not authorised to reopen a closed period");
+      return;
+    }
+    if (!reopenReason.trim()) {
+      showToast("Enter the reason for reopening");
+      return;
+    }
+    const reopened = await setStatus("open", {
+      reopened_by: userEmail,
+      reopened_at: new Date().toISOString(),
+      reopen_reason: reopenReason.trim(),
+    });
+    if (reopened) {
+      setShowReopen(false);
+      setReopenReason("");
+    }
+  };
+
+  return (
+    <>
+      <div
+        className={`rounded-lg p-3 flex flex-wrap items-center justify-between gap-3 border ${
+          status === "closed"
+            ? "bg-red-50 border-red-200"
+            : status === "closing"
+              ? "bg-amber-50 border-amber-200"
+              : "bg-surface-50 border-surface-200"
+        }`}
+      >
+        <div className="flex items-start gap-2">
+          {status !== "open" && <LockIcon />}
+          <p className={`text-sm ${status === "closed" ? "text-red-800" : status === "closing" ? "text-amber-800" : "text-surface-600"}`}>
+            {status === "open" && <>Payroll period {periodName} is open.</>}
+            {status === "closing" && (
+              <>
+                <span className="font-medium">{periodName} is closing.</span> Performance, budgets, salaries and rates
+                for the month are frozen while payroll is finalised.
+              </>
+            )}
+            {status === "closed" && (
+              <>
+                <span className="font-medium">
+                  {periodName} is closed
+                  {period?.closed_at && ` on ${formatDate(period.closed_at)}`}
+                  {period?.closed_by && ` by ${period.closed_by}`}.
+                </span>{" "}
+                Performance, budgets, salaries and rates for the month cannot be changed.
+              </>
+            )}
+            {status !== "closed" && period?.reopened_at && (
+              <span className="block text-xs opacity-75 mt-0.5">
+                Reopened {formatDate(period.reopened_at)} by {period.reopened_by}: {period.reopen_reason}
+              </span>
+            )}
+          </p>
+        </div>
+        {manage && (
+          <div className="flex gap-2">
+            {status === "open" && (
+              <button onClick={() => setStatus("closing")} disabled={isSaving} className="btn btn-secondary text-xs py-1.5">
+                Start Closing
+              </button>
+            )}
+            {status === "closing" && (
+              <>
+                <button onClick={() => setStatus("open")} disabled={isSaving} className="btn btn-secondary text-xs py-1.5">
+                  Back to Open
+                </button>
+                <button onClick={handleClose} disabled={isSaving} className="btn btn-primary text-xs py-1.5">
+                  Close Period
+                </button>
+              </>
+            )}
+            {status === "closed" && (
+              <button onClick={() => setShowReopen(true)} disabled={isSaving} className="btn btn-secondary text-xs py-1.5">
+                Reopen...
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showReopen && (
+        <div className="modal-overlay" onClick={() => setShowReopen(false)}>
+          <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+            <div className="px-6 py-4 border-b border-surface-100">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-surface-900">Reopen {periodName}</h2>
+                <button onClick={() => setShowReopen(false)} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+                  <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-surface-600">
+                Reopening unlocks the month's performance, budget, salary and rate rows. The reopen is recorded in the
+                audit log with your name and reason.
+              </p>
+              <div>
+                <label className="form-label">Reason *</label>
+                <textarea
+                  className="form-input"
+                  rows={3}
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  placeholder="e.g. Late fuel receipts for two drivers"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4 border-t border-surface-100">
+                <button onClick={() => setShowReopen(false)} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleReopen} disabled={isSaving} className="btn btn-primary">
+                  {isSaving ? "Reopening..." : "Reopen Period"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function LockIcon() {
+  return (
+    <svg className="w-4 h-4 mt-0.5 flex-shrink-0 text-current opacity-70" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+      />
+    </svg>
+  );
+}
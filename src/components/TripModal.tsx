@@ -0,0 +1,262 @@
+import { format } from "date-fns";
+import { useState } from "react";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { Trip, TripInsert } from "../types/database";
+import { getOdometerKilometers, validateTrip } from "../utils/trips";
+import { getAssignmentOn } from "../utils/vehicles";
+
+interface TripModalProps {
+  driverId: string;
+  trip?: Trip;                    // edit (or void) this trip; omit to log a new one
+  onClose: () => void;
+}
+
+// datetime-local inputs work in local time; the database stores UTC timestamps
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export default function TripModal({ driverId, trip, onClose }: TripModalProps) {
+  const { vehicles, vehicleAssignments, showToast } = useStore();
+  const today = new Date().toISOString().split("T")[0];
+  const [isSaving, setIsSaving] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
+  const [formData, setFormData] = useState({
+    trip_date: trip?.trip_date ?? today,
+    vehicle_id:
+      trip?.vehicle_id ?? getAssignmentOn(vehicleAssignments, { driverId }, today)?.vehicle_id ?? "",
+    origin: trip?.origin ?? "",
+    destination: trip?.destination ?? "",
+    start_odometer: trip?.start_odometer?.toString() ?? "",
+    end_odometer: trip?.end_odometer?.toString() ?? "",
+    kilometers: trip?.kilometers?.toString() ?? "",
+    load_reference: trip?.load_reference ?? "",
+    planned_delivery_at: toLocalInput(trip?.planned_delivery_at ?? null),
+    actual_delivery_at: toLocalInput(trip?.actual_delivery_at ?? null),
+    notes: trip?.notes ?? "",
+  });
+
+  const startOdometer = formData.start_odometer === "" ? null : parseFloat(formData.start_odometer);
+  const endOdometer = formData.end_odometer === "" ? null : parseFloat(formData.end_odometer);
+  const odometerKm = getOdometerKilometers(startOdometer, endOdometer);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>,
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => {
+      const next = { ...prev, [name]: value };
+      // A new trip defaults to the truck the driver was assigned on the trip date
+      if (name === "trip_date" && !trip && value) {
+        next.vehicle_id = getAssignmentOn(vehicleAssignments, { driverId }, value)?.vehicle_id ?? prev.vehicle_id;
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: TripInsert = {
+      driver_id: driverId,
+      vehicle_id: formData.vehicle_id || null,
+      trip_date: formData.trip_date,
+      origin: formData.origin.trim(),
+      destination: formData.destination.trim(),
+      start_odometer: startOdometer,
+      end_odometer: endOdometer,
+      kilometers: odometerKm ?? parseFloat(formData.kilometers),
+      load_reference: formData.load_reference.trim() || null,
+      planned_delivery_at: fromLocalInput(formData.planned_delivery_at),
+      actual_delivery_at: fromLocalInput(formData.actual_delivery_at),
+      status: trip?.status ?? "completed",
+      void_reason: trip?.void_reason ?? null,
+      voided_at: trip?.voided_at ?? null,
+      notes: formData.notes || null,
+    };
+
+    const errors = validateTrip(data);
+    if (errors.length > 0) {
+      showToast(errors[0]);
+      return;
+    }
+
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = trip
+        ? await supabase.from("trips").update(data).eq("id", trip.id)
+        : await supabase.from("trips").insert(data);
+      if (error) throw error;
+      showToast(trip ? "Trip updated successfully" : "Trip logged successfully");
+      onClose();
+    } catch (error: unknown) {
+      console.error("Error saving trip:", error);
+      const message = error instanceof Error ? error.message : "Error saving trip";
+      showToast(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Voided trips stay in the log but drop out of the monthly totals
+  const handleVoid = async () => {
+    if (!trip) return;
+    if (!voidReason.trim()) {
+      showToast("Enter a reason for voiding the trip");
+      return;
+    }
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("trips")
+        .update({ status: "voided", void_reason: voidReason.trim(), voided_at: new Date().toISOString() })
+        .eq("id", trip.id);
+      if (error) throw error;
+      showToast("Trip voided");
+      onClose();
+    } catch (error) {
+      console.error("Error voiding trip:", error);
+      showToast("Error voiding trip");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isVoided = trip?.status === "voided";
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-surface-900">
+              {!trip ? "Log Trip" : isVoided ? "Voided Trip" : "Edit Trip"}
+            </h2>
+            <button onClick={onClose} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+              <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {isVoided && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-700">
+              Voided: {trip.void_reason}
+            </div>
+          )}
+
+          <fieldset disabled={isVoided} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="form-label">Date *</label>
+                <input type="date" name="trip_date" className="form-input" value={formData.trip_date} onChange={handleChange} required />
+              </div>
+              <div>
+                <label className="form-label">Truck</label>
+                <select name="vehicle_id" className="form-select" value={formData.vehicle_id} onChange={handleChange}>
+                  <option value="">Not recorded</option>
+                  {vehicles.map((v) => (
+                    <option key={v.id} value={v.id}>
+                      {v.registration_number}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Origin *</label>
+                <input type="text" name="origin" className="form-input" value={formData.origin} onChange={handleChange} required />
+              </div>
+              <div>
+                <label className="form-label">Destination *</label>
+                <input type="text" name="destination" className="form-input" value={formData.destination} onChange={handleChange} required />
+              </div>
+              <div>
+                <label className="form-label">Start Odometer</label>
+                <input type="number" step="0.1" name="start_odometer" className="form-input" value={formData.start_odometer} onChange={handleChange} />
+              </div>
+              <div>
+                <label className="form-label">End Odometer</label>
+                <input type="number" step="0.1" name="end_odometer" className="form-input" value={formData.end_odometer} onChange={handleChange} />
+              </div>
+              <div>
+                <label className="form-label">Kilometers *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="kilometers"
+                  className="form-input"
+                  value={odometerKm !== null ? odometerKm.toString() : formData.kilometers}
+                  onChange={handleChange}
+                  readOnly={odometerKm !== null}
+                  required
+                />
+                {odometerKm !== null && (
+                  <p className="text-xs text-surface-500 mt-1">From the odometer readings</p>
+                )}
+              </div>
+              <div>
+                <label className="form-label">Load Reference</label>
+                <input type="text" name="load_reference" className="form-input" value={formData.load_reference} onChange={handleChange} />
+              </div>
+              <div>
+                <label className="form-label">Planned Delivery</label>
+                <input type="datetime-local" name="planned_delivery_at" className="form-input" value={formData.planned_delivery_at} onChange={handleChange} />
+              </div>
+              <div>
+                <label className="form-label">Actual Delivery</label>
+                <input type="datetime-local" name="actual_delivery_at" className="form-input" value={formData.actual_delivery_at} onChange={handleChange} />
+              </div>
+            </div>
+
+            <div>
+              <label className="form-label">Notes</label>
+              <textarea name="notes" className="form-input" rows={2} value={formData.notes} onChange={handleChange} />
+            </div>
+          </fieldset>
+
+          {trip && !isVoided && (
+            <div className="p-3 rounded-lg bg-surface-50 border border-surface-100 space-y-2">
+              <label className="form-label">Void this trip</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="form-input"
+                  placeholder="Reason (e.g. duplicate entry)"
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                />
+                <button type="button" onClick={handleVoid} disabled={isSaving} className="btn btn-secondary text-red-600">
+                  Void
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-surface-100">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              {isVoided ? "Close" : "Cancel"}
+            </button>
+            {!isVoided && (
+              <button type="submit" className="btn btn-primary" disabled={isSaving}>
+                {isSaving ? "Saving..." : trip ? "Save Changes" : "Log Trip"}
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { Vehicle, VehicleInsert } from "../types/database";
+import { VEHICLE_STATUS_LABELS, VEHICLE_TYPES } from "../utils/vehicles";
+
+interface VehicleModalProps {
+  vehicle?: Vehicle;              // edit this vehicle; omit to register a new one
+  onClose: () => void;
+}
+
+export default function VehicleModal({ vehicle, onClose }: VehicleModalProps) {
+  const { showToast } = useStore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<VehicleInsert>({
+    registration_number: vehicle?.registration_number ?? "",
+    vehicle_type: vehicle?.vehicle_type ?? VEHICLE_TYPES[0],
+    make: vehicle?.make ?? "",
+    model: vehicle?.model ?? "",
+    fleet: vehicle?.fleet ?? "local",
+    status: vehicle?.status ?? "active",
+    commissioned_date: vehicle?.commissioned_date ?? new Date().toISOString().split("T")[0],
+    retired_date: vehicle?.retired_date ?? null,
+    tank_capacity_litres: vehicle?.tank_capacity_litres ?? null,
+    notes: vehicle?.notes ?? "",
+  });
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>,
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.registration_number || !formData.vehicle_type || !formData.commissioned_date) {
+      showToast("Please fill in all required fields");
+      return;
+    }
+    if (formData.status === "retired" && !formData.retired_date) {
+      showToast("Enter the date the truck was retired");
+      return;
+    }
+    if (formData.retired_date && formData.retired_date < formData.commissioned_date) {
+      showToast("Retired date cannot be before the commissioned date");
+      return;
+    }
+
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const data: VehicleInsert = {
+      ...formData,
+      registration_number: formData.registration_number.trim().toUpperCase(),
+      make: formData.make || null,
+      model: formData.model || null,
+      retired_date: formData.retired_date || null,
+      notes: formData.notes || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = vehicle
+        ? await supabase.from("vehicles").update(data).eq("id", vehicle.id)
+        : await supabase.from("vehicles").insert(data);
+      if (error) throw error;
+      showToast(vehicle ? "Vehicle updated successfully" : "Vehicle registered successfully");
+      onClose();
+    } catch (error: unknown) {
+      console.error("Error saving vehicle:", error);
+      const message = error instanceof Error ? error.message : "Error saving vehicle";
+      showToast(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-surface-900">
+              {vehicle ? `Edit ${vehicle.registration_number}` : "Register Vehicle"}
+            </h2>
+            <button onClick={onClose} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+              <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Registration *</label>
+              <input
+                type="text"
+                name="registration_number"
+                className="form-input font-mono uppercase"
+                value={formData.registration_number}
+                onChange={handleChange}
+                placeholder="ABC 1234"
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">Type *</label>
+              <select name="vehicle_type" className="form-select" value={formData.vehicle_type} onChange={handleChange}>
+                {[...new Set([...VEHICLE_TYPES, formData.vehicle_type])].map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Make</label>
+              <input type="text" name="make" className="form-input" value={formData.make ?? ""} onChange={handleChange} />
+            </div>
+            <div>
+              <label className="form-label">Model</label>
+              <input type="text" name="model" className="form-input" value={formData.model ?? ""} onChange={handleChange} />
+            </div>
+            <div>
+              <label className="form-label">Fleet *</label>
+              <select name="fleet" className="form-select" value={formData.fleet} onChange={handleChange}>
+                <option value="local">Local</option>
+                <option value="export">Export</option>
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Status *</label>
+              <select name="status" className="form-select" value={formData.status} onChange={handleChange}>
+                {(Object.keys(VEHICLE_STATUS_LABELS) as Vehicle["status"][]).map((status) => (
+                  <option key={status} value={status}>
+                    {VEHICLE_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">In Service From *</label>
+              <input
+                type="date"
+                name="commissioned_date"
+                className="form-input"
+                value={formData.commissioned_date}
+                onChange={handleChange}
+                required
+              />
+            </div>
+            <div>
+              <label className="form-label">Retired On{formData.status === "retired" ? " *" : ""}</label>
+              <input
+                type="date"
+                name="retired_date"
+                className="form-input"
+                value={formData.retired_date ?? ""}
+                onChange={handleChange}
+              />
+            </div>
+            <div>
+              <label className="form-label">Tank Capacity (L)</label>
+              <input
+                type="number"
+                min="0"
+                className="form-input"
+                value={formData.tank_capacity_litres ?? ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    tank_capacity_litres: e.target.value ? parseFloat(e.target.value) : null,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">Notes</label>
+            <textarea name="notes" className="form-input" rows={2} value={formData.notes ?? ""} onChange={handleChange} />
+          </div>
+
+          <p className="text-xs text-surface-500">
+            The truck counts towards its fleet's monthly truck count for every month it is in service.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-surface-100">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={isSaving}>
+              {isSaving ? "Saving..." : vehicle ? "Save Changes" : "Register Vehicle"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import
         XAxis,
         YAxis,
     } from "recharts";
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns";
 import { formatCurrency, formatNumber } from "../../utils/formatters";
 
 // Color palette
@@ -473,6 +474,114 @@ export function LineComparisonChart({
   );
 }
 
+// Heatmap calendar: one cell per day, weeks as columns (Monday first)
+const HEAT_COLORS = ["#f1f5f9", "#dbeafe", "#93c5fd", "#3b82f6", "#1d4ed8"];
+
+interface HeatmapCalendarProps {
+  data: { date: string; value: number }[];
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  cellSize?: number;
+  valueFormatter?: (value: number) => string;
+  onDayClick?: (date: string) => void;
+}
+
+export function HeatmapCalendar({
+  data,
+  startDate,
+  endDate,
+  cellSize = 12,
+  valueFormatter = (value) => `${formatNumber(value)} km`,
+  onDayClick,
+}: HeatmapCalendarProps) {
+  const gap = 2;
+  const labelWidth = 24;
+  const labelHeight = 14;
+  const values = new Map(data.map((d) => [d.date, d.value]));
+  const max = Math.max(0, ...data.map((d) => d.value));
+
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  const gridStart = startOfWeek(start, { weekStartsOn: 1 });
+  const totalDays = differenceInCalendarDays(end, gridStart) + 1;
+  const weeks = Math.ceil(totalDays / 7);
+
+  const getLevel = (value: number) => (max > 0 && value > 0 ? Math.max(1, Math.ceil((value / max) * 4)) : 0);
+
+  const cells = [];
+  const monthLabels = [];
+  for (let i = 0; i < totalDays; i++) {
+    const day = addDays(gridStart, i);
+    if (day < start) continue;
+    const week = Math.floor(i / 7);
+    const weekday = i % 7;
+    const date = format(day, "yyyy-MM-dd");
+    const value = values.get(date);
+
+    if (day.getDate() === 1 || i === differenceInCalendarDays(start, gridStart)) {
+      monthLabels.push(
+        <text
+          key={`label-${date}`}
+          x={labelWidth + week * (cellSize + gap)}
+          y={10}
+          fontSize={10}
+          fill="#64748b"
+        >
+          {format(day, "MMM")}
+        </text>
+      );
+    }
+
+    cells.push(
+      <rect
+        key={date}
+        x={labelWidth + week * (cellSize + gap)}
+        y={labelHeight + weekday * (cellSize + gap)}
+        width={cellSize}
+        height={cellSize}
+        rx={2}
+        fill={HEAT_COLORS[getLevel(value ?? 0)]}
+        className={onDayClick ? "cursor-pointer" : undefined}
+        onClick={onDayClick ? () => onDayClick(date) : undefined}
+      >
+        <title>
+          {format(day, "EEE d MMM yyyy")}: {value === undefined ? "not logged" : valueFormatter(value)}
+        </title>
+      </rect>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={labelWidth + weeks * (cellSize + gap)}
+        height={labelHeight + 7 * (cellSize + gap)}
+      >
+        {monthLabels}
+        {["Mon", "Wed", "Fri"].map((label, i) => (
+          <text
+            key={label}
+            x={0}
+            y={labelHeight + i * 2 * (cellSize + gap) + cellSize - 2}
+            fontSize={9}
+            fill="#94a3b8"
+          >
+            {label}
+          </text>
+        ))}
+        {cells}
+      </svg>
+      <div className="flex items-center justify-end gap-1 mt-2 text-xs text-surface-500">
+        <span>Less</span>
+        {HEAT_COLORS.map((color) => (
+          <span key={color} className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
+
 // Stat card with sparkline
 interface StatCardWithSparklineProps {
   title: string;
@@ -18,6 +18,11 @@ export function useRealtimeData() {
     setCustomFormulas,
     setDriverPerformance,
     setIncentiveCalculations,
+    setVehicles,
+    setVehicleAssignments,
+    setCalendarDays,
+    setPayrollPeriods,
+    setPaymentRuns,
     setIsLoading,
     showToast,
   } = useStore();
@@ -41,6 +46,11 @@ export function useRealtimeData() {
         formulasRes,
         performanceRes,
         calculationsRes,
+        vehiclesRes,
+        assignmentsRes,
+        calendarRes,
+        payrollPeriodsRes,
+        paymentRunsRes,
       ] = await Promise.all([
         supabase.from("drivers").select("*").order("first_name"),
         supabase
@@ -69,6 +79,14 @@ export function useRealtimeData() {
           .from("incentive_calculations")
           .select("*")
           .order("year", { ascending: false }),
+        supabase.from("vehicles").select("*").order("registration_number"),
+        supabase
+          .from("vehicle_assignments")
+          .select("*")
+          .order("start_date", { ascending: false }),
+        supabase.from("calendar_days").select("*").order("calendar_date"),
+        supabase.from("payroll_periods").select("*").order("year", { ascending: false }),
+        supabase.from("payment_runs").select("*").order("created_at", { ascending: false }),
       ]);
 
       if (driversRes.data) setDrivers(driversRes.data);
@@ -80,6 +98,11 @@ export function useRealtimeData() {
       if (formulasRes.data) setCustomFormulas(formulasRes.data);
       if (performanceRes.data) setDriverPerformance(performanceRes.data);
       if (calculationsRes.data) setIncentiveCalculations(calculationsRes.data);
+      if (vehiclesRes.data) setVehicles(vehiclesRes.data);
+      if (assignmentsRes.data) setVehicleAssignments(assignmentsRes.data);
+      if (calendarRes.data) setCalendarDays(calendarRes.data);
+      if (payrollPeriodsRes.data) setPayrollPeriods(payrollPeriodsRes.data);
+      if (paymentRunsRes.data) setPaymentRuns(paymentRunsRes.data);
     } catch (error) {
       console.error("Error fetching initial data:", error);
       showToast("Error loading data");
@@ -96,6 +119,11 @@ export function useRealtimeData() {
     setCustomFormulas,
     setDriverPerformance,
     setIncentiveCalculations,
+    setVehicles,
+    setVehicleAssignments,
+    setCalendarDays,
+    setPayrollPeriods,
+    setPaymentRuns,
     setIsLoading,
     showToast,
   ]);
@@ -185,6 +213,51 @@ export function useRealtimeData() {
     if (data) setIncentiveCalculations(data);
   }, [setIncentiveCalculations]);
 
+  // Handle realtime vehicle changes
+  const handleVehicleChange = useCallback(async () => {
+    const { data } = await supabase
+      .from("vehicles")
+      .select("*")
+      .order("registration_number");
+    if (data) setVehicles(data);
+  }, [setVehicles]);
+
+  // Handle realtime vehicle assignment changes
+  const handleAssignmentChange = useCallback(async () => {
+    const { data } = await supabase
+      .from("vehicle_assignments")
+      .select("*")
+      .order("start_date", { ascending: false });
+    if (data) setVehicleAssignments(data);
+  }, [setVehicleAssignments]);
+
+  // Handle realtime working calendar changes
+  const handleCalendarChange = useCallback(async () => {
+    const { data } = await supabase
+      .from("calendar_days")
+      .select("*")
+      .order("calendar_date");
+    if (data) setCalendarDays(data);
+  }, [setCalendarDays]);
+
+  // Handle realtime payroll period changes
+  const handlePayrollPeriodChange = useCallback(async () => {
+    const { data } = await supabase
+      .from("payroll_periods")
+      .select("*")
+      .order("year", { ascending: false });
+    if (data) setPayrollPeriods(data);
+  }, [setPayrollPeriods]);
+
+  // Handle realtime payment run changes
+  const handlePaymentRunChange = useCallback(async () => {
+    const { data } = await supabase
+      .from("payment_runs")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (data) setPaymentRuns(data);
+  }, [setPaymentRuns]);
+
   // Subscribe to realtime changes
   useEffect(() => {
     if (!isSupabaseConfigured()) return;
@@ -240,6 +313,31 @@ export function useRealtimeData() {
         { event: "*", schema: "public", table: "incentive_calculations" },
         handleCalculationChange,
       )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "vehicles" },
+        handleVehicleChange,
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "vehicle_assignments" },
+        handleAssignmentChange,
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "calendar_days" },
+        handleCalendarChange,
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "payroll_periods" },
+        handlePayrollPeriodChange,
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "payment_runs" },
+        handlePaymentRunChange,
+      )
       .subscribe();
 
     return () => {
@@ -256,6 +354,11 @@ export function useRealtimeData() {
     handleFormulaChange,
     handlePerformanceChange,
     handleCalculationChange,
+    handleVehicleChange,
+    handleAssignmentChange,
+    handleCalendarChange,
+    handlePayrollPeriodChange,
+    handlePaymentRunChange,
   ]);
 
   return { refetch: fetchInitialData };
@@ -390,11 +493,569 @@ export function useDriverRecords(driverId: string | undefined) {
   return { ...records, loading };
 }
 
+// Hook for fetching a driver's quarterly and annual bonus lines
+export function useDriverPeriodBonuses(driverId: string | undefined) {
+  const [periodBonuses, setPeriodBonuses] = useState<PeriodBonus[]>([]);
+
+  useEffect(() => {
+    if (!driverId || !isSupabaseConfigured()) return;
+
+    const fetchBonuses = async () => {
+      const { data, error } = await supabase
+        .from("period_bonuses")
+        .select("*")
+        .eq("driver_id", driverId)
+        .order("year", { ascending: false })
+        .order("period_number", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching period bonuses:", error);
+        return;
+      }
+      setPeriodBonuses(data || []);
+    };
+
+    fetchBonuses();
+
+    const channel = supabase
+      .channel(`driver-${driverId}-period-bonuses`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "period_bonuses",
+          filter: `driver_id=eq.${driverId}`,
+        },
+        fetchBonuses,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [driverId]);
+
+  return periodBonuses;
+}
+
+// Hook for fetching a driver's trip log, newest first
+export function useDriverTrips(driverId: string | undefined) {
+  const [trips, setTrips] = useState<Trip[]>([]);
+
+  useEffect(() => {
+    if (!driverId || !isSupabaseConfigured()) return;
+
+    const fetchTrips = async () => {
+      const { data, error } = await supabase
+        .from("trips")
+        .select("*")
+        .eq("driver_id", driverId)
+        .order("trip_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching trips:", error);
+        return;
+      }
+      setTrips(data || []);
+    };
+
+    fetchTrips();
+
+    const channel = supabase
+      .channel(`driver-${driverId}-trips`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "trips",
+          filter: `driver_id=eq.${driverId}`,
+        },
+        fetchTrips,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [driverId]);
+
+  return trips;
+}
+
+// Hook for fetching daily kilometre entries between two dates (yyyy-MM-dd),
+// for one driver or every driver
+export function useDailyKilometers(
+  start: string,
+  end: string,
+  driverId?: string,
+) {
+  const [entries, setEntries] = useState<DailyKilometer[]>([]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const fetchEntries = async () => {
+      let query = supabase
+        .from("daily_kilometers")
+        .select("*")
+        .gte("log_date", start)
+        .lte("log_date", end);
+      if (driverId) query = query.eq("driver_id", driverId);
+
+      const { data, error } = await query.order("log_date");
+      if (error) {
+        console.error("Error fetching daily kilometers:", error);
+        return;
+      }
+      setEntries(data || []);
+    };
+
+    fetchEntries();
+
+    const channel = supabase
+      .channel(`daily-kilometers-${driverId || "all"}-${start}-${end}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "daily_kilometers",
+          ...(driverId ? { filter: `driver_id=eq.${driverId}` } : {}),
+        },
+        fetchEntries,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [start, end, driverId]);
+
+  return entries;
+}
+
+// Hook for fetching fuel fills between two dates (yyyy-MM-dd)
+export function useFuelTransactions(start: string, end: string) {
+  const [transactions, setTransactions] = useState<FuelTransaction[]>([]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const fetchTransactions = async () => {
+      const { data, error } = await supabase
+        .from("fuel_transactions")
+        .select("*")
+        .gte("transaction_date", start)
+        .lte("transaction_date", end)
+        .order("transaction_date", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching fuel transactions:", error);
+        return;
+      }
+      setTransactions(data || []);
+    };
+
+    fetchTransactions();
+
+    const channel = supabase
+      .channel(`fuel-transactions-${start}-${end}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "fuel_transactions" },
+        fetchTransactions,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [start, end]);
+
+  return transactions;
+}
+
+// Hook for fetching the approval sign-offs of a period's calculations,
+// including revoked ones
+export function useCalculationApprovals(year: number, month: number) {
+  const [approvals, setApprovals] = useState<CalculationApproval[]>([]);
+
+  const fetchApprovals = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+
+    const { data, error } = await supabase
+      .from("calculation_approvals")
+      .select("*, incentive_calculations!inner(year, month)")
+      .eq("incentive_calculations.year", year)
+      .eq("incentive_calculations.month", month)
+      .order("approved_at");
+
+    if (error) {
+      console.error("Error fetching calculation approvals:", error);
+      return;
+    }
+    setApprovals(data || []);
+  }, [year, month]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    fetchApprovals();
+
+    const channel = supabase
+      .channel(`calculation-approvals-${year}-${month}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "calculation_approvals" },
+        fetchApprovals,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [year, month, fetchApprovals]);
+
+  return { approvals, refetch: fetchApprovals };
+}
+
+// Hook for fetching the payroll export log of a period, including voided exports
+export function usePayrollExports(year: number, month: number) {
+  const [exports, setExports] = useState<PayrollExport[]>([]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const fetchExports = async () => {
+      const { data, error } = await supabase
+        .from("payroll_exports")
+        .select("*")
+        .eq("year", year)
+        .eq("month", month)
+        .order("exported_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching payroll exports:", error);
+        return;
+      }
+      setExports(data || []);
+    };
+
+    fetchExports();
+
+    const channel = supabase
+      .channel(`payroll-exports-${year}-${month}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "payroll_exports" },
+        fetchExports,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [year, month]);
+
+  return exports;
+}
+
+// Hook for fetching a period's batch calculation jobs, newest first, with live progress
+export function useBatchCalculationJobs(year: number, month: number) {
+  const [jobs, setJobs] = useState<BatchCalculationJob[]>([]);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const fetchJobs = async () => {
+      const { data, error } = await supabase
+        .from("batch_calculation_jobs")
+        .select("*")
+        .eq("year", year)
+        .eq("month", month)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching batch calculation jobs:", error);
+        return;
+      }
+      setJobs(data || []);
+    };
+
+    fetchJobs();
+
+    const channel = supabase
+      .channel(`batch-calculation-jobs-${year}-${month}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "batch_calculation_jobs" },
+        fetchJobs,
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [year, month]);
+
+  return jobs;
+}
+
 import { useState } from "react";
 import type {
   Accident,
+  BatchCalculationJob,
+  CalculationApproval,
+  DailyKilometer,
+  FuelTransaction,
   DisciplinaryRecord,
   Incident,
+  IncentiveSetting,
+  KilometerRate,
   LeaveRecord,
+  PayrollExport,
+  PeriodBonus,
+  Trip,
+  Vehicle,
 } from "../types/database";
+import { analyzeFuelFills, getFuelLedgerRange, getMonthlyFuelEfficiency } from "../utils/fuelLedger";
+import { planKilometerRate } from "../utils/kilometerRates";
+import { EMPTY_PERIOD_RECORDS, type DriverPeriodRecords } from "../utils/periods";
+import { planSettingVersion } from "../utils/settingsVersions";
+
+// Fetch every driver's accidents, incidents, leave, disciplinary records and
+// status changes that touch a month (used by deductions and pro-ration)
+export async function fetchPeriodDriverRecords(
+  year: number,
+  month: number,
+): Promise<DriverPeriodRecords> {
+  if (!isSupabaseConfigured()) return EMPTY_PERIOD_RECORDS;
+
+  const start = `${year}-${month.toString().padStart(2, "0")}-01`;
+  const end = `${year}-${month.toString().padStart(2, "0")}-${new Date(year, month, 0).getDate()}`;
+
+  const [accidentsRes, incidentsRes, leaveRes, disciplinaryRes, statusRes] =
+    await Promise.all([
+      supabase
+        .from("accidents")
+        .select("*")
+        .gte("incident_date", start)
+        .lte("incident_date", end),
+      supabase
+        .from("incidents")
+        .select("*")
+        .gte("incident_date", start)
+        .lte("incident_date", end),
+      supabase
+        .from("leave_records")
+        .select("*")
+        .lte("start_date", end)
+        .gte("end_date", start),
+      // Suspensions may have no end_date, so filter by start only and let the
+      // deduction rules work out the overlap
+      supabase
+        .from("disciplinary_records")
+        .select("*")
+        .eq("record_type", "suspension")
+        .lte("record_date", end),
+      // Earlier changes are needed to know each driver's status on the 1st
+      supabase
+        .from("driver_status_history")
+        .select("*")
+        .lte("effective_date", end)
+        .order("effective_date", { ascending: true }),
+    ]);
+
+  if (
+    accidentsRes.error ||
+    incidentsRes.error ||
+    leaveRes.error ||
+    disciplinaryRes.error ||
+    statusRes.error
+  ) {
+    throw new Error("Error loading accident, incident, leave, disciplinary or status records");
+  }
+
+  return {
+    accidents: accidentsRes.data || [],
+    incidents: incidentsRes.data || [],
+    leaveRecords: leaveRes.data || [],
+    disciplinaryRecords: disciplinaryRes.data || [],
+    statusChanges: statusRes.data || [],
+  };
+}
+
+// Fetch accidents within a bonus period and every status change up to its end
+// (used by quarterly and annual bonus rules)
+export async function fetchBonusPeriodRecords(
+  start: string,
+  end: string,
+): Promise<Pick<DriverPeriodRecords, "accidents" | "statusChanges">> {
+  if (!isSupabaseConfigured()) return { accidents: [], statusChanges: [] };
+
+  const [accidentsRes, statusRes] = await Promise.all([
+    supabase
+      .from("accidents")
+      .select("*")
+      .gte("incident_date", start)
+      .lte("incident_date", end),
+    supabase
+      .from("driver_status_history")
+      .select("*")
+      .lte("effective_date", end)
+      .order("effective_date", { ascending: true }),
+  ]);
+
+  if (accidentsRes.error || statusRes.error) {
+    throw new Error("Error loading accident or status records");
+  }
+
+  return {
+    accidents: accidentsRes.data || [],
+    statusChanges: statusRes.data || [],
+  };
+}
+
+// Save a new effective-dated version of an incentive setting. Updates the
+// version starting on the same date, or inserts one and closes the version it
+// supersedes (see planSettingVersion).
+export async function saveIncentiveSettingVersion(
+  settings: IncentiveSetting[],
+  key: string,
+  value: unknown,
+  description: string,
+  effectiveFrom: string,
+): Promise<void> {
+  const plan = planSettingVersion(settings, key, effectiveFrom);
+
+  if (plan.updateId) {
+    const { error } = await supabase
+      .from("incentive_settings")
+      .update({ setting_value: value, is_active: true })
+      .eq("id", plan.updateId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("incentive_settings").insert({
+    setting_key: key,
+    setting_value: value,
+    description,
+    is_active: true,
+    effective_from: effectiveFrom,
+    effective_to: plan.effectiveTo,
+  });
+  if (error) throw error;
+
+  if (plan.close) {
+    const { error: closeError } = await supabase
+      .from("incentive_settings")
+      .update({ effective_to: plan.close.effective_to })
+      .eq("id", plan.close.id);
+    if (closeError) throw closeError;
+  }
+}
+
+// Write each driver's ledger km/L for a month to driver_performance, with the
+// fills it came from. Drivers whose ledger km/L no longer has usable fills go
+// back to a blank, manually entered value. Returns the number of rows written.
+export async function syncLedgerFuelEfficiency(
+  year: number,
+  month: number,
+  vehicles: Vehicle[],
+): Promise<number> {
+  const range = getFuelLedgerRange(year, month);
+  const [fillsRes, ledgerRowsRes] = await Promise.all([
+    supabase
+      .from("fuel_transactions")
+      .select("*")
+      .gte("transaction_date", range.start)
+      .lte("transaction_date", range.end),
+    supabase
+      .from("driver_performance")
+      .select("id, driver_id")
+      .eq("year", year)
+      .eq("month", month)
+      .eq("fuel_efficiency_source", "ledger"),
+  ]);
+  if (fillsRes.error) throw fillsRes.error;
+  if (ledgerRowsRes.error) throw ledgerRowsRes.error;
 
+  const results = getMonthlyFuelEfficiency(
+    analyzeFuelFills(fillsRes.data || [], vehicles),
+    year,
+    month,
+  ).filter((r) => r.kmPerLitre !== null);
+
+  for (const result of results) {
+    const { error } = await supabase.from("driver_performance").upsert(
+      {
+        driver_id: result.driverId,
+        year,
+        month,
+        fuel_efficiency: result.kmPerLitre,
+        fuel_efficiency_source: "ledger",
+        fuel_transaction_ids: result.transactionIds,
+      },
+      { onConflict: "driver_id,year,month" },
+    );
+    if (error) throw error;
+  }
+
+  const computed = new Set(results.map((r) => r.driverId));
+  const stale = (ledgerRowsRes.data || []).filter(
+    (row: { driver_id: string }) => !computed.has(row.driver_id),
+  );
+  for (const row of stale) {
+    const { error } = await supabase
+      .from("driver_performance")
+      .update({ fuel_efficiency: null, fuel_efficiency_source: "manual", fuel_transaction_ids: [] })
+      .eq("id", row.id);
+    if (error) throw error;
+  }
+
+  return results.length + stale.length;
+}
+
+// Save a kilometer rate for a driver type from a (possibly mid-month) date.
+// Updates the rate starting on the same date, or inserts one and closes the
+// rate it supersedes (see planKilometerRate).
+export async function saveKilometerRate(
+  rates: KilometerRate[],
+  driverType: "local" | "export",
+  ratePerKm: number,
+  effectiveFrom: string,
+): Promise<void> {
+  const plan = planKilometerRate(rates, driverType, effectiveFrom);
+
+  if (plan.updateId) {
+    const { error } = await supabase
+      .from("kilometer_rates")
+      .update({ rate_per_km: ratePerKm })
+      .eq("id", plan.updateId);
+    if (error) throw error;
+    return;
+  }
+
+  // Close the superseded rate first so the new one never overlaps it
+  if (plan.close) {
+    const { error: closeError } = await supabase
+      .from("kilometer_rates")
+      .update({ effective_to: plan.close.effective_to })
+      .eq("id", plan.close.id);
+    if (closeError) throw closeError;
+  }
+
+  const { error } = await supabase.from("kilometer_rates").insert({
+    driver_type: driverType,
+    rate_per_km: ratePerKm,
+    effective_from: effectiveFrom,
+    effective_to: plan.effectiveTo,
+    is_active: true,
+    notes: null,
+  });
+  if (error) throw error;
+}
@@ -13,13 +13,16 @@ import
         StatCardWithSparkline,
         TrendChart
     } from "../components/charts";
+import { useDailyKilometers } from "../hooks/useRealtimeData";
 import { useStore } from "../store/useStore";
 import
     {
+        calculateDailyProjection,
         calculateDriverRankings,
         calculateProjection,
         formatCompactNumber,
         getCurrentDayOfMonth,
+        getDailyKmTotals,
         getDaysInMonth,
         getIncentiveBreakdown,
         getMonthlyTrends,
@@ -34,6 +37,13 @@ import
         generateInitials,
         getMonthName,
     } from "../utils/formatters";
+import { resolveSettingsForPeriod } from "../utils/settingsVersions";
+import
+    {
+        countWorkingDays,
+        getWorkingCalendarConfig,
+        getWorkingDaysInMonth,
+    } from "../utils/workingCalendar";
 
 export default function AnalyticsPage() {
   const {
@@ -41,6 +51,8 @@ export default function AnalyticsPage() {
     driverPerformance,
     incentiveCalculations,
     monthlyBudgets,
+    incentiveSettings,
+    calendarDays,
     selectedYear,
     selectedMonth,
     setSelectedPeriod,
@@ -102,15 +114,39 @@ export default function AnalyticsPage() {
     };
   }, [currentMonthPerf, currentMonthCalc, monthlyBudgets, previousMonthPerf, drivers, selectedYear, selectedMonth]);
 
-  // Month-end projection
+  // Daily kilometre log for the month (drives the projection when present)
+  const monthPrefix = `${selectedYear}-${selectedMonth.toString().padStart(2, "0")}`;
+  const dailyEntries = useDailyKilometers(
+    `${monthPrefix}-01`,
+    `${monthPrefix}-${getDaysInMonth(selectedYear, selectedMonth)}`,
+  );
+
+  // Month-end projection over company working days
   const projection = useMemo(() => {
     const daysInMonth = getDaysInMonth(selectedYear, selectedMonth);
     const currentDay = selectedYear === new Date().getFullYear() && selectedMonth === new Date().getMonth() + 1
       ? getCurrentDayOfMonth()
       : daysInMonth;
-
-    return calculateProjection(stats.totalKm, stats.totalTarget, currentDay, daysInMonth);
-  }, [stats.totalKm, stats.totalTarget, selectedYear, selectedMonth]);
+    const workingDays = getWorkingDaysInMonth(
+      selectedYear,
+      selectedMonth,
+      calendarDays,
+      getWorkingCalendarConfig(resolveSettingsForPeriod(incentiveSettings, selectedYear, selectedMonth))
+    );
+
+    if (dailyEntries.length > 0) {
+      return calculateDailyProjection(
+        getDailyKmTotals(dailyEntries),
+        stats.totalTarget,
+        selectedYear,
+        selectedMonth,
+        currentDay,
+        workingDays
+      );
+    }
+    const { elapsed, total } = countWorkingDays(workingDays, currentDay);
+    return calculateProjection(stats.totalKm, stats.totalTarget, elapsed, total);
+  }, [stats.totalKm, stats.totalTarget, selectedYear, selectedMonth, dailyEntries, calendarDays, incentiveSettings]);
 
   // Trend data for sparklines
   const kmTrend = useMemo(() => getTrendData(driverPerformance, null, 6), [driverPerformance]);
@@ -378,15 +414,15 @@ export default function AnalyticsPage() {
                 </div>
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-surface-500">Current Pace</span>
-                  <span className="font-medium text-surface-900">{formatNumber(Math.round(projection.currentPace))} km/day</span>
+                  <span className="font-medium text-surface-900">{formatNumber(Math.round(projection.currentPace))} km/working day</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
-                  <span className="text-surface-500">Days Remaining</span>
+                  <span className="text-surface-500">Working Days Remaining</span>
                   <span className="font-medium text-surface-900">{projection.daysRemaining}</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-surface-500">Needed Daily</span>
-                  <span className="font-medium text-surface-900">{formatNumber(projection.dailyKmNeeded)} km/day</span>
+                  <span className="font-medium text-surface-900">{formatNumber(projection.dailyKmNeeded)} km/working day</span>
                 </div>
                 <div className="flex justify-between items-center text-sm pt-2 border-t border-surface-100">
                   <span className="text-surface-500">Confidence</span>
@@ -4,43 +4,106 @@
  * 
  * Features:
  * - Auto-calculate on performance entry
- * - Batch processing for month-end
+ * - Batch processing for month-end, tracked as resumable jobs
  * - Draft → Approval → Payment workflow
  * - Audit trail for all changes
  * - Undo/rollback capability
  * - What-if scenario calculator
+ * - Drift report against a fresh engine run
  */
 
 import { useCallback, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import BulkPerformanceModal from "../components/BulkPerformanceModal";
+import CalculationTraceModal from "../components/CalculationTraceModal";
+import PeriodLockBanner from "../components/PeriodLockBanner";
+import { useAuth } from "../contexts/AuthContext";
+import { fetchPeriodDriverRecords, useBatchCalculationJobs, useCalculationApprovals } from "../hooks/useRealtimeData";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
-import type { AuditLog, CalculationSnapshot, IncentiveCalculation } from "../types/database";
+import type
+    {
+        AuditLog,
+        BatchCalculationJob,
+        BatchCalculationJobError,
+        BatchCalculationJobInsert,
+        CalculationSnapshot,
+        IncentiveCalculation,
+        SavedWhatIfScenario,
+    } from "../types/database";
+import
+    {
+        describeApprovalProgress,
+        getApprovalChainsConfig,
+        getApprovalProgress,
+        getEntitledTransitions,
+        selectApprovalChain,
+    } from "../utils/approvals";
+import
+    {
+        BATCH_JOB_STATUS_LABELS,
+        BATCH_JOB_PROGRESS_INTERVAL,
+        getBatchJobErrors,
+        getBatchJobProgress,
+        getFailedDriverIds,
+        getRemainingDriverIds,
+        isBatchJobRunning,
+        isBatchJobStalled,
+    } from "../utils/batchJobs";
+import
+    {
+        buildDriftReport,
+        isLockedStatus,
+        summarizeDrift,
+        type CalculationDrift,
+        type DriftReport,
+    } from "../utils/calculationDrift";
 import
     {
         batchCalculateIncentives,
         calculateDriverIncentive,
         calculateWhatIfScenarios,
         generateDefaultScenarios,
-        getAvailableTransitions,
+        getCalculationTier,
+        getDriverTypeConfig,
         getStatusColor,
+        getTierBadgeColor,
         getStatusLabel,
         resultToIncentiveCalculation,
         type BatchCalculationResult,
+        type CalculationInput,
+        type CalculationResult,
         type WhatIfScenario,
+        type WhatIfScenarioInput,
         type WorkflowStatus
     } from "../utils/calculations";
 import
     {
         formatCurrency,
+        formatDateTime,
         formatNumber,
         formatPercentage,
         generateInitials,
         getAchievementColor,
         getMonthName,
     } from "../utils/formatters";
-
-type ViewMode = "overview" | "batch" | "workflow" | "whatif" | "audit";
+import { isPeriodLocked } from "../utils/periodClose";
+import { filterDriverRecords } from "../utils/periods";
+import { getSettingsVersion, resolveSettingsForPeriod } from "../utils/settingsVersions";
+
+type ViewMode = "overview" | "batch" | "workflow" | "whatif" | "drift" | "audit";
+
+/** Editable what-if scenario (blank fields keep the driver's actual value) */
+interface ScenarioDraft {
+  key: string;
+  savedId: string | null;
+  name: string;
+  additionalKm: string;
+  fuelEfficiency: string;
+  safetyScore: string;
+  onTimeRate: string;
+  customerRating: string;
+}
 
 export default function CalculationsPage() {
   const {
@@ -50,20 +113,36 @@ export default function CalculationsPage() {
     incentiveSettings,
     incentiveCalculations,
     customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
+    payrollPeriods,
+    paymentRuns,
     selectedYear,
     selectedMonth,
     setSelectedPeriod,
     showToast,
     setIncentiveCalculations,
   } = useStore();
+  const { user } = useAuth();
+  const userEmail = user?.email ?? null;
+
+  const periodLocked = isPeriodLocked(payrollPeriods, selectedYear, selectedMonth);
 
   const [viewMode, setViewMode] = useState<ViewMode>("overview");
   const [isProcessing, setIsProcessing] = useState(false);
   const [showBulkModal, setShowBulkModal] = useState(false);
   const [batchResult, setBatchResult] = useState<BatchCalculationResult | null>(null);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
   const [selectedDriverId, setSelectedDriverId] = useState<string>("");
-  const [whatIfScenarios, setWhatIfScenarios] = useState<WhatIfScenario[]>([]);
-  const [customScenario, setCustomScenario] = useState({ name: "", km: "" });
+  const [scenarioDrafts, setScenarioDrafts] = useState<ScenarioDraft[]>([]);
+  const [savedScenarios, setSavedScenarios] = useState<SavedWhatIfScenario[]>([]);
+  const [whatIfResult, setWhatIfResult] = useState<{
+    current: CalculationResult;
+    scenarios: WhatIfScenario[];
+  } | null>(null);
+  const [driftReport, setDriftReport] = useState<{ year: number; month: number; report: DriftReport } | null>(null);
+  const [traceCalculation, setTraceCalculation] = useState<{ calc: IncentiveCalculation; driverName: string } | null>(null);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [snapshots, setSnapshots] = useState<CalculationSnapshot[]>([]);
   const [statusFilter, setStatusFilter] = useState<WorkflowStatus | "all">("all");
@@ -106,114 +185,297 @@ export default function CalculationsPage() {
       });
   }, [drivers, periodCalculations, driverPerformance, selectedYear, selectedMonth]);
 
-  // Get divisors
-  const localDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
-      (s) => s.setting_key === "incentive_divisor_local" && s.is_active
-    );
-    return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  // Drift report, when it was run for the selected period
+  const currentDrift =
+    driftReport && driftReport.year === selectedYear && driftReport.month === selectedMonth
+      ? driftReport.report
+      : null;
 
-  const exportDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
-      (s) => s.setting_key === "incentive_divisor_export" && s.is_active
-    );
-    return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  // Settings versions in force for the selected period
+  const periodSettings = useMemo(
+    () => resolveSettingsForPeriod(incentiveSettings, selectedYear, selectedMonth),
+    [incentiveSettings, selectedYear, selectedMonth]
+  );
 
   // ============================================
   // BATCH CALCULATION
   // ============================================
 
-  const handleBatchCalculate = useCallback(async () => {
-    if (!isSupabaseConfigured()) {
-      showToast("Cannot calculate in demo mode");
-      return;
+  // Batch runs of the period, with live progress
+  const batchJobs = useBatchCalculationJobs(selectedYear, selectedMonth);
+  const runningJob = batchJobs.find((j) => isBatchJobRunning(j)) ?? null;
+
+  // Calculate the whole month in memory; incentive pools scale across every driver of a type
+  const calculateMonth = useCallback(async () => {
+    const records = await fetchPeriodDriverRecords(selectedYear, selectedMonth);
+
+    return batchCalculateIncentives(
+      drivers,
+      driverPerformance,
+      monthlyBudgets,
+      incentiveSettings,
+      customFormulas,
+      selectedYear,
+      selectedMonth,
+      {
+        salaryHistory: driverSalaryHistory,
+        conversionRates: zigUsdConversionRates,
+        records,
+        kilometerRates,
+      }
+    );
+  }, [
+    drivers,
+    driverPerformance,
+    monthlyBudgets,
+    incentiveSettings,
+    customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
+    selectedYear,
+    selectedMonth,
+  ]);
+
+  // Save the job's remaining drivers from the month's calculation, recording progress and errors on the job
+  const processBatchJob = useCallback(async (job: BatchCalculationJob, result: BatchCalculationResult) => {
+    const monthDriverIds = [...result.success.map((r) => r.driverId), ...result.failed.map((f) => f.driverId)];
+    const remaining = getRemainingDriverIds(job, monthDriverIds);
+    const remainingIds = new Set(remaining);
+    const processed = [...(job.processed_driver_ids ?? [])];
+    const errors = getBatchJobErrors(job);
+    const progress = {
+      processed_count: job.processed_count,
+      success_count: job.success_count,
+      skipped_count: job.skipped_count ?? 0,
+      failed_count: job.failed_count,
+      total_incentives: Number(job.total_incentives),
+    };
+
+    const writeProgress = async (fields: Partial<BatchCalculationJob> = {}) => {
+      const { error } = await supabase
+        .from("batch_calculation_jobs")
+        .update({ ...progress, processed_driver_ids: processed, error_log: errors, ...fields })
+        .eq("id", job.id);
+      if (error) throw error;
+    };
+
+    const recordFailure = (error: BatchCalculationJobError) => {
+      errors.push(error);
+      processed.push(error.driver_id);
+      progress.processed_count += 1;
+      progress.failed_count += 1;
+    };
+
+    await writeProgress({ status: "processing" });
+
+    for (const f of result.failed) {
+      if (remainingIds.has(f.driverId)) {
+        recordFailure({ driver_id: f.driverId, driver_name: f.driverName, stage: "calculate", message: f.reason });
+      }
     }
 
-    setIsProcessing(true);
-    try {
-      const result = batchCalculateIncentives(
-        drivers,
-        driverPerformance,
-        monthlyBudgets,
-        incentiveSettings,
-        customFormulas,
-        selectedYear,
-        selectedMonth
-      );
+    // Drivers retried after they left the month's calculation (e.g. deactivated without performance)
+    for (const driverId of remaining.filter((id) => !monthDriverIds.includes(id))) {
+      const driver = drivers.find((d) => d.id === driverId);
+      recordFailure({
+        driver_id: driverId,
+        driver_name: driver ? `${driver.first_name} ${driver.last_name}` : "Unknown",
+        stage: "calculate",
+        message: "Driver is no longer part of this month's calculation",
+      });
+    }
 
-      setBatchResult(result);
+    let saved = 0;
+    for (const calcResult of result.success) {
+      if (!remainingIds.has(calcResult.driverId)) continue;
 
-      // Save all successful calculations to database
-      for (const calcResult of result.success) {
+      try {
         const calcData = resultToIncentiveCalculation(calcResult, "draft");
 
         // Check for existing calculation
         const { data: existing } = await supabase
           .from("incentive_calculations")
-          .select("id")
+          .select("id, status")
           .eq("driver_id", calcResult.driverId)
           .eq("year", calcResult.year)
           .eq("month", calcResult.month)
           .single();
 
-        if (existing) {
-          await supabase
-            .from("incentive_calculations")
-            .update(calcData)
-            .eq("id", existing.id);
+        // Only drafts are recalculated, as in the drift report; later statuses need a rollback first
+        if (existing && isLockedStatus(existing.status)) {
+          processed.push(calcResult.driverId);
+          progress.processed_count += 1;
+          progress.skipped_count += 1;
         } else {
-          await supabase.from("incentive_calculations").insert(calcData);
+          const { error } = existing
+            ? await supabase.from("incentive_calculations").update(calcData).eq("id", existing.id)
+            : await supabase.from("incentive_calculations").insert(calcData);
+          if (error) throw error;
+
+          processed.push(calcResult.driverId);
+          progress.processed_count += 1;
+          progress.success_count += 1;
+          progress.total_incentives += calcResult.totalIncentive;
         }
+      } catch (error) {
+        recordFailure({
+          driver_id: calcResult.driverId,
+          driver_name: calcResult.driverName,
+          stage: "save",
+          message: (error as { message?: string }).message ?? "Unknown error",
+        });
       }
 
-      // Log the batch operation
-      await supabase.from("audit_log").insert({
-        table_name: "incentive_calculations",
-        record_id: "batch",
-        action: "batch_calculate",
-        new_values: {
-          year: selectedYear,
-          month: selectedMonth,
-          success_count: result.summary.successCount,
-          failed_count: result.summary.failedCount,
-          total_incentives: result.summary.totalIncentives,
-        },
-        changed_by: "system",
-      });
+      saved += 1;
+      if (saved % BATCH_JOB_PROGRESS_INTERVAL === 0) {
+        await writeProgress();
+      }
+    }
 
-      // Refresh calculations
-      const { data } = await supabase.from("incentive_calculations").select("*");
-      if (data) {
-        setIncentiveCalculations(data);
+    await writeProgress({ status: "completed", completed_at: new Date().toISOString() });
+    return progress;
+  }, [drivers]);
+
+  // Run a batch job: a new run over the month, a retry of a job's failed drivers, or the resume of an interrupted job
+  const runBatchJob = useCallback(
+    async ({ resume, retryOf }: { resume?: BatchCalculationJob; retryOf?: BatchCalculationJob } = {}) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot calculate in demo mode");
+        return;
+      }
+      if (periodLocked) {
+        showToast("This payroll period is locked; reopen it before recalculating");
+        return;
+      }
+      if (runningJob) {
+        showToast(`A batch run for this month is in progress (started by ${runningJob.created_by ?? "system"})`);
+        return;
       }
 
-      showToast(
-        `Calculated ${result.summary.successCount} drivers. ${result.summary.failedCount} failed.`
-      );
-    } catch (error) {
-      console.error("Batch calculation error:", error);
-      showToast("Error during batch calculation");
-    } finally {
-      setIsProcessing(false);
-    }
-  }, [
-    drivers,
-    driverPerformance,
-    monthlyBudgets,
-    incentiveSettings,
-    customFormulas,
-    selectedYear,
-    selectedMonth,
-    showToast,
-    setIncentiveCalculations,
-  ]);
+      setIsProcessing(true);
+      let jobId = resume?.id ?? null;
+      try {
+        const result = await calculateMonth();
+        setBatchResult(result);
+
+        let job = resume;
+        if (!job) {
+          const driverIds = retryOf ? getFailedDriverIds(retryOf) : null;
+          const insert: BatchCalculationJobInsert = {
+            year: selectedYear,
+            month: selectedMonth,
+            status: "pending",
+            total_drivers: driverIds ? driverIds.length : result.summary.totalProcessed,
+            processed_count: 0,
+            success_count: 0,
+            skipped_count: 0,
+            failed_count: 0,
+            total_incentives: 0,
+            created_by: userEmail,
+            driver_ids: driverIds,
+            retry_of: retryOf?.id ?? null,
+          };
+          const { data, error } = await supabase.from("batch_calculation_jobs").insert(insert).select().single();
+          if (error) throw error;
+          job = data as BatchCalculationJob;
+          jobId = job.id;
+        }
+
+        const totals = await processBatchJob(job, result);
+
+        // Log the batch operation
+        await supabase.from("audit_log").insert({
+          table_name: "incentive_calculations",
+          record_id: job.id,
+          action: "batch_calculate",
+          new_values: {
+            year: selectedYear,
+            month: selectedMonth,
+            ...totals,
+            retry_of: job.retry_of,
+            resumed: !!resume,
+            pools: result.summary.pools,
+          },
+          changed_by: userEmail ?? "system",
+        });
+
+        // Refresh calculations
+        const { data } = await supabase.from("incentive_calculations").select("*");
+        if (data) {
+          setIncentiveCalculations(data);
+        }
+
+        // Saving some drivers of a scaled pool leaves the others on their old share
+        const poolScaled =
+          job.driver_ids !== null &&
+          (["local", "export"] as const).some((type) => (result.summary.pools[type]?.scalingFactor ?? 1) < 1);
+        showToast(
+          `Calculated ${totals.success_count} drivers. ${totals.failed_count} failed.` +
+            (totals.skipped_count > 0 ? ` ${totals.skipped_count} skipped (not draft).` : "") +
+            (poolScaled ? " The incentive pool was scaled; run a full batch to rebalance the other drivers." : "")
+        );
+      } catch (error) {
+        console.error("Batch calculation error:", error);
+        if (jobId) {
+          await supabase
+            .from("batch_calculation_jobs")
+            .update({ status: "failed", completed_at: new Date().toISOString() })
+            .eq("id", jobId);
+        }
+        showToast("Error during batch calculation");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [
+      periodLocked,
+      runningJob,
+      calculateMonth,
+      processBatchJob,
+      selectedYear,
+      selectedMonth,
+      userEmail,
+      showToast,
+      setIncentiveCalculations,
+    ]
+  );
+
+  const handleBatchCalculate = useCallback(() => runBatchJob(), [runBatchJob]);
 
   // ============================================
   // WORKFLOW STATUS MANAGEMENT
   // ============================================
 
+  // Approval sign-offs for the period's calculations
+  const { approvals, refetch: refetchApprovals } = useCalculationApprovals(selectedYear, selectedMonth);
+
+  // Approval chain, sign-off progress and the transitions the signed-in user may take
+  const getWorkflow = useCallback(
+    (calc: IncentiveCalculation) => {
+      const driver = drivers.find((d) => d.id === calc.driver_id);
+      const chain = selectApprovalChain(
+        getApprovalChainsConfig(resolveSettingsForPeriod(incentiveSettings, calc.year, calc.month)),
+        driver?.driver_type,
+        calc.total_incentive
+      );
+      const calcApprovals = approvals.filter((a) => a.calculation_id === calc.id);
+      return {
+        chain,
+        progress: chain ? getApprovalProgress(chain, calcApprovals) : null,
+        // Calculations are paid by posting a payment run, not one by one
+        transitions: getEntitledTransitions(calc.status as WorkflowStatus, chain, calcApprovals, userEmail).filter(
+          (t) => t.to !== "paid"
+        ),
+      };
+    },
+    [drivers, incentiveSettings, approvals, userEmail]
+  );
+  const workflows = useMemo(
+    () => new Map(periodCalculations.map((calc) => [calc.id, getWorkflow(calc)])),
+    [periodCalculations, getWorkflow]
+  );
+
   const handleStatusChange = useCallback(
     async (calculationId: string, newStatus: WorkflowStatus) => {
       if (!isSupabaseConfigured()) {
@@ -225,39 +487,92 @@ export default function CalculationsPage() {
         const calc = incentiveCalculations.find((c) => c.id === calculationId);
         if (!calc) return;
 
-        // Create snapshot before status change (for rollback)
-        await supabase.from("calculation_snapshots").insert({
-          calculation_id: calculationId,
-          driver_id: calc.driver_id,
-          year: calc.year,
-          month: calc.month,
-          snapshot_data: calc,
-          created_by: "system",
-          reason: `Status change from ${calc.status} to ${newStatus}`,
-        });
-
-        const updateData: Partial<IncentiveCalculation> = {
-          status: newStatus,
-        };
+        const { chain, transitions } = getWorkflow(calc);
+        const transition = transitions.find((t) => t.to === newStatus);
+        if (!transition) {
+          showToast(`You are not entitled to move this calculation to ${getStatusLabel(newStatus)}`);
+          return;
+        }
+        const changedBy = userEmail ?? "system";
+        const signOff = chain && transition.stepIndex !== undefined ? chain.steps[transition.stepIndex] : null;
 
-        if (newStatus === "approved") {
-          updateData.approved_by = "admin"; // TODO: Use actual user
-          updateData.approved_date = new Date().toISOString();
-        } else if (newStatus === "paid") {
-          updateData.paid_date = new Date().toISOString();
+        // Create snapshot before status change (for rollback)
+        if (!signOff || transition.completesChain) {
+          const { error: snapshotError } = await supabase.from("calculation_snapshots").insert({
+            calculation_id: calculationId,
+            driver_id: calc.driver_id,
+            year: calc.year,
+            month: calc.month,
+            snapshot_data: calc,
+            created_by: changedBy,
+            reason: `Status change from ${calc.status} to ${newStatus}`,
+          });
+          if (snapshotError) throw snapshotError;
         }
 
-        await supabase.from("incentive_calculations").update(updateData).eq("id", calculationId);
+        if (chain && signOff && transition.stepIndex !== undefined) {
+          // Sign off the next step of the chain; the last one also approves the calculation
+          const { data: approved, error } = await supabase.rpc("sign_off_calculation", {
+            p_calculation_id: calculationId,
+            p_chain_id: chain.id,
+            p_step_index: transition.stepIndex,
+            p_step_label: signOff.label,
+            p_approved_by: changedBy,
+          });
+          if (error) throw error;
+          await refetchApprovals();
+
+          if (!approved) {
+            const { error: auditError } = await supabase.from("audit_log").insert({
+              table_name: "incentive_calculations",
+              record_id: calculationId,
+              action: "approve",
+              old_values: { status: calc.status },
+              new_values: { status: calc.status, approval_step: signOff.label },
+              changed_by: changedBy,
+            });
+            if (auditError) console.error("Error logging sign-off:", auditError);
+            showToast(`Signed off as ${signOff.label}`);
+            return;
+          }
+        } else {
+          const updateData: Partial<IncentiveCalculation> = {
+            status: newStatus,
+          };
+
+          if (newStatus === "approved") {
+            updateData.approved_by = changedBy;
+            updateData.approved_date = new Date().toISOString();
+          } else if (newStatus === "draft") {
+            updateData.approved_by = null;
+            updateData.approved_date = null;
+          }
+
+          const { error } = await supabase.from("incentive_calculations").update(updateData).eq("id", calculationId);
+          if (error) throw error;
+
+          // Back to draft: the chain starts again from its first step
+          if (newStatus === "draft") {
+            const { error: revokeError } = await supabase
+              .from("calculation_approvals")
+              .update({ revoked_at: new Date().toISOString(), revoked_by: changedBy })
+              .eq("calculation_id", calculationId)
+              .is("revoked_at", null);
+            if (revokeError) throw revokeError;
+            await refetchApprovals();
+          }
+        }
 
         // Log the change
-        await supabase.from("audit_log").insert({
+        const { error: auditError } = await supabase.from("audit_log").insert({
           table_name: "incentive_calculations",
           record_id: calculationId,
           action: newStatus === "approved" ? "approve" : "update",
           old_values: { status: calc.status },
-          new_values: { status: newStatus },
-          changed_by: "system",
+          new_values: signOff ? { status: newStatus, approval_step: signOff.label } : { status: newStatus },
+          changed_by: changedBy,
         });
+        if (auditError) console.error("Error logging status change:", auditError);
 
         // Refresh
         const { data } = await supabase.from("incentive_calculations").select("*");
@@ -271,7 +586,7 @@ export default function CalculationsPage() {
         showToast("Error updating status");
       }
     },
-    [incentiveCalculations, showToast, setIncentiveCalculations]
+    [incentiveCalculations, getWorkflow, userEmail, refetchApprovals, showToast, setIncentiveCalculations]
   );
 
   // Bulk status update
@@ -284,13 +599,18 @@ export default function CalculationsPage() {
 
       setIsProcessing(true);
       try {
-        const toUpdate = periodCalculations.filter((c) => c.status === fromStatus);
+        const inStatus = periodCalculations.filter((c) => c.status === fromStatus);
+        const toUpdate = inStatus.filter((c) => getWorkflow(c).transitions.some((t) => t.to === toStatus));
 
         for (const calc of toUpdate) {
           await handleStatusChange(calc.id, toStatus);
         }
 
-        showToast(`Updated ${toUpdate.length} calculations to ${getStatusLabel(toStatus)}`);
+        const skipped = inStatus.length - toUpdate.length;
+        showToast(
+          `Updated ${toUpdate.length} calculations to ${getStatusLabel(toStatus)}` +
+            (skipped > 0 ? ` (${skipped} need another approver)` : "")
+        );
       } catch (error) {
         console.error("Bulk status update error:", error);
         showToast("Error during bulk update");
@@ -298,72 +618,357 @@ export default function CalculationsPage() {
         setIsProcessing(false);
       }
     },
-    [periodCalculations, handleStatusChange, showToast]
+    [periodCalculations, getWorkflow, handleStatusChange, showToast]
   );
 
   // ============================================
   // WHAT-IF SCENARIO
   // ============================================
 
-  const handleCalculateWhatIf = useCallback(() => {
+  // Build the same calculation input the batch would use for this driver and period
+  const buildWhatIfInput = useCallback(
+    async (driverId: string): Promise<CalculationInput | null> => {
+      const driver = drivers.find((d) => d.id === driverId);
+      const performance = driverPerformance.find(
+        (p) => p.driver_id === driverId && p.year === selectedYear && p.month === selectedMonth
+      );
+      if (!driver || !performance) return null;
+
+      const budget = monthlyBudgets.find(
+        (b) => b.year === selectedYear && b.month === selectedMonth && b.driver_type === driver.driver_type
+      );
+      const records = await fetchPeriodDriverRecords(selectedYear, selectedMonth);
+
+      return {
+        driver,
+        performance,
+        budget: budget || null,
+        formulas: customFormulas,
+        ...getDriverTypeConfig(periodSettings, driver.driver_type),
+        kilometerRates,
+        salaryHistory: driverSalaryHistory,
+        conversionRates: zigUsdConversionRates,
+        records: filterDriverRecords(records, driver.id),
+        settingsVersion: getSettingsVersion(periodSettings),
+      };
+    },
+    [
+      drivers,
+      driverPerformance,
+      monthlyBudgets,
+      customFormulas,
+      periodSettings,
+      kilometerRates,
+      driverSalaryHistory,
+      zigUsdConversionRates,
+      selectedYear,
+      selectedMonth,
+    ]
+  );
+
+  const loadSavedScenarios = useCallback(async (driverId: string) => {
+    setSavedScenarios([]);
+    setScenarioDrafts([]);
+    if (!isSupabaseConfigured() || !driverId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("what_if_scenarios")
+        .select("*")
+        .eq("driver_id", driverId)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+
+      const saved = (data || []) as SavedWhatIfScenario[];
+      setSavedScenarios(saved);
+      setScenarioDrafts(saved.map(savedScenarioToDraft));
+    } catch (error) {
+      console.error("Error loading saved scenarios:", error);
+    }
+  }, []);
+
+  const handleSelectWhatIfDriver = useCallback(
+    (driverId: string) => {
+      setSelectedDriverId(driverId);
+      setWhatIfResult(null);
+      loadSavedScenarios(driverId);
+    },
+    [loadSavedScenarios]
+  );
+
+  const updateScenarioDraft = useCallback((key: string, field: keyof ScenarioDraft, value: string) => {
+    setScenarioDrafts((prev) => prev.map((d) => (d.key === key ? { ...d, [field]: value } : d)));
+  }, []);
+
+  const addScenarioDraft = useCallback(() => {
+    setScenarioDrafts((prev) => [...prev, emptyScenarioDraft(`Scenario ${prev.length + 1}`)]);
+  }, []);
+
+  // Add the standard KM scenarios (reach target, +10%, +500 KM, ...)
+  const addSuggestedScenarios = useCallback(async () => {
+    try {
+      const input = await buildWhatIfInput(selectedDriverId);
+      if (!input) {
+        showToast("No performance data for this driver/period");
+        return;
+      }
+      const current = calculateDriverIncentive(input);
+      const suggested = generateDefaultScenarios(current.actualKm, current.targetKm).map((s) => ({
+        ...emptyScenarioDraft(s.name),
+        additionalKm: String(s.additionalKm || 0),
+      }));
+      setScenarioDrafts((prev) => [...prev, ...suggested]);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : "Calculation error");
+    }
+  }, [selectedDriverId, buildWhatIfInput, showToast]);
+
+  const handleSaveScenario = useCallback(
+    async (draft: ScenarioDraft) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot save in demo mode");
+        return;
+      }
+      if (!draft.name.trim()) {
+        showToast("Please name the scenario");
+        return;
+      }
+
+      const input = draftToScenarioInput(draft);
+      const row = {
+        driver_id: selectedDriverId,
+        name: draft.name.trim(),
+        additional_km: input.additionalKm ?? null,
+        fuel_efficiency: input.fuelEfficiency ?? null,
+        safety_score: input.safetyScore ?? null,
+        on_time_delivery_rate: input.onTimeRate ?? null,
+        customer_rating: input.customerRating ?? null,
+        notes: null,
+      };
+
+      try {
+        if (draft.savedId) {
+          const { error } = await supabase.from("what_if_scenarios").update(row).eq("id", draft.savedId);
+          if (error) throw error;
+          setSavedScenarios((prev) =>
+            prev.map((s) => (s.id === draft.savedId ? { ...s, ...row } : s))
+          );
+        } else {
+          const { data, error } = await supabase.from("what_if_scenarios").insert(row).select().single();
+          if (error) throw error;
+          setSavedScenarios((prev) => [...prev, data as SavedWhatIfScenario]);
+          setScenarioDrafts((prev) =>
+            prev.map((d) => (d.key === draft.key ? { ...d, savedId: data.id } : d))
+          );
+        }
+        showToast(`Scenario "${row.name}" saved`);
+      } catch (error) {
+        console.error("Error saving scenario:", error);
+        showToast("Error saving scenario");
+      }
+    },
+    [selectedDriverId, showToast]
+  );
+
+  const handleRemoveScenario = useCallback(
+    async (draft: ScenarioDraft) => {
+      if (draft.savedId) {
+        if (!isSupabaseConfigured()) {
+          showToast("Cannot delete in demo mode");
+          return;
+        }
+        if (!confirm(`Delete saved scenario "${draft.name}"?`)) return;
+
+        try {
+          const { error } = await supabase.from("what_if_scenarios").delete().eq("id", draft.savedId);
+          if (error) throw error;
+          setSavedScenarios((prev) => prev.filter((s) => s.id !== draft.savedId));
+        } catch (error) {
+          console.error("Error deleting scenario:", error);
+          showToast("Error deleting scenario");
+          return;
+        }
+      }
+      setScenarioDrafts((prev) => prev.filter((d) => d.key !== draft.key));
+    },
+    [showToast]
+  );
+
+  const handleCalculateWhatIf = useCallback(async () => {
     if (!selectedDriverId) {
       showToast("Please select a driver");
       return;
     }
-
-    const driver = drivers.find((d) => d.id === selectedDriverId);
-    const performance = driverPerformance.find(
-      (p) => p.driver_id === selectedDriverId && p.year === selectedYear && p.month === selectedMonth
-    );
-
-    if (!driver || !performance) {
-      showToast("No performance data for this driver/period");
+    if (scenarioDrafts.length === 0) {
+      showToast("Add at least one scenario");
       return;
     }
 
-    const budget = monthlyBudgets.find(
-      (b) => b.year === selectedYear && b.month === selectedMonth && b.driver_type === driver.driver_type
-    );
+    try {
+      const input = await buildWhatIfInput(selectedDriverId);
+      if (!input) {
+        showToast("No performance data for this driver/period");
+        return;
+      }
+      setWhatIfResult(calculateWhatIfScenarios(input, scenarioDrafts.map(draftToScenarioInput)));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : "Calculation error");
+    }
+  }, [selectedDriverId, scenarioDrafts, buildWhatIfInput, showToast]);
 
-    const divisor = driver.driver_type === "export" ? exportDivisor : localDivisor;
+  // ============================================
+  // DRIFT REPORT
+  // ============================================
 
-    const currentResult = calculateDriverIncentive({
-      driver,
-      performance,
-      budget: budget || null,
-      divisor,
-      formulas: customFormulas,
-    });
+  // Recompute every driver for the period and diff against the stored rows
+  const handleCheckDrift = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const records = isSupabaseConfigured()
+        ? await fetchPeriodDriverRecords(selectedYear, selectedMonth)
+        : undefined;
 
-    const scenarios = generateDefaultScenarios(
-      currentResult.actualKm,
-      currentResult.targetKm
-    );
+      const result = batchCalculateIncentives(
+        drivers,
+        driverPerformance,
+        monthlyBudgets,
+        incentiveSettings,
+        customFormulas,
+        selectedYear,
+        selectedMonth,
+        {
+          salaryHistory: driverSalaryHistory,
+          conversionRates: zigUsdConversionRates,
+          records,
+          kilometerRates,
+        }
+      );
 
-    // Add custom scenario if provided
-    if (customScenario.name && customScenario.km) {
-      scenarios.push({
-        name: customScenario.name,
-        additionalKm: parseInt(customScenario.km),
-      });
+      const report = buildDriftReport(
+        incentiveCalculations.filter((c) => c.year === selectedYear && c.month === selectedMonth),
+        result,
+        new Map(drivers.map((d) => [d.id, `${d.first_name} ${d.last_name}`]))
+      );
+      setDriftReport({ year: selectedYear, month: selectedMonth, report });
+    } catch (error) {
+      console.error("Drift check error:", error);
+      showToast("Error checking calculation drift");
+    } finally {
+      setIsProcessing(false);
     }
-
-    const whatIf = calculateWhatIfScenarios(currentResult, scenarios);
-    setWhatIfScenarios(whatIf);
   }, [
-    selectedDriverId,
     drivers,
     driverPerformance,
     monthlyBudgets,
+    incentiveSettings,
+    incentiveCalculations,
     customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
     selectedYear,
     selectedMonth,
-    localDivisor,
-    exportDivisor,
-    customScenario,
     showToast,
   ]);
 
+  // Overwrite drifted drafts with the fresh engine result
+  const handleRecalculateDrift = useCallback(
+    async (items: CalculationDrift[]) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot recalculate in demo mode");
+        return;
+      }
+
+      const drafts = items.filter((d) => !isLockedStatus(d.status));
+      if (drafts.length === 0) return;
+
+      setIsProcessing(true);
+      try {
+        const changedBy = userEmail ?? "system";
+        const recalculatedIds = new Set<string>();
+        let failed = 0;
+        let unaudited = 0;
+
+        for (const drift of drafts) {
+          const calc = incentiveCalculations.find((c) => c.id === drift.calculationId);
+          if (!calc) continue;
+
+          try {
+            // Snapshot the stale row so the recalculation can be rolled back
+            const { error: snapshotError } = await supabase.from("calculation_snapshots").insert({
+              calculation_id: calc.id,
+              driver_id: calc.driver_id,
+              year: calc.year,
+              month: calc.month,
+              snapshot_data: calc,
+              created_by: changedBy,
+              reason: "Recalculated from drift report",
+            });
+            if (snapshotError) throw snapshotError;
+
+            const { error: updateError } = await supabase
+              .from("incentive_calculations")
+              .update(resultToIncentiveCalculation(drift.result, "draft"))
+              .eq("id", calc.id);
+            if (updateError) throw updateError;
+            recalculatedIds.add(calc.id);
+
+            const { error: auditError } = await supabase.from("audit_log").insert({
+              table_name: "incentive_calculations",
+              record_id: calc.id,
+              action: "recalculate",
+              old_values: Object.fromEntries(drift.fields.map((f) => [f.field, f.stored])),
+              new_values: Object.fromEntries(drift.fields.map((f) => [f.field, f.recalculated])),
+              changed_by: changedBy,
+            });
+            if (auditError) {
+              console.error(`Drift recalculation audit error for ${drift.driverName}:`, auditError);
+              unaudited++;
+            }
+          } catch (error) {
+            console.error(`Drift recalculation error for ${drift.driverName}:`, error);
+            failed++;
+          }
+        }
+
+        setDriftReport((current) => {
+          if (!current) return current;
+          const drifted = current.report.drifted.filter((d) => !recalculatedIds.has(d.calculationId));
+          return {
+            ...current,
+            report: {
+              ...current.report,
+              drifted,
+              matchedCount: current.report.matchedCount + recalculatedIds.size,
+              summary: summarizeDrift(drifted, current.report.summary.checked),
+            },
+          };
+        });
+
+        const { data } = await supabase.from("incentive_calculations").select("*");
+        if (data) {
+          setIncentiveCalculations(data);
+        }
+
+        const recalculated = recalculatedIds.size;
+        const notes = [
+          failed > 0 ? `${failed} failed` : null,
+          unaudited > 0 ? `${unaudited} not recorded in the audit log` : null,
+        ].filter(Boolean);
+        showToast(
+          `Recalculated ${recalculated} draft calculation${recalculated === 1 ? "" : "s"}` +
+            (notes.length > 0 ? `, ${notes.join(", ")}` : "")
+        );
+      } catch (error) {
+        console.error("Drift recalculation error:", error);
+        showToast("Error recalculating drafts");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [incentiveCalculations, userEmail, showToast, setIncentiveCalculations]
+  );
+
   // ============================================
   // ROLLBACK
   // ============================================
@@ -523,6 +1128,8 @@ export default function CalculationsPage() {
         </div>
       </div>
 
+      <PeriodLockBanner year={selectedYear} month={selectedMonth} manage />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
         <div className="bg-white rounded-lg border border-surface-200 p-3">
@@ -568,6 +1175,7 @@ export default function CalculationsPage() {
               { id: "batch", label: "Batch Calculate", icon: "M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" },
               { id: "workflow", label: "Workflow", icon: "M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" },
               { id: "whatif", label: "What-If Calculator", icon: "M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" },
+              { id: "drift", label: "Drift Report", icon: "M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" },
               { id: "audit", label: "Audit Trail", icon: "M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" },
             ] as const
           ).map((tab) => (
@@ -627,12 +1235,18 @@ export default function CalculationsPage() {
                       <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
                         Actual KM
                       </th>
+                      <th className="text-center py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Tier
+                      </th>
                       <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
                         KM Incentive
                       </th>
                       <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
                         Bonuses
                       </th>
+                      <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Deductions
+                      </th>
                       <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
                         Total
                       </th>
@@ -647,7 +1261,7 @@ export default function CalculationsPage() {
                   <tbody>
                     {periodCalculations.length === 0 ? (
                       <tr>
-                        <td colSpan={7} className="py-8 text-center text-surface-500">
+                        <td colSpan={9} className="py-8 text-center text-surface-500">
                           No calculations for this period. Use Batch Calculate to generate.
                         </td>
                       </tr>
@@ -678,12 +1292,39 @@ export default function CalculationsPage() {
                               (calc.calculation_details as { actual_km?: number })?.actual_km || 0
                             )}
                           </td>
+                          <td className="py-3 px-3 text-center">
+                            {(() => {
+                              const tier = getCalculationTier(calc);
+                              return tier ? (
+                                <span
+                                  className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${getTierBadgeColor(tier.name)}`}
+                                  title={
+                                    tier.reward_type === "multiplier"
+                                      ? `≥ ${tier.min_achievement}% · ×${tier.reward_value} KM incentive`
+                                      : `≥ ${tier.min_achievement}% · +${formatCurrency(tier.reward_value)}`
+                                  }
+                                >
+                                  {tier.name}
+                                </span>
+                              ) : (
+                                <span className="text-surface-400 text-sm">—</span>
+                              );
+                            })()}
+                          </td>
                           <td className="py-3 px-3 text-right font-mono text-sm">
                             {formatCurrency(calc.km_incentive)}
                           </td>
                           <td className="py-3 px-3 text-right font-mono text-sm">
                             {formatCurrency(calc.performance_bonus + calc.safety_bonus)}
                           </td>
+                          <td
+                            className={`py-3 px-3 text-right font-mono text-sm ${
+                              calc.deductions > 0 ? "text-red-600" : "text-surface-400"
+                            }`}
+                            title={calc.deduction_reason || undefined}
+                          >
+                            {calc.deductions > 0 ? `-${formatCurrency(calc.deductions)}` : "—"}
+                          </td>
                           <td className="py-3 px-3 text-right font-mono text-sm font-semibold text-primary-600">
                             {formatCurrency(calc.total_incentive)}
                           </td>
@@ -695,10 +1336,36 @@ export default function CalculationsPage() {
                             >
                               {getStatusLabel(calc.status as WorkflowStatus)}
                             </span>
+                            {calc.status === "pending_approval" && workflows.get(calc.id)?.progress && (
+                              <p className="text-[10px] text-surface-500 mt-0.5">
+                                {describeApprovalProgress(workflows.get(calc.id)!.progress!)}
+                              </p>
+                            )}
+                            {calc.payment_run_id && (
+                              <p className="text-[10px] text-surface-500 mt-0.5 font-mono">
+                                {paymentRuns.find((r) => r.id === calc.payment_run_id)?.reference}
+                              </p>
+                            )}
                           </td>
                           <td className="py-3 px-3 text-right">
                             <div className="flex items-center justify-end gap-1">
-                              {getAvailableTransitions(calc.status as WorkflowStatus).map((t) => (
+                              <button
+                                onClick={() =>
+                                  setTraceCalculation({
+                                    calc,
+                                    driverName: calc.driver
+                                      ? `${calc.driver.first_name} ${calc.driver.last_name}`
+                                      : "Unknown",
+                                  })
+                                }
+                                className="p-1.5 text-surface-500 hover:text-primary-600 hover:bg-primary-50 rounded transition-colors"
+                                title="View calculation trace"
+                              >
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                                </svg>
+                              </button>
+                              {workflows.get(calc.id)?.transitions.map((t) => (
                                 <button
                                   key={t.to}
                                   onClick={() => handleStatusChange(calc.id, t.to)}
@@ -715,11 +1382,6 @@ export default function CalculationsPage() {
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                                     </svg>
                                   )}
-                                  {t.to === "paid" && (
-                                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                    </svg>
-                                  )}
                                   {t.to === "draft" && (
                                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
@@ -788,9 +1450,28 @@ export default function CalculationsPage() {
                     <p className="text-lg font-semibold text-surface-600">{stats.total}</p>
                   </div>
                 </div>
+                {runningJob && (
+                  <div className="mb-4">
+                    <div className="flex justify-between text-xs text-surface-600 mb-1">
+                      <span>
+                        Running, started by {runningJob.created_by ?? "system"} at{" "}
+                        {formatDateTime(runningJob.created_at)}
+                      </span>
+                      <span>
+                        {runningJob.processed_count} / {runningJob.total_drivers} drivers
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-surface-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-primary-500 transition-all"
+                        style={{ width: `${getBatchJobProgress(runningJob)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
                 <button
                   onClick={handleBatchCalculate}
-                  disabled={isProcessing}
+                  disabled={isProcessing || periodLocked || !!runningJob}
                   className="btn btn-primary"
                 >
                   {isProcessing ? (
@@ -828,6 +1509,165 @@ export default function CalculationsPage() {
                 </button>
               </div>
 
+              {/* Batch Jobs History */}
+              {batchJobs.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-surface-900 mb-2">Batch Runs</h3>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full">
+                      <thead>
+                        <tr className="border-b border-surface-200">
+                          <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Started
+                          </th>
+                          <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Run By
+                          </th>
+                          <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Scope
+                          </th>
+                          <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Progress
+                          </th>
+                          <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Saved
+                          </th>
+                          <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Skipped
+                          </th>
+                          <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Failed
+                          </th>
+                          <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Incentives
+                          </th>
+                          <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            Status
+                          </th>
+                          <th className="py-2 px-3" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {batchJobs.map((job) => {
+                          const stalled = isBatchJobStalled(job);
+                          const canResume =
+                            (stalled || job.status === "failed") && job.processed_count < job.total_drivers;
+                          const failedDrivers = getFailedDriverIds(job);
+                          return (
+                            <tr key={job.id} className="border-b border-surface-100">
+                              <td className="py-2 px-3 text-sm text-surface-700">
+                                {formatDateTime(job.created_at)}
+                                {job.completed_at && (
+                                  <span className="block text-xs text-surface-400">
+                                    Finished {formatDateTime(job.completed_at)}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2 px-3 text-sm text-surface-700">{job.created_by ?? "system"}</td>
+                              <td className="py-2 px-3 text-sm text-surface-700">
+                                {job.retry_of ? `Retry of ${job.total_drivers} failed` : "All drivers"}
+                              </td>
+                              <td className="py-2 px-3">
+                                <div className="flex items-center gap-2">
+                                  <div className="w-24 h-1.5 bg-surface-200 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full bg-primary-500"
+                                      style={{ width: `${getBatchJobProgress(job)}%` }}
+                                    />
+                                  </div>
+                                  <span className="text-xs text-surface-500">
+                                    {job.processed_count}/{job.total_drivers}
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="py-2 px-3 text-right text-sm text-green-600">{job.success_count}</td>
+                              <td
+                                className="py-2 px-3 text-right text-sm text-surface-500"
+                                title="Calculations past draft are left unchanged"
+                              >
+                                {job.skipped_count ?? 0}
+                              </td>
+                              <td className="py-2 px-3 text-right text-sm">
+                                {job.failed_count > 0 ? (
+                                  <button
+                                    onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                                    className="text-red-600 hover:text-red-700 underline"
+                                  >
+                                    {job.failed_count}
+                                  </button>
+                                ) : (
+                                  <span className="text-surface-400">0</span>
+                                )}
+                              </td>
+                              <td className="py-2 px-3 text-right font-mono text-sm">
+                                {formatCurrency(Number(job.total_incentives))}
+                              </td>
+                              <td className="py-2 px-3 text-sm">
+                                <span
+                                  className={
+                                    stalled || job.status === "failed"
+                                      ? "text-red-600"
+                                      : job.status === "completed"
+                                        ? "text-green-700"
+                                        : "text-primary-600"
+                                  }
+                                >
+                                  {stalled ? "Stalled" : BATCH_JOB_STATUS_LABELS[job.status]}
+                                </span>
+                              </td>
+                              <td className="py-2 px-3 text-right whitespace-nowrap">
+                                {canResume && (
+                                  <button
+                                    onClick={() => runBatchJob({ resume: job })}
+                                    disabled={isProcessing || periodLocked || !!runningJob}
+                                    className="text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                                  >
+                                    Resume
+                                  </button>
+                                )}
+                                {!canResume && job.status === "completed" && failedDrivers.length > 0 && (
+                                  <button
+                                    onClick={() => runBatchJob({ retryOf: job })}
+                                    disabled={isProcessing || periodLocked || !!runningJob}
+                                    className="text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                                  >
+                                    Retry {failedDrivers.length} failed
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Errors of the expanded job */}
+                  {(() => {
+                    const job = batchJobs.find((j) => j.id === expandedJobId);
+                    if (!job) return null;
+                    return (
+                      <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-4">
+                        <h4 className="font-semibold text-red-800 mb-2">
+                          Errors in the run of {formatDateTime(job.created_at)}
+                        </h4>
+                        <ul className="text-sm space-y-1">
+                          {getBatchJobErrors(job).map((e, index) => (
+                            <li key={`${e.driver_id}-${index}`} className="text-red-700">
+                              {e.driver_name}{" "}
+                              <span className="text-xs text-red-500">
+                                ({e.stage === "save" ? "saving" : "calculating"})
+                              </span>
+                              : {e.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })()}
+                </div>
+              )}
+
               {/* Batch Result */}
               {batchResult && (
                 <div className="space-y-4">
@@ -865,6 +1705,35 @@ export default function CalculationsPage() {
                         </p>
                       </div>
                     </div>
+
+                    {/* Pool Utilisation */}
+                    {(["local", "export"] as const).map((type) => {
+                      const pool = batchResult.summary.pools[type];
+                      if (!pool) return null;
+                      return (
+                        <div key={type} className="mt-3 pt-3 border-t border-green-200 text-sm">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="font-medium text-green-800">
+                              {type === "local" ? "Local" : "Export"} Pool: {formatCurrency(pool.poolAmount)}
+                            </span>
+                            <span className={pool.scalingFactor < 1 ? "text-amber-700 font-medium" : "text-green-700"}>
+                              {formatPercentage(pool.utilisation)} requested
+                              {pool.scalingFactor < 1 && ` - scaled to ${formatPercentage(pool.scalingFactor * 100)}`}
+                            </span>
+                          </div>
+                          <div className="h-2 rounded-full bg-green-100 overflow-hidden">
+                            <div
+                              className={`h-full ${pool.scalingFactor < 1 ? "bg-amber-500" : "bg-green-500"}`}
+                              style={{ width: `${Math.min(pool.utilisation, 100)}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-green-700 mt-1">
+                            Requested {formatCurrency(pool.requested)} · Paid {formatCurrency(pool.paid)}
+                            {pool.heldAtFloor > 0 && ` · ${pool.heldAtFloor} held at their minimum guarantee`}
+                          </p>
+                        </div>
+                      );
+                    })}
                   </div>
 
                   {/* Failed List */}
@@ -919,6 +1788,15 @@ export default function CalculationsPage() {
                               )}`}
                             >
                               {formatPercentage(r.achievement)}
+                              {r.calculationDetails.achievement_tier && (
+                                <span
+                                  className={`ml-2 inline-flex px-1.5 py-0.5 rounded text-xs font-semibold ${getTierBadgeColor(
+                                    r.calculationDetails.achievement_tier.name
+                                  )}`}
+                                >
+                                  {r.calculationDetails.achievement_tier.name}
+                                </span>
+                              )}
                             </td>
                             <td className="py-2 px-3 text-right font-mono text-sm">
                               {formatCurrency(r.ratePerKm)}
@@ -960,13 +1838,9 @@ export default function CalculationsPage() {
                   >
                     Approve All Pending ({stats.pending})
                   </button>
-                  <button
-                    onClick={() => handleBulkStatusChange("approved", "paid")}
-                    disabled={isProcessing || stats.approved === 0}
-                    className="btn btn-secondary"
-                  >
-                    Mark All as Paid ({stats.approved})
-                  </button>
+                  <Link to="/payment-runs" className="btn btn-secondary">
+                    Pay Approved in a Payment Run ({stats.approved})
+                  </Link>
                 </div>
               </div>
 
@@ -999,8 +1873,13 @@ export default function CalculationsPage() {
                               <p className="text-xs text-surface-600">
                                 {formatCurrency(calc.total_incentive)}
                               </p>
+                              {workflows.get(calc.id)?.progress?.signOffs.map((a) => (
+                                <p key={a.id} className="text-[10px] text-green-700">
+                                  ✓ {a.step_label}: {a.approved_by}, {new Date(a.approved_at).toLocaleDateString()}
+                                </p>
+                              ))}
                               <div className="flex gap-1 mt-2">
-                                {getAvailableTransitions(status).map((t) => (
+                                {workflows.get(calc.id)?.transitions.map((t) => (
                                   <button
                                     key={t.to}
                                     onClick={() => handleStatusChange(calc.id, t.to)}
@@ -1028,18 +1907,16 @@ export default function CalculationsPage() {
               <div className="bg-surface-50 rounded-lg p-4">
                 <h3 className="font-semibold text-surface-900 mb-4">What-If Scenario Calculator</h3>
                 <p className="text-sm text-surface-600 mb-4">
-                  Explore how additional kilometers would affect a driver's incentive.
+                  Change KM, fuel efficiency, safety score, on-time rate and customer rating together and compare
+                  the full incentive - bonuses, tiers, deductions and caps included. Blank fields keep the actual value.
                 </p>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="w-72">
                     <label className="form-label">Select Driver</label>
                     <select
                       className="form-select"
                       value={selectedDriverId}
-                      onChange={(e) => {
-                        setSelectedDriverId(e.target.value);
-                        setWhatIfScenarios([]);
-                      }}
+                      onChange={(e) => handleSelectWhatIfDriver(e.target.value)}
                     >
                       <option value="">Choose a driver</option>
                       {drivers
@@ -1051,34 +1928,87 @@ export default function CalculationsPage() {
                         ))}
                     </select>
                   </div>
-                  <div>
-                    <label className="form-label">Custom Scenario Name</label>
-                    <input
-                      type="text"
-                      className="form-input"
-                      placeholder="e.g., Overtime Weekend"
-                      value={customScenario.name}
-                      onChange={(e) =>
-                        setCustomScenario((prev) => ({ ...prev, name: e.target.value }))
-                      }
-                    />
-                  </div>
-                  <div>
-                    <label className="form-label">Additional KM</label>
-                    <input
-                      type="number"
-                      className="form-input"
-                      placeholder="e.g., 500"
-                      value={customScenario.km}
-                      onChange={(e) =>
-                        setCustomScenario((prev) => ({ ...prev, km: e.target.value }))
-                      }
-                    />
-                  </div>
+                  <button onClick={addScenarioDraft} disabled={!selectedDriverId} className="btn btn-secondary">
+                    Add Scenario
+                  </button>
+                  <button onClick={addSuggestedScenarios} disabled={!selectedDriverId} className="btn btn-secondary">
+                    Add Suggested
+                  </button>
+                  {savedScenarios.length > 0 && (
+                    <span className="text-xs text-surface-500">{savedScenarios.length} saved scenario(s) loaded</span>
+                  )}
                 </div>
+
+                {/* Scenario Builder */}
+                {scenarioDrafts.length > 0 && (
+                  <div className="mt-4 overflow-x-auto">
+                    <table className="min-w-full">
+                      <thead>
+                        <tr className="border-b border-surface-200">
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">Scenario</th>
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">+/- KM</th>
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">Fuel (km/L)</th>
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">Safety</th>
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">On-Time %</th>
+                          <th className="text-left py-2 px-2 text-xs font-semibold text-surface-600 uppercase">Rating</th>
+                          <th className="w-32" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scenarioDrafts.map((draft) => (
+                          <tr key={draft.key} className="border-b border-surface-100">
+                            <td className="py-2 px-2">
+                              <input
+                                type="text"
+                                className="form-input text-sm w-44"
+                                value={draft.name}
+                                onChange={(e) => updateScenarioDraft(draft.key, "name", e.target.value)}
+                              />
+                            </td>
+                            {(
+                              [
+                                ["additionalKm", "1", "e.g. 500"],
+                                ["fuelEfficiency", "0.01", "actual"],
+                                ["safetyScore", "0.1", "actual"],
+                                ["onTimeRate", "0.1", "actual"],
+                                ["customerRating", "0.1", "actual"],
+                              ] as const
+                            ).map(([field, step, placeholder]) => (
+                              <td key={field} className="py-2 px-2">
+                                <input
+                                  type="number"
+                                  step={step}
+                                  className="form-input text-sm w-24 text-right font-mono"
+                                  placeholder={placeholder}
+                                  value={draft[field]}
+                                  onChange={(e) => updateScenarioDraft(draft.key, field, e.target.value)}
+                                />
+                              </td>
+                            ))}
+                            <td className="py-2 px-2 text-right whitespace-nowrap">
+                              <button
+                                onClick={() => handleSaveScenario(draft)}
+                                className="text-xs text-primary-600 hover:text-primary-700 font-medium mr-3"
+                              >
+                                {draft.savedId ? "Update" : "Save"}
+                              </button>
+                              <button
+                                onClick={() => handleRemoveScenario(draft)}
+                                className="text-xs text-red-600 hover:text-red-700 font-medium"
+                              >
+                                {draft.savedId ? "Delete" : "Remove"}
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
                 <button
                   onClick={handleCalculateWhatIf}
-                  disabled={!selectedDriverId}
+                  disabled={!selectedDriverId || scenarioDrafts.length === 0}
                   className="btn btn-primary mt-4"
                 >
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1089,74 +2019,261 @@ export default function CalculationsPage() {
                       d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z"
                     />
                   </svg>
-                  Calculate Scenarios
+                  Compare Scenarios
                 </button>
               </div>
 
-              {/* Scenarios Results */}
-              {whatIfScenarios.length > 0 && (
+              {/* Side-by-side Comparison */}
+              {whatIfResult && (
                 <div className="overflow-x-auto">
                   <table className="min-w-full">
                     <thead>
                       <tr className="border-b border-surface-200">
-                        <th className="text-left py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Scenario
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Additional KM
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Projected KM
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Achievement
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Projected Incentive
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          + Incentive
-                        </th>
-                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
-                          Total Earnings
+                        <th className="text-left py-3 px-3 text-xs font-semibold text-surface-600 uppercase" />
+                        <th className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase bg-surface-50">
+                          Current
                         </th>
+                        {whatIfResult.scenarios.map((s, i) => (
+                          <th key={i} className="text-right py-3 px-3 text-xs font-semibold text-surface-600 uppercase">
+                            {s.scenarioName}
+                          </th>
+                        ))}
                       </tr>
                     </thead>
                     <tbody>
-                      {whatIfScenarios.map((s, i) => (
-                        <tr key={i} className="border-b border-surface-100 hover:bg-surface-50">
-                          <td className="py-3 px-3 font-medium">{s.scenarioName}</td>
-                          <td className="py-3 px-3 text-right font-mono text-sm text-green-600">
-                            +{formatNumber(s.additionalKm)}
-                          </td>
-                          <td className="py-3 px-3 text-right font-mono text-sm">
-                            {formatNumber(s.projectedKm)}
-                          </td>
+                      {WHAT_IF_ROWS.map((row) => (
+                        <tr key={row.label} className="border-b border-surface-100">
+                          <td className="py-2 px-3 text-sm text-surface-600">{row.label}</td>
                           <td
-                            className={`py-3 px-3 text-right font-mono text-sm ${getAchievementColor(
-                              s.projectedAchievement
-                            )}`}
+                            className={`py-2 px-3 text-right font-mono text-sm bg-surface-50 ${
+                              row.strong ? "font-semibold text-surface-900" : ""
+                            }`}
                           >
-                            {formatPercentage(s.projectedAchievement)}
-                          </td>
-                          <td className="py-3 px-3 text-right font-mono text-sm font-semibold text-primary-600">
-                            {formatCurrency(s.projectedIncentive)}
-                          </td>
-                          <td className="py-3 px-3 text-right font-mono text-sm text-green-600">
-                            +{formatCurrency(s.difference.incentive)}
-                          </td>
-                          <td className="py-3 px-3 text-right font-mono text-sm">
-                            {formatCurrency(s.projectedEarnings)}
+                            {row.value(whatIfResult.current)}
                           </td>
+                          {whatIfResult.scenarios.map((s, i) => (
+                            <td
+                              key={i}
+                              className={`py-2 px-3 text-right font-mono text-sm ${
+                                row.strong ? "font-semibold text-primary-600" : ""
+                              }`}
+                            >
+                              {row.value(s.result)}
+                            </td>
+                          ))}
                         </tr>
                       ))}
+                      <tr>
+                        <td className="py-2 px-3 text-sm font-medium text-surface-700">vs Current</td>
+                        <td className="py-2 px-3 bg-surface-50" />
+                        {whatIfResult.scenarios.map((s, i) => (
+                          <td
+                            key={i}
+                            className={`py-2 px-3 text-right font-mono text-sm font-semibold ${
+                              s.difference.incentive >= 0 ? "text-green-600" : "text-red-600"
+                            }`}
+                          >
+                            {s.difference.incentive >= 0 ? "+" : ""}
+                            {formatCurrency(s.difference.incentive)}
+                            <div className={`text-xs font-normal ${getAchievementColor(s.projectedAchievement)}`}>
+                              {s.difference.achievement >= 0 ? "+" : ""}
+                              {formatPercentage(s.difference.achievement)} achievement
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
                     </tbody>
                   </table>
+                  <p className="text-xs text-surface-500 mt-2">
+                    The monthly incentive pool is fleet-wide and is not applied to single-driver scenarios.
+                  </p>
                 </div>
               )}
             </div>
           )}
 
+          {/* DRIFT VIEW */}
+          {viewMode === "drift" && (
+            <div className="space-y-6">
+              <div className="bg-surface-50 rounded-lg p-4">
+                <h3 className="font-semibold text-surface-900 mb-2">Recalculation Drift</h3>
+                <p className="text-sm text-surface-600 mb-4">
+                  Recompute every driver for{" "}
+                  <strong>
+                    {getMonthName(selectedMonth)} {selectedYear}
+                  </strong>{" "}
+                  with the current settings, rates and records, and compare the result with the stored
+                  calculations. Drafts can be recalculated; approved and paid rows need a correction.
+                </p>
+                <button onClick={handleCheckDrift} disabled={isProcessing} className="btn btn-primary">
+                  {isProcessing ? "Checking..." : "Check for Drift"}
+                </button>
+              </div>
+
+              {currentDrift && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="bg-white border border-surface-200 rounded-lg p-4">
+                      <p className="text-xs text-surface-500 uppercase">Matching</p>
+                      <p className="text-2xl font-bold text-green-600">
+                        {currentDrift.matchedCount} / {currentDrift.summary.checked}
+                      </p>
+                    </div>
+                    <div className="bg-white border border-surface-200 rounded-lg p-4">
+                      <p className="text-xs text-surface-500 uppercase">Drifted Drafts</p>
+                      <p className="text-2xl font-bold text-amber-600">{currentDrift.summary.draftDrifted}</p>
+                      <p className="text-xs text-surface-500 font-mono">
+                        {formatCurrency(currentDrift.summary.draftDifference)}
+                      </p>
+                    </div>
+                    <div className="bg-white border border-surface-200 rounded-lg p-4">
+                      <p className="text-xs text-surface-500 uppercase">Drifted Locked</p>
+                      <p className="text-2xl font-bold text-red-600">{currentDrift.summary.lockedDrifted}</p>
+                      <p className="text-xs text-surface-500 font-mono">
+                        {formatCurrency(currentDrift.summary.lockedDifference)}
+                      </p>
+                    </div>
+                    <div className="bg-white border border-surface-200 rounded-lg p-4">
+                      <p className="text-xs text-surface-500 uppercase">Not Calculated</p>
+                      <p className="text-2xl font-bold text-surface-900">{currentDrift.uncalculated.length}</p>
+                    </div>
+                  </div>
+
+                  {currentDrift.drifted.length === 0 ? (
+                    <p className="text-center text-surface-500 text-sm py-6">
+                      All stored calculations match a fresh engine run.
+                    </p>
+                  ) : (
+                    <div>
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-semibold text-surface-900">Mismatched Calculations</h3>
+                        {currentDrift.summary.draftDrifted > 0 && (
+                          <button
+                            onClick={() => handleRecalculateDrift(currentDrift.drifted)}
+                            disabled={isProcessing}
+                            className="btn btn-secondary"
+                          >
+                            Recalculate All Drafts ({currentDrift.summary.draftDrifted})
+                          </button>
+                        )}
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full">
+                          <thead>
+                            <tr className="border-b border-surface-200">
+                              <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Driver
+                              </th>
+                              <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Status
+                              </th>
+                              <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Field
+                              </th>
+                              <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Stored
+                              </th>
+                              <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Recalculated
+                              </th>
+                              <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Difference
+                              </th>
+                              <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">
+                                Action
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {currentDrift.drifted.map((drift) =>
+                              drift.fields.map((field, index) => (
+                                <tr
+                                  key={`${drift.calculationId}-${field.field}`}
+                                  className={`border-b ${
+                                    index === drift.fields.length - 1 ? "border-surface-200" : "border-surface-100"
+                                  } ${isLockedStatus(drift.status) ? "bg-red-50/40" : ""}`}
+                                >
+                                  <td className="py-2 px-3 font-medium text-surface-900">
+                                    {index === 0 ? drift.driverName : ""}
+                                  </td>
+                                  <td className="py-2 px-3">
+                                    {index === 0 && (
+                                      <span
+                                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(drift.status)}`}
+                                      >
+                                        {getStatusLabel(drift.status)}
+                                      </span>
+                                    )}
+                                  </td>
+                                  <td className="py-2 px-3 text-sm text-surface-700">{field.label}</td>
+                                  <td className="py-2 px-3 text-right font-mono text-sm">
+                                    {formatCurrency(field.stored)}
+                                  </td>
+                                  <td className="py-2 px-3 text-right font-mono text-sm">
+                                    {formatCurrency(field.recalculated)}
+                                  </td>
+                                  <td
+                                    className={`py-2 px-3 text-right font-mono text-sm font-medium ${
+                                      field.difference > 0 ? "text-green-600" : "text-red-600"
+                                    }`}
+                                  >
+                                    {field.difference > 0 ? "+" : ""}
+                                    {formatCurrency(field.difference)}
+                                  </td>
+                                  <td className="py-2 px-3 text-right">
+                                    {index === 0 &&
+                                      (isLockedStatus(drift.status) ? (
+                                        <span className="text-xs text-red-600">Locked</span>
+                                      ) : (
+                                        <button
+                                          onClick={() => handleRecalculateDrift([drift])}
+                                          disabled={isProcessing}
+                                          className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                                        >
+                                          Recalculate
+                                        </button>
+                                      ))}
+                                  </td>
+                                </tr>
+                              ))
+                            )}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {currentDrift.unverifiable.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                      <h4 className="font-semibold text-red-800 mb-2">
+                        Stored Calculations That Cannot Be Recomputed ({currentDrift.unverifiable.length})
+                      </h4>
+                      <ul className="space-y-1">
+                        {currentDrift.unverifiable.map((u) => (
+                          <li key={u.calculationId} className="text-sm text-red-700">
+                            <strong>{u.driverName}</strong> ({getStatusLabel(u.status)}): {u.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {currentDrift.uncalculated.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                      <h4 className="font-semibold text-amber-800 mb-2">
+                        Drivers Without a Stored Calculation ({currentDrift.uncalculated.length})
+                      </h4>
+                      <p className="text-sm text-amber-700">
+                        {currentDrift.uncalculated.map((u) => u.driverName).join(", ")}. Run a batch calculation
+                        to create their drafts.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* AUDIT VIEW */}
           {viewMode === "audit" && (
             <div className="space-y-6">
@@ -1203,9 +2320,11 @@ export default function CalculationsPage() {
                                       ? "bg-red-100 text-red-700"
                                       : log.action === "approve"
                                         ? "bg-blue-100 text-blue-700"
-                                        : log.action === "rollback"
+                                        : log.action === "rollback" || log.action === "reopen_period"
                                           ? "bg-amber-100 text-amber-700"
-                                          : "bg-surface-100 text-surface-700"
+                                          : log.action === "close_period"
+                                            ? "bg-purple-100 text-purple-700"
+                                            : "bg-surface-100 text-surface-700"
                                 }`}
                               >
                                 {log.action}
@@ -1287,6 +2406,91 @@ export default function CalculationsPage() {
 
       {/* Bulk Performance Entry Modal */}
       {showBulkModal && <BulkPerformanceModal onClose={() => setShowBulkModal(false)} />}
+      {traceCalculation && (
+        <CalculationTraceModal
+          calculation={traceCalculation.calc}
+          driverName={traceCalculation.driverName}
+          onClose={() => setTraceCalculation(null)}
+        />
+      )}
     </div>
   );
 }
+
+// ============================================
+// WHAT-IF HELPERS
+// ============================================
+
+function emptyScenarioDraft(name: string): ScenarioDraft {
+  return {
+    key: `${Date.now()}-${Math.random()}`,
+    savedId: null,
+    name,
+    additionalKm: "",
+    fuelEfficiency: "",
+    safetyScore: "",
+    onTimeRate: "",
+    customerRating: "",
+  };
+}
+
+function savedScenarioToDraft(saved: SavedWhatIfScenario): ScenarioDraft {
+  const text = (value: number | null) => (value === null ? "" : String(value));
+  return {
+    key: saved.id,
+    savedId: saved.id,
+    name: saved.name,
+    additionalKm: text(saved.additional_km),
+    fuelEfficiency: text(saved.fuel_efficiency),
+    safetyScore: text(saved.safety_score),
+    onTimeRate: text(saved.on_time_delivery_rate),
+    customerRating: text(saved.customer_rating),
+  };
+}
+
+function draftToScenarioInput(draft: ScenarioDraft): WhatIfScenarioInput {
+  const num = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+  return {
+    name: draft.name || "Scenario",
+    additionalKm: num(draft.additionalKm),
+    fuelEfficiency: num(draft.fuelEfficiency),
+    safetyScore: num(draft.safetyScore),
+    onTimeRate: num(draft.onTimeRate),
+    customerRating: num(draft.customerRating),
+  };
+}
+
+// Rows of the side-by-side scenario comparison
+const WHAT_IF_ROWS: { label: string; value: (r: CalculationResult) => string; strong?: boolean }[] = [
+  { label: "Actual KM", value: (r) => formatNumber(r.actualKm) },
+  { label: "Achievement", value: (r) => formatPercentage(r.achievement) },
+  { label: "Tier", value: (r) => r.calculationDetails.achievement_tier?.name || "-" },
+  {
+    label: "Fuel Efficiency",
+    value: (r) => {
+      const fuel = r.calculationDetails.bonus_breakdown?.fuel_efficiency;
+      return fuel === undefined ? "-" : `${fuel} km/L`;
+    },
+  },
+  {
+    label: "Safety / On-Time",
+    value: (r) => {
+      const b = r.calculationDetails.bonus_breakdown;
+      return `${b?.safety_score ?? "-"} / ${b?.on_time_rate ?? "-"}`;
+    },
+  },
+  { label: "Customer Rating", value: (r) => String(r.calculationDetails.bonus_breakdown?.customer_rating ?? "-") },
+  { label: "KM Incentive", value: (r) => formatCurrency(r.kmIncentive) },
+  { label: "Performance Bonus", value: (r) => formatCurrency(r.performanceBonus) },
+  { label: "Safety Bonus", value: (r) => formatCurrency(r.safetyBonus) },
+  {
+    label: "Fuel Bonus",
+    value: (r) => formatCurrency(r.calculationDetails.bonus_breakdown?.fuel_efficiency_bonus || 0),
+  },
+  { label: "Deductions", value: (r) => (r.deductions > 0 ? `-${formatCurrency(r.deductions)}` : "-") },
+  { label: "Total Incentive", value: (r) => formatCurrency(r.totalIncentive), strong: true },
+  { label: "Total Earnings", value: (r) => formatCurrency(r.totalEarnings) },
+];
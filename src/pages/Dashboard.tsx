@@ -1,11 +1,24 @@
+import { endOfMonth, format, min, subMonths } from "date-fns";
+import { useMemo } from "react";
 import { Link } from "react-router-dom";
+import { HeatmapCalendar } from "../components/charts";
+import { useDailyKilometers } from "../hooks/useRealtimeData";
 import { useStore } from "../store/useStore";
+import
+  {
+    calculateDailyProjection,
+    getDailyKmTotals,
+    getDaysInMonth,
+  } from "../utils/analytics";
 import
   {
     formatCurrency,
     formatNumber,
     getMonthName,
   } from "../utils/formatters";
+import { getRateInForce } from "../utils/kilometerRates";
+import { resolveSettingsForPeriod } from "../utils/settingsVersions";
+import { countWorkingDays, getWorkingCalendarConfig, getWorkingDaysInMonth } from "../utils/workingCalendar";
 
 export default function Dashboard() {
   const {
@@ -13,6 +26,9 @@ export default function Dashboard() {
     incentiveCalculations,
     driverPerformance,
     kilometerRates,
+    monthlyBudgets,
+    incentiveSettings,
+    calendarDays,
     selectedYear,
     selectedMonth,
   } = useStore();
@@ -50,11 +66,37 @@ export default function Dashboard() {
   );
 
   // Get current rates
-  const localRate = kilometerRates.find(
-    (r) => r.driver_type === "local" && r.is_active,
+  const today = format(new Date(), "yyyy-MM-dd");
+  const localRate = getRateInForce(kilometerRates, "local", today);
+  const exportRate = getRateInForce(kilometerRates, "export", today);
+
+  // Fleet daily kilometres for the selected month and the two before it
+  const periodStart = new Date(selectedYear, selectedMonth - 1, 1);
+  const heatmapStart = format(subMonths(periodStart, 2), "yyyy-MM-dd");
+  const heatmapEnd = format(min([endOfMonth(periodStart), new Date()]), "yyyy-MM-dd");
+  const dailyEntries = useDailyKilometers(heatmapStart, heatmapEnd);
+  const dailyTotals = useMemo(() => getDailyKmTotals(dailyEntries), [dailyEntries]);
+
+  // Month-end projection from the fleet's daily pace, over company working days
+  const totalBudgetKm = monthlyBudgets
+    .filter((b) => b.year === selectedYear && b.month === selectedMonth)
+    .reduce((sum, b) => sum + b.budgeted_kilometers, 0);
+  const isCurrentMonth =
+    selectedYear === new Date().getFullYear() && selectedMonth === new Date().getMonth() + 1;
+  const asOfDay = isCurrentMonth ? new Date().getDate() : getDaysInMonth(selectedYear, selectedMonth);
+  const workingDays = getWorkingDaysInMonth(
+    selectedYear,
+    selectedMonth,
+    calendarDays,
+    getWorkingCalendarConfig(resolveSettingsForPeriod(incentiveSettings, selectedYear, selectedMonth)),
   );
-  const exportRate = kilometerRates.find(
-    (r) => r.driver_type === "export" && r.is_active,
+  const dailyProjection = calculateDailyProjection(
+    dailyTotals,
+    totalBudgetKm,
+    selectedYear,
+    selectedMonth,
+    asOfDay,
+    workingDays,
   );
 
   // Top performers
@@ -157,6 +199,62 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Daily Kilometers */}
+      <div className="bg-white rounded-lg border border-surface-200 overflow-hidden">
+        <div className="px-5 py-4 border-b border-surface-100">
+          <h2 className="text-sm font-semibold text-surface-900">Daily Kilometers</h2>
+          <p className="text-xs text-surface-500 mt-0.5">
+            Fleet kilometers logged per day
+          </p>
+        </div>
+        <div className="p-5 grid grid-cols-1 lg:grid-cols-3 gap-5">
+          <div className="lg:col-span-2">
+            {dailyTotals.length > 0 ? (
+              <HeatmapCalendar data={dailyTotals} startDate={heatmapStart} endDate={heatmapEnd} />
+            ) : (
+              <p className="text-sm text-surface-500 py-8 text-center">No daily kilometers logged yet</p>
+            )}
+          </div>
+          <div className="space-y-2 text-sm">
+            <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">
+              {getMonthName(selectedMonth)} projection (daily pace)
+            </p>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Pace (last 7 working days)</span>
+              <span className="font-medium text-surface-900 tabular-nums">
+                {formatNumber(Math.round(dailyProjection.currentPace))} km/day
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Projected Month End</span>
+              <span className="font-medium text-surface-900 tabular-nums">
+                {formatNumber(dailyProjection.projectedMonthEnd)} km
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-500">Budget</span>
+              <span className="font-medium text-surface-900 tabular-nums">{formatNumber(totalBudgetKm)} km</span>
+            </div>
+            {isCurrentMonth && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-surface-500">Working Days Left</span>
+                  <span className="font-medium text-surface-900 tabular-nums">
+                    {countWorkingDays(workingDays, asOfDay).remaining} of {workingDays.length}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-surface-500">Daily KM Needed</span>
+                  <span className="font-medium text-surface-900 tabular-nums">
+                    {formatNumber(dailyProjection.dailyKmNeeded)} km/working day
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
         {/* Top Performers */}
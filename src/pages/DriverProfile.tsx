@@ -22,10 +22,15 @@ import
 import AddMonthlySalaryModal from "../components/AddMonthlySalaryModal";
 import AddPerformanceModal from "../components/AddPerformanceModal";
 import AddRecordModal from "../components/AddRecordModal";
+import CalculationTraceModal from "../components/CalculationTraceModal";
+import DailyKilometersCard from "../components/DailyKilometersCard";
 import EditDriverModal from "../components/EditDriverModal";
-import { useDriverRecords } from "../hooks/useRealtimeData";
+import TripModal from "../components/TripModal";
+import { useDriverPeriodBonuses, useDriverRecords, useDriverTrips } from "../hooks/useRealtimeData";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
+import type { IncentiveCalculation, Trip } from "../types/database";
+import { getCalculationTier, getStoredPayoutSplit, getTierBadgeColor } from "../utils/calculations";
 import
   {
     captureAllCharts,
@@ -48,8 +53,12 @@ import
     getSeverityColor,
     getStatusColor,
   } from "../utils/formatters";
+import { getBonusPeriodLabel } from "../utils/periodBonuses";
+import { getCurrentSettings } from "../utils/settingsVersions";
+import { isTripOnTime, summarizeTripsByMonth } from "../utils/trips";
+import { getAssignmentHistory } from "../utils/vehicles";
 
-type TabId = "overview" | "performance" | "records" | "incentives" | "earnings";
+type TabId = "overview" | "performance" | "trips" | "records" | "incentives" | "earnings";
 
 export default function DriverProfile() {
   const { id } = useParams<{ id: string }>();
@@ -63,6 +72,8 @@ export default function DriverProfile() {
     zigUsdConversionRates,
     driverSalaryHistory,
     incentiveSettings,
+    vehicles,
+    vehicleAssignments,
     showToast,
   } = useStore();
   const {
@@ -72,6 +83,8 @@ export default function DriverProfile() {
     leaveRecords,
     loading: recordsLoading,
   } = useDriverRecords(id);
+  const periodBonuses = useDriverPeriodBonuses(id);
+  const trips = useDriverTrips(id);
 
   const [activeTab, setActiveTab] = useState<TabId>("overview");
   const [showEditModal, setShowEditModal] = useState(false);
@@ -79,6 +92,8 @@ export default function DriverProfile() {
     null,
   );
   const [showAddPerformanceModal, setShowAddPerformanceModal] = useState(false);
+  const [tripModal, setTripModal] = useState<{ trip?: Trip } | null>(null);
+  const [selectedTripMonth, setSelectedTripMonth] = useState("all");
   const [showMonthlySalaryModal, setShowMonthlySalaryModal] = useState(false);
   const [editingSalaryEntry, setEditingSalaryEntry] = useState<{
     id: string;
@@ -92,6 +107,7 @@ export default function DriverProfile() {
   const [selectedEarningsYear, setSelectedEarningsYear] = useState<number>(new Date().getFullYear());
   const [selectedIncentivesYear, setSelectedIncentivesYear] = useState<number>(new Date().getFullYear());
   const [isExporting, setIsExporting] = useState(false);
+  const [traceCalculation, setTraceCalculation] = useState<IncentiveCalculation | null>(null);
 
   const driver = drivers.find((d) => d.id === id);
   const performance = driverPerformance
@@ -141,8 +157,14 @@ export default function DriverProfile() {
     ],
   };
 
+  // Settings versions in force today
+  const currentSettings = useMemo(
+    () => getCurrentSettings(incentiveSettings),
+    [incentiveSettings]
+  );
+
   const localFuelConfig = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = currentSettings.find(
       (s) => s.setting_key === "fuel_efficiency_bonus_local"
     );
     if (!setting?.setting_value) return DEFAULT_LOCAL_FUEL_TIERS;
@@ -155,10 +177,10 @@ export default function DriverProfile() {
     } catch {
       return DEFAULT_LOCAL_FUEL_TIERS;
     }
-  }, [incentiveSettings]);
+  }, [currentSettings]);
 
   const exportFuelConfig = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = currentSettings.find(
       (s) => s.setting_key === "fuel_efficiency_bonus_export"
     );
     if (!setting?.setting_value) return DEFAULT_EXPORT_FUEL_TIERS;
@@ -171,7 +193,7 @@ export default function DriverProfile() {
     } catch {
       return DEFAULT_EXPORT_FUEL_TIERS;
     }
-  }, [incentiveSettings]);
+  }, [currentSettings]);
   
   const currentConversionRateObj = useMemo(() => {
     return zigUsdConversionRates.find(
@@ -258,6 +280,9 @@ export default function DriverProfile() {
       deductions: number;
       totalIncentive: number;
       totalEarnings: number;
+      incentiveUsd: number;
+      incentiveZig: number;
+      payoutRate: number | null;
       actualKm: number;
       fuelEfficiency: number | null;
       hasCalculation: boolean;
@@ -325,6 +350,9 @@ export default function DriverProfile() {
       // Total = Base Salary + All Incentives (including fuel) - Deductions
       const totalEarnings = totalBase + kmIncentive + fuelBonus + performanceBonus + safetyBonus - deductions;
 
+      // Currency split of the calculated incentive
+      const payout = calc ? getStoredPayoutSplit(calc) : { usd: 0, zig: 0, conversionRate: null };
+
       earnings.push({
         year,
         month,
@@ -340,6 +368,9 @@ export default function DriverProfile() {
         deductions,
         totalIncentive: kmIncentive + fuelBonus + performanceBonus + safetyBonus,
         totalEarnings,
+        incentiveUsd: payout.usd,
+        incentiveZig: payout.zig,
+        payoutRate: payout.conversionRate,
         actualKm: perf?.actual_kilometers || 0,
         fuelEfficiency: perf?.fuel_efficiency || null,
         hasCalculation: !!calc,
@@ -364,6 +395,41 @@ export default function DriverProfile() {
       .sort((a, b) => a.month - b.month);
   }, [calculations, selectedIncentivesYear]);
 
+  // Trip log totals per month (what the database rolls up into performance)
+  const tripMonths = useMemo(() => summarizeTripsByMonth(trips), [trips]);
+  const filteredTrips = useMemo(
+    () =>
+      selectedTripMonth === "all"
+        ? trips
+        : trips.filter((t) => t.trip_date.startsWith(selectedTripMonth)),
+    [trips, selectedTripMonth]
+  );
+
+  // This month's target per driver (budget shared across the fleet's trucks)
+  const currentMonthTargetKm = useMemo(() => {
+    if (!driver) return 0;
+    const now = new Date();
+    const budget = monthlyBudgets.find(
+      (b) =>
+        b.year === now.getFullYear() &&
+        b.month === now.getMonth() + 1 &&
+        b.driver_type === driver.driver_type
+    );
+    return budget ? Math.round(budget.budgeted_kilometers / (budget.truck_count || 1)) : 0;
+  }, [monthlyBudgets, driver]);
+
+  // Truck assignments, newest first
+  const assignmentHistory = useMemo(
+    () => (id ? getAssignmentHistory(vehicleAssignments, { driverId: id }) : []),
+    [vehicleAssignments, id]
+  );
+
+  // Quarterly and annual bonus lines for the selected year
+  const filteredPeriodBonuses = useMemo(() => {
+    return periodBonuses.filter(b => b.year === selectedIncentivesYear)
+      .sort((a, b) => (a.period_type === b.period_type ? a.period_number - b.period_number : a.period_type === "quarterly" ? -1 : 1));
+  }, [periodBonuses, selectedIncentivesYear]);
+
   // Year-over-year comparison data (compare selected year with previous year)
   const yearOverYearData = useMemo(() => {
     if (!driver) return [];
@@ -408,6 +474,7 @@ export default function DriverProfile() {
       const deductions = calc?.deductions || 0;
       
       const totalEarnings = totalBase + kmIncentive + fuelBonus + performanceBonus + safetyBonus - deductions;
+      const payout = calc ? getStoredPayoutSplit(calc) : { usd: 0, zig: 0, conversionRate: null };
       
       prevYearEarnings.push({
         year: previousYear,
@@ -424,6 +491,9 @@ export default function DriverProfile() {
         deductions,
         totalIncentive: kmIncentive + fuelBonus + performanceBonus + safetyBonus,
         totalEarnings,
+        incentiveUsd: payout.usd,
+        incentiveZig: payout.zig,
+        payoutRate: payout.conversionRate,
         actualKm: perf?.actual_kilometers || 0,
         fuelEfficiency: perf?.fuel_efficiency || null,
         hasCalculation: !!calc,
@@ -643,6 +713,9 @@ export default function DriverProfile() {
           deductions: e.deductions,
           totalIncentive: e.totalIncentive,
           totalEarnings: e.totalEarnings,
+          incentiveUsd: e.incentiveUsd,
+          incentiveZig: e.incentiveZig,
+          payoutRate: e.payoutRate,
         })),
         yearOverYearData: yearOverYearData.map(d => ({
           month: d.month,
@@ -657,6 +730,14 @@ export default function DriverProfile() {
           totalEarnings: s.totalEarnings,
           incentivePercent: s.incentivePercent,
         })),
+        periodBonuses: periodBonuses
+          .filter(b => b.year === selectedEarningsYear)
+          .map(b => ({
+            period: getBonusPeriodLabel({ type: b.period_type, year: b.year, number: b.period_number }),
+            label: b.label,
+            amount: Number(b.amount),
+            status: b.status,
+          })),
         chartImages,
       };
       
@@ -701,6 +782,7 @@ export default function DriverProfile() {
     { id: "overview", label: "Overview" },
     { id: "earnings", label: "Earnings" },
     { id: "performance", label: "Performance" },
+    { id: "trips", label: "Trip Log" },
     { id: "records", label: "Records" },
     { id: "incentives", label: "Incentives" },
   ];
@@ -1096,6 +1178,50 @@ export default function DriverProfile() {
               )}
             </div>
 
+            {/* Vehicle Assignments */}
+            <div className="bg-white rounded-2xl border border-surface-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-semibold text-surface-900">Vehicle Assignments</h2>
+                <Link to="/vehicles" className="btn btn-secondary btn-sm">
+                  Manage Vehicles
+                </Link>
+              </div>
+              {assignmentHistory.length === 0 ? (
+                <p className="text-surface-600">No truck assigned to this driver yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {assignmentHistory.map((assignment) => {
+                    const vehicle = vehicles.find((v) => v.id === assignment.vehicle_id);
+                    return (
+                      <li
+                        key={assignment.id}
+                        className="flex items-center justify-between p-3 rounded-lg bg-surface-50 border border-surface-100"
+                      >
+                        <div>
+                          <p className="font-mono font-medium text-surface-900">
+                            {vehicle?.registration_number || "Unknown vehicle"}
+                          </p>
+                          <p className="text-xs text-surface-500">
+                            {vehicle ? `${vehicle.vehicle_type} · ${vehicle.fleet}` : "-"}
+                            {assignment.notes && ` · ${assignment.notes}`}
+                          </p>
+                        </div>
+                        <div className="text-right text-sm">
+                          <p className="text-surface-700">
+                            {formatDate(assignment.start_date)} –{" "}
+                            {assignment.end_date ? formatDate(assignment.end_date) : "present"}
+                          </p>
+                          {!assignment.end_date && (
+                            <span className="badge badge-success">Current</span>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
             {/* Notes */}
             <div className="bg-white rounded-2xl border border-surface-200 p-6">
               <h2 className="font-semibold text-surface-900 mb-4">Notes</h2>
@@ -1107,109 +1233,122 @@ export default function DriverProfile() {
         )}
 
         {activeTab === "performance" && (
-          <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
-            <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
-              <h2 className="font-semibold text-surface-900">
-                Monthly Performance
-              </h2>
-              <button
-                onClick={() => setShowAddPerformanceModal(true)}
-                className="btn btn-primary text-sm"
-              >
-                <svg
-                  className="w-4 h-4 mr-1.5"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 4v16m8-8H4"
-                  />
-                </svg>
-                Add Performance
-              </button>
-            </div>
-            <div className="table-container">
-              <table>
-                <thead>
-                  <tr>
-                    <th>Period</th>
-                    <th>Actual KM</th>
-                    <th>Target KM</th>
-                    <th>Achievement</th>
-                    <th>Trips</th>
-                    <th>Fuel Efficiency</th>
-                    <th>On-Time Rate</th>
-                    <th>Safety Score</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {performance.length > 0 ? (
-                    performance.map((p) => {
-                      const budget = monthlyBudgets.find(
-                        (b) =>
-                          b.year === p.year &&
-                          b.month === p.month &&
-                          b.driver_type === driver.driver_type,
-                      );
-                      // Divide budgeted KM by truck count to get target per driver
-                      const truckCount = budget?.truck_count || 1;
-                      const target = budget?.budgeted_kilometers 
-                        ? Math.round(budget.budgeted_kilometers / truckCount)
-                        : 0;
-                      const achievement = calculateAchievementPercentage(
-                        p.actual_kilometers,
-                        target,
-                      );
+          <div className="space-y-6">
+            <DailyKilometersCard driverId={driver.id} targetKm={currentMonthTargetKm} />
 
-                      return (
-                        <tr key={p.id}>
-                          <td className="font-medium">
-                            {getMonthName(p.month)} {p.year}
-                          </td>
-                          <td>{formatNumber(p.actual_kilometers)}</td>
-                          <td>{formatNumber(target)}</td>
-                          <td>
-                            <span
-                              className={`font-medium ${getAchievementColor(achievement)}`}
-                            >
-                              {formatPercentage(achievement)}
-                            </span>
-                          </td>
-                          <td>{p.trips_completed}</td>
-                          <td>
-                            {p.fuel_efficiency
-                              ? `${p.fuel_efficiency} km/l`
-                              : "-"}
-                          </td>
-                          <td>
-                            {p.on_time_delivery_rate
-                              ? formatPercentage(p.on_time_delivery_rate)
-                              : "-"}
-                          </td>
-                          <td>
-                            {p.safety_score
-                              ? formatPercentage(p.safety_score)
-                              : "-"}
-                          </td>
-                        </tr>
-                      );
-                    })
-                  ) : (
+            <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
+                <h2 className="font-semibold text-surface-900">
+                  Monthly Performance
+                </h2>
+                <button
+                  onClick={() => setShowAddPerformanceModal(true)}
+                  className="btn btn-primary text-sm"
+                >
+                  <svg
+                    className="w-4 h-4 mr-1.5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 4v16m8-8H4"
+                    />
+                  </svg>
+                  Add Performance
+                </button>
+              </div>
+              <div className="table-container">
+                <table>
+                  <thead>
                     <tr>
-                      <td
-                        colSpan={8}
-                        className="text-center py-12 text-surface-500"
-                      >
-                        No performance data available
-                      </td>
+                      <th>Period</th>
+                      <th>Actual KM</th>
+                      <th>Target KM</th>
+                      <th>Achievement</th>
+                      <th>Trips</th>
+                      <th>Fuel Efficiency</th>
+                      <th>On-Time Rate</th>
+                      <th>Safety Score</th>
                     </tr>
-                  )}
-                </tbody>
-              </table>
+                  </thead>
+                  <tbody>
+                    {performance.length > 0 ? (
+                      performance.map((p) => {
+                        const budget = monthlyBudgets.find(
+                          (b) =>
+                            b.year === p.year &&
+                            b.month === p.month &&
+                            b.driver_type === driver.driver_type,
+                        );
+                        // Divide budgeted KM by truck count to get target per driver
+                        const truckCount = budget?.truck_count || 1;
+                        const target = budget?.budgeted_kilometers 
+                          ? Math.round(budget.budgeted_kilometers / truckCount)
+                          : 0;
+                        const achievement = calculateAchievementPercentage(
+                          p.actual_kilometers,
+                          target,
+                        );
+
+                        return (
+                          <tr key={p.id}>
+                            <td className="font-medium">
+                              {getMonthName(p.month)} {p.year}
+                            </td>
+                            <td>{formatNumber(p.actual_kilometers)}</td>
+                            <td>{formatNumber(target)}</td>
+                            <td>
+                              <span
+                                className={`font-medium ${getAchievementColor(achievement)}`}
+                              >
+                                {formatPercentage(achievement)}
+                              </span>
+                            </td>
+                            <td>{p.trips_completed}</td>
+                            <td>
+                              {p.fuel_efficiency
+                                ? `${p.fuel_efficiency} km/l`
+                                : "-"}
+                              {p.fuel_efficiency_source === "ledger" && (
+                                <Link
+                                  to="/fuel"
+                                  className="block text-xs text-primary-600 hover:text-primary-700"
+                                  title="Computed from the fuel ledger"
+                                >
+                                  {p.fuel_transaction_ids.length} fills
+                                </Link>
+                              )}
+                            </td>
+                            <td>
+                              {p.on_time_delivery_rate
+                                ? formatPercentage(p.on_time_delivery_rate)
+                                : "-"}
+                            </td>
+                            <td>
+                              {p.safety_score
+                                ? formatPercentage(p.safety_score)
+                                : "-"}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    ) : (
+                      <tr>
+                        <td
+                          colSpan={8}
+                          className="text-center py-12 text-surface-500"
+                        >
+                          No performance data available
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
             </div>
           </div>
         )}
@@ -1479,111 +1618,321 @@ export default function DriverProfile() {
           </div>
         )}
 
-        {activeTab === "incentives" && (
-          <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
-            <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
-              <div>
-                <h2 className="font-semibold text-surface-900">
-                  Incentive History
-                </h2>
-                <p className="text-sm text-surface-500 mt-0.5">
-                  View incentive calculations by year
-                </p>
+        {activeTab === "trips" && (
+          <div className="space-y-6">
+            {/* Monthly totals */}
+            <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
+                <div>
+                  <h2 className="font-semibold text-surface-900">Monthly Totals</h2>
+                  <p className="text-sm text-surface-500">
+                    Kilometers, trips and on-time rate on the performance record are derived from completed trips
+                  </p>
+                </div>
+                <button onClick={() => setTripModal({})} className="btn btn-primary text-sm">
+                  Log Trip
+                </button>
               </div>
-              <div className="flex items-center gap-2">
-                <label className="text-sm font-medium text-surface-600">Year:</label>
+              {tripMonths.length > 0 ? (
+                <div className="table-container">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Month</th>
+                        <th className="text-right">Kilometers</th>
+                        <th className="text-right">Trips</th>
+                        <th className="text-right">On Time</th>
+                        <th className="text-right">Voided</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tripMonths.slice(0, 6).map((m) => (
+                        <tr key={`${m.year}-${m.month}`}>
+                          <td className="font-medium">{getMonthName(m.month)} {m.year}</td>
+                          <td className="text-right">{formatNumber(m.kilometers)}</td>
+                          <td className="text-right">{m.tripsCompleted}</td>
+                          <td className="text-right">{m.onTimeRate !== null ? `${m.onTimeRate}%` : "-"}</td>
+                          <td className="text-right text-surface-500">{m.voided || "-"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="px-6 py-12 text-center text-surface-500">
+                  No trips logged
+                </div>
+              )}
+            </div>
+
+            {/* Trips */}
+            <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
+                <div>
+                  <h2 className="font-semibold text-surface-900">Trips</h2>
+                  <p className="text-sm text-surface-500">{filteredTrips.length} trips</p>
+                </div>
                 <select
-                  value={selectedIncentivesYear}
-                  onChange={(e) => setSelectedIncentivesYear(Number(e.target.value))}
-                  className="input py-1.5 px-3 text-sm w-28"
+                  className="form-select w-44"
+                  value={selectedTripMonth}
+                  onChange={(e) => setSelectedTripMonth(e.target.value)}
                 >
-                  {availableYears.map((year) => (
-                    <option key={year} value={year}>{year}</option>
+                  <option value="all">All months</option>
+                  {tripMonths.map((m) => (
+                    <option key={`${m.year}-${m.month}`} value={`${m.year}-${m.month.toString().padStart(2, "0")}`}>
+                      {getMonthName(m.month)} {m.year}
+                    </option>
                   ))}
                 </select>
               </div>
-            </div>
-            <div className="table-container">
-              <table>
-                <thead>
-                  <tr>
-                    <th>Period</th>
-                    <th>Base Salary</th>
-                    <th>KM Incentive</th>
-                    <th>Performance Bonus</th>
-                    <th>Safety Bonus</th>
-                    <th>Deductions</th>
-                    <th>Total Incentive</th>
-                    <th>Total Earnings</th>
-                    <th>Status</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filteredCalculations.length > 0 ? (
-                    filteredCalculations.map((calc) => (
-                      <tr key={calc.id}>
-                        <td className="font-medium">
-                          {getMonthName(calc.month)} {calc.year}
-                        </td>
-                        <td>{formatCurrency(calc.base_salary)}</td>
-                        <td className="text-green-600">
-                          {formatCurrency(calc.km_incentive)}
-                        </td>
-                        <td className="text-green-600">
-                          {formatCurrency(calc.performance_bonus)}
-                        </td>
-                        <td className="text-green-600">
-                          {formatCurrency(calc.safety_bonus)}
-                        </td>
-                        <td className="text-red-600">
-                          -{formatCurrency(calc.deductions)}
-                        </td>
-                        <td className="font-medium text-primary-600">
-                          {formatCurrency(calc.total_incentive)}
-                        </td>
-                        <td className="font-semibold">
-                          {formatCurrency(calc.total_earnings)}
-                        </td>
-                        <td>
-                          <span
-                            className={`badge ${getStatusColor(calc.status)}`}
-                          >
-                            {calc.status
-                              .replace("_", " ")
-                              .charAt(0)
-                              .toUpperCase() +
-                              calc.status.replace("_", " ").slice(1)}
-                          </span>
-                        </td>
+              {filteredTrips.length > 0 ? (
+                <div className="table-container">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Route</th>
+                        <th>Truck</th>
+                        <th>Load</th>
+                        <th className="text-right">Kilometers</th>
+                        <th>Delivery</th>
+                        <th></th>
                       </tr>
-                    ))
-                  ) : (
+                    </thead>
+                    <tbody>
+                      {filteredTrips.map((trip) => {
+                        const onTime = isTripOnTime(trip);
+                        const isVoided = trip.status === "voided";
+                        return (
+                          <tr key={trip.id} className={isVoided ? "opacity-50" : ""}>
+                            <td>{formatDate(trip.trip_date)}</td>
+                            <td>
+                              <span className={isVoided ? "line-through" : ""}>
+                                {trip.origin} → {trip.destination}
+                              </span>
+                              {isVoided && (
+                                <p className="text-xs text-red-600">Voided: {trip.void_reason}</p>
+                              )}
+                            </td>
+                            <td className="font-mono text-sm">
+                              {vehicles.find((v) => v.id === trip.vehicle_id)?.registration_number || "-"}
+                            </td>
+                            <td className="text-sm">{trip.load_reference || "-"}</td>
+                            <td className="text-right">{formatNumber(trip.kilometers)}</td>
+                            <td>
+                              {onTime === null ? (
+                                <span className="text-surface-400">-</span>
+                              ) : (
+                                <span className={`badge ${onTime ? "badge-success" : "badge-danger"}`}>
+                                  {onTime ? "On Time" : "Late"}
+                                </span>
+                              )}
+                            </td>
+                            <td className="text-right">
+                              <button
+                                onClick={() => setTripModal({ trip })}
+                                className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                              >
+                                {isVoided ? "View" : "Edit"}
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="px-6 py-12 text-center text-surface-500">
+                  No trips for this period
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === "incentives" && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-surface-100 flex items-center justify-between">
+                <div>
+                  <h2 className="font-semibold text-surface-900">
+                    Incentive History
+                  </h2>
+                  <p className="text-sm text-surface-500 mt-0.5">
+                    View incentive calculations by year
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium text-surface-600">Year:</label>
+                  <select
+                    value={selectedIncentivesYear}
+                    onChange={(e) => setSelectedIncentivesYear(Number(e.target.value))}
+                    className="input py-1.5 px-3 text-sm w-28"
+                  >
+                    {availableYears.map((year) => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="table-container">
+                <table>
+                  <thead>
                     <tr>
-                      <td
-                        colSpan={9}
-                        className="text-center py-12 text-surface-500"
-                      >
-                        No incentive calculations for {selectedIncentivesYear}
-                      </td>
+                      <th>Period</th>
+                      <th>Tier</th>
+                      <th>Base Salary</th>
+                      <th>KM Incentive</th>
+                      <th>Performance Bonus</th>
+                      <th>Safety Bonus</th>
+                      <th>Deductions</th>
+                      <th>Total Incentive</th>
+                      <th>Total Earnings</th>
+                      <th>Status</th>
+                      <th></th>
                     </tr>
+                  </thead>
+                  <tbody>
+                    {filteredCalculations.length > 0 ? (
+                      filteredCalculations.map((calc) => (
+                        <tr key={calc.id}>
+                          <td className="font-medium">
+                            {getMonthName(calc.month)} {calc.year}
+                          </td>
+                          <td>
+                            {(() => {
+                              const tier = getCalculationTier(calc);
+                              return tier ? (
+                                <span className={`badge ${getTierBadgeColor(tier.name)}`}>
+                                  {tier.name}
+                                </span>
+                              ) : (
+                                <span className="text-surface-400">—</span>
+                              );
+                            })()}
+                          </td>
+                          <td>{formatCurrency(calc.base_salary)}</td>
+                          <td className="text-green-600">
+                            {formatCurrency(calc.km_incentive)}
+                          </td>
+                          <td className="text-green-600">
+                            {formatCurrency(calc.performance_bonus)}
+                          </td>
+                          <td className="text-green-600">
+                            {formatCurrency(calc.safety_bonus)}
+                          </td>
+                          <td className="text-red-600">
+                            -{formatCurrency(calc.deductions)}
+                          </td>
+                          <td className="font-medium text-primary-600">
+                            {formatCurrency(calc.total_incentive)}
+                          </td>
+                          <td className="font-semibold">
+                            {formatCurrency(calc.total_earnings)}
+                          </td>
+                          <td>
+                            <span
+                              className={`badge ${getStatusColor(calc.status)}`}
+                            >
+                              {calc.status
+                                .replace("_", " ")
+                                .charAt(0)
+                                .toUpperCase() +
+                                calc.status.replace("_", " ").slice(1)}
+                            </span>
+                          </td>
+                          <td>
+                            <button
+                              onClick={() => setTraceCalculation(calc)}
+                              className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              Trace
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td
+                          colSpan={11}
+                          className="text-center py-12 text-surface-500"
+                        >
+                          No incentive calculations for {selectedIncentivesYear}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                  {filteredCalculations.length > 0 && (
+                    <tfoot>
+                      <tr className="bg-surface-50 font-semibold">
+                        <td className="py-2 px-3">Total ({selectedIncentivesYear})</td>
+                        <td></td>
+                        <td className="py-2 px-3">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.base_salary, 0))}</td>
+                        <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.km_incentive, 0))}</td>
+                        <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.performance_bonus, 0))}</td>
+                        <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.safety_bonus, 0))}</td>
+                        <td className="py-2 px-3 text-red-600">-{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.deductions, 0))}</td>
+                        <td className="py-2 px-3 text-primary-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.total_incentive, 0))}</td>
+                        <td className="py-2 px-3">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.total_earnings, 0))}</td>
+                        <td></td>
+                        <td></td>
+                      </tr>
+                    </tfoot>
                   )}
-                </tbody>
-                {filteredCalculations.length > 0 && (
-                  <tfoot>
-                    <tr className="bg-surface-50 font-semibold">
-                      <td className="py-2 px-3">Total ({selectedIncentivesYear})</td>
-                      <td className="py-2 px-3">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.base_salary, 0))}</td>
-                      <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.km_incentive, 0))}</td>
-                      <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.performance_bonus, 0))}</td>
-                      <td className="py-2 px-3 text-green-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.safety_bonus, 0))}</td>
-                      <td className="py-2 px-3 text-red-600">-{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.deductions, 0))}</td>
-                      <td className="py-2 px-3 text-primary-600">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.total_incentive, 0))}</td>
-                      <td className="py-2 px-3">{formatCurrency(filteredCalculations.reduce((sum, c) => sum + c.total_earnings, 0))}</td>
-                      <td></td>
+                </table>
+              </div>
+            </div>
+            {/* Quarterly & Annual Bonuses */}
+            <div className="bg-white rounded-2xl border border-surface-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-surface-100">
+                <h2 className="font-semibold text-surface-900">
+                  Quarterly & Annual Bonuses
+                </h2>
+                <p className="text-sm text-surface-500 mt-0.5">
+                  Paid as separate payslip lines from their own bonus run
+                </p>
+              </div>
+              <div className="table-container">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Period</th>
+                      <th>Bonus</th>
+                      <th>Amount</th>
+                      <th>Status</th>
                     </tr>
-                  </tfoot>
-                )}
-              </table>
+                  </thead>
+                  <tbody>
+                    {filteredPeriodBonuses.length > 0 ? (
+                      filteredPeriodBonuses.map((bonus) => (
+                        <tr key={bonus.id}>
+                          <td className="font-medium">
+                            {getBonusPeriodLabel({ type: bonus.period_type, year: bonus.year, number: bonus.period_number })}
+                          </td>
+                          <td>{bonus.label}</td>
+                          <td className="text-green-600">{formatCurrency(Number(bonus.amount))}</td>
+                          <td>
+                            <span className={`badge ${getStatusColor(bonus.status)}`}>
+                              {bonus.status
+                                .replace("_", " ")
+                                .charAt(0)
+                                .toUpperCase() +
+                                bonus.status.replace("_", " ").slice(1)}
+                            </span>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={4} className="text-center py-8 text-surface-500">
+                          No quarterly or annual bonuses for {selectedIncentivesYear}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
             </div>
           </div>
         )}
@@ -2335,6 +2684,13 @@ export default function DriverProfile() {
       </div>
 
       {/* Modals */}
+      {traceCalculation && (
+        <CalculationTraceModal
+          calculation={traceCalculation}
+          driverName={`${driver.first_name} ${driver.last_name}`}
+          onClose={() => setTraceCalculation(null)}
+        />
+      )}
       {showEditModal && (
         <EditDriverModal
           driver={driver}
@@ -2350,6 +2706,14 @@ export default function DriverProfile() {
         />
       )}
 
+      {tripModal && (
+        <TripModal
+          driverId={driver.id}
+          trip={tripModal.trip}
+          onClose={() => setTripModal(null)}
+        />
+      )}
+
       {showAddPerformanceModal && (
         <AddPerformanceModal
           driver={driver}
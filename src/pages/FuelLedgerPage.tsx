@@ -0,0 +1,292 @@
+/**
+ * Fuel Ledger Page
+ * Fuel fills per month, the km/L computed from them and the flags on
+ * implausible fills. The ledger km/L feeds driver_performance.fuel_efficiency.
+ */
+
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import FuelTransactionModal from "../components/FuelTransactionModal";
+import { syncLedgerFuelEfficiency, useFuelTransactions } from "../hooks/useRealtimeData";
+import { isSupabaseConfigured } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { FuelTransaction } from "../types/database";
+import { formatDate, formatNumber, getMonthName } from "../utils/formatters";
+import
+  {
+    analyzeFuelFills,
+    FUEL_FLAG_LABELS,
+    getFuelLedgerRange,
+    getMonthlyFuelEfficiency,
+  } from "../utils/fuelLedger";
+
+export default function FuelLedgerPage() {
+  const { drivers, vehicles, driverPerformance, showToast } = useStore();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [month, setMonth] = useState(new Date().getMonth() + 1);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [fillModal, setFillModal] = useState<{ transaction?: FuelTransaction } | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const range = getFuelLedgerRange(year, month);
+  const transactions = useFuelTransactions(range.start, range.end);
+
+  const driverNames = useMemo(
+    () => new Map(drivers.map((d) => [d.id, `${d.first_name} ${d.last_name}`])),
+    [drivers]
+  );
+  const registrations = useMemo(() => new Map(vehicles.map((v) => [v.id, v.registration_number])), [vehicles]);
+
+  // Fills dated in the month (earlier fills are only fetched as previous readings)
+  const monthPrefix = `${year}-${month.toString().padStart(2, "0")}-`;
+  const analyses = useMemo(() => analyzeFuelFills(transactions, vehicles), [transactions, vehicles]);
+  const monthFills = analyses.filter((a) => a.transaction.transaction_date.startsWith(monthPrefix));
+  const visibleFills = showFlaggedOnly ? monthFills.filter((a) => a.flags.length > 0) : monthFills;
+  const efficiencies = useMemo(() => getMonthlyFuelEfficiency(analyses, year, month), [analyses, year, month]);
+
+  const totals = {
+    litres: monthFills.reduce((sum, a) => sum + a.transaction.litres, 0),
+    usdCost: monthFills.filter((a) => a.transaction.currency === "USD").reduce((sum, a) => sum + a.transaction.cost, 0),
+    flagged: monthFills.filter((a) => a.flags.length > 0).length,
+  };
+
+  const handleSync = async () => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const count = await syncLedgerFuelEfficiency(year, month, vehicles);
+      showToast(`Updated fuel efficiency on ${count} performance record(s)`);
+    } catch (error) {
+      console.error("Error updating fuel efficiency:", error);
+      showToast("Error updating fuel efficiency");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-surface-900">Fuel Ledger</h1>
+          <p className="text-sm text-surface-500 mt-0.5">
+            Fuel fills and the km/L used for fuel efficiency bonuses
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select className="form-select" value={month} onChange={(e) => setMonth(parseInt(e.target.value))}>
+            {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
+              <option key={m} value={m}>
+                {getMonthName(m)}
+              </option>
+            ))}
+          </select>
+          <select className="form-select" value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+            {[2024, 2025, 2026].map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => setFillModal({})} className="btn btn-primary">
+            Record Fill
+          </button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Fills</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{monthFills.length}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Litres</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{formatNumber(Math.round(totals.litres))}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Cost (USD)</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">${formatNumber(Math.round(totals.usdCost))}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Flagged</p>
+          <p className={`text-xl font-semibold mt-1 ${totals.flagged > 0 ? "text-red-600" : "text-surface-900"}`}>
+            {totals.flagged}
+          </p>
+        </div>
+      </div>
+
+      {/* Driver km/L */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Driver km/L</h2>
+            <p className="text-xs text-surface-500 mt-0.5">
+              Flagged fills and each truck's first fill are left out
+            </p>
+          </div>
+          <button onClick={handleSync} disabled={isSyncing} className="btn btn-secondary">
+            {isSyncing ? "Updating..." : "Update Performance"}
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Fills</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Flagged</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Distance</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Litres</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Ledger km/L</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Performance km/L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {efficiencies.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="py-8 text-center text-surface-500">
+                    No fuel fills for {getMonthName(month)} {year}
+                  </td>
+                </tr>
+              ) : (
+                efficiencies.map((e) => {
+                  const perf = driverPerformance.find(
+                    (p) => p.driver_id === e.driverId && p.year === year && p.month === month
+                  );
+                  const inSync =
+                    perf?.fuel_efficiency_source === "ledger" && perf.fuel_efficiency === e.kmPerLitre;
+                  return (
+                    <tr key={e.driverId} className="border-b border-surface-100 hover:bg-surface-50">
+                      <td className="py-2 px-3">
+                        <Link to={`/drivers/${e.driverId}`} className="font-medium text-surface-900 hover:text-primary-600">
+                          {driverNames.get(e.driverId) || "Unknown"}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-3 text-right font-mono">{e.fillCount}</td>
+                      <td className={`py-2 px-3 text-right font-mono ${e.flaggedCount > 0 ? "text-red-600" : ""}`}>
+                        {e.flaggedCount}
+                      </td>
+                      <td className="py-2 px-3 text-right font-mono">{formatNumber(e.distance)}</td>
+                      <td className="py-2 px-3 text-right font-mono">{formatNumber(e.litres)}</td>
+                      <td className="py-2 px-3 text-right font-mono font-medium">{e.kmPerLitre ?? "-"}</td>
+                      <td className="py-2 px-3 text-right font-mono">
+                        {perf?.fuel_efficiency ?? "-"}
+                        {perf && !inSync && e.kmPerLitre !== null && (
+                          <span className="ml-1 text-xs text-amber-600">
+                            ({perf.fuel_efficiency_source === "ledger" ? "stale" : "manual"})
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Fills */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Fills</h2>
+          <label className="flex items-center gap-1.5 text-xs text-surface-600">
+            <input
+              type="checkbox"
+              className="w-3.5 h-3.5 accent-primary-500"
+              checked={showFlaggedOnly}
+              onChange={(e) => setShowFlaggedOnly(e.target.checked)}
+            />
+            Flagged only
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Date</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Truck</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Station</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Odometer</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Litres</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Cost</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Distance</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">km/L</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Flags</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleFills.length === 0 ? (
+                <tr>
+                  <td colSpan={11} className="py-8 text-center text-surface-500">
+                    No fills to show
+                  </td>
+                </tr>
+              ) : (
+                visibleFills.map(({ transaction: t, distance, kmPerLitre, flags }) => (
+                  <tr
+                    key={t.id}
+                    className={`border-b border-surface-100 hover:bg-surface-50 ${flags.length > 0 ? "bg-red-50/50" : ""}`}
+                  >
+                    <td className="py-2 px-3 text-sm">{formatDate(t.transaction_date)}</td>
+                    <td className="py-2 px-3 text-sm">{driverNames.get(t.driver_id) || "Unknown"}</td>
+                    <td className="py-2 px-3 text-sm font-mono">
+                      {(t.vehicle_id && registrations.get(t.vehicle_id)) || "-"}
+                    </td>
+                    <td className="py-2 px-3 text-sm">{t.station || "-"}</td>
+                    <td className="py-2 px-3 text-right font-mono text-sm">{formatNumber(t.odometer)}</td>
+                    <td className="py-2 px-3 text-right font-mono text-sm">{formatNumber(t.litres)}</td>
+                    <td className="py-2 px-3 text-right font-mono text-sm">
+                      {t.currency === "USD" ? "$" : "ZiG "}
+                      {formatNumber(t.cost)}
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono text-sm">
+                      {distance !== null ? formatNumber(distance) : "-"}
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono text-sm">{kmPerLitre ?? "-"}</td>
+                    <td className="py-2 px-3">
+                      <div className="flex flex-wrap gap-1">
+                        {flags.map((flag) => (
+                          <span
+                            key={flag}
+                            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700"
+                          >
+                            {FUEL_FLAG_LABELS[flag]}
+                          </span>
+                        ))}
+                        {flags.length === 0 && distance === null && (
+                          <span className="text-xs text-surface-400">First fill</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <button
+                        onClick={() => setFillModal({ transaction: t })}
+                        className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {fillModal && (
+        <FuelTransactionModal transaction={fillModal.transaction} onClose={() => setFillModal(null)} />
+      )}
+    </div>
+  );
+}
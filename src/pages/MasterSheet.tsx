@@ -1,12 +1,29 @@
+import { format } from "date-fns";
 import { useState } from "react";
+import PeriodLockBanner from "../components/PeriodLockBanner";
+import { saveIncentiveSettingVersion, saveKilometerRate } from "../hooks/useRealtimeData";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
+import type { RateMode } from "../types/database";
+import { getRateMode } from "../utils/calculations";
 import
   {
     formatCurrency,
+    formatDate,
     formatNumber,
     getMonthShortName
   } from "../utils/formatters";
+import { getKilometerRateHistory, getRateInForce } from "../utils/kilometerRates";
+import { isDateLocked, isPeriodLocked } from "../utils/periodClose";
+import
+  {
+    formatVersionRange,
+    getCurrentSettings,
+    getPeriodStartDate,
+    getSettingVersions,
+    resolveSettingsForDate,
+  } from "../utils/settingsVersions";
+import { getFleetTruckCount, hasFleetRegistry } from "../utils/vehicles";
 
 type TabId = "rates" | "budgets" | "incentive-settings" | "formulas";
 
@@ -16,6 +33,8 @@ export default function MasterSheet() {
     monthlyBudgets,
     customFormulas,
     incentiveSettings,
+    vehicles,
+    payrollPeriods,
     showToast,
   } = useStore();
 
@@ -26,6 +45,13 @@ export default function MasterSheet() {
     local: string;
     export: string;
   }>({ local: "", export: "" });
+  const [editingRateModes, setEditingRateModes] = useState<{
+    local: RateMode;
+    export: RateMode;
+  }>({ local: "divisor", export: "divisor" });
+  const [rateEffectiveFrom, setRateEffectiveFrom] = useState(
+    format(new Date(), "yyyy-MM-dd"),
+  );
   const [editingBudgets, setEditingBudgets] = useState<Record<string, string>>(
     {},
   );
@@ -36,24 +62,31 @@ export default function MasterSheet() {
     local: string;
     export: string;
   }>({ local: "", export: "" });
+  const [divisorEffectiveFrom, setDivisorEffectiveFrom] = useState({
+    year: new Date().getFullYear(),
+    month: new Date().getMonth() + 1,
+  });
   const [showFormulaModal, setShowFormulaModal] = useState(false);
 
-  const localRate = kilometerRates.find(
-    (r) => r.driver_type === "local" && r.is_active,
-  );
-  const exportRate = kilometerRates.find(
-    (r) => r.driver_type === "export" && r.is_active,
-  );
+  // Rates in force today
+  const today = format(new Date(), "yyyy-MM-dd");
+  const localRate = getRateInForce(kilometerRates, "local", today);
+  const exportRate = getRateInForce(kilometerRates, "export", today);
 
   const yearBudgets = monthlyBudgets.filter((b) => b.year === selectedYear);
 
-  // Get incentive divisor settings for each driver type
-  const localDivisorSetting = incentiveSettings.find(
+  // Get incentive divisor settings for each driver type (versions in force today)
+  const currentSettings = getCurrentSettings(incentiveSettings);
+  const localDivisorSetting = currentSettings.find(
     (s) => s.setting_key === "incentive_divisor_local",
   );
-  const exportDivisorSetting = incentiveSettings.find(
+  const exportDivisorSetting = currentSettings.find(
     (s) => s.setting_key === "incentive_divisor_export",
   );
+  const localRateMode = getRateMode(currentSettings, "local");
+  const exportRateMode = getRateMode(currentSettings, "export");
+  const localDivisorVersions = getSettingVersions(incentiveSettings, "incentive_divisor_local");
+  const exportDivisorVersions = getSettingVersions(incentiveSettings, "incentive_divisor_export");
   const localDivisor = localDivisorSetting
     ? (localDivisorSetting.setting_value as number)
     : 1;
@@ -73,6 +106,8 @@ export default function MasterSheet() {
       local: localRate?.rate_per_km.toString() || "",
       export: exportRate?.rate_per_km.toString() || "",
     });
+    setEditingRateModes({ local: localRateMode, export: exportRateMode });
+    setRateEffectiveFrom(today);
     setIsEditing(true);
   };
 
@@ -91,20 +126,36 @@ export default function MasterSheet() {
         return;
       }
 
-      // Update local rate
-      if (localRate) {
-        await supabase
-          .from("kilometer_rates")
-          .update({ rate_per_km: localValue })
-          .eq("id", localRate.id);
+      if (isDateLocked(payrollPeriods, rateEffectiveFrom)) {
+        showToast("The payroll period of the effective date is locked; choose a later date");
+        return;
+      }
+
+      // Save a dated rate for each driver type whose rate changes on that date
+      for (const [type, value] of [
+        ["local", localValue],
+        ["export", exportValue],
+      ] as const) {
+        const inForce = getRateInForce(kilometerRates, type, rateEffectiveFrom);
+        if (inForce?.rate_per_km === value) continue;
+        await saveKilometerRate(kilometerRates, type, value, rateEffectiveFrom);
       }
 
-      // Update export rate
-      if (exportRate) {
-        await supabase
-          .from("kilometer_rates")
-          .update({ rate_per_km: exportValue })
-          .eq("id", exportRate.id);
+      // Rate modes are settings, so they apply from the start of the month
+      const modeEffectiveFrom = getPeriodStartDate(
+        parseInt(rateEffectiveFrom.slice(0, 4)),
+        parseInt(rateEffectiveFrom.slice(5, 7)),
+      );
+      const modeSettings = resolveSettingsForDate(incentiveSettings, modeEffectiveFrom);
+      for (const type of ["local", "export"] as const) {
+        if (getRateMode(modeSettings, type) === editingRateModes[type]) continue;
+        await saveIncentiveSettingVersion(
+          incentiveSettings,
+          `rate_mode_${type}`,
+          editingRateModes[type],
+          `KM rate mode for ${type === "local" ? "Local" : "Export"} drivers - divisor or fixed rate table`,
+          modeEffectiveFrom,
+        );
       }
 
       showToast("Rates updated successfully");
@@ -130,6 +181,18 @@ export default function MasterSheet() {
     setIsEditing(true);
   };
 
+  // Fleets in the vehicle registry take their truck count from the trucks in service.
+  // Months before the registry's trucks were commissioned (none in service) keep
+  // their typed count.
+  const getRegistryTruckCount = (
+    driverType: "local" | "export",
+    month: number,
+  ): number | null => {
+    if (!hasFleetRegistry(vehicles, driverType)) return null;
+    const count = getFleetTruckCount(vehicles, driverType, selectedYear, month);
+    return count > 0 ? count : null;
+  };
+
   const handleSaveBudgets = async () => {
     if (!isSupabaseConfigured()) {
       showToast("Cannot save in demo mode");
@@ -140,8 +203,12 @@ export default function MasterSheet() {
       for (const [key, value] of Object.entries(editingBudgets)) {
         const [driverType, monthStr] = key.split("_");
         const month = parseInt(monthStr);
+        if (isPeriodLocked(payrollPeriods, selectedYear, month)) continue;
         const km = parseFloat(value);
-        const truckCount = parseInt(editingTruckCounts[key] || "1") || 1;
+        const truckCount =
+          getRegistryTruckCount(driverType as "local" | "export", month) ||
+          parseInt(editingTruckCounts[key] || "1") ||
+          1;
 
         if (isNaN(km)) continue;
 
@@ -173,11 +240,48 @@ export default function MasterSheet() {
     }
   };
 
+  const handleSyncTruckCounts = async () => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const outOfSync = yearBudgets.filter((b) => {
+      if (isPeriodLocked(payrollPeriods, b.year, b.month)) return false;
+      const derived = getRegistryTruckCount(b.driver_type, b.month);
+      return derived !== null && derived !== (b.truck_count || 1);
+    });
+    if (outOfSync.length === 0) {
+      showToast("Truck counts already match the vehicle registry");
+      return;
+    }
+
+    try {
+      for (const budget of outOfSync) {
+        const { error } = await supabase
+          .from("monthly_budgets")
+          .update({
+            truck_count: getRegistryTruckCount(budget.driver_type, budget.month),
+          })
+          .eq("id", budget.id);
+        if (error) throw error;
+      }
+      showToast(`Updated truck counts for ${outOfSync.length} budget(s)`);
+    } catch (error) {
+      console.error("Error syncing truck counts:", error);
+      showToast("Error syncing truck counts");
+    }
+  };
+
   const handleStartEditDivisors = () => {
     setEditingDivisors({
       local: localDivisor.toString(),
       export: exportDivisor.toString(),
     });
+    setDivisorEffectiveFrom({
+      year: new Date().getFullYear(),
+      month: new Date().getMonth() + 1,
+    });
     setIsEditing(true);
   };
 
@@ -201,37 +305,25 @@ export default function MasterSheet() {
         return;
       }
 
-      // Update or create local divisor setting
-      if (localDivisorSetting) {
-        await supabase
-          .from("incentive_settings")
-          .update({ setting_value: localValue })
-          .eq("id", localDivisorSetting.id);
-      } else {
-        await supabase.from("incentive_settings").insert({
-          setting_key: "incentive_divisor_local",
-          setting_value: localValue,
-          description:
-            "Divisor for Local drivers - used to calculate rate per kilometer",
-          is_active: true,
-        });
-      }
-
-      // Update or create export divisor setting
-      if (exportDivisorSetting) {
-        await supabase
-          .from("incentive_settings")
-          .update({ setting_value: exportValue })
-          .eq("id", exportDivisorSetting.id);
-      } else {
-        await supabase.from("incentive_settings").insert({
-          setting_key: "incentive_divisor_export",
-          setting_value: exportValue,
-          description:
-            "Divisor for Export drivers - used to calculate rate per kilometer",
-          is_active: true,
-        });
-      }
+      // Save a new version of each divisor from the chosen month
+      const effectiveFrom = getPeriodStartDate(
+        divisorEffectiveFrom.year,
+        divisorEffectiveFrom.month,
+      );
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "incentive_divisor_local",
+        localValue,
+        "Divisor for Local drivers - used to calculate rate per kilometer",
+        effectiveFrom,
+      );
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "incentive_divisor_export",
+        exportValue,
+        "Divisor for Export drivers - used to calculate rate per kilometer",
+        effectiveFrom,
+      );
 
       showToast("Incentive divisors updated successfully");
       setIsEditing(false);
@@ -297,7 +389,7 @@ export default function MasterSheet() {
                   Kilometer Rates
                 </h2>
                 <p className="text-xs text-surface-500 mt-0.5">
-                  Set the per-kilometer rate for each driver type
+                  Set the per-kilometer rate for each driver type, and whether incentives use it or the divisor
                 </p>
               </div>
               {!isEditing ? (
@@ -322,6 +414,20 @@ export default function MasterSheet() {
               )}
             </div>
             <div className="p-6">
+              {isEditing && (
+                <div className="flex items-center gap-3 mb-4 p-3 rounded-lg bg-surface-50">
+                  <label className="form-label mb-0">Effective from</label>
+                  <input
+                    type="date"
+                    className="form-input w-44"
+                    value={rateEffectiveFrom}
+                    onChange={(e) => setRateEffectiveFrom(e.target.value)}
+                  />
+                  <p className="text-xs text-surface-500">
+                    Rates can change mid-month; KM before and after the change are priced separately. Rate modes apply from the start of the month.
+                  </p>
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Local Rate */}
                 <div className="p-6 rounded-xl bg-primary-50 border border-primary-100">
@@ -373,6 +479,20 @@ export default function MasterSheet() {
                           }))
                         }
                       />
+                      <label className="form-label mt-3">Incentive Rate Mode</label>
+                      <select
+                        className="form-select"
+                        value={editingRateModes.local}
+                        onChange={(e) =>
+                          setEditingRateModes((prev) => ({
+                            ...prev,
+                            local: e.target.value as RateMode,
+                          }))
+                        }
+                      >
+                        <option value="divisor">Divisor ÷ target KM per truck</option>
+                        <option value="fixed_rate">Fixed rate table</option>
+                      </select>
                     </div>
                   ) : (
                     <div>
@@ -382,6 +502,17 @@ export default function MasterSheet() {
                       <p className="text-sm text-surface-500 mt-1">
                         per kilometer
                       </p>
+                      <span
+                        className={`inline-flex mt-2 px-2 py-0.5 rounded text-xs font-medium ${
+                          localRateMode === "fixed_rate"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-surface-100 text-surface-600"
+                        }`}
+                      >
+                        {localRateMode === "fixed_rate"
+                          ? "Incentives use this rate"
+                          : "Incentives use the divisor"}
+                      </span>
                     </div>
                   )}
                 </div>
@@ -430,6 +561,20 @@ export default function MasterSheet() {
                           }))
                         }
                       />
+                      <label className="form-label mt-3">Incentive Rate Mode</label>
+                      <select
+                        className="form-select"
+                        value={editingRateModes.export}
+                        onChange={(e) =>
+                          setEditingRateModes((prev) => ({
+                            ...prev,
+                            export: e.target.value as RateMode,
+                          }))
+                        }
+                      >
+                        <option value="divisor">Divisor ÷ target KM per truck</option>
+                        <option value="fixed_rate">Fixed rate table</option>
+                      </select>
                     </div>
                   ) : (
                     <div>
@@ -439,6 +584,17 @@ export default function MasterSheet() {
                       <p className="text-sm text-surface-500 mt-1">
                         per kilometer
                       </p>
+                      <span
+                        className={`inline-flex mt-2 px-2 py-0.5 rounded text-xs font-medium ${
+                          exportRateMode === "fixed_rate"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-surface-100 text-surface-600"
+                        }`}
+                      >
+                        {exportRateMode === "fixed_rate"
+                          ? "Incentives use this rate"
+                          : "Incentives use the divisor"}
+                      </span>
                     </div>
                   )}
                 </div>
@@ -484,6 +640,47 @@ export default function MasterSheet() {
                   </div>
                 </div>
               </div>
+
+              {/* Rate History */}
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                {(["local", "export"] as const).map((type) => {
+                  const current = type === "local" ? localRate : exportRate;
+                  const history = getKilometerRateHistory(kilometerRates, type);
+                  return (
+                    <div key={type}>
+                      <h4 className="text-xs font-semibold text-surface-600 uppercase tracking-wide mb-3">
+                        {type === "local" ? "Local" : "Export"} Rate History
+                      </h4>
+                      {history.length > 0 ? (
+                        <ol className="relative border-l border-surface-200 ml-1.5 space-y-3">
+                          {history.map((rate) => (
+                            <li key={rate.id} className="ml-4">
+                              <span
+                                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                                  rate.id === current?.id ? "bg-primary-500" : "bg-surface-300"
+                                }`}
+                              />
+                              <div className="flex items-center justify-between">
+                                <p className="text-xs text-surface-500">
+                                  {formatDate(rate.effective_from)} → {rate.effective_to ? formatDate(rate.effective_to) : "Present"}
+                                </p>
+                                <p className="font-mono text-sm font-semibold text-surface-900">
+                                  {formatCurrency(rate.rate_per_km)}
+                                </p>
+                              </div>
+                              {rate.id === current?.id && (
+                                <p className="text-xs text-primary-600 font-medium">In force today</p>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <p className="text-xs text-surface-500">No rates saved yet</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
             </div>
           </div>
         )}
@@ -498,6 +695,9 @@ export default function MasterSheet() {
                   </h2>
                   <p className="text-xs text-surface-500 mt-0.5">
                     Set target kilometers for each month
+                    {(hasFleetRegistry(vehicles, "local") ||
+                      hasFleetRegistry(vehicles, "export")) &&
+                      " · truck counts come from the vehicle registry"}
                   </p>
                 </div>
                 <select
@@ -513,12 +713,24 @@ export default function MasterSheet() {
                 </select>
               </div>
               {!isEditing ? (
-                <button
-                  onClick={handleStartEditBudgets}
-                  className="btn btn-primary"
-                >
-                  Edit
-                </button>
+                <div className="flex gap-2">
+                  {(hasFleetRegistry(vehicles, "local") ||
+                    hasFleetRegistry(vehicles, "export")) && (
+                    <button
+                      onClick={handleSyncTruckCounts}
+                      className="btn btn-secondary"
+                      title="Set truck counts to the trucks in service from the vehicle registry"
+                    >
+                      Sync Truck Counts
+                    </button>
+                  )}
+                  <button
+                    onClick={handleStartEditBudgets}
+                    className="btn btn-primary"
+                  >
+                    Edit
+                  </button>
+                </div>
               ) : (
                 <div className="flex gap-2">
                   <button
@@ -536,7 +748,8 @@ export default function MasterSheet() {
                 </div>
               )}
             </div>
-            <div className="p-4">
+            <div className="p-4 space-y-4">
+              <PeriodLockBanner year={selectedYear} />
               <div className="table-container overflow-x-auto">
                 <table>
                   <thead>
@@ -579,6 +792,14 @@ export default function MasterSheet() {
                         const exportKm = exportBudget?.budgeted_kilometers || 0;
                         const localTrucks = localBudget?.truck_count || 1;
                         const exportTrucks = exportBudget?.truck_count || 1;
+                        const localRegistryTrucks = getRegistryTruckCount(
+                          "local",
+                          month,
+                        );
+                        const exportRegistryTrucks = getRegistryTruckCount(
+                          "export",
+                          month,
+                        );
                         const localTargetPerTruck =
                           localTrucks > 0
                             ? Math.round(localKm / localTrucks)
@@ -587,15 +808,28 @@ export default function MasterSheet() {
                           exportTrucks > 0
                             ? Math.round(exportKm / exportTrucks)
                             : 0;
+                        const locked = isPeriodLocked(
+                          payrollPeriods,
+                          selectedYear,
+                          month,
+                        );
 
                         return (
                           <tr key={month}>
                             <td className="font-medium text-xs">
                               {getMonthShortName(month)}
+                              {locked && (
+                                <span
+                                  className="ml-1 text-amber-600"
+                                  title="Payroll period is locked"
+                                >
+                                  (locked)
+                                </span>
+                              )}
                             </td>
                             {/* Local columns */}
                             <td>
-                              {isEditing ? (
+                              {isEditing && !locked ? (
                                 <input
                                   type="number"
                                   className="form-input w-28"
@@ -613,7 +847,7 @@ export default function MasterSheet() {
                               )}
                             </td>
                             <td>
-                              {isEditing ? (
+                              {isEditing && !locked && localRegistryTrucks === null ? (
                                 <input
                                   type="number"
                                   className="form-input w-20"
@@ -629,8 +863,23 @@ export default function MasterSheet() {
                                   }
                                   placeholder="1"
                                 />
+                              ) : isEditing && !locked ? (
+                                <span title="From the vehicle registry">
+                                  {localRegistryTrucks}
+                                </span>
                               ) : (
-                                localTrucks
+                                <>
+                                  {localTrucks}
+                                  {localRegistryTrucks !== null &&
+                                    localRegistryTrucks !== localTrucks && (
+                                      <span
+                                        className="ml-1 text-xs text-amber-600"
+                                        title="Trucks in service in the vehicle registry"
+                                      >
+                                        ({localRegistryTrucks} in registry)
+                                      </span>
+                                    )}
+                                </>
                               )}
                             </td>
                             <td className="text-surface-600">
@@ -638,7 +887,7 @@ export default function MasterSheet() {
                             </td>
                             {/* Export columns */}
                             <td>
-                              {isEditing ? (
+                              {isEditing && !locked ? (
                                 <input
                                   type="number"
                                   className="form-input w-28"
@@ -658,7 +907,7 @@ export default function MasterSheet() {
                               )}
                             </td>
                             <td>
-                              {isEditing ? (
+                              {isEditing && !locked && exportRegistryTrucks === null ? (
                                 <input
                                   type="number"
                                   className="form-input w-20"
@@ -674,8 +923,23 @@ export default function MasterSheet() {
                                   }
                                   placeholder="1"
                                 />
+                              ) : isEditing && !locked ? (
+                                <span title="From the vehicle registry">
+                                  {exportRegistryTrucks}
+                                </span>
                               ) : (
-                                exportTrucks
+                                <>
+                                  {exportTrucks}
+                                  {exportRegistryTrucks !== null &&
+                                    exportRegistryTrucks !== exportTrucks && (
+                                      <span
+                                        className="ml-1 text-xs text-amber-600"
+                                        title="Trucks in service in the vehicle registry"
+                                      >
+                                        ({exportRegistryTrucks} in registry)
+                                      </span>
+                                    )}
+                                </>
                               )}
                             </td>
                             <td className="text-surface-600">
@@ -816,6 +1080,41 @@ export default function MasterSheet() {
                 )}
               </div>
               <div className="p-4">
+                {isEditing && (
+                  <div className="flex items-center gap-3 mb-4 p-3 rounded-lg bg-surface-50">
+                    <label className="form-label mb-0">Effective from</label>
+                    <select
+                      className="form-select w-28"
+                      value={divisorEffectiveFrom.month}
+                      onChange={(e) =>
+                        setDivisorEffectiveFrom((prev) => ({
+                          ...prev,
+                          month: parseInt(e.target.value),
+                        }))
+                      }
+                    >
+                      {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
+                        <option key={m} value={m}>
+                          {getMonthShortName(m)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      className="form-input w-24"
+                      value={divisorEffectiveFrom.year}
+                      onChange={(e) =>
+                        setDivisorEffectiveFrom((prev) => ({
+                          ...prev,
+                          year: parseInt(e.target.value) || prev.year,
+                        }))
+                      }
+                    />
+                    <p className="text-xs text-surface-500">
+                      Months before this keep the divisors that were in force at the time
+                    </p>
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {/* Local Driver Divisor */}
                   <div className="p-4 rounded-lg bg-primary-50 border border-primary-100">
@@ -1039,6 +1338,55 @@ export default function MasterSheet() {
                 </div>
               </div>
             </div>
+            {/* Divisor History */}
+            <div className="bg-white rounded-lg border border-surface-200 overflow-hidden">
+              <div className="px-4 py-3 border-b border-surface-100">
+                <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                  Divisor History
+                </h2>
+                <p className="text-xs text-surface-500 mt-0.5">
+                  Every divisor version and the period it applies to
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-surface-100">
+                {[
+                  { label: "Local", versions: localDivisorVersions, current: localDivisorSetting },
+                  { label: "Export", versions: exportDivisorVersions, current: exportDivisorSetting },
+                ].map(({ label, versions, current }) => (
+                  <div key={label} className="p-4">
+                    <h3 className="text-xs font-semibold text-surface-600 uppercase tracking-wide mb-3">
+                      {label} Divisor
+                    </h3>
+                    {versions.length > 0 ? (
+                      <ol className="relative border-l border-surface-200 ml-1.5 space-y-3">
+                        {versions.map((version) => (
+                          <li key={version.id} className="ml-4">
+                            <span
+                              className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                                version.id === current?.id ? "bg-primary-500" : "bg-surface-300"
+                              }`}
+                            />
+                            <div className="flex items-center justify-between">
+                              <p className="text-xs text-surface-500">
+                                {formatVersionRange(version)}
+                              </p>
+                              <p className="font-mono text-sm font-semibold text-surface-900">
+                                {formatNumber(version.setting_value as number)}
+                              </p>
+                            </div>
+                            {version.id === current?.id && (
+                              <p className="text-xs text-primary-600 font-medium">In force today</p>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    ) : (
+                      <p className="text-xs text-surface-500">No versions saved yet</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         )}
 
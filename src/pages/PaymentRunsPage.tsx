@@ -0,0 +1,865 @@
+/**
+ * Payment Runs Page
+ * Groups a month's approved calculations into payroll batches. Posting a run
+ * marks its calculations paid, stamps the totals and locks the calculations.
+ * The month is exported to the payroll system once, through an export profile.
+ */
+
+import { useCallback, useMemo, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePayrollExports } from "../hooks/useRealtimeData";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { PaymentRun, PayrollExport } from "../types/database";
+import { getStoredPayoutSplit } from "../utils/calculations";
+import { exportPaymentRunToExcel, exportPaymentRunToPDF, exportPayrollCsv } from "../utils/exportUtils";
+import { formatCurrency, formatDate, formatZigCurrency, getMonthName } from "../utils/formatters";
+import
+  {
+    getNextPaymentRunReference,
+    getPaymentRunTotals,
+    getPeriodPaymentRuns,
+    getRunCalculations,
+    getUnassignedApprovedCalculations,
+    PAYMENT_RUN_STATUS_LABELS,
+    summarisePaymentRun,
+  } from "../utils/paymentRuns";
+import
+  {
+    buildPayrollExportFile,
+    describePayrollExport,
+    getPayrollExportCalculations,
+    getPayrollExportConfig,
+    getPostedPayrollExport,
+    PAYROLL_EXPORT_FORMAT_LABELS,
+  } from "../utils/payrollExport";
+import { resolveSettingsForPeriod } from "../utils/settingsVersions";
+
+export default function PaymentRunsPage() {
+  const {
+    drivers,
+    incentiveCalculations,
+    incentiveSettings,
+    paymentRuns,
+    selectedYear,
+    selectedMonth,
+    setSelectedPeriod,
+    setIncentiveCalculations,
+    setPaymentRuns,
+    showToast,
+  } = useStore();
+  const { user } = useAuth();
+  const userEmail = user?.email ?? null;
+
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [selectedToAdd, setSelectedToAdd] = useState<Set<string>>(new Set());
+  const [showNewRun, setShowNewRun] = useState(false);
+  const [newReference, setNewReference] = useState("");
+  const [newNotes, setNewNotes] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [exportProfileId, setExportProfileId] = useState("");
+
+  const periodRuns = useMemo(
+    () => getPeriodPaymentRuns(paymentRuns, selectedYear, selectedMonth),
+    [paymentRuns, selectedYear, selectedMonth]
+  );
+  const selectedRun = periodRuns.find((r) => r.id === selectedRunId) ?? null;
+
+  const runCalculations = useMemo(
+    () => (selectedRun ? getRunCalculations(incentiveCalculations, selectedRun.id) : []),
+    [incentiveCalculations, selectedRun]
+  );
+  const unassigned = useMemo(
+    () => getUnassignedApprovedCalculations(incentiveCalculations, selectedYear, selectedMonth),
+    [incentiveCalculations, selectedYear, selectedMonth]
+  );
+
+  // Payroll export profiles in force for the month, and the month's export log
+  const exportProfiles = useMemo(
+    () => getPayrollExportConfig(resolveSettingsForPeriod(incentiveSettings, selectedYear, selectedMonth)).profiles,
+    [incentiveSettings, selectedYear, selectedMonth]
+  );
+  const exportProfile = exportProfiles.find((p) => p.id === exportProfileId) ?? exportProfiles[0] ?? null;
+  const payrollExports = usePayrollExports(selectedYear, selectedMonth);
+  const postedExport = getPostedPayrollExport(payrollExports, selectedYear, selectedMonth);
+  const exportCalculations = useMemo(
+    () => getPayrollExportCalculations(incentiveCalculations, selectedYear, selectedMonth),
+    [incentiveCalculations, selectedYear, selectedMonth]
+  );
+  const notReadyCount = incentiveCalculations.filter(
+    (c) =>
+      c.year === selectedYear &&
+      c.month === selectedMonth &&
+      (c.status === "draft" || c.status === "pending_approval")
+  ).length;
+
+  const driverById = useMemo(() => new Map(drivers.map((d) => [d.id, d])), [drivers]);
+  const getDriverName = (driverId: string) => {
+    const driver = driverById.get(driverId);
+    return driver ? `${driver.first_name} ${driver.last_name}` : "Unknown";
+  };
+
+  const stats = useMemo(() => {
+    const posted = periodRuns.filter((r) => r.status === "posted");
+    const paid = posted.reduce(
+      (sum, r) => sum + getPaymentRunTotals(r, incentiveCalculations).total_incentive,
+      0
+    );
+    return {
+      runs: periodRuns.length,
+      drafts: periodRuns.length - posted.length,
+      posted: posted.length,
+      paid,
+      awaiting: summarisePaymentRun(unassigned),
+    };
+  }, [periodRuns, incentiveCalculations, unassigned]);
+
+  // ============================================
+  // LOADING
+  // ============================================
+
+  const refresh = useCallback(async () => {
+    const [calcRes, runsRes] = await Promise.all([
+      supabase.from("incentive_calculations").select("*"),
+      supabase.from("payment_runs").select("*").order("created_at", { ascending: false }),
+    ]);
+    if (calcRes.data) setIncentiveCalculations(calcRes.data);
+    if (runsRes.data) setPaymentRuns(runsRes.data);
+  }, [setIncentiveCalculations, setPaymentRuns]);
+
+  // ============================================
+  // RUN MANAGEMENT
+  // ============================================
+
+  const openNewRun = () => {
+    setNewReference(getNextPaymentRunReference(paymentRuns, selectedYear, selectedMonth));
+    setNewNotes("");
+    setShowNewRun(true);
+  };
+
+  const handleCreateRun = useCallback(async () => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+    if (!newReference.trim()) {
+      showToast("Enter a reference for the run");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { data, error } = await supabase
+        .from("payment_runs")
+        .insert({
+          year: selectedYear,
+          month: selectedMonth,
+          reference: newReference.trim(),
+          status: "draft",
+          created_by: userEmail,
+          notes: newNotes.trim() || null,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      await refresh();
+      setSelectedRunId((data as PaymentRun).id);
+      setShowNewRun(false);
+      showToast(`Payment run ${newReference.trim()} created`);
+    } catch (error) {
+      console.error("Error creating payment run:", error);
+      showToast("Error creating payment run");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [newReference, newNotes, selectedYear, selectedMonth, userEmail, refresh, showToast]);
+
+  const handleAddCalculations = useCallback(async () => {
+    if (!selectedRun || selectedToAdd.size === 0) return;
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { error } = await supabase
+        .from("incentive_calculations")
+        .update({ payment_run_id: selectedRun.id })
+        .in("id", [...selectedToAdd]);
+      if (error) throw error;
+
+      await refresh();
+      showToast(`Added ${selectedToAdd.size} calculation(s) to ${selectedRun.reference}`);
+      setSelectedToAdd(new Set());
+    } catch (error) {
+      console.error("Error adding calculations to payment run:", error);
+      const message = error instanceof Error ? error.message : "Error adding calculations";
+      showToast(message);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [selectedRun, selectedToAdd, refresh, showToast]);
+
+  const handleRemoveCalculation = useCallback(
+    async (calculationId: string) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot save in demo mode");
+        return;
+      }
+
+      try {
+        const { error } = await supabase
+          .from("incentive_calculations")
+          .update({ payment_run_id: null })
+          .eq("id", calculationId);
+        if (error) throw error;
+        await refresh();
+      } catch (error) {
+        console.error("Error removing calculation from payment run:", error);
+        showToast("Error removing calculation");
+      }
+    },
+    [refresh, showToast]
+  );
+
+  const handleDeleteRun = useCallback(async () => {
+    if (!selectedRun) return;
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+    if (!confirm(`Delete draft run ${selectedRun.reference}? Its calculations stay approved.`)) return;
+
+    try {
+      const { error } = await supabase.from("payment_runs").delete().eq("id", selectedRun.id);
+      if (error) throw error;
+      setSelectedRunId(null);
+      await refresh();
+      showToast(`Payment run ${selectedRun.reference} deleted`);
+    } catch (error) {
+      console.error("Error deleting payment run:", error);
+      showToast("Error deleting payment run");
+    }
+  }, [selectedRun, refresh, showToast]);
+
+  // Mark the run's calculations paid and stamp and lock the run in one transaction
+  const handlePostRun = useCallback(async () => {
+    if (!selectedRun) return;
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot post in demo mode");
+      return;
+    }
+    if (runCalculations.length === 0) {
+      showToast("Add approved calculations before posting the run");
+      return;
+    }
+
+    const totals = summarisePaymentRun(runCalculations);
+    if (
+      !confirm(
+        `Post ${selectedRun.reference}? ${totals.driver_count} calculation(s) totalling ` +
+          `${formatCurrency(totals.total_incentive)} will be marked paid and locked.`
+      )
+    ) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // The function also writes the audit entry, so a posting is never left unlogged
+      const { error } = await supabase.rpc("post_payment_run", {
+        p_run_id: selectedRun.id,
+        p_posted_by: userEmail ?? "system",
+        p_driver_count: totals.driver_count,
+        p_total_incentive: totals.total_incentive,
+        p_total_usd: totals.total_usd,
+        p_total_zig: totals.total_zig,
+      });
+      if (error) throw error;
+
+      await refresh();
+      showToast(`Payment run ${selectedRun.reference} posted`);
+    } catch (error) {
+      console.error("Error posting payment run:", error);
+      const message = error instanceof Error ? error.message : "Error posting payment run";
+      showToast(message);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [selectedRun, runCalculations, userEmail, refresh, showToast]);
+
+  // ============================================
+  // PAYROLL EXPORT
+  // ============================================
+
+  // Log the export first: the log allows one export per month, so a period is never posted twice
+  const handlePayrollExport = useCallback(async () => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot export in demo mode");
+      return;
+    }
+    if (!exportProfile) {
+      showToast("Set up a payroll export profile in Settings first");
+      return;
+    }
+    if (postedExport) {
+      showToast(`Already exported: ${describePayrollExport(postedExport)}. Void it to export again.`);
+      return;
+    }
+
+    const file = buildPayrollExportFile(exportCalculations, drivers, exportProfile, selectedYear, selectedMonth);
+    if (file.lines.length === 0) {
+      showToast("Nothing to export: no approved or paid calculations with mapped amounts");
+      return;
+    }
+    if (
+      !confirm(
+        `Export ${file.calculationCount} calculation(s) for ${getMonthName(selectedMonth)} ${selectedYear} ` +
+          `with ${exportProfile.label}? The month can then only be exported again after voiding this export.`
+      )
+    ) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { error } = await supabase.from("payroll_exports").insert({
+        year: selectedYear,
+        month: selectedMonth,
+        profile_id: exportProfile.id,
+        profile_label: exportProfile.label,
+        format: exportProfile.format,
+        file_name: file.fileName,
+        calculation_count: file.calculationCount,
+        line_count: file.lines.length,
+        total_earnings: file.totalEarnings,
+        total_deductions: file.totalDeductions,
+        exported_by: userEmail,
+      });
+      if (error) {
+        if (error.code === "23505") {
+          showToast(`${getMonthName(selectedMonth)} ${selectedYear} has already been exported to payroll`);
+          return;
+        }
+        throw error;
+      }
+
+      exportPayrollCsv(file.rows, file.fileName, exportProfile.delimiter);
+      showToast(
+        `Exported ${file.lines.length} payroll line(s)` +
+          (file.skippedEmployees.length > 0
+            ? `. Skipped without an employee ID: ${file.skippedEmployees.join(", ")}`
+            : "")
+      );
+    } catch (error) {
+      console.error("Error exporting to payroll:", error);
+      showToast("Error exporting to payroll");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [exportProfile, postedExport, exportCalculations, drivers, selectedYear, selectedMonth, userEmail, showToast]);
+
+  const handleVoidExport = useCallback(
+    async (entry: PayrollExport) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot save in demo mode");
+        return;
+      }
+      const reason = prompt(`Why is the export ${entry.file_name} being voided?`);
+      if (!reason?.trim()) return;
+
+      try {
+        const { error } = await supabase
+          .from("payroll_exports")
+          .update({
+            voided_by: userEmail ?? "system",
+            voided_at: new Date().toISOString(),
+            void_reason: reason.trim(),
+          })
+          .eq("id", entry.id);
+        if (error) throw error;
+        showToast("Export voided; the month can be exported again");
+      } catch (error) {
+        console.error("Error voiding payroll export:", error);
+        showToast("Error voiding payroll export");
+      }
+    },
+    [userEmail, showToast]
+  );
+
+  const exportData = selectedRun
+    ? { run: selectedRun, calculations: runCalculations, drivers, companyName: "Driver Incentives" }
+    : null;
+
+  const toggleToAdd = (calculationId: string) => {
+    setSelectedToAdd((prev) => {
+      const next = new Set(prev);
+      if (next.has(calculationId)) next.delete(calculationId);
+      else next.add(calculationId);
+      return next;
+    });
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-surface-900">Payment Runs</h1>
+          <p className="text-sm text-surface-500 mt-0.5">
+            Pay approved calculations as one payroll batch per run
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={openNewRun} className="btn btn-primary">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Run
+          </button>
+          <select
+            className="form-select"
+            value={selectedYear}
+            onChange={(e) => {
+              setSelectedPeriod(parseInt(e.target.value), selectedMonth);
+              setSelectedRunId(null);
+            }}
+          >
+            {[2024, 2025, 2026].map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+          <select
+            className="form-select"
+            value={selectedMonth}
+            onChange={(e) => {
+              setSelectedPeriod(selectedYear, parseInt(e.target.value));
+              setSelectedRunId(null);
+            }}
+          >
+            {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+              <option key={month} value={month}>
+                {getMonthName(month)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Runs</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{stats.runs}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Draft</p>
+          <p className="text-xl font-semibold text-surface-600 mt-1">{stats.drafts}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Posted</p>
+          <p className="text-xl font-semibold text-blue-600 mt-1">{stats.posted}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Paid</p>
+          <p className="text-xl font-semibold text-primary-600 mt-1">{formatCurrency(stats.paid)}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Approved, Not in a Run</p>
+          <p className="text-xl font-semibold text-green-600 mt-1">
+            {stats.awaiting.driver_count}
+            <span className="text-sm font-normal text-surface-500 ml-1">
+              ({formatCurrency(stats.awaiting.total_incentive)})
+            </span>
+          </p>
+        </div>
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+            {getMonthName(selectedMonth)} {selectedYear} Runs
+          </h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Reference</th>
+                <th className="text-center py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Status</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Drivers</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Total</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">USD</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">ZIG</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Created</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Posted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periodRuns.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="py-8 text-center text-surface-500">
+                    No payment runs for {getMonthName(selectedMonth)} {selectedYear} yet
+                  </td>
+                </tr>
+              ) : (
+                periodRuns.map((run) => {
+                  const totals = getPaymentRunTotals(run, incentiveCalculations);
+                  return (
+                    <tr
+                      key={run.id}
+                      onClick={() => {
+                        setSelectedRunId(run.id);
+                        setSelectedToAdd(new Set());
+                      }}
+                      className={`border-b border-surface-100 cursor-pointer ${
+                        run.id === selectedRunId ? "bg-primary-50" : "hover:bg-surface-50"
+                      }`}
+                    >
+                      <td className="py-2 px-3 font-mono text-sm font-medium text-surface-900">{run.reference}</td>
+                      <td className="py-2 px-3 text-center">
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                            run.status === "posted" ? "bg-blue-100 text-blue-700" : "bg-surface-100 text-surface-700"
+                          }`}
+                        >
+                          {PAYMENT_RUN_STATUS_LABELS[run.status]}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3 text-right text-sm">{totals.driver_count}</td>
+                      <td className="py-2 px-3 text-right font-mono text-sm font-semibold text-green-600">
+                        {formatCurrency(totals.total_incentive)}
+                      </td>
+                      <td className="py-2 px-3 text-right font-mono text-sm">{formatCurrency(totals.total_usd)}</td>
+                      <td className="py-2 px-3 text-right font-mono text-sm">{formatZigCurrency(totals.total_zig)}</td>
+                      <td className="py-2 px-3 text-xs text-surface-600">
+                        {formatDate(run.created_at)}
+                        {run.created_by && <span className="block text-surface-400">{run.created_by}</span>}
+                      </td>
+                      <td className="py-2 px-3 text-xs text-surface-600">
+                        {run.posted_at ? (
+                          <>
+                            {formatDate(run.posted_at)}
+                            {run.posted_by && <span className="block text-surface-400">{run.posted_by}</span>}
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Selected Run */}
+      {selectedRun && exportData && (
+        <div className="bg-white rounded-lg border border-surface-200">
+          <div className="px-4 py-3 border-b border-surface-100 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                {selectedRun.reference}
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                {selectedRun.status === "posted"
+                  ? "Posted; its calculations are paid and locked"
+                  : "Draft; add approved calculations, then post the run to pay them"}
+                {selectedRun.notes && ` · ${selectedRun.notes}`}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => exportPaymentRunToPDF(exportData)} className="btn btn-secondary text-xs py-1.5">
+                Export PDF
+              </button>
+              <button onClick={() => exportPaymentRunToExcel(exportData)} className="btn btn-secondary text-xs py-1.5">
+                Export Excel
+              </button>
+              {selectedRun.status === "draft" && (
+                <>
+                  <button
+                    onClick={handleDeleteRun}
+                    disabled={isProcessing}
+                    className="btn btn-secondary text-xs py-1.5 text-red-600"
+                  >
+                    Delete Run
+                  </button>
+                  <button
+                    onClick={handlePostRun}
+                    disabled={isProcessing || runCalculations.length === 0}
+                    className="btn btn-primary text-xs py-1.5"
+                  >
+                    {isProcessing ? "Posting..." : "Post Run"}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-surface-200">
+                  <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                  <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Type</th>
+                  <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Incentive</th>
+                  <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">USD</th>
+                  <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">ZIG</th>
+                  <th className="w-20" />
+                </tr>
+              </thead>
+              <tbody>
+                {runCalculations.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-surface-500">
+                      No calculations in this run yet
+                    </td>
+                  </tr>
+                ) : (
+                  runCalculations.map((calc) => {
+                    const split = getStoredPayoutSplit(calc);
+                    return (
+                      <tr key={calc.id} className="border-b border-surface-100">
+                        <td className="py-2 px-3 font-medium text-surface-900">{getDriverName(calc.driver_id)}</td>
+                        <td className="py-2 px-3 text-sm text-surface-600 capitalize">
+                          {driverById.get(calc.driver_id)?.driver_type ?? "-"}
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono text-sm font-semibold text-green-600">
+                          {formatCurrency(calc.total_incentive)}
+                        </td>
+                        <td className="py-2 px-3 text-right font-mono text-sm">{formatCurrency(split.usd)}</td>
+                        <td className="py-2 px-3 text-right font-mono text-sm">{formatZigCurrency(split.zig)}</td>
+                        <td className="py-2 px-3 text-right">
+                          {selectedRun.status === "draft" && (
+                            <button
+                              onClick={() => handleRemoveCalculation(calc.id)}
+                              className="text-xs text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Approved calculations not yet in a run */}
+          {selectedRun.status === "draft" && (
+            <div className="p-4 border-t border-surface-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                  Approved, Not in a Run ({unassigned.length})
+                </h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setSelectedToAdd(new Set(unassigned.map((c) => c.id)))}
+                    disabled={unassigned.length === 0}
+                    className="text-xs text-primary-600 hover:text-primary-700"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    onClick={handleAddCalculations}
+                    disabled={isProcessing || selectedToAdd.size === 0}
+                    className="btn btn-secondary text-xs py-1.5"
+                  >
+                    Add Selected ({selectedToAdd.size})
+                  </button>
+                </div>
+              </div>
+              {unassigned.length === 0 ? (
+                <p className="text-xs text-surface-500">
+                  Every approved calculation for {getMonthName(selectedMonth)} {selectedYear} is in a run
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {unassigned.map((calc) => (
+                    <label
+                      key={calc.id}
+                      className="flex items-center justify-between gap-2 p-2 rounded border border-surface-100 hover:bg-surface-50 cursor-pointer"
+                    >
+                      <span className="flex items-center gap-2 text-sm text-surface-900">
+                        <input
+                          type="checkbox"
+                          checked={selectedToAdd.has(calc.id)}
+                          onChange={() => toggleToAdd(calc.id)}
+                        />
+                        {getDriverName(calc.driver_id)}
+                      </span>
+                      <span className="font-mono text-sm text-green-600">{formatCurrency(calc.total_incentive)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Payroll Export */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Payroll Export</h2>
+            <p className="text-xs text-surface-500 mt-0.5">
+              Approved and paid calculations as payroll earning and deduction lines, keyed by employee ID.
+              Profiles are set up under Settings → Payroll Export.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="form-select text-sm"
+              value={exportProfile?.id ?? ""}
+              onChange={(e) => setExportProfileId(e.target.value)}
+              disabled={exportProfiles.length === 0}
+            >
+              {exportProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label} ({PAYROLL_EXPORT_FORMAT_LABELS[profile.format]})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handlePayrollExport}
+              disabled={isProcessing || !!postedExport || !exportProfile}
+              className="btn btn-primary text-xs py-1.5"
+            >
+              Export to Payroll
+            </button>
+          </div>
+        </div>
+        <div className="p-4 space-y-3">
+          {postedExport ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center justify-between gap-3">
+              <p className="text-sm text-green-800">
+                <span className="font-medium">Posted to payroll:</span> {describePayrollExport(postedExport)}
+              </p>
+              <button
+                onClick={() => handleVoidExport(postedExport)}
+                className="text-xs text-red-600 hover:text-red-700 whitespace-nowrap"
+              >
+                Void export
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-surface-600">
+              {exportCalculations.length} calculation(s) ready to export
+              {notReadyCount > 0 && (
+                <span className="text-amber-600"> · {notReadyCount} still in draft or pending approval</span>
+              )}
+            </p>
+          )}
+
+          {payrollExports.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-surface-200">
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Exported</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Profile</th>
+                    <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Calcs</th>
+                    <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Lines</th>
+                    <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Earnings</th>
+                    <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Deductions</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payrollExports.map((entry) => (
+                    <tr key={entry.id} className="border-b border-surface-100">
+                      <td className="py-2 px-3 text-xs text-surface-600">
+                        {formatDate(entry.exported_at)}
+                        {entry.exported_by && <span className="block text-surface-400">{entry.exported_by}</span>}
+                      </td>
+                      <td className="py-2 px-3 text-sm text-surface-900">
+                        {entry.profile_label}
+                        <span className="block text-xs font-mono text-surface-400">{entry.file_name}</span>
+                      </td>
+                      <td className="py-2 px-3 text-right text-sm">{entry.calculation_count}</td>
+                      <td className="py-2 px-3 text-right text-sm">{entry.line_count}</td>
+                      <td className="py-2 px-3 text-right font-mono text-sm">{formatCurrency(entry.total_earnings)}</td>
+                      <td className="py-2 px-3 text-right font-mono text-sm">{formatCurrency(entry.total_deductions)}</td>
+                      <td className="py-2 px-3 text-xs">
+                        {entry.voided_at ? (
+                          <span className="text-surface-500">
+                            Voided {formatDate(entry.voided_at)} by {entry.voided_by}: {entry.void_reason}
+                          </span>
+                        ) : (
+                          <span className="text-green-700 font-medium">Posted</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* New Run Modal */}
+      {showNewRun && (
+        <div className="modal-overlay" onClick={() => setShowNewRun(false)}>
+          <div className="modal-content max-w-lg" onClick={(e) => e.stopPropagation()}>
+            <div className="px-6 py-4 border-b border-surface-100">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-surface-900">
+                  New Payment Run · {getMonthName(selectedMonth)} {selectedYear}
+                </h2>
+                <button onClick={() => setShowNewRun(false)} className="p-2 hover:bg-surface-100 rounded-lg transition-colors">
+                  <svg className="w-5 h-5 text-surface-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="form-label">Reference *</label>
+                <input
+                  type="text"
+                  className="form-input font-mono"
+                  value={newReference}
+                  onChange={(e) => setNewReference(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="form-label">Notes</label>
+                <textarea
+                  className="form-input"
+                  rows={2}
+                  value={newNotes}
+                  onChange={(e) => setNewNotes(e.target.value)}
+                  placeholder="e.g. Main October payroll"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4 border-t border-surface-100">
+                <button onClick={() => setShowNewRun(false)} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleCreateRun} disabled={isProcessing} className="btn btn-primary">
+                  {isProcessing ? "Creating..." : "Create Run"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
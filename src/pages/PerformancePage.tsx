@@ -2,6 +2,7 @@ import { useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 import AddPerformanceModal from "../components/AddPerformanceModal";
 import BulkPerformanceModal from "../components/BulkPerformanceModal";
+import PeriodLockBanner from "../components/PeriodLockBanner";
 import { useStore } from "../store/useStore";
 import type { DriverPerformance, FuelEfficiencyTier } from "../types/database";
 import
@@ -21,6 +22,8 @@ import
     getAchievementColor,
     getMonthName,
   } from "../utils/formatters";
+import { isPeriodLocked } from "../utils/periodClose";
+import { getCurrentSettings } from "../utils/settingsVersions";
 
 export default function PerformancePage() {
   const {
@@ -29,6 +32,7 @@ export default function PerformancePage() {
     monthlyBudgets,
     incentiveSettings,
     incentiveCalculations,
+    payrollPeriods,
     selectedYear,
     setSelectedPeriod,
     removeDriverPerformance,
@@ -75,37 +79,43 @@ export default function PerformancePage() {
     setShowExportMenu(false);
   };
 
+  // Settings versions in force today
+  const currentSettings = useMemo(
+    () => getCurrentSettings(incentiveSettings),
+    [incentiveSettings],
+  );
+
   // Get the incentive divisor settings for each driver type
   const localDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = currentSettings.find(
       (s) => s.setting_key === "incentive_divisor_local" && s.is_active,
     );
     return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  }, [currentSettings]);
 
   const exportDivisor = useMemo(() => {
-    const setting = incentiveSettings.find(
+    const setting = currentSettings.find(
       (s) => s.setting_key === "incentive_divisor_export" && s.is_active,
     );
     return setting ? (setting.setting_value as number) : 1;
-  }, [incentiveSettings]);
+  }, [currentSettings]);
 
   // Get fuel efficiency bonus configs (use defaults if not configured)
   const localFuelConfig = useMemo(() => {
-    const config = getFuelEfficiencyConfig(incentiveSettings, "local");
+    const config = getFuelEfficiencyConfig(currentSettings, "local");
     if (!config.enabled || config.tiers.length === 0) {
       return DEFAULT_LOCAL_FUEL_TIERS;
     }
     return config;
-  }, [incentiveSettings]);
+  }, [currentSettings]);
 
   const exportFuelConfig = useMemo(() => {
-    const config = getFuelEfficiencyConfig(incentiveSettings, "export");
+    const config = getFuelEfficiencyConfig(currentSettings, "export");
     if (!config.enabled || config.tiers.length === 0) {
       return DEFAULT_EXPORT_FUEL_TIERS;
     }
     return config;
-  }, [incentiveSettings]);
+  }, [currentSettings]);
 
   // Helper to calculate fuel bonus
   const calculateFuelBonus = (fuelEfficiency: number | null, driverType: "local" | "export"): number => {
@@ -391,6 +401,11 @@ export default function PerformancePage() {
         </div>
       </div>
 
+      <PeriodLockBanner
+        year={selectedYear}
+        month={selectedMonth === "all" ? undefined : selectedMonth}
+      />
+
       {/* Stats Summary */}
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
         <div className="bg-white rounded-lg border border-surface-200 p-3">
@@ -687,8 +702,13 @@ export default function PerformancePage() {
                           <td className="px-4 py-2.5 text-center">
                             <button
                               onClick={() => setEditingPerformance(item)}
-                              className="p-1.5 hover:bg-surface-100 rounded transition-colors text-surface-400 hover:text-surface-700"
-                              title="Edit performance"
+                              disabled={isPeriodLocked(payrollPeriods, item.year, item.month)}
+                              className="p-1.5 hover:bg-surface-100 rounded transition-colors text-surface-400 hover:text-surface-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                              title={
+                                isPeriodLocked(payrollPeriods, item.year, item.month)
+                                  ? "Payroll period is locked"
+                                  : "Edit performance"
+                              }
                             >
                               <svg
                                 className="w-4 h-4"
@@ -0,0 +1,519 @@
+/**
+ * Period Bonuses Page
+ * Quarterly and annual consistency/retention bonus runs, with their own
+ * draft -> approval -> payment workflow separate from the monthly calculations
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { fetchBonusPeriodRecords } from "../hooks/useRealtimeData";
+import { isSupabaseConfigured, supabase } from "../lib/supabase";
+import { useStore } from "../store/useStore";
+import type { BonusPeriodType, PeriodBonus } from "../types/database";
+import
+  {
+    getAvailableTransitions,
+    getStatusColor,
+    getStatusLabel,
+    type WorkflowStatus,
+  } from "../utils/calculations";
+import { formatCurrency } from "../utils/formatters";
+import
+  {
+    evaluatePeriodBonuses,
+    evaluationToPeriodBonus,
+    getBonusPeriodBounds,
+    getBonusPeriodLabel,
+    getBonusPeriodMonths,
+    getPeriodBonusRulesConfig,
+    type BonusPeriod,
+    type PeriodBonusEvaluation,
+  } from "../utils/periodBonuses";
+import { resolveSettingsForPeriod } from "../utils/settingsVersions";
+
+export default function PeriodBonusesPage() {
+  const { drivers, driverPerformance, incentiveCalculations, incentiveSettings, showToast } = useStore();
+  const { user } = useAuth();
+  const userEmail = user?.email ?? null;
+
+  const [periodType, setPeriodType] = useState<BonusPeriodType>("quarterly");
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [quarter, setQuarter] = useState(Math.floor(new Date().getMonth() / 3) + 1);
+
+  const [bonusLines, setBonusLines] = useState<PeriodBonus[]>([]);
+  const [ineligible, setIneligible] = useState<PeriodBonusEvaluation[] | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const period = useMemo<BonusPeriod>(
+    () => ({ type: periodType, year, number: periodType === "annual" ? 1 : quarter }),
+    [periodType, year, quarter]
+  );
+
+  // Rules in force at the end of the period
+  const rulesConfig = useMemo(() => {
+    const months = getBonusPeriodMonths(period);
+    const last = months[months.length - 1];
+    return getPeriodBonusRulesConfig(resolveSettingsForPeriod(incentiveSettings, last.year, last.month));
+  }, [incentiveSettings, period]);
+
+  const periodRules = rulesConfig.rules.filter((r) => r.enabled && r.period === period.type);
+
+  const driverNames = useMemo(
+    () => new Map(drivers.map((d) => [d.id, `${d.first_name} ${d.last_name}`])),
+    [drivers]
+  );
+
+  const stats = useMemo(
+    () => ({
+      total: bonusLines.length,
+      amount: bonusLines.reduce((sum, b) => sum + Number(b.amount), 0),
+      draft: bonusLines.filter((b) => b.status === "draft").length,
+      pending: bonusLines.filter((b) => b.status === "pending_approval").length,
+      approved: bonusLines.filter((b) => b.status === "approved").length,
+      paid: bonusLines.filter((b) => b.status === "paid").length,
+    }),
+    [bonusLines]
+  );
+
+  // ============================================
+  // LOADING
+  // ============================================
+
+  const loadBonusLines = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("period_bonuses")
+        .select("*")
+        .eq("period_type", period.type)
+        .eq("year", period.year)
+        .eq("period_number", period.number)
+        .order("label", { ascending: true });
+
+      if (error) throw error;
+      setBonusLines((data || []) as PeriodBonus[]);
+    } catch (error) {
+      console.error("Error loading period bonuses:", error);
+      showToast("Error loading period bonuses");
+    }
+  }, [period, showToast]);
+
+  useEffect(() => {
+    setIneligible(null);
+    loadBonusLines();
+  }, [loadBonusLines]);
+
+  // ============================================
+  // BONUS RUN
+  // ============================================
+
+  const handleRunBonuses = useCallback(async () => {
+    if (!isSupabaseConfigured()) {
+      showToast("Cannot run bonuses in demo mode");
+      return;
+    }
+    if (!rulesConfig.enabled || periodRules.length === 0) {
+      showToast(`No ${period.type} bonus rules are enabled`);
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { start, end } = getBonusPeriodBounds(period);
+      const records = await fetchBonusPeriodRecords(start, end);
+
+      const result = evaluatePeriodBonuses(
+        {
+          drivers,
+          performances: driverPerformance,
+          calculations: incentiveCalculations,
+          accidents: records.accidents,
+          statusChanges: records.statusChanges,
+        },
+        rulesConfig,
+        period
+      );
+
+      // Only drafts are replaced; lines already submitted, approved or paid are kept as they are
+      const runId = crypto.randomUUID();
+      const existing = new Map(bonusLines.map((b) => [`${b.driver_id}:${b.rule_id}`, b]));
+      let saved = 0;
+      let locked = 0;
+      let failed = 0;
+
+      for (const evaluation of result.awarded) {
+        const line = existing.get(`${evaluation.driverId}:${evaluation.rule.id}`);
+        existing.delete(`${evaluation.driverId}:${evaluation.rule.id}`);
+        const bonusData = evaluationToPeriodBonus(evaluation, period, "draft", runId);
+
+        if (line && line.status !== "draft") {
+          locked++;
+          continue;
+        }
+        const { error } = line
+          ? await supabase.from("period_bonuses").update(bonusData).eq("id", line.id)
+          : await supabase.from("period_bonuses").insert(bonusData);
+        if (error) {
+          console.error(`Error saving ${evaluation.rule.label} for ${evaluation.driverId}:`, error);
+          failed++;
+          continue;
+        }
+        saved++;
+      }
+
+      // Drafts for rules no longer met are withdrawn
+      const withdrawn = [...existing.values()].filter((b) => b.status === "draft");
+      if (withdrawn.length > 0) {
+        const { error } = await supabase
+          .from("period_bonuses")
+          .delete()
+          .in(
+            "id",
+            withdrawn.map((b) => b.id)
+          );
+        if (error) throw error;
+      }
+
+      const { error: auditError } = await supabase.from("audit_log").insert({
+        table_name: "period_bonuses",
+        record_id: runId,
+        action: "period_bonus_run",
+        new_values: {
+          period_type: period.type,
+          year: period.year,
+          period_number: period.number,
+          awarded_count: result.awarded.length,
+          saved_count: saved,
+          failed_count: failed,
+          ineligible_count: result.ineligible.length,
+          withdrawn_count: withdrawn.length,
+          total_amount: result.totalAmount,
+        },
+        changed_by: userEmail ?? "system",
+      });
+      if (auditError) console.error("Error logging period bonus run:", auditError);
+
+      setIneligible(result.ineligible);
+      await loadBonusLines();
+
+      showToast(
+        `Awarded ${saved} bonus${saved === 1 ? "" : "es"} for ${getBonusPeriodLabel(period)}` +
+          (locked > 0 ? `. ${locked} already submitted or paid were kept.` : "") +
+          (failed > 0 ? `. ${failed} could not be saved.` : "")
+      );
+    } catch (error) {
+      console.error("Period bonus run error:", error);
+      showToast("Error running period bonuses");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [
+    rulesConfig,
+    periodRules.length,
+    period,
+    drivers,
+    driverPerformance,
+    incentiveCalculations,
+    bonusLines,
+    loadBonusLines,
+    userEmail,
+    showToast,
+  ]);
+
+  // ============================================
+  // WORKFLOW STATUS MANAGEMENT
+  // ============================================
+
+  const updateStatus = useCallback(async (line: PeriodBonus, newStatus: WorkflowStatus) => {
+    const changedBy = userEmail ?? "system";
+    const updateData: Partial<PeriodBonus> = { status: newStatus };
+
+    if (newStatus === "approved") {
+      updateData.approved_by = changedBy;
+      updateData.approved_date = new Date().toISOString();
+    } else if (newStatus === "paid") {
+      updateData.paid_date = new Date().toISOString();
+    } else if (newStatus === "draft") {
+      updateData.approved_by = null;
+      updateData.approved_date = null;
+    }
+
+    const { error } = await supabase.from("period_bonuses").update(updateData).eq("id", line.id);
+    if (error) throw error;
+
+    await supabase.from("audit_log").insert({
+      table_name: "period_bonuses",
+      record_id: line.id,
+      action: newStatus === "approved" ? "approve" : "update",
+      old_values: { status: line.status },
+      new_values: { status: newStatus },
+      changed_by: changedBy,
+    });
+  }, [userEmail]);
+
+  const handleStatusChange = useCallback(
+    async (line: PeriodBonus, newStatus: WorkflowStatus) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot update in demo mode");
+        return;
+      }
+
+      try {
+        await updateStatus(line, newStatus);
+        await loadBonusLines();
+        showToast(`Status updated to ${getStatusLabel(newStatus)}`);
+      } catch (error) {
+        console.error("Period bonus status update error:", error);
+        showToast("Error updating status");
+      }
+    },
+    [updateStatus, loadBonusLines, showToast]
+  );
+
+  const handleBulkStatusChange = useCallback(
+    async (fromStatus: WorkflowStatus, toStatus: WorkflowStatus) => {
+      if (!isSupabaseConfigured()) {
+        showToast("Cannot update in demo mode");
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        const toUpdate = bonusLines.filter((b) => b.status === fromStatus);
+        for (const line of toUpdate) {
+          await updateStatus(line, toStatus);
+        }
+        await loadBonusLines();
+        showToast(`Updated ${toUpdate.length} bonuses to ${getStatusLabel(toStatus)}`);
+      } catch (error) {
+        console.error("Period bonus bulk update error:", error);
+        showToast("Error during bulk update");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [bonusLines, updateStatus, loadBonusLines, showToast]
+  );
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-surface-900">Period Bonuses</h1>
+          <p className="text-sm text-surface-500 mt-0.5">
+            Quarterly and annual consistency, safety and retention bonuses
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="form-select"
+            value={periodType}
+            onChange={(e) => setPeriodType(e.target.value as BonusPeriodType)}
+          >
+            <option value="quarterly">Quarterly</option>
+            <option value="annual">Annual</option>
+          </select>
+          {periodType === "quarterly" && (
+            <select
+              className="form-select"
+              value={quarter}
+              onChange={(e) => setQuarter(parseInt(e.target.value))}
+            >
+              {[1, 2, 3, 4].map((q) => (
+                <option key={q} value={q}>
+                  Q{q}
+                </option>
+              ))}
+            </select>
+          )}
+          <select className="form-select" value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+            {[2024, 2025, 2026].map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Bonuses</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{stats.total}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Draft</p>
+          <p className="text-xl font-semibold text-surface-600 mt-1">{stats.draft}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Pending</p>
+          <p className="text-xl font-semibold text-amber-600 mt-1">{stats.pending}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Approved</p>
+          <p className="text-xl font-semibold text-green-600 mt-1">{stats.approved}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Paid</p>
+          <p className="text-xl font-semibold text-blue-600 mt-1">{stats.paid}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Amount</p>
+          <p className="text-xl font-semibold text-primary-600 mt-1">{formatCurrency(stats.amount)}</p>
+        </div>
+      </div>
+
+      {/* Bonus Run */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+              {getBonusPeriodLabel(period)} Bonus Run
+            </h2>
+            <p className="text-xs text-surface-500 mt-0.5">
+              Evaluates the rules over performance, accidents and monthly calculations for the period.
+              Re-running replaces drafts only.
+            </p>
+          </div>
+          <button onClick={handleRunBonuses} disabled={isProcessing} className="btn btn-primary text-xs py-1.5">
+            {isProcessing ? "Running..." : "Run Bonuses"}
+          </button>
+        </div>
+        <div className="p-4">
+          {!rulesConfig.enabled || periodRules.length === 0 ? (
+            <p className="text-sm text-surface-500">
+              No {period.type} bonus rules are enabled. Configure them under Settings → Quarterly & Annual Bonuses.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {periodRules.map((rule) => (
+                <span
+                  key={rule.id}
+                  className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded bg-surface-100 text-xs text-surface-700"
+                >
+                  {rule.label}
+                  <span className="font-mono font-semibold">{formatCurrency(rule.amount)}</span>
+                  {rule.applies_to !== "all" && <span className="capitalize text-surface-500">({rule.applies_to})</span>}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Bonus Lines */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Bonus Lines</h2>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleBulkStatusChange("draft", "pending_approval")}
+              disabled={isProcessing || stats.draft === 0}
+              className="btn btn-secondary text-xs py-1.5"
+            >
+              Submit All Drafts ({stats.draft})
+            </button>
+            <button
+              onClick={() => handleBulkStatusChange("pending_approval", "approved")}
+              disabled={isProcessing || stats.pending === 0}
+              className="btn btn-secondary text-xs py-1.5"
+            >
+              Approve All Pending ({stats.pending})
+            </button>
+            <button
+              onClick={() => handleBulkStatusChange("approved", "paid")}
+              disabled={isProcessing || stats.approved === 0}
+              className="btn btn-secondary text-xs py-1.5"
+            >
+              Mark All as Paid ({stats.approved})
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Bonus</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Amount</th>
+                <th className="text-center py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Status</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bonusLines.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-8 text-center text-surface-500">
+                    No bonuses for {getBonusPeriodLabel(period)} yet
+                  </td>
+                </tr>
+              ) : (
+                bonusLines.map((line) => (
+                  <tr key={line.id} className="border-b border-surface-100 hover:bg-surface-50">
+                    <td className="py-2 px-3 font-medium text-surface-900">
+                      {driverNames.get(line.driver_id) || "Unknown"}
+                    </td>
+                    <td className="py-2 px-3 text-sm text-surface-700">{line.label}</td>
+                    <td className="py-2 px-3 text-right font-mono text-sm font-semibold text-green-600">
+                      {formatCurrency(Number(line.amount))}
+                    </td>
+                    <td className="py-2 px-3 text-center">
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(line.status)}`}
+                      >
+                        {getStatusLabel(line.status)}
+                      </span>
+                    </td>
+                    <td className="py-2 px-3">
+                      <div className="flex justify-end gap-1">
+                        {getAvailableTransitions(line.status).map((t) => (
+                          <button
+                            key={t.to}
+                            onClick={() => handleStatusChange(line, t.to)}
+                            disabled={isProcessing}
+                            className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                          >
+                            {t.label}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Not Awarded (from the last run) */}
+      {ineligible && ineligible.length > 0 && (
+        <div className="bg-white rounded-lg border border-surface-200">
+          <div className="px-4 py-3 border-b border-surface-100">
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+              Not Awarded ({ineligible.length})
+            </h2>
+          </div>
+          <ul className="divide-y divide-surface-100">
+            {ineligible.map((e) => (
+              <li key={`${e.driverId}-${e.rule.id}`} className="px-4 py-2 flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium text-surface-900">{e.driverName}</span>
+                  <span className="text-surface-500"> · {e.rule.label}</span>
+                </span>
+                <span className="text-surface-600">{e.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
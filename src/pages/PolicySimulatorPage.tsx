@@ -0,0 +1,597 @@
+/**
+ * Policy Simulator Page
+ * Replay the last 12 months under proposed divisors and fuel tiers before
+ * they are saved, comparing the cost with the settings actually in force
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { fetchPeriodDriverRecords } from "../hooks/useRealtimeData";
+import { useStore } from "../store/useStore";
+import type { FuelEfficiencyBonusConfig, FuelEfficiencyTier, Json } from "../types/database";
+import { getDriverTypeConfig } from "../utils/calculations";
+import { formatCurrency, formatNumber, getMonthName, getMonthShortName } from "../utils/formatters";
+import type { DriverPeriodRecords } from "../utils/periods";
+import
+  {
+    getPeriodKey,
+    getTrailingPeriods,
+    getWinnersAndLosers,
+    simulatePolicyImpact,
+    type CostComparison,
+    type DriverImpact,
+    type PolicyDraft,
+    type PolicySimulationResult,
+  } from "../utils/policySimulation";
+import { getCurrentSettings } from "../utils/settingsVersions";
+
+type DriverType = "local" | "export";
+
+const DRIVER_TYPES: DriverType[] = ["local", "export"];
+
+export default function PolicySimulatorPage() {
+  const {
+    drivers,
+    driverPerformance,
+    monthlyBudgets,
+    incentiveSettings,
+    customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
+    showToast,
+  } = useStore();
+
+  // Last simulated month (the 11 months before it are replayed too)
+  const [endYear, setEndYear] = useState(new Date().getFullYear());
+  const [endMonth, setEndMonth] = useState(new Date().getMonth() + 1);
+
+  // Draft settings, seeded from the settings in force today
+  const currentConfigs = useMemo(() => {
+    const current = getCurrentSettings(incentiveSettings);
+    return {
+      local: getDriverTypeConfig(current, "local"),
+      export: getDriverTypeConfig(current, "export"),
+    };
+  }, [incentiveSettings]);
+  const [draftDivisors, setDraftDivisors] = useState<Record<DriverType, string>>({ local: "", export: "" });
+  const [draftFuel, setDraftFuel] = useState<Record<DriverType, FuelEfficiencyBonusConfig>>({
+    local: { enabled: false, tiers: [] },
+    export: { enabled: false, tiers: [] },
+  });
+  const [fuelTab, setFuelTab] = useState<DriverType>("local");
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<PolicySimulationResult | null>(null);
+  const [driverFilter, setDriverFilter] = useState<"all" | DriverType>("all");
+
+  const resetDraft = useCallback(() => {
+    setDraftDivisors({
+      local: String(currentConfigs.local.divisor),
+      export: String(currentConfigs.export.divisor),
+    });
+    setDraftFuel({
+      local: currentConfigs.local.fuelEfficiencyConfig,
+      export: currentConfigs.export.fuelEfficiencyConfig,
+    });
+    setResult(null);
+  }, [currentConfigs]);
+
+  // Seed the draft once the settings have loaded; later settings updates don't
+  // discard the edits, only the Reset button does
+  const seeded = useRef(false);
+  useEffect(() => {
+    if (seeded.current || incentiveSettings.length === 0) return;
+    seeded.current = true;
+    resetDraft();
+  }, [resetDraft, incentiveSettings.length]);
+
+  // Only settings that differ from today's are simulated; the rest keep their history
+  const draft = useMemo(() => {
+    const changes: PolicyDraft = {};
+    for (const type of DRIVER_TYPES) {
+      const divisor = parseFloat(draftDivisors[type]);
+      if (!isNaN(divisor) && divisor > 0 && divisor !== currentConfigs[type].divisor) {
+        changes[`incentive_divisor_${type}`] = divisor;
+      }
+      if (JSON.stringify(draftFuel[type]) !== JSON.stringify(currentConfigs[type].fuelEfficiencyConfig)) {
+        changes[`fuel_efficiency_bonus_${type}`] = draftFuel[type] as unknown as Json;
+      }
+    }
+    return changes;
+  }, [draftDivisors, draftFuel, currentConfigs]);
+
+  const periods = useMemo(() => getTrailingPeriods(endYear, endMonth), [endYear, endMonth]);
+
+  // ============================================
+  // FUEL TIER EDITING
+  // ============================================
+
+  const updateFuelConfig = useCallback(
+    (type: DriverType, update: (config: FuelEfficiencyBonusConfig) => FuelEfficiencyBonusConfig) => {
+      setDraftFuel((prev) => ({ ...prev, [type]: update(prev[type]) }));
+    },
+    []
+  );
+
+  const addFuelTier = useCallback(() => {
+    updateFuelConfig(fuelTab, (config) => {
+      const highest = config.tiers.reduce<FuelEfficiencyTier | null>(
+        (best, t) => (!best || t.max_efficiency > best.max_efficiency ? t : best),
+        null
+      );
+      const min = highest ? highest.max_efficiency : 2.0;
+      return {
+        ...config,
+        tiers: [
+          ...config.tiers,
+          {
+            id: Date.now().toString(),
+            min_efficiency: min,
+            max_efficiency: Math.round((min + 0.1) * 100) / 100,
+            bonus_amount: highest ? highest.bonus_amount + 10 : 20,
+          },
+        ],
+      };
+    });
+  }, [fuelTab, updateFuelConfig]);
+
+  const updateFuelTier = useCallback(
+    (id: string, field: keyof Omit<FuelEfficiencyTier, "id">, value: number) => {
+      updateFuelConfig(fuelTab, (config) => ({
+        ...config,
+        tiers: config.tiers.map((t) => (t.id === id ? { ...t, [field]: value } : t)),
+      }));
+    },
+    [fuelTab, updateFuelConfig]
+  );
+
+  const removeFuelTier = useCallback(
+    (id: string) => {
+      updateFuelConfig(fuelTab, (config) => ({ ...config, tiers: config.tiers.filter((t) => t.id !== id) }));
+    },
+    [fuelTab, updateFuelConfig]
+  );
+
+  // ============================================
+  // SIMULATION
+  // ============================================
+
+  const handleRunSimulation = useCallback(async () => {
+    if (Object.keys(draft).length === 0) {
+      showToast("Change a divisor or fuel tier to simulate");
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      // Deductions and pro-ration need each month's source records
+      const periodRecords = await Promise.all(
+        periods.map((p) => fetchPeriodDriverRecords(p.year, p.month))
+      );
+      const records: Record<string, DriverPeriodRecords> = {};
+      periods.forEach((p, i) => {
+        records[getPeriodKey(p.year, p.month)] = periodRecords[i];
+      });
+
+      const simulation = simulatePolicyImpact(
+        {
+          drivers,
+          performances: driverPerformance,
+          budgets: monthlyBudgets,
+          settings: incentiveSettings,
+          formulas: customFormulas,
+          context: {
+            salaryHistory: driverSalaryHistory,
+            conversionRates: zigUsdConversionRates,
+            kilometerRates,
+          },
+          records,
+        },
+        draft,
+        periods
+      );
+
+      setResult(simulation);
+      if (simulation.months.length === 0) {
+        showToast("No performance data in the selected 12 months");
+      }
+    } catch (error) {
+      console.error("Policy simulation error:", error);
+      showToast("Error running simulation");
+    } finally {
+      setIsRunning(false);
+    }
+  }, [
+    draft,
+    periods,
+    drivers,
+    driverPerformance,
+    monthlyBudgets,
+    incentiveSettings,
+    customFormulas,
+    driverSalaryHistory,
+    zigUsdConversionRates,
+    kilometerRates,
+    showToast,
+  ]);
+
+  const { winners, losers } = useMemo(
+    () => (result ? getWinnersAndLosers(result.drivers) : { winners: [], losers: [] }),
+    [result]
+  );
+
+  const filteredDrivers = useMemo(
+    () => (result?.drivers || []).filter((d) => driverFilter === "all" || d.driverType === driverFilter),
+    [result, driverFilter]
+  );
+
+  const fuelConfig = draftFuel[fuelTab];
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-surface-900">Policy Simulator</h1>
+          <p className="text-sm text-surface-500 mt-0.5">
+            What the last 12 months would have cost under proposed settings - nothing is saved
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-surface-500">12 months to</span>
+          <select
+            className="form-select"
+            value={endMonth}
+            onChange={(e) => setEndMonth(parseInt(e.target.value))}
+          >
+            {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+              <option key={month} value={month}>
+                {getMonthName(month)}
+              </option>
+            ))}
+          </select>
+          <select
+            className="form-select"
+            value={endYear}
+            onChange={(e) => setEndYear(parseInt(e.target.value))}
+          >
+            {[2024, 2025, 2026].map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Draft Settings */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Proposed Settings</h2>
+            <p className="text-xs text-surface-500 mt-0.5">
+              Changed values replace the stored ones in every simulated month; unchanged settings keep their history
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={resetDraft} className="btn btn-secondary text-xs py-1.5">
+              Reset to Current
+            </button>
+            <button
+              onClick={handleRunSimulation}
+              disabled={isRunning}
+              className="btn btn-primary text-xs py-1.5"
+            >
+              {isRunning ? "Simulating..." : "Run Simulation"}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Divisors */}
+          <div className="space-y-3">
+            {DRIVER_TYPES.map((type) => (
+              <div key={type}>
+                <label className="form-label capitalize">{type} Incentive Divisor</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  className="form-input font-mono"
+                  value={draftDivisors[type]}
+                  onChange={(e) => setDraftDivisors((prev) => ({ ...prev, [type]: e.target.value }))}
+                />
+                <p className="text-xs text-surface-500 mt-1">
+                  Current: {currentConfigs[type].divisor}
+                  {draft[`incentive_divisor_${type}`] !== undefined && (
+                    <span className="ml-2 text-amber-600 font-medium">changed</span>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Fuel Tiers */}
+          <div className="lg:col-span-2 border border-surface-200 rounded-lg overflow-hidden">
+            <div className="flex items-center justify-between bg-surface-50 border-b border-surface-200">
+              <div className="flex">
+                {DRIVER_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setFuelTab(type)}
+                    className={`px-4 py-2 text-sm font-medium border-b-2 capitalize transition-colors ${
+                      fuelTab === type
+                        ? "border-primary-500 text-primary-600"
+                        : "border-transparent text-surface-500 hover:text-surface-700"
+                    }`}
+                  >
+                    {type} Fuel Tiers
+                    {draft[`fuel_efficiency_bonus_${type}`] !== undefined && (
+                      <span className="ml-1 text-amber-600">•</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 px-4 text-sm text-surface-700">
+                <input
+                  type="checkbox"
+                  checked={fuelConfig.enabled}
+                  onChange={(e) => updateFuelConfig(fuelTab, (c) => ({ ...c, enabled: e.target.checked }))}
+                />
+                Enabled
+              </label>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase">Min (km/L)</th>
+                  <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase">Max (km/L)</th>
+                  <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase">Bonus (USD)</th>
+                  <th className="w-12" />
+                </tr>
+              </thead>
+              <tbody>
+                {fuelConfig.tiers.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-6 text-center text-sm text-surface-500">
+                      No tiers. Click "Add Tier" to create one.
+                    </td>
+                  </tr>
+                ) : (
+                  fuelConfig.tiers.map((tier) => (
+                    <tr key={tier.id} className="border-t border-surface-100">
+                      {(["min_efficiency", "max_efficiency", "bonus_amount"] as const).map((field) => (
+                        <td key={field} className="px-4 py-2">
+                          <input
+                            type="number"
+                            step={field === "bonus_amount" ? "1" : "0.01"}
+                            className="form-input text-sm w-24 text-center font-mono"
+                            value={tier[field]}
+                            onChange={(e) => updateFuelTier(tier.id, field, parseFloat(e.target.value) || 0)}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-center">
+                        <button
+                          onClick={() => removeFuelTier(tier.id)}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
+                          title="Remove tier"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+            <div className="px-4 py-2 border-t border-surface-100">
+              <button onClick={addFuelTier} className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+                + Add Tier
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {result && result.months.length > 0 && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="bg-white rounded-lg border border-surface-200 p-3">
+              <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Current Policy</p>
+              <p className="text-xl font-semibold text-surface-900 mt-1">{formatCurrency(result.totals.baseline)}</p>
+            </div>
+            <div className="bg-white rounded-lg border border-surface-200 p-3">
+              <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Proposed Policy</p>
+              <p className="text-xl font-semibold text-primary-600 mt-1">{formatCurrency(result.totals.proposed)}</p>
+            </div>
+            <div className="bg-white rounded-lg border border-surface-200 p-3">
+              <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Cost Change</p>
+              <p className={`text-xl font-semibold mt-1 ${getDeltaColor(result.totals.delta)}`}>
+                <DeltaText comparison={result.totals} />
+              </p>
+            </div>
+            {DRIVER_TYPES.map((type) => (
+              <div key={type} className="bg-white rounded-lg border border-surface-200 p-3">
+                <p className="text-xs text-surface-500 uppercase tracking-wider font-medium capitalize">{type} Drivers</p>
+                <p className={`text-xl font-semibold mt-1 ${getDeltaColor(result.totals.byType[type].delta)}`}>
+                  <DeltaText comparison={result.totals.byType[type]} />
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Monthly Impact */}
+          <div className="bg-white rounded-lg border border-surface-200 overflow-x-auto">
+            <div className="px-4 py-3 border-b border-surface-100">
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Cost by Month</h2>
+            </div>
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-surface-200">
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Month</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Drivers</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Current</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Proposed</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Change</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Local</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Export</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.months.map((m) => (
+                  <tr key={getPeriodKey(m.year, m.month)} className="border-b border-surface-100">
+                    <td className="py-2 px-4 text-sm text-surface-900">
+                      {getMonthShortName(m.month)} {m.year}
+                      {m.failedCount > 0 && (
+                        <span className="ml-2 text-xs text-amber-600">{m.failedCount} skipped</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 text-right text-sm text-surface-600">{m.driverCount}</td>
+                    <td className="py-2 px-4 text-right font-mono text-sm">{formatCurrency(m.baseline)}</td>
+                    <td className="py-2 px-4 text-right font-mono text-sm">{formatCurrency(m.proposed)}</td>
+                    <td className={`py-2 px-4 text-right font-mono text-sm font-semibold ${getDeltaColor(m.delta)}`}>
+                      {formatDelta(m.delta)}
+                    </td>
+                    {DRIVER_TYPES.map((type) => (
+                      <td
+                        key={type}
+                        className={`py-2 px-4 text-right font-mono text-sm ${getDeltaColor(m.byType[type].delta)}`}
+                      >
+                        {formatDelta(m.byType[type].delta)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Winners and Losers */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <ImpactList title="Biggest Winners" drivers={winners} empty="No driver gains under the proposal" />
+            <ImpactList title="Biggest Losers" drivers={losers} empty="No driver loses under the proposal" />
+          </div>
+
+          {/* Per-driver Impact */}
+          <div className="bg-white rounded-lg border border-surface-200 overflow-x-auto">
+            <div className="px-4 py-3 border-b border-surface-100 flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Impact by Driver</h2>
+              <select
+                className="form-select text-sm w-36"
+                value={driverFilter}
+                onChange={(e) => setDriverFilter(e.target.value as "all" | DriverType)}
+              >
+                <option value="all">All Types</option>
+                <option value="local">Local</option>
+                <option value="export">Export</option>
+              </select>
+            </div>
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-surface-200">
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Type</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Months</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Current</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Proposed</th>
+                  <th className="text-right py-2 px-4 text-xs font-semibold text-surface-600 uppercase">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredDrivers.map((d) => (
+                  <tr key={d.driverId} className="border-b border-surface-100">
+                    <td className="py-2 px-4 text-sm text-surface-900">{d.driverName}</td>
+                    <td className="py-2 px-4 text-sm text-surface-600 capitalize">{d.driverType}</td>
+                    <td className="py-2 px-4 text-right text-sm text-surface-600">{d.months}</td>
+                    <td className="py-2 px-4 text-right font-mono text-sm">{formatCurrency(d.baseline)}</td>
+                    <td className="py-2 px-4 text-right font-mono text-sm">{formatCurrency(d.proposed)}</td>
+                    <td className={`py-2 px-4 text-right font-mono text-sm font-semibold ${getDriverDeltaColor(d.delta)}`}>
+                      {formatDelta(d.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.failed.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-amber-800 mb-2">
+                {result.failed.length} driver-month(s) could not be calculated and are excluded
+              </p>
+              <ul className="text-xs text-amber-700 space-y-1 max-h-40 overflow-y-auto">
+                {result.failed.map((f, i) => (
+                  <li key={i}>
+                    {getMonthShortName(f.month)} {f.year} - {f.driverName}: {f.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function ImpactList({ title, drivers, empty }: { title: string; drivers: DriverImpact[]; empty: string }) {
+  return (
+    <div className="bg-white rounded-lg border border-surface-200">
+      <div className="px-4 py-3 border-b border-surface-100">
+        <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">{title}</h2>
+      </div>
+      {drivers.length === 0 ? (
+        <p className="px-4 py-6 text-center text-sm text-surface-500">{empty}</p>
+      ) : (
+        <ul className="divide-y divide-surface-100">
+          {drivers.map((d) => (
+            <li key={d.driverId} className="px-4 py-2 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-surface-900">{d.driverName}</p>
+                <p className="text-xs text-surface-500 capitalize">
+                  {d.driverType} · {formatNumber(d.months)} month(s)
+                </p>
+              </div>
+              <span className={`font-mono text-sm font-semibold ${getDriverDeltaColor(d.delta)}`}>
+                {formatDelta(d.delta)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function DeltaText({ comparison }: { comparison: CostComparison }) {
+  const percent = comparison.baseline !== 0 ? (comparison.delta / comparison.baseline) * 100 : null;
+  return (
+    <>
+      {formatDelta(comparison.delta)}
+      {percent !== null && <span className="text-xs font-normal ml-1">({percent.toFixed(1)}%)</span>}
+    </>
+  );
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? "+" : ""}${formatCurrency(delta)}`;
+}
+
+// Cost view: an increase is bad for the company
+function getDeltaColor(delta: number): string {
+  if (delta > 0) return "text-red-600";
+  if (delta < 0) return "text-green-600";
+  return "text-surface-600";
+}
+
+// Driver view: an increase is good for the driver
+function getDriverDeltaColor(delta: number): string {
+  return getDeltaColor(-delta);
+}
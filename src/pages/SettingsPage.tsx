@@ -4,20 +4,126 @@
  */
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { saveIncentiveSettingVersion } from "../hooks/useRealtimeData";
 import { isSupabaseConfigured, supabase } from "../lib/supabase";
 import { useStore } from "../store/useStore";
-import type { FuelEfficiencyBonusConfig, FuelEfficiencyTier, ZigUsdConversionRate } from "../types/database";
+import type
+  {
+    AchievementTier,
+    AchievementTierConfig,
+    ApprovalChain,
+    ApprovalChainsConfig,
+    ApprovalStep,
+    CalendarDay,
+    CalendarDayInsert,
+    DeductionRule,
+    DeductionRulesConfig,
+    FuelEfficiencyBonusConfig,
+    FuelEfficiencyTier,
+    IncentiveLimitsConfig,
+    PayoutSplitConfig,
+    PayrollComponent,
+    PayrollExportConfig,
+    PayrollExportProfile,
+    PerformanceBonusConfigs,
+    PerformanceBonusMetric,
+    PerformanceBonusTier,
+    PeriodBonusRule,
+    PeriodBonusRulesConfig,
+    PeriodCloseConfig,
+    WorkingCalendarConfig,
+    ZigUsdConversionRate,
+  } from "../types/database";
+import
+  {
+    APPROVAL_CHAINS_SETTING_KEY,
+    DEFAULT_APPROVAL_CHAINS,
+  } from "../utils/approvals";
 import
   {
+    DEFAULT_EXPORT_ACHIEVEMENT_TIERS,
     DEFAULT_EXPORT_FUEL_TIERS,
+    DEFAULT_INCENTIVE_LIMITS,
+    DEFAULT_LOCAL_ACHIEVEMENT_TIERS,
     DEFAULT_LOCAL_FUEL_TIERS,
+    DEFAULT_PAYOUT_SPLIT,
+    DEFAULT_PERFORMANCE_BONUSES,
+    getIncentiveLimitsConfig,
+    getPayoutSplitConfig,
+    getPerformanceBonusConfigs,
+    getPerformanceBonusSettingKey,
+    getTierBadgeColor,
+    PAYOUT_SPLIT_SETTING_KEY,
+    PERFORMANCE_BONUS_LABELS,
+    PERFORMANCE_BONUS_METRICS,
   } from "../utils/calculations";
+import
+  {
+    DEDUCTION_RULE_TYPE_LABELS,
+    DEDUCTION_RULES_SETTING_KEY,
+    DEFAULT_DEDUCTION_RULES,
+  } from "../utils/deductions";
 import { formatCurrency, getMonthName } from "../utils/formatters";
+import
+  {
+    DEFAULT_PAYROLL_EXPORT_CONFIG,
+    getPayrollExportConfig,
+    PAYROLL_COMPONENTS,
+    PAYROLL_EXPORT_FIELD_LABELS,
+    PAYROLL_EXPORT_FORMAT_LABELS,
+    PAYROLL_EXPORT_SETTING_KEY,
+  } from "../utils/payrollExport";
+import
+  {
+    DEFAULT_PERIOD_BONUS_RULES,
+    PERIOD_BONUS_RULE_TYPE_LABELS,
+    PERIOD_BONUS_RULES_SETTING_KEY,
+  } from "../utils/periodBonuses";
+import { getPeriodCloseConfig, PERIOD_CLOSE_SETTING_KEY } from "../utils/periodClose";
+import
+  {
+    formatVersionRange,
+    getCurrentSettings,
+    getPeriodStartDate,
+    getSettingVersions,
+    resolveSettingsForDate,
+  } from "../utils/settingsVersions";
+import
+  {
+    CALENDAR_DAY_TYPE_LABELS,
+    DEFAULT_WORKING_CALENDAR,
+    getDepots,
+    getWorkingCalendarConfig,
+    WEEKDAY_LABELS,
+    WORKING_CALENDAR_SETTING_KEY,
+  } from "../utils/workingCalendar";
 
 export default function SettingsPage() {
-  const { incentiveSettings, setIncentiveSettings, zigUsdConversionRates, setZigUsdConversionRates, showToast } = useStore();
+  const {
+    incentiveSettings,
+    setIncentiveSettings,
+    zigUsdConversionRates,
+    setZigUsdConversionRates,
+    drivers,
+    calendarDays,
+    showToast,
+  } = useStore();
   const supabaseConfigured = isSupabaseConfigured();
 
+  // Month from which saved changes take effect (editors show the version in force then)
+  const [effectiveYear, setEffectiveYear] = useState(new Date().getFullYear());
+  const [effectiveMonth, setEffectiveMonth] = useState(new Date().getMonth() + 1);
+  const effectiveFrom = getPeriodStartDate(effectiveYear, effectiveMonth);
+  const effectiveSettings = useMemo(
+    () => resolveSettingsForDate(incentiveSettings, effectiveFrom),
+    [incentiveSettings, effectiveFrom]
+  );
+  const currentSettings = useMemo(() => getCurrentSettings(incentiveSettings), [incentiveSettings]);
+  const settingKeys = useMemo(
+    () => [...new Set(incentiveSettings.map((s) => s.setting_key))].sort(),
+    [incentiveSettings]
+  );
+
   // Local state for fuel efficiency settings
   const [localFuelConfig, setLocalFuelConfig] = useState<FuelEfficiencyBonusConfig>(
     DEFAULT_LOCAL_FUEL_TIERS
@@ -28,6 +134,74 @@ export default function SettingsPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<"local" | "export">("local");
 
+  // State for achievement tiers
+  const [localTierConfig, setLocalTierConfig] = useState<AchievementTierConfig>(
+    DEFAULT_LOCAL_ACHIEVEMENT_TIERS
+  );
+  const [exportTierConfig, setExportTierConfig] = useState<AchievementTierConfig>(
+    DEFAULT_EXPORT_ACHIEVEMENT_TIERS
+  );
+  const [tierTab, setTierTab] = useState<"local" | "export">("local");
+  const [isSavingTiers, setIsSavingTiers] = useState(false);
+
+  // State for on-time, customer rating and safety bonuses
+  const [localBonusConfigs, setLocalBonusConfigs] = useState<PerformanceBonusConfigs>(
+    DEFAULT_PERFORMANCE_BONUSES
+  );
+  const [exportBonusConfigs, setExportBonusConfigs] = useState<PerformanceBonusConfigs>(
+    DEFAULT_PERFORMANCE_BONUSES
+  );
+  const [bonusTab, setBonusTab] = useState<"local" | "export">("local");
+  const [isSavingBonuses, setIsSavingBonuses] = useState(false);
+
+  // State for caps, floors and pools
+  const [localLimits, setLocalLimits] = useState<IncentiveLimitsConfig>(DEFAULT_INCENTIVE_LIMITS);
+  const [exportLimits, setExportLimits] = useState<IncentiveLimitsConfig>(DEFAULT_INCENTIVE_LIMITS);
+  const [limitsTab, setLimitsTab] = useState<"local" | "export">("local");
+  const [isSavingLimits, setIsSavingLimits] = useState(false);
+
+  // State for the USD/ZIG payout split
+  const [payoutSplit, setPayoutSplit] = useState<PayoutSplitConfig>(DEFAULT_PAYOUT_SPLIT);
+  const [isSavingPayoutSplit, setIsSavingPayoutSplit] = useState(false);
+
+  // State for deduction rules
+  const [deductionConfig, setDeductionConfig] = useState<DeductionRulesConfig>(DEFAULT_DEDUCTION_RULES);
+  const [isSavingDeductions, setIsSavingDeductions] = useState(false);
+
+  // State for quarterly and annual bonus rules
+  const [periodBonusConfig, setPeriodBonusConfig] = useState<PeriodBonusRulesConfig>(DEFAULT_PERIOD_BONUS_RULES);
+  const [isSavingPeriodBonuses, setIsSavingPeriodBonuses] = useState(false);
+
+  // State for multi-level approval chains
+  const [approvalConfig, setApprovalConfig] = useState<ApprovalChainsConfig>(DEFAULT_APPROVAL_CHAINS);
+  const [isSavingApprovals, setIsSavingApprovals] = useState(false);
+
+  // State for who may reopen a closed payroll period (comma-separated emails)
+  const [reopenApprovers, setReopenApprovers] = useState("");
+  const [isSavingPeriodClose, setIsSavingPeriodClose] = useState(false);
+
+  // State for payroll export profiles (code mappings and column layouts)
+  const [payrollExportConfig, setPayrollExportConfig] = useState<PayrollExportConfig>(DEFAULT_PAYROLL_EXPORT_CONFIG);
+  const [isSavingPayrollExport, setIsSavingPayrollExport] = useState(false);
+
+  // State for the working week and dated calendar entries
+  const [calendarConfig, setCalendarConfig] = useState<WorkingCalendarConfig>(DEFAULT_WORKING_CALENDAR);
+  const [isSavingCalendar, setIsSavingCalendar] = useState(false);
+  const [overrideDepot, setOverrideDepot] = useState("");
+  const [calendarYear, setCalendarYear] = useState(new Date().getFullYear());
+  const [newCalendarDay, setNewCalendarDay] = useState<CalendarDayInsert>({
+    calendar_date: "",
+    depot: null,
+    day_type: "public_holiday",
+    name: "",
+    notes: null,
+  });
+  const [isSavingCalendarDay, setIsSavingCalendarDay] = useState(false);
+  const depots = useMemo(
+    () => getDepots(drivers.map((d) => d.depot), calendarDays),
+    [drivers, calendarDays]
+  );
+
   // State for ZIG-USD conversion rates
   const [rateYear, setRateYear] = useState(new Date().getFullYear());
   const [editingRate, setEditingRate] = useState<ZigUsdConversionRate | null>(null);
@@ -35,10 +209,10 @@ export default function SettingsPage() {
 
   // Load existing settings
   useEffect(() => {
-    const localSetting = incentiveSettings.find(
+    const localSetting = effectiveSettings.find(
       (s) => s.setting_key === "fuel_efficiency_bonus_local"
     );
-    const exportSetting = incentiveSettings.find(
+    const exportSetting = effectiveSettings.find(
       (s) => s.setting_key === "fuel_efficiency_bonus_export"
     );
 
@@ -48,7 +222,53 @@ export default function SettingsPage() {
     if (exportSetting && typeof exportSetting.setting_value === "object") {
       setExportFuelConfig(exportSetting.setting_value as unknown as FuelEfficiencyBonusConfig);
     }
-  }, [incentiveSettings]);
+
+    const localTierSetting = effectiveSettings.find(
+      (s) => s.setting_key === "achievement_tiers_local"
+    );
+    const exportTierSetting = effectiveSettings.find(
+      (s) => s.setting_key === "achievement_tiers_export"
+    );
+    if (localTierSetting && typeof localTierSetting.setting_value === "object") {
+      setLocalTierConfig(localTierSetting.setting_value as unknown as AchievementTierConfig);
+    }
+    if (exportTierSetting && typeof exportTierSetting.setting_value === "object") {
+      setExportTierConfig(exportTierSetting.setting_value as unknown as AchievementTierConfig);
+    }
+
+    setLocalBonusConfigs(getPerformanceBonusConfigs(effectiveSettings, "local"));
+    setExportBonusConfigs(getPerformanceBonusConfigs(effectiveSettings, "export"));
+
+    setLocalLimits(getIncentiveLimitsConfig(effectiveSettings, "local"));
+    setExportLimits(getIncentiveLimitsConfig(effectiveSettings, "export"));
+
+    setPayoutSplit(getPayoutSplitConfig(effectiveSettings));
+
+    const deductionSetting = effectiveSettings.find(
+      (s) => s.setting_key === DEDUCTION_RULES_SETTING_KEY
+    );
+    if (deductionSetting && typeof deductionSetting.setting_value === "object") {
+      setDeductionConfig(deductionSetting.setting_value as unknown as DeductionRulesConfig);
+    }
+
+    const periodBonusSetting = effectiveSettings.find(
+      (s) => s.setting_key === PERIOD_BONUS_RULES_SETTING_KEY
+    );
+    if (periodBonusSetting && typeof periodBonusSetting.setting_value === "object") {
+      setPeriodBonusConfig(periodBonusSetting.setting_value as unknown as PeriodBonusRulesConfig);
+    }
+
+    const approvalSetting = effectiveSettings.find(
+      (s) => s.setting_key === APPROVAL_CHAINS_SETTING_KEY
+    );
+    if (approvalSetting && typeof approvalSetting.setting_value === "object") {
+      setApprovalConfig(approvalSetting.setting_value as unknown as ApprovalChainsConfig);
+    }
+
+    setCalendarConfig(getWorkingCalendarConfig(effectiveSettings));
+    setReopenApprovers(getPeriodCloseConfig(effectiveSettings).reopen_approvers.join(", "));
+    setPayrollExportConfig(getPayrollExportConfig(effectiveSettings));
+  }, [effectiveSettings]);
 
   // Get current config based on active tab
   const currentConfig = activeTab === "local" ? localFuelConfig : exportFuelConfig;
@@ -118,46 +338,22 @@ export default function SettingsPage() {
     setIsSaving(true);
     try {
       // Save local config
-      const localKey = "fuel_efficiency_bonus_local";
-      const existingLocal = incentiveSettings.find((s) => s.setting_key === localKey);
-
-      if (existingLocal) {
-        await supabase
-          .from("incentive_settings")
-          .update({
-            setting_value: localFuelConfig as unknown as Record<string, unknown>,
-            is_active: true,
-          })
-          .eq("id", existingLocal.id);
-      } else {
-        await supabase.from("incentive_settings").insert({
-          setting_key: localKey,
-          setting_value: localFuelConfig as unknown as Record<string, unknown>,
-          description: "Fuel efficiency bonus tiers for Local drivers (km/L ranges and USD bonuses)",
-          is_active: true,
-        });
-      }
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "fuel_efficiency_bonus_local",
+        localFuelConfig,
+        "Fuel efficiency bonus tiers for Local drivers (km/L ranges and USD bonuses)",
+        effectiveFrom
+      );
 
       // Save export config
-      const exportKey = "fuel_efficiency_bonus_export";
-      const existingExport = incentiveSettings.find((s) => s.setting_key === exportKey);
-
-      if (existingExport) {
-        await supabase
-          .from("incentive_settings")
-          .update({
-            setting_value: exportFuelConfig as unknown as Record<string, unknown>,
-            is_active: true,
-          })
-          .eq("id", existingExport.id);
-      } else {
-        await supabase.from("incentive_settings").insert({
-          setting_key: exportKey,
-          setting_value: exportFuelConfig as unknown as Record<string, unknown>,
-          description: "Fuel efficiency bonus tiers for Export drivers (km/L ranges and USD bonuses)",
-          is_active: true,
-        });
-      }
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "fuel_efficiency_bonus_export",
+        exportFuelConfig,
+        "Fuel efficiency bonus tiers for Export drivers (km/L ranges and USD bonuses)",
+        effectiveFrom
+      );
 
       // Refresh settings
       const { data } = await supabase.from("incentive_settings").select("*");
@@ -175,254 +371,2507 @@ export default function SettingsPage() {
   }, [
     supabaseConfigured,
     incentiveSettings,
+    effectiveFrom,
     localFuelConfig,
     exportFuelConfig,
     setIncentiveSettings,
     showToast,
   ]);
 
-  // Calculate preview for a sample efficiency
-  const previewBonus = useMemo(() => {
-    const sampleEfficiency = 2.1;
-    const tier = currentConfig.tiers.find(
-      (t) => sampleEfficiency >= t.min_efficiency && sampleEfficiency < t.max_efficiency
+  // Achievement tier config for the selected tab
+  const currentTierConfig = tierTab === "local" ? localTierConfig : exportTierConfig;
+  const setCurrentTierConfig = tierTab === "local" ? setLocalTierConfig : setExportTierConfig;
+
+  // Add achievement tier (10 points above the highest threshold)
+  const addAchievementTier = useCallback(() => {
+    const highest = currentTierConfig.tiers.reduce(
+      (max, t) => Math.max(max, t.min_achievement),
+      0
     );
-    return tier?.bonus_amount || 0;
-  }, [currentConfig.tiers]);
+    const newTier: AchievementTier = {
+      id: Date.now().toString(),
+      name: "New Tier",
+      min_achievement: currentTierConfig.tiers.length > 0 ? highest + 10 : 100,
+      reward_type: "multiplier",
+      reward_value: 1,
+    };
+    setCurrentTierConfig((prev) => ({ ...prev, tiers: [...prev.tiers, newTier] }));
+  }, [currentTierConfig.tiers, setCurrentTierConfig]);
 
-  return (
-    <div className="space-y-5">
-      {/* Page Header */}
-      <div>
-        <h1 className="text-xl font-semibold text-surface-900">Settings</h1>
-        <p className="text-sm text-surface-500 mt-0.5">
-          Configure system settings and preferences
-        </p>
-      </div>
+  // Remove achievement tier
+  const removeAchievementTier = useCallback(
+    (tierId: string) => {
+      setCurrentTierConfig((prev) => ({
+        ...prev,
+        tiers: prev.tiers.filter((t) => t.id !== tierId),
+      }));
+    },
+    [setCurrentTierConfig]
+  );
+
+  // Update achievement tier
+  const updateAchievementTier = useCallback(
+    <K extends keyof AchievementTier>(tierId: string, field: K, value: AchievementTier[K]) => {
+      setCurrentTierConfig((prev) => ({
+        ...prev,
+        tiers: prev.tiers.map((t) => (t.id === tierId ? { ...t, [field]: value } : t)),
+      }));
+    },
+    [setCurrentTierConfig]
+  );
+
+  // Save achievement tiers
+  const saveTierSettings = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingTiers(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "achievement_tiers_local",
+        localTierConfig,
+        "Achievement tiers for Local drivers (% of target thresholds with KM incentive multipliers or flat kickers)",
+        effectiveFrom
+      );
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "achievement_tiers_export",
+        exportTierConfig,
+        "Achievement tiers for Export drivers (% of target thresholds with KM incentive multipliers or flat kickers)",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Achievement tiers saved successfully");
+    } catch (error) {
+      console.error("Error saving achievement tiers:", error);
+      showToast("Error saving achievement tiers");
+    } finally {
+      setIsSavingTiers(false);
+    }
+  }, [
+    supabaseConfigured,
+    incentiveSettings,
+    effectiveFrom,
+    localTierConfig,
+    exportTierConfig,
+    setIncentiveSettings,
+    showToast,
+  ]);
+
+  // Performance bonus configs for the selected tab
+  const currentBonusConfigs = bonusTab === "local" ? localBonusConfigs : exportBonusConfigs;
+  const setCurrentBonusConfigs = bonusTab === "local" ? setLocalBonusConfigs : setExportBonusConfigs;
+
+  // Toggle a performance bonus on or off
+  const togglePerformanceBonus = useCallback(
+    (metric: PerformanceBonusMetric) => {
+      setCurrentBonusConfigs((prev) => ({
+        ...prev,
+        [metric]: { ...prev[metric], enabled: !prev[metric].enabled },
+      }));
+    },
+    [setCurrentBonusConfigs]
+  );
+
+  // Add performance bonus tier (above the highest threshold)
+  const addPerformanceBonusTier = useCallback(
+    (metric: PerformanceBonusMetric) => {
+      setCurrentBonusConfigs((prev) => {
+        const highest = prev[metric].tiers.reduce<PerformanceBonusTier | null>(
+          (best, t) => (!best || t.min_value > best.min_value ? t : best),
+          null
+        );
+        const step = metric === "customer_rating" ? 0.1 : 1;
+        const newTier: PerformanceBonusTier = {
+          id: Date.now().toString(),
+          min_value: highest ? Math.round((highest.min_value + step) * 10) / 10 : 0,
+          bonus_amount: highest ? highest.bonus_amount + 100 : 100,
+        };
+        return { ...prev, [metric]: { ...prev[metric], tiers: [...prev[metric].tiers, newTier] } };
+      });
+    },
+    [setCurrentBonusConfigs]
+  );
+
+  // Remove performance bonus tier
+  const removePerformanceBonusTier = useCallback(
+    (metric: PerformanceBonusMetric, tierId: string) => {
+      setCurrentBonusConfigs((prev) => ({
+        ...prev,
+        [metric]: { ...prev[metric], tiers: prev[metric].tiers.filter((t) => t.id !== tierId) },
+      }));
+    },
+    [setCurrentBonusConfigs]
+  );
+
+  // Update performance bonus tier
+  const updatePerformanceBonusTier = useCallback(
+    (metric: PerformanceBonusMetric, tierId: string, field: "min_value" | "bonus_amount", value: number) => {
+      setCurrentBonusConfigs((prev) => ({
+        ...prev,
+        [metric]: {
+          ...prev[metric],
+          tiers: prev[metric].tiers.map((t) => (t.id === tierId ? { ...t, [field]: value } : t)),
+        },
+      }));
+    },
+    [setCurrentBonusConfigs]
+  );
+
+  // Save on-time, customer rating and safety bonuses for both driver types
+  const savePerformanceBonuses = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingBonuses(true);
+    try {
+      for (const type of ["local", "export"] as const) {
+        const configs = type === "local" ? localBonusConfigs : exportBonusConfigs;
+        for (const metric of PERFORMANCE_BONUS_METRICS) {
+          await saveIncentiveSettingVersion(
+            incentiveSettings,
+            getPerformanceBonusSettingKey(metric, type),
+            configs[metric],
+            `${PERFORMANCE_BONUS_LABELS[metric].label} bonus tiers for ${type === "local" ? "Local" : "Export"} drivers (thresholds and USD bonuses)`,
+            effectiveFrom
+          );
+        }
+      }
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Performance bonuses saved successfully");
+    } catch (error) {
+      console.error("Error saving performance bonuses:", error);
+      showToast("Error saving performance bonuses");
+    } finally {
+      setIsSavingBonuses(false);
+    }
+  }, [
+    supabaseConfigured,
+    incentiveSettings,
+    effectiveFrom,
+    localBonusConfigs,
+    exportBonusConfigs,
+    setIncentiveSettings,
+    showToast,
+  ]);
+
+  // Limits for the selected tab
+  const currentLimits = limitsTab === "local" ? localLimits : exportLimits;
+  const setCurrentLimits = limitsTab === "local" ? setLocalLimits : setExportLimits;
+
+  // Update a single limit field
+  const updateLimit = useCallback(
+    <K extends keyof IncentiveLimitsConfig>(field: K, value: IncentiveLimitsConfig[K]) => {
+      setCurrentLimits((prev) => ({ ...prev, [field]: value }));
+    },
+    [setCurrentLimits]
+  );
+
+  // Save caps, floors and pools
+  const saveLimits = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingLimits(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "incentive_limits_local",
+        localLimits,
+        "Incentive cap, minimum guaranteed incentive and monthly pool for Local drivers",
+        effectiveFrom
+      );
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        "incentive_limits_export",
+        exportLimits,
+        "Incentive cap, minimum guaranteed incentive and monthly pool for Export drivers",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Caps and pool saved successfully");
+    } catch (error) {
+      console.error("Error saving caps and pool:", error);
+      showToast("Error saving caps and pool");
+    } finally {
+      setIsSavingLimits(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, localLimits, exportLimits, setIncentiveSettings, showToast]);
+
+  // Update a single payout split field
+  const updatePayoutSplit = useCallback(
+    <K extends keyof PayoutSplitConfig>(field: K, value: PayoutSplitConfig[K]) => {
+      setPayoutSplit((prev) => ({ ...prev, [field]: value }));
+    },
+    []
+  );
+
+  // Save the USD/ZIG payout split
+  const savePayoutSplit = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingPayoutSplit(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        PAYOUT_SPLIT_SETTING_KEY,
+        payoutSplit,
+        "Share of incentives paid in USD; the rest is paid in ZIG at the month's conversion rate",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Payout currency split saved successfully");
+    } catch (error) {
+      console.error("Error saving payout split:", error);
+      showToast("Error saving payout split");
+    } finally {
+      setIsSavingPayoutSplit(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, payoutSplit, setIncentiveSettings, showToast]);
+
+  // Update a single deduction rule
+  const updateDeductionRule = useCallback(
+    <K extends keyof DeductionRule>(ruleId: string, field: K, value: DeductionRule[K]) => {
+      setDeductionConfig((prev) => ({
+        ...prev,
+        rules: prev.rules.map((r) => (r.id === ruleId ? { ...r, [field]: value } : r)),
+      }));
+    },
+    []
+  );
+
+  // Save deduction rules
+  const saveDeductionRules = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingDeductions(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        DEDUCTION_RULES_SETTING_KEY,
+        deductionConfig,
+        "Deduction rules applied to incentives (accidents, fines, unpaid leave, suspensions)",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Deduction rules saved successfully");
+    } catch (error) {
+      console.error("Error saving deduction rules:", error);
+      showToast("Error saving deduction rules");
+    } finally {
+      setIsSavingDeductions(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, deductionConfig, setIncentiveSettings, showToast]);
+
+  // Update a single period bonus rule
+  const updatePeriodBonusRule = useCallback(
+    <K extends keyof PeriodBonusRule>(ruleId: string, field: K, value: PeriodBonusRule[K]) => {
+      setPeriodBonusConfig((prev) => ({
+        ...prev,
+        rules: prev.rules.map((r) => (r.id === ruleId ? { ...r, [field]: value } : r)),
+      }));
+    },
+    []
+  );
+
+  // Save period bonus rules
+  const savePeriodBonusRules = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingPeriodBonuses(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        PERIOD_BONUS_RULES_SETTING_KEY,
+        periodBonusConfig,
+        "Quarterly and annual consistency, accident-free and retention bonus rules",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Period bonus rules saved successfully");
+    } catch (error) {
+      console.error("Error saving period bonus rules:", error);
+      showToast("Error saving period bonus rules");
+    } finally {
+      setIsSavingPeriodBonuses(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, periodBonusConfig, setIncentiveSettings, showToast]);
+
+  // Update a single approval chain field
+  const updateApprovalChain = useCallback(
+    <K extends keyof ApprovalChain>(chainId: string, field: K, value: ApprovalChain[K]) => {
+      setApprovalConfig((prev) => ({
+        ...prev,
+        chains: prev.chains.map((c) => (c.id === chainId ? { ...c, [field]: value } : c)),
+      }));
+    },
+    []
+  );
+
+  // Update a single step of an approval chain
+  const updateApprovalStep = useCallback(
+    <K extends keyof ApprovalStep>(chainId: string, stepId: string, field: K, value: ApprovalStep[K]) => {
+      setApprovalConfig((prev) => ({
+        ...prev,
+        chains: prev.chains.map((c) =>
+          c.id === chainId
+            ? { ...c, steps: c.steps.map((step) => (step.id === stepId ? { ...step, [field]: value } : step)) }
+            : c
+        ),
+      }));
+    },
+    []
+  );
+
+  // Add an approval chain (from 1,000 above the highest threshold)
+  const addApprovalChain = useCallback(() => {
+    setApprovalConfig((prev) => {
+      const highest = prev.chains.reduce((max, c) => Math.max(max, c.min_amount), 0);
+      const chain: ApprovalChain = {
+        id: `chain_${Date.now()}`,
+        label: "New approval chain",
+        enabled: true,
+        applies_to: "all",
+        min_amount: prev.chains.length > 0 ? highest + 1000 : 0,
+        steps: [{ id: `step_${Date.now()}`, label: "Approver", approvers: [] }],
+      };
+      return { ...prev, chains: [...prev.chains, chain] };
+    });
+  }, []);
+
+  // Save approval chains
+  const saveApprovalChains = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const config: ApprovalChainsConfig = {
+      ...approvalConfig,
+      chains: approvalConfig.chains.map((c) => ({
+        ...c,
+        steps: c.steps.map((step) => ({ ...step, approvers: step.approvers.map((a) => a.trim()).filter(Boolean) })),
+      })),
+    };
+    const unstaffed = config.chains.find((c) => c.enabled && c.steps.some((step) => step.approvers.length === 0));
+    if (config.enabled && unstaffed) {
+      showToast(`Every step of "${unstaffed.label}" needs at least one approver`);
+      return;
+    }
+
+    setIsSavingApprovals(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        APPROVAL_CHAINS_SETTING_KEY,
+        config,
+        "Multi-level approval chains for incentive calculations, by driver type and amount",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Approval chains saved successfully");
+    } catch (error) {
+      console.error("Error saving approval chains:", error);
+      showToast("Error saving approval chains");
+    } finally {
+      setIsSavingApprovals(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, approvalConfig, setIncentiveSettings, showToast]);
+
+  // Save period close config
+  const savePeriodClose = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const config: PeriodCloseConfig = {
+      reopen_approvers: reopenApprovers.split(",").map((a) => a.trim()).filter(Boolean),
+    };
+
+    setIsSavingPeriodClose(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        PERIOD_CLOSE_SETTING_KEY,
+        config,
+        "Users who may reopen a closed payroll period",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Period close settings saved successfully");
+    } catch (error) {
+      console.error("Error saving period close settings:", error);
+      showToast("Error saving period close settings");
+    } finally {
+      setIsSavingPeriodClose(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, reopenApprovers, setIncentiveSettings, showToast]);
+
+  // Update a field of a payroll export profile
+  const updatePayrollProfile = useCallback(
+    <K extends keyof PayrollExportProfile>(profileId: string, field: K, value: PayrollExportProfile[K]) => {
+      setPayrollExportConfig((prev) => ({
+        ...prev,
+        profiles: prev.profiles.map((p) => (p.id === profileId ? { ...p, [field]: value } : p)),
+      }));
+    },
+    []
+  );
+
+  // Update the payroll code of one component in a profile
+  const updatePayrollMapping = useCallback(
+    (profileId: string, component: PayrollComponent, change: { code?: string; enabled?: boolean }) => {
+      setPayrollExportConfig((prev) => ({
+        ...prev,
+        profiles: prev.profiles.map((p) =>
+          p.id === profileId
+            ? { ...p, mappings: p.mappings.map((m) => (m.component === component ? { ...m, ...change } : m)) }
+            : p
+        ),
+      }));
+    },
+    []
+  );
+
+  // Add a custom CSV profile, starting from the Sage codes
+  const addPayrollProfile = useCallback(() => {
+    setPayrollExportConfig((prev) => {
+      const profile: PayrollExportProfile = {
+        id: `custom_${Date.now()}`,
+        label: "Custom payroll CSV",
+        format: "custom",
+        delimiter: ",",
+        negative_deductions: false,
+        mappings: DEFAULT_PAYROLL_EXPORT_CONFIG.profiles[0].mappings.map((m) => ({ ...m })),
+        columns: [
+          { header: "Employee ID", field: "employee_id" },
+          { header: "Code", field: "code" },
+          { header: "Amount", field: "amount" },
+        ],
+      };
+      return { ...prev, profiles: [...prev.profiles, profile] };
+    });
+  }, []);
+
+  // Save payroll export profiles
+  const savePayrollExport = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    const unlabelled = payrollExportConfig.profiles.find((p) => !p.label.trim());
+    if (unlabelled) {
+      showToast("Every payroll export profile needs a name");
+      return;
+    }
+    const noColumns = payrollExportConfig.profiles.find((p) => p.format === "custom" && p.columns.length === 0);
+    if (noColumns) {
+      showToast(`"${noColumns.label}" needs at least one column`);
+      return;
+    }
+
+    setIsSavingPayrollExport(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        PAYROLL_EXPORT_SETTING_KEY,
+        payrollExportConfig,
+        "Payroll export profiles: earning and deduction codes per incentive component, and file layouts",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Payroll export profiles saved successfully");
+    } catch (error) {
+      console.error("Error saving payroll export profiles:", error);
+      showToast("Error saving payroll export profiles");
+    } finally {
+      setIsSavingPayrollExport(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, payrollExportConfig, setIncentiveSettings, showToast]);
+
+  // Toggle a weekday on or off for the company week, or a depot's week
+  const toggleWeekday = useCallback((depot: string | null, weekday: number) => {
+    const toggle = (days: number[]) =>
+      days.includes(weekday) ? days.filter((d) => d !== weekday) : [...days, weekday].sort((a, b) => a - b);
+    setCalendarConfig((prev) =>
+      depot === null
+        ? { ...prev, non_working_weekdays: toggle(prev.non_working_weekdays) }
+        : {
+            ...prev,
+            depot_non_working_weekdays: {
+              ...prev.depot_non_working_weekdays,
+              [depot]: toggle(prev.depot_non_working_weekdays[depot] ?? prev.non_working_weekdays),
+            },
+          }
+    );
+  }, []);
+
+  // Give a depot its own week, starting from the company week
+  const addDepotWeek = useCallback(() => {
+    if (!overrideDepot) return;
+    setCalendarConfig((prev) => ({
+      ...prev,
+      depot_non_working_weekdays: {
+        ...prev.depot_non_working_weekdays,
+        [overrideDepot]: [...prev.non_working_weekdays],
+      },
+    }));
+    setOverrideDepot("");
+  }, [overrideDepot]);
+
+  // Remove a depot's own week so it follows the company week again
+  const removeDepotWeek = useCallback((depot: string) => {
+    setCalendarConfig((prev) => {
+      const rest = { ...prev.depot_non_working_weekdays };
+      delete rest[depot];
+      return { ...prev, depot_non_working_weekdays: rest };
+    });
+  }, []);
+
+  // Save the working week
+  const saveWorkingCalendar = useCallback(async () => {
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+
+    setIsSavingCalendar(true);
+    try {
+      await saveIncentiveSettingVersion(
+        incentiveSettings,
+        WORKING_CALENDAR_SETTING_KEY,
+        calendarConfig,
+        "Regular working week for the company and per depot, used for projections",
+        effectiveFrom
+      );
+
+      const { data } = await supabase.from("incentive_settings").select("*");
+      if (data) {
+        setIncentiveSettings(data);
+      }
+
+      showToast("Working week saved successfully");
+    } catch (error) {
+      console.error("Error saving working week:", error);
+      showToast("Error saving working week");
+    } finally {
+      setIsSavingCalendar(false);
+    }
+  }, [supabaseConfigured, incentiveSettings, effectiveFrom, calendarConfig, setIncentiveSettings, showToast]);
+
+  // Add a public holiday or other calendar exception
+  const addCalendarDay = useCallback(async () => {
+    if (!newCalendarDay.calendar_date || !newCalendarDay.name.trim()) {
+      showToast("Enter a date and a name");
+      return;
+    }
+    if (!supabaseConfigured) {
+      showToast("Cannot save in demo mode");
+      return;
+    }
+    const depot = newCalendarDay.depot?.trim() || null;
+    if (calendarDays.some((d) => d.calendar_date === newCalendarDay.calendar_date && d.depot === depot)) {
+      showToast(`${newCalendarDay.calendar_date} already has an entry for ${depot ?? "the company"}`);
+      return;
+    }
+
+    setIsSavingCalendarDay(true);
+    try {
+      const { error } = await supabase
+        .from("calendar_days")
+        .insert({ ...newCalendarDay, depot, name: newCalendarDay.name.trim() });
+      if (error) throw error;
+      showToast("Calendar day added");
+      setNewCalendarDay((prev) => ({ ...prev, calendar_date: "", name: "" }));
+    } catch (error) {
+      console.error("Error adding calendar day:", error);
+      showToast("Error adding calendar day");
+    } finally {
+      setIsSavingCalendarDay(false);
+    }
+  }, [supabaseConfigured, newCalendarDay, calendarDays, showToast]);
+
+  // Delete a calendar entry
+  const deleteCalendarDay = useCallback(async (day: CalendarDay) => {
+    if (!confirm(`Remove ${day.name} (${day.calendar_date})?`)) return;
+    if (!supabaseConfigured) {
+      showToast("Cannot delete in demo mode");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("calendar_days").delete().eq("id", day.id);
+      if (error) throw error;
+      showToast("Calendar day removed");
+    } catch (error) {
+      console.error("Error removing calendar day:", error);
+      showToast("Error removing calendar day");
+    }
+  }, [supabaseConfigured, showToast]);
+
+  // Calculate preview for a sample efficiency
+  const previewBonus = useMemo(() => {
+    const sampleEfficiency = 2.1;
+    const tier = currentConfig.tiers.find(
+      (t) => sampleEfficiency >= t.min_efficiency && sampleEfficiency < t.max_efficiency
+    );
+    return tier?.bonus_amount || 0;
+  }, [currentConfig.tiers]);
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-xl font-semibold text-surface-900">Settings</h1>
+        <p className="text-sm text-surface-500 mt-0.5">
+          Configure system settings and preferences
+        </p>
+      </div>
+
+      {/* Connection Status */}
+      <div className="bg-white rounded-lg border border-surface-200 p-4">
+        <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider mb-3">
+          Database Connection
+        </h2>
+        <div className="flex items-center gap-3">
+          <div
+            className={`w-2.5 h-2.5 rounded-full ${supabaseConfigured ? "bg-green-500" : "bg-yellow-500"}`}
+          />
+          <div>
+            <p className="text-sm font-medium text-surface-900">
+              {supabaseConfigured ? "Connected to Supabase" : "Demo Mode"}
+            </p>
+            <p className="text-xs text-surface-500">
+              {supabaseConfigured
+                ? "Real-time sync enabled"
+                : "Configure Supabase credentials to enable data persistence"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Effective Date */}
+      <div className="bg-white rounded-lg border border-surface-200 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+              Changes Take Effect From
+            </h2>
+            <p className="text-xs text-surface-500 mt-0.5">
+              Saving below creates a new version from this month. Earlier months keep the settings that were in force at the time.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="form-select text-sm w-36"
+              value={effectiveMonth}
+              onChange={(e) => setEffectiveMonth(parseInt(e.target.value))}
+            >
+              {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
+                <option key={m} value={m}>
+                  {getMonthName(m)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              className="form-input text-sm w-24"
+              value={effectiveYear}
+              onChange={(e) => setEffectiveYear(parseInt(e.target.value) || effectiveYear)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Fuel Efficiency Bonus Configuration */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Fuel Efficiency Bonus (Diesel)
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Configure bonus tiers based on diesel efficiency (km/L) - added to driver incentives
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={resetToDefaults}
+                className="btn btn-secondary text-xs py-1.5"
+              >
+                Reset Defaults
+              </button>
+              <button
+                onClick={saveSettings}
+                disabled={isSaving}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSaving ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-surface-100">
+          <div className="flex">
+            <button
+              onClick={() => setActiveTab("local")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "local"
+                  ? "border-primary-500 text-primary-600"
+                  : "border-transparent text-surface-500 hover:text-surface-700"
+              }`}
+            >
+              Local Drivers
+            </button>
+            <button
+              onClick={() => setActiveTab("export")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "export"
+                  ? "border-primary-500 text-primary-600"
+                  : "border-transparent text-surface-500 hover:text-surface-700"
+              }`}
+            >
+              Export Drivers
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">
+                Enable Fuel Efficiency Bonus for {activeTab === "local" ? "Local" : "Export"} Drivers
+              </p>
+              <p className="text-xs text-surface-500">
+                When enabled, drivers will receive bonuses based on their fuel efficiency
+              </p>
+            </div>
+            <button
+              onClick={toggleEnabled}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                currentConfig.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  currentConfig.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Tiers Table */}
+          <div className="border border-surface-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-surface-50">
+                <tr>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Min (km/L)
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Max (km/L)
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Bonus (USD)
+                  </th>
+                  <th className="text-center px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider w-20">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {currentConfig.tiers.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-8 text-center text-surface-500">
+                      No tiers configured. Click "Add Tier" to create one.
+                    </td>
+                  </tr>
+                ) : (
+                  currentConfig.tiers.map((tier) => (
+                    <tr key={tier.id} className="border-t border-surface-100">
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="form-input text-sm w-28 text-center font-mono"
+                          value={tier.min_efficiency}
+                          onChange={(e) =>
+                            updateTier(tier.id, "min_efficiency", parseFloat(e.target.value) || 0)
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          step="0.01"
+                          className="form-input text-sm w-28 text-center font-mono"
+                          value={tier.max_efficiency}
+                          onChange={(e) =>
+                            updateTier(tier.id, "max_efficiency", parseFloat(e.target.value) || 0)
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-surface-500">$</span>
+                          <input
+                            type="number"
+                            step="1"
+                            className="form-input text-sm w-24 text-center font-mono"
+                            value={tier.bonus_amount}
+                            onChange={(e) =>
+                              updateTier(tier.id, "bonus_amount", parseFloat(e.target.value) || 0)
+                            }
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <button
+                          onClick={() => removeTier(tier.id)}
+                          className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
+                          title="Remove tier"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Add Tier Button */}
+          <div className="mt-3">
+            <button onClick={addTier} className="btn btn-secondary text-sm">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Tier
+            </button>
+          </div>
+
+          {/* Preview */}
+          {currentConfig.enabled && currentConfig.tiers.length > 0 && (
+            <div className="mt-4 p-4 rounded-lg bg-primary-50 border border-primary-100">
+              <h4 className="text-sm font-semibold text-primary-900 mb-2">
+                Preview Example
+              </h4>
+              <p className="text-sm text-primary-700">
+                A driver with <strong>2.10 km/L</strong> fuel efficiency would receive a{" "}
+                <strong>{formatCurrency(previewBonus)}</strong> bonus added to their incentive.
+              </p>
+              <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                {currentConfig.tiers.map((tier) => (
+                  <div
+                    key={tier.id}
+                    className="p-2 rounded bg-white border border-primary-200"
+                  >
+                    <p className="text-xs text-surface-500">
+                      {tier.min_efficiency} - {tier.max_efficiency} km/L
+                    </p>
+                    <p className="text-sm font-semibold text-primary-600">
+                      {formatCurrency(tier.bonus_amount)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Achievement Tiers */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Achievement Tiers
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Bronze/Silver/Gold/Platinum tiers by % of target - multiply the KM incentive or add a flat kicker
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  if (tierTab === "local") {
+                    setLocalTierConfig(DEFAULT_LOCAL_ACHIEVEMENT_TIERS);
+                  } else {
+                    setExportTierConfig(DEFAULT_EXPORT_ACHIEVEMENT_TIERS);
+                  }
+                  showToast("Reset to default tiers");
+                }}
+                className="btn btn-secondary text-xs py-1.5"
+              >
+                Reset Defaults
+              </button>
+              <button
+                onClick={saveTierSettings}
+                disabled={isSavingTiers}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSavingTiers ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-surface-100">
+          <div className="flex">
+            {(["local", "export"] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => setTierTab(type)}
+                className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  tierTab === type
+                    ? "border-primary-500 text-primary-600"
+                    : "border-transparent text-surface-500 hover:text-surface-700"
+                }`}
+              >
+                {type === "local" ? "Local Drivers" : "Export Drivers"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">
+                Enable Achievement Tiers for {tierTab === "local" ? "Local" : "Export"} Drivers
+              </p>
+              <p className="text-xs text-surface-500">
+                Drivers are placed in the highest tier whose threshold their achievement reaches
+              </p>
+            </div>
+            <button
+              onClick={() => setCurrentTierConfig((prev) => ({ ...prev, enabled: !prev.enabled }))}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                currentTierConfig.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  currentTierConfig.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Tiers Table */}
+          <div className="border border-surface-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-surface-50">
+                <tr>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Tier
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Min Achievement
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Reward Type
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Reward
+                  </th>
+                  <th className="text-center px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider w-20">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {currentTierConfig.tiers.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-surface-500">
+                      No tiers configured. Click "Add Tier" to create one.
+                    </td>
+                  </tr>
+                ) : (
+                  currentTierConfig.tiers.map((tier) => (
+                    <tr key={tier.id} className="border-t border-surface-100">
+                      <td className="px-4 py-3">
+                        <input
+                          type="text"
+                          className="form-input text-sm w-32"
+                          value={tier.name}
+                          onChange={(e) => updateAchievementTier(tier.id, "name", e.target.value)}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            step="1"
+                            className="form-input text-sm w-24 text-center font-mono"
+                            value={tier.min_achievement}
+                            onChange={(e) =>
+                              updateAchievementTier(tier.id, "min_achievement", parseFloat(e.target.value) || 0)
+                            }
+                          />
+                          <span className="text-surface-500">%</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="form-select text-sm w-36"
+                          value={tier.reward_type}
+                          onChange={(e) =>
+                            updateAchievementTier(
+                              tier.id,
+                              "reward_type",
+                              e.target.value as AchievementTier["reward_type"]
+                            )
+                          }
+                        >
+                          <option value="multiplier">KM multiplier</option>
+                          <option value="flat">Flat kicker</option>
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-surface-500">
+                            {tier.reward_type === "multiplier" ? "×" : "$"}
+                          </span>
+                          <input
+                            type="number"
+                            step={tier.reward_type === "multiplier" ? "0.01" : "1"}
+                            className="form-input text-sm w-24 text-center font-mono"
+                            value={tier.reward_value}
+                            onChange={(e) =>
+                              updateAchievementTier(tier.id, "reward_value", parseFloat(e.target.value) || 0)
+                            }
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <button
+                          onClick={() => removeAchievementTier(tier.id)}
+                          className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
+                          title="Remove tier"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Add Tier Button */}
+          <div className="mt-3">
+            <button onClick={addAchievementTier} className="btn btn-secondary text-sm">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Tier
+            </button>
+          </div>
+
+          {/* Preview */}
+          {currentTierConfig.enabled && currentTierConfig.tiers.length > 0 && (
+            <div className="mt-4 p-4 rounded-lg bg-primary-50 border border-primary-100">
+              <h4 className="text-sm font-semibold text-primary-900 mb-2">Tier Ladder</h4>
+              <div className="flex flex-wrap gap-2">
+                {[...currentTierConfig.tiers]
+                  .sort((a, b) => a.min_achievement - b.min_achievement)
+                  .map((tier) => (
+                    <div key={tier.id} className="p-2 rounded bg-white border border-primary-200">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded text-xs font-semibold ${getTierBadgeColor(tier.name)}`}
+                      >
+                        {tier.name}
+                      </span>
+                      <p className="text-xs text-surface-500 mt-1">≥ {tier.min_achievement}% of target</p>
+                      <p className="text-sm font-semibold text-primary-600">
+                        {tier.reward_type === "multiplier"
+                          ? `× ${tier.reward_value} KM incentive`
+                          : `+${formatCurrency(tier.reward_value)}`}
+                      </p>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Performance Bonuses */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Performance Bonuses
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                On-time delivery, customer rating and safety score thresholds with USD bonuses
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setCurrentBonusConfigs(DEFAULT_PERFORMANCE_BONUSES);
+                  showToast("Reset to default bonuses");
+                }}
+                className="btn btn-secondary text-xs py-1.5"
+              >
+                Reset Defaults
+              </button>
+              <button
+                onClick={savePerformanceBonuses}
+                disabled={isSavingBonuses}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSavingBonuses ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-surface-100">
+          <div className="flex">
+            {(["local", "export"] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => setBonusTab(type)}
+                className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  bonusTab === type
+                    ? "border-primary-500 text-primary-600"
+                    : "border-transparent text-surface-500 hover:text-surface-700"
+                }`}
+              >
+                {type === "local" ? "Local Drivers" : "Export Drivers"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {PERFORMANCE_BONUS_METRICS.map((metric) => {
+            const config = currentBonusConfigs[metric];
+            const { label, unit } = PERFORMANCE_BONUS_LABELS[metric];
+            return (
+              <div key={metric} className="border border-surface-200 rounded-lg">
+                {/* Enable Toggle */}
+                <div className="flex items-center justify-between p-3 bg-surface-50 rounded-t-lg">
+                  <div>
+                    <p className="text-sm font-medium text-surface-900">{label}</p>
+                    <p className="text-xs text-surface-500">Highest threshold reached pays</p>
+                  </div>
+                  <button
+                    onClick={() => togglePerformanceBonus(metric)}
+                    className={`relative w-12 h-6 rounded-full transition-colors ${
+                      config.enabled ? "bg-primary-500" : "bg-surface-300"
+                    }`}
+                  >
+                    <span
+                      className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                        config.enabled ? "translate-x-6" : ""
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {/* Tiers Table */}
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      <th className="text-left px-3 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Min {unit === "%" ? "%" : "Rating"}
+                      </th>
+                      <th className="text-left px-3 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Bonus
+                      </th>
+                      <th className="w-10" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {config.tiers.length === 0 ? (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-4 text-center text-xs text-surface-500">
+                          No tiers configured
+                        </td>
+                      </tr>
+                    ) : (
+                      config.tiers.map((tier) => (
+                        <tr key={tier.id} className="border-t border-surface-100">
+                          <td className="px-3 py-2">
+                            <div className="flex items-center gap-1">
+                              <span className="text-surface-500">≥</span>
+                              <input
+                                type="number"
+                                step={metric === "customer_rating" ? "0.1" : "1"}
+                                className="form-input text-sm w-20 text-center font-mono"
+                                value={tier.min_value}
+                                onChange={(e) =>
+                                  updatePerformanceBonusTier(metric, tier.id, "min_value", parseFloat(e.target.value) || 0)
+                                }
+                              />
+                              <span className="text-surface-500 text-xs">{unit}</span>
+                            </div>
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="flex items-center gap-1">
+                              <span className="text-surface-500">$</span>
+                              <input
+                                type="number"
+                                step="10"
+                                className="form-input text-sm w-20 text-center font-mono"
+                                value={tier.bonus_amount}
+                                onChange={(e) =>
+                                  updatePerformanceBonusTier(metric, tier.id, "bonus_amount", parseFloat(e.target.value) || 0)
+                                }
+                              />
+                            </div>
+                          </td>
+                          <td className="px-2 py-2 text-center">
+                            <button
+                              onClick={() => removePerformanceBonusTier(metric, tier.id)}
+                              className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
+                              title="Remove tier"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+
+                <div className="p-3 border-t border-surface-100">
+                  <button onClick={() => addPerformanceBonusTier(metric)} className="btn btn-secondary text-xs py-1.5">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    Add Tier
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Caps, Floors & Pool */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Caps, Floors & Incentive Pool
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Limit each driver's incentive, guarantee a minimum, and scale everyone down pro-rata when the monthly pool is exceeded
+              </p>
+            </div>
+            <button
+              onClick={saveLimits}
+              disabled={isSavingLimits}
+              className="btn btn-primary text-xs py-1.5"
+            >
+              {isSavingLimits ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="border-b border-surface-100">
+          <div className="flex">
+            {(["local", "export"] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => setLimitsTab(type)}
+                className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  limitsTab === type
+                    ? "border-primary-500 text-primary-600"
+                    : "border-transparent text-surface-500 hover:text-surface-700"
+                }`}
+              >
+                {type === "local" ? "Local Drivers" : "Export Drivers"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">
+                Apply Limits to {limitsTab === "local" ? "Local" : "Export"} Drivers
+              </p>
+              <p className="text-xs text-surface-500">
+                Applied after deductions: cap, then floor, then pool; the pool never scales anyone below their floor
+              </p>
+            </div>
+            <button
+              onClick={() => updateLimit("enabled", !currentLimits.enabled)}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                currentLimits.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  currentLimits.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-surface-600 mb-1">Per-Driver Cap</label>
+              <div className="flex items-center gap-2">
+                <select
+                  className="form-select text-sm w-40"
+                  value={currentLimits.cap_type}
+                  onChange={(e) => updateLimit("cap_type", e.target.value as IncentiveLimitsConfig["cap_type"])}
+                >
+                  <option value="none">No cap</option>
+                  <option value="absolute">Fixed amount</option>
+                  <option value="percent_of_salary">% of base salary</option>
+                </select>
+                {currentLimits.cap_type !== "none" && (
+                  <>
+                    <input
+                      type="number"
+                      min="0"
+                      step={currentLimits.cap_type === "absolute" ? "10" : "1"}
+                      className="form-input text-sm w-24 text-center font-mono"
+                      value={currentLimits.cap_value}
+                      onChange={(e) => updateLimit("cap_value", parseFloat(e.target.value) || 0)}
+                    />
+                    <span className="text-surface-500">{currentLimits.cap_type === "absolute" ? "USD" : "%"}</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-surface-600 mb-1">Minimum Guaranteed Incentive</label>
+              <div className="flex items-center gap-2">
+                <span className="text-surface-500">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="10"
+                  className="form-input text-sm w-28 text-center font-mono"
+                  value={currentLimits.floor_amount}
+                  onChange={(e) => updateLimit("floor_amount", parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <p className="text-xs text-surface-400 mt-1">
+                Pro-rated for partial months; 0 for none. Not paid to suspended drivers or when deductions
+                wipe out the incentive
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-surface-600 mb-1">
+                <input
+                  type="checkbox"
+                  checked={currentLimits.pool_enabled}
+                  onChange={(e) => updateLimit("pool_enabled", e.target.checked)}
+                />
+                Monthly Incentive Pool
+              </label>
+              <div className="flex items-center gap-2">
+                <span className="text-surface-500">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  disabled={!currentLimits.pool_enabled}
+                  className="form-input text-sm w-32 text-center font-mono"
+                  value={currentLimits.pool_amount}
+                  onChange={(e) => updateLimit("pool_amount", parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <p className="text-xs text-surface-400 mt-1">
+                Applied to batch calculations for all {limitsTab} drivers; drivers at their floor keep it
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Payout Currency Split */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Incentive Payout Currency
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Pay part of each incentive in ZIG, converted at the month's ZIG-USD rate
+              </p>
+            </div>
+            <button
+              onClick={savePayoutSplit}
+              disabled={isSavingPayoutSplit}
+              className="btn btn-primary text-xs py-1.5"
+            >
+              {isSavingPayoutSplit ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-surface-600 mb-1">Split</label>
+            <select
+              className="form-select text-sm"
+              value={payoutSplit.mode}
+              onChange={(e) => updatePayoutSplit("mode", e.target.value as PayoutSplitConfig["mode"])}
+            >
+              <option value="usd_only">All in USD</option>
+              <option value="fixed_ratio">Fixed ratio for all drivers</option>
+              <option value="by_driver_type">By driver type</option>
+            </select>
+          </div>
+
+          {payoutSplit.mode === "fixed_ratio" && (
+            <PayoutPercentageInput
+              label="All Drivers"
+              value={payoutSplit.usd_percentage}
+              onChange={(value) => updatePayoutSplit("usd_percentage", value)}
+            />
+          )}
+
+          {payoutSplit.mode === "by_driver_type" && (
+            <>
+              <PayoutPercentageInput
+                label="Local Drivers"
+                value={payoutSplit.local_usd_percentage}
+                onChange={(value) => updatePayoutSplit("local_usd_percentage", value)}
+              />
+              <PayoutPercentageInput
+                label="Export Drivers"
+                value={payoutSplit.export_usd_percentage}
+                onChange={(value) => updatePayoutSplit("export_usd_percentage", value)}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Deduction Rules */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Deduction Rules
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Deductions from incentives driven by accidents, incidents, leave and disciplinary records
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setDeductionConfig(DEFAULT_DEDUCTION_RULES);
+                  showToast("Reset to default deduction rules");
+                }}
+                className="btn btn-secondary text-xs py-1.5"
+              >
+                Reset Defaults
+              </button>
+              <button
+                onClick={saveDeductionRules}
+                disabled={isSavingDeductions}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSavingDeductions ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">Apply Deduction Rules</p>
+              <p className="text-xs text-surface-500">
+                When enabled, matching records reduce the incentive and are itemised on each calculation
+              </p>
+            </div>
+            <button
+              onClick={() => setDeductionConfig((prev) => ({ ...prev, enabled: !prev.enabled }))}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                deductionConfig.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  deductionConfig.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Rules Table */}
+          <div className="border border-surface-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-surface-50">
+                <tr>
+                  <th className="text-center px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider w-16">
+                    On
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Rule
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Applies To
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Percentage
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Cap (USD)
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {deductionConfig.rules.map((rule) => (
+                  <tr key={rule.id} className="border-t border-surface-100">
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-primary-500"
+                        checked={rule.enabled}
+                        onChange={(e) => updateDeductionRule(rule.id, "enabled", e.target.checked)}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-surface-900">{rule.label}</p>
+                      <p className="text-xs text-surface-500">{DEDUCTION_RULE_TYPE_LABELS[rule.type]}</p>
+                      {rule.type === "suspension_forfeit" && (
+                        <label className="flex items-center gap-1.5 mt-1 text-xs text-surface-600">
+                          <input
+                            type="checkbox"
+                            className="w-3.5 h-3.5 accent-primary-500"
+                            checked={rule.prorate ?? false}
+                            onChange={(e) => updateDeductionRule(rule.id, "prorate", e.target.checked)}
+                          />
+                          Pro-rate by suspended days
+                        </label>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        className="form-select text-sm w-28"
+                        value={rule.applies_to}
+                        onChange={(e) =>
+                          updateDeductionRule(rule.id, "applies_to", e.target.value as DeductionRule["applies_to"])
+                        }
+                      >
+                        <option value="all">All</option>
+                        <option value="local">Local</option>
+                        <option value="export">Export</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          className="form-input text-sm w-20 text-center font-mono"
+                          value={rule.percentage}
+                          onChange={(e) =>
+                            updateDeductionRule(rule.id, "percentage", parseFloat(e.target.value) || 0)
+                          }
+                        />
+                        <span className="text-surface-500">%</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-surface-500">$</span>
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          placeholder="No cap"
+                          className="form-input text-sm w-24 text-center font-mono"
+                          value={rule.cap ?? ""}
+                          onChange={(e) =>
+                            updateDeductionRule(
+                              rule.id,
+                              "cap",
+                              e.target.value === "" ? null : parseFloat(e.target.value) || 0
+                            )
+                          }
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Quarterly & Annual Bonuses */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Quarterly & Annual Bonuses
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Multi-month consistency, accident-free and retention bonuses, paid through their own run
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setPeriodBonusConfig(DEFAULT_PERIOD_BONUS_RULES);
+                  showToast("Reset to default period bonus rules");
+                }}
+                className="btn btn-secondary text-xs py-1.5"
+              >
+                Reset Defaults
+              </button>
+              <button
+                onClick={savePeriodBonusRules}
+                disabled={isSavingPeriodBonuses}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSavingPeriodBonuses ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">Enable Period Bonuses</p>
+              <p className="text-xs text-surface-500">
+                When enabled, quarterly and annual runs award these bonuses as separate payslip lines
+              </p>
+            </div>
+            <button
+              onClick={() => setPeriodBonusConfig((prev) => ({ ...prev, enabled: !prev.enabled }))}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                periodBonusConfig.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  periodBonusConfig.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Rules Table */}
+          <div className="border border-surface-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-surface-50">
+                <tr>
+                  <th className="text-center px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider w-16">
+                    On
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Rule
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Period
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Applies To
+                  </th>
+                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                    Bonus (USD)
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {periodBonusConfig.rules.map((rule) => (
+                  <tr key={rule.id} className="border-t border-surface-100">
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-primary-500"
+                        checked={rule.enabled}
+                        onChange={(e) => updatePeriodBonusRule(rule.id, "enabled", e.target.checked)}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-surface-900">{rule.label}</p>
+                      <p className="text-xs text-surface-500">{PERIOD_BONUS_RULE_TYPE_LABELS[rule.type]}</p>
+                      {rule.type === "consistent_achievement" && (
+                        <label className="flex items-center gap-1.5 mt-1 text-xs text-surface-600">
+                          Minimum achievement
+                          <input
+                            type="number"
+                            step="1"
+                            min="0"
+                            className="form-input text-xs w-16 py-0.5 text-center font-mono"
+                            value={rule.min_achievement ?? 100}
+                            onChange={(e) =>
+                              updatePeriodBonusRule(rule.id, "min_achievement", parseFloat(e.target.value) || 0)
+                            }
+                          />
+                          %
+                        </label>
+                      )}
+                      {rule.type === "accident_free" && (
+                        <label className="flex items-center gap-1.5 mt-1 text-xs text-surface-600">
+                          <input
+                            type="checkbox"
+                            className="w-3.5 h-3.5 accent-primary-500"
+                            checked={rule.at_fault_only ?? false}
+                            onChange={(e) => updatePeriodBonusRule(rule.id, "at_fault_only", e.target.checked)}
+                          />
+                          Only at-fault accidents count
+                        </label>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        className="form-select text-sm w-32"
+                        value={rule.period}
+                        onChange={(e) =>
+                          updatePeriodBonusRule(rule.id, "period", e.target.value as PeriodBonusRule["period"])
+                        }
+                      >
+                        <option value="quarterly">Quarterly</option>
+                        <option value="annual">Annual</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        className="form-select text-sm w-28"
+                        value={rule.applies_to}
+                        onChange={(e) =>
+                          updatePeriodBonusRule(rule.id, "applies_to", e.target.value as PeriodBonusRule["applies_to"])
+                        }
+                      >
+                        <option value="all">All</option>
+                        <option value="local">Local</option>
+                        <option value="export">Export</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-surface-500">$</span>
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          className="form-input text-sm w-24 text-center font-mono"
+                          value={rule.amount}
+                          onChange={(e) => updatePeriodBonusRule(rule.id, "amount", parseFloat(e.target.value) || 0)}
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Approval Chains */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Approval Chains
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Sign-off steps for incentive calculations; the same user cannot approve twice
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={addApprovalChain} className="btn btn-secondary text-xs py-1.5">
+                + Add Chain
+              </button>
+              <button
+                onClick={saveApprovalChains}
+                disabled={isSavingApprovals}
+                className="btn btn-primary text-xs py-1.5"
+              >
+                {isSavingApprovals ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Enable Toggle */}
+          <div className="flex items-center justify-between p-3 rounded-lg bg-surface-50">
+            <div>
+              <p className="text-sm font-medium text-surface-900">Enable Approval Chains</p>
+              <p className="text-xs text-surface-500">
+                When disabled, any signed-in user approves a calculation in one step
+              </p>
+            </div>
+            <button
+              onClick={() => setApprovalConfig((prev) => ({ ...prev, enabled: !prev.enabled }))}
+              className={`relative w-12 h-6 rounded-full transition-colors ${
+                approvalConfig.enabled ? "bg-primary-500" : "bg-surface-300"
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                  approvalConfig.enabled ? "translate-x-6" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          <p className="text-xs text-surface-500">
+            A calculation follows the chain for its driver type with the highest threshold its total incentive reaches.
+          </p>
+
+          {approvalConfig.chains.map((chain) => (
+            <div key={chain.id} className="border border-surface-200 rounded-lg p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 accent-primary-500"
+                  checked={chain.enabled}
+                  onChange={(e) => updateApprovalChain(chain.id, "enabled", e.target.checked)}
+                />
+                <input
+                  type="text"
+                  className="form-input text-sm flex-1 min-w-[12rem]"
+                  value={chain.label}
+                  onChange={(e) => updateApprovalChain(chain.id, "label", e.target.value)}
+                />
+                <select
+                  className="form-select text-sm w-32"
+                  value={chain.applies_to}
+                  onChange={(e) =>
+                    updateApprovalChain(chain.id, "applies_to", e.target.value as ApprovalChain["applies_to"])
+                  }
+                >
+                  <option value="all">All drivers</option>
+                  <option value="local">Local</option>
+                  <option value="export">Export</option>
+                </select>
+                <label className="flex items-center gap-1.5 text-xs text-surface-600">
+                  From $
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    className="form-input text-sm w-24 font-mono"
+                    value={chain.min_amount}
+                    onChange={(e) => updateApprovalChain(chain.id, "min_amount", parseFloat(e.target.value) || 0)}
+                  />
+                </label>
+                <button
+                  onClick={() =>
+                    setApprovalConfig((prev) => ({ ...prev, chains: prev.chains.filter((c) => c.id !== chain.id) }))
+                  }
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {chain.steps.map((step, index) => (
+                  <div key={step.id} className="flex items-center gap-2">
+                    <span className="w-6 text-xs font-semibold text-surface-500 text-center">{index + 1}</span>
+                    <input
+                      type="text"
+                      className="form-input text-sm w-48"
+                      placeholder="Step, e.g. Finance"
+                      value={step.label}
+                      onChange={(e) => updateApprovalStep(chain.id, step.id, "label", e.target.value)}
+                    />
+                    <input
+                      type="text"
+                      className="form-input text-sm flex-1"
+                      placeholder="Approver emails, comma separated"
+                      value={step.approvers.join(", ")}
+                      onChange={(e) =>
+                        updateApprovalStep(
+                          chain.id,
+                          step.id,
+                          "approvers",
+                          e.target.value.split(",").map((a) => a.trim())
+                        )
+                      }
+                    />
+                    <button
+                      onClick={() =>
+                        updateApprovalChain(
+                          chain.id,
+                          "steps",
+                          chain.steps.filter((s) => s.id !== step.id)
+                        )
+                      }
+                      disabled={chain.steps.length === 1}
+                      className="p-1.5 text-surface-400 hover:text-red-600 disabled:opacity-30"
+                      title="Remove step"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() =>
+                    updateApprovalChain(chain.id, "steps", [
+                      ...chain.steps,
+                      { id: `step_${Date.now()}`, label: "", approvers: [] },
+                    ])
+                  }
+                  className="text-xs text-primary-600 hover:text-primary-700 ml-8"
+                >
+                  + Add Step
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Period Close */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Period Close
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Payroll months are closed from the Calculations page; reopening a closed month is audited
+              </p>
+            </div>
+            <button
+              onClick={savePeriodClose}
+              disabled={isSavingPeriodClose}
+              className="btn btn-primary text-xs py-1.5"
+            >
+              {isSavingPeriodClose ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </div>
 
-      {/* Connection Status */}
-      <div className="bg-white rounded-lg border border-surface-200 p-4">
-        <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider mb-3">
-          Database Connection
-        </h2>
-        <div className="flex items-center gap-3">
-          <div
-            className={`w-2.5 h-2.5 rounded-full ${supabaseConfigured ? "bg-green-500" : "bg-yellow-500"}`}
+        <div className="p-4">
+          <label className="form-label">Who may reopen a closed period</label>
+          <input
+            type="text"
+            className="form-input"
+            value={reopenApprovers}
+            onChange={(e) => setReopenApprovers(e.target.value)}
+            placeholder="finance@example.com, payroll@example.com"
           />
-          <div>
-            <p className="text-sm font-medium text-surface-900">
-              {supabaseConfigured ? "Connected to Supabase" : "Demo Mode"}
-            </p>
-            <p className="text-xs text-surface-500">
-              {supabaseConfigured
-                ? "Real-time sync enabled"
-                : "Configure Supabase credentials to enable data persistence"}
-            </p>
-          </div>
+          <p className="text-xs text-surface-500 mt-1">
+            Comma-separated emails. While empty, nobody can reopen a closed period.
+          </p>
         </div>
       </div>
 
-      {/* Fuel Efficiency Bonus Configuration */}
+      {/* Payroll Export */}
       <div className="bg-white rounded-lg border border-surface-200">
         <div className="px-4 py-3 border-b border-surface-100">
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
-                Fuel Efficiency Bonus (Diesel)
+                Payroll Export
               </h2>
               <p className="text-xs text-surface-500 mt-0.5">
-                Configure bonus tiers based on diesel efficiency (km/L) - added to driver incentives
+                Payroll codes for each incentive component; months are exported from the Payment Runs page
               </p>
             </div>
             <div className="flex items-center gap-2">
-              <button
-                onClick={resetToDefaults}
-                className="btn btn-secondary text-xs py-1.5"
-              >
-                Reset Defaults
+              <button onClick={addPayrollProfile} className="btn btn-secondary text-xs py-1.5">
+                + Add Custom Profile
               </button>
               <button
-                onClick={saveSettings}
-                disabled={isSaving}
+                onClick={savePayrollExport}
+                disabled={isSavingPayrollExport}
                 className="btn btn-primary text-xs py-1.5"
               >
-                {isSaving ? "Saving..." : "Save Changes"}
+                {isSavingPayrollExport ? "Saving..." : "Save Changes"}
               </button>
             </div>
           </div>
         </div>
 
-        {/* Tabs */}
-        <div className="border-b border-surface-100">
-          <div className="flex">
-            <button
-              onClick={() => setActiveTab("local")}
-              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
-                activeTab === "local"
-                  ? "border-primary-500 text-primary-600"
-                  : "border-transparent text-surface-500 hover:text-surface-700"
-              }`}
-            >
-              Local Drivers
-            </button>
-            <button
-              onClick={() => setActiveTab("export")}
-              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
-                activeTab === "export"
-                  ? "border-primary-500 text-primary-600"
-                  : "border-transparent text-surface-500 hover:text-surface-700"
-              }`}
-            >
-              Export Drivers
-            </button>
-          </div>
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-surface-500">
+            Lines are keyed by the driver&apos;s employee ID; drivers without one are left out of the file.
+            The adjustment line carries whatever caps, floors and tiers changed, so the lines add up to the total incentive.
+          </p>
+
+          {payrollExportConfig.profiles.map((profile) => (
+            <div key={profile.id} className="border border-surface-200 rounded-lg p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  className="form-input text-sm flex-1 min-w-[12rem]"
+                  value={profile.label}
+                  onChange={(e) => updatePayrollProfile(profile.id, "label", e.target.value)}
+                />
+                <select
+                  className="form-select text-sm w-36"
+                  value={profile.format}
+                  onChange={(e) =>
+                    updatePayrollProfile(profile.id, "format", e.target.value as PayrollExportProfile["format"])
+                  }
+                >
+                  {(Object.keys(PAYROLL_EXPORT_FORMAT_LABELS) as PayrollExportProfile["format"][]).map((f) => (
+                    <option key={f} value={f}>
+                      {PAYROLL_EXPORT_FORMAT_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="form-select text-sm w-32"
+                  value={profile.delimiter}
+                  onChange={(e) =>
+                    updatePayrollProfile(profile.id, "delimiter", e.target.value as PayrollExportProfile["delimiter"])
+                  }
+                >
+                  <option value=",">Comma</option>
+                  <option value=";">Semicolon</option>
+                  <option value={"\t"}>Tab</option>
+                </select>
+                <button
+                  onClick={() =>
+                    setPayrollExportConfig((prev) => ({
+                      ...prev,
+                      profiles: prev.profiles.filter((p) => p.id !== profile.id),
+                    }))
+                  }
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {PAYROLL_COMPONENTS.map(({ component, label, lineType }) => {
+                  const mapping = profile.mappings.find((m) => m.component === component);
+                  return (
+                    <div key={component} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-primary-500"
+                        checked={mapping?.enabled ?? false}
+                        onChange={(e) =>
+                          mapping
+                            ? updatePayrollMapping(profile.id, component, { enabled: e.target.checked })
+                            : updatePayrollProfile(profile.id, "mappings", [
+                                ...profile.mappings,
+                                { component, code: "", enabled: e.target.checked },
+                              ])
+                        }
+                      />
+                      <span className="w-44 text-sm text-surface-700">
+                        {label}
+                        <span className="text-xs text-surface-400"> ({lineType})</span>
+                      </span>
+                      <input
+                        type="text"
+                        className="form-input text-sm flex-1 font-mono"
+                        placeholder="Payroll code"
+                        value={mapping?.code ?? ""}
+                        disabled={!mapping?.enabled}
+                        onChange={(e) => updatePayrollMapping(profile.id, component, { code: e.target.value })}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              {profile.format === "custom" && (
+                <div className="space-y-2 pt-2 border-t border-surface-100">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-semibold text-surface-600 uppercase">Columns</p>
+                    <label className="flex items-center gap-1.5 text-xs text-surface-600">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-primary-500"
+                        checked={profile.negative_deductions}
+                        onChange={(e) => updatePayrollProfile(profile.id, "negative_deductions", e.target.checked)}
+                      />
+                      Deductions as negative amounts
+                    </label>
+                  </div>
+                  {profile.columns.map((column, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-6 text-xs font-semibold text-surface-500 text-center">{index + 1}</span>
+                      <input
+                        type="text"
+                        className="form-input text-sm w-48"
+                        placeholder="Header"
+                        value={column.header}
+                        onChange={(e) =>
+                          updatePayrollProfile(
+                            profile.id,
+                            "columns",
+                            profile.columns.map((c, i) => (i === index ? { ...c, header: e.target.value } : c))
+                          )
+                        }
+                      />
+                      <select
+                        className="form-select text-sm flex-1"
+                        value={column.field}
+                        onChange={(e) =>
+                          updatePayrollProfile(
+                            profile.id,
+                            "columns",
+                            profile.columns.map((c, i) =>
+                              i === index ? { ...c, field: e.target.value as typeof column.field } : c
+                            )
+                          )
+                        }
+                      >
+                        {(Object.keys(PAYROLL_EXPORT_FIELD_LABELS) as (typeof column.field)[]).map((field) => (
+                          <option key={field} value={field}>
+                            {PAYROLL_EXPORT_FIELD_LABELS[field]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() =>
+                          updatePayrollProfile(
+                            profile.id,
+                            "columns",
+                            profile.columns.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="p-1.5 text-surface-400 hover:text-red-600"
+                        title="Remove column"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() =>
+                      updatePayrollProfile(profile.id, "columns", [
+                        ...profile.columns,
+                        { header: "", field: "description" },
+                      ])
+                    }
+                    className="text-xs text-primary-600 hover:text-primary-700 ml-8"
+                  >
+                    + Add Column
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
         </div>
+      </div>
 
-        <div className="p-4">
-          {/* Enable Toggle */}
-          <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-surface-50">
+      {/* Working Calendar */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-surface-900">
-                Enable Fuel Efficiency Bonus for {activeTab === "local" ? "Local" : "Export"} Drivers
-              </p>
-              <p className="text-xs text-surface-500">
-                When enabled, drivers will receive bonuses based on their fuel efficiency
+              <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+                Working Calendar
+              </h2>
+              <p className="text-xs text-surface-500 mt-0.5">
+                Projections count working days elapsed and remaining instead of calendar days
               </p>
             </div>
             <button
-              onClick={toggleEnabled}
-              className={`relative w-12 h-6 rounded-full transition-colors ${
-                currentConfig.enabled ? "bg-primary-500" : "bg-surface-300"
-              }`}
+              onClick={saveWorkingCalendar}
+              disabled={isSavingCalendar}
+              className="btn btn-primary text-xs py-1.5"
             >
-              <span
-                className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
-                  currentConfig.enabled ? "translate-x-6" : ""
-                }`}
-              />
+              {isSavingCalendar ? "Saving..." : "Save Working Week"}
             </button>
           </div>
+        </div>
 
-          {/* Tiers Table */}
+        <div className="p-4 space-y-4">
+          {/* Working Week */}
           <div className="border border-surface-200 rounded-lg overflow-hidden">
             <table className="w-full">
               <thead className="bg-surface-50">
                 <tr>
                   <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
-                    Min (km/L)
-                  </th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
-                    Max (km/L)
-                  </th>
-                  <th className="text-left px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider">
-                    Bonus (USD)
-                  </th>
-                  <th className="text-center px-4 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider w-20">
-                    Actions
+                    Working Week
                   </th>
+                  {WEEKDAY_LABELS.map((label) => (
+                    <th
+                      key={label}
+                      className="text-center px-2 py-3 text-xs font-semibold text-surface-600 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                  <th className="w-16" />
                 </tr>
               </thead>
               <tbody>
-                {currentConfig.tiers.length === 0 ? (
-                  <tr>
-                    <td colSpan={4} className="px-4 py-8 text-center text-surface-500">
-                      No tiers configured. Click "Add Tier" to create one.
-                    </td>
-                  </tr>
-                ) : (
-                  currentConfig.tiers.map((tier) => (
-                    <tr key={tier.id} className="border-t border-surface-100">
-                      <td className="px-4 py-3">
-                        <input
-                          type="number"
-                          step="0.01"
-                          className="form-input text-sm w-28 text-center font-mono"
-                          value={tier.min_efficiency}
-                          onChange={(e) =>
-                            updateTier(tier.id, "min_efficiency", parseFloat(e.target.value) || 0)
-                          }
-                        />
-                      </td>
-                      <td className="px-4 py-3">
-                        <input
-                          type="number"
-                          step="0.01"
-                          className="form-input text-sm w-28 text-center font-mono"
-                          value={tier.max_efficiency}
-                          onChange={(e) =>
-                            updateTier(tier.id, "max_efficiency", parseFloat(e.target.value) || 0)
-                          }
-                        />
-                      </td>
-                      <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                          <span className="text-surface-500">$</span>
+                {[null, ...Object.keys(calendarConfig.depot_non_working_weekdays).sort()].map((depot) => {
+                  const daysOff =
+                    depot === null ? calendarConfig.non_working_weekdays : calendarConfig.depot_non_working_weekdays[depot];
+                  return (
+                    <tr key={depot ?? "company"} className="border-t border-surface-100">
+                      <td className="px-4 py-3 text-sm font-medium text-surface-900">{depot ?? "Company"}</td>
+                      {WEEKDAY_LABELS.map((label, weekday) => (
+                        <td key={label} className="px-2 py-3 text-center">
                           <input
-                            type="number"
-                            step="1"
-                            className="form-input text-sm w-24 text-center font-mono"
-                            value={tier.bonus_amount}
-                            onChange={(e) =>
-                              updateTier(tier.id, "bonus_amount", parseFloat(e.target.value) || 0)
-                            }
+                            type="checkbox"
+                            className="w-4 h-4 accent-primary-500"
+                            checked={!daysOff.includes(weekday)}
+                            onChange={() => toggleWeekday(depot, weekday)}
                           />
-                        </div>
-                      </td>
-                      <td className="px-4 py-3 text-center">
-                        <button
-                          onClick={() => removeTier(tier.id)}
-                          className="p-1.5 text-red-500 hover:bg-red-50 rounded transition-colors"
-                          title="Remove tier"
-                        >
-                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        </td>
+                      ))}
+                      <td className="px-2 py-3 text-center">
+                        {depot !== null && (
+                          <button
+                            onClick={() => removeDepotWeek(depot)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        )}
                       </td>
                     </tr>
-                  ))
-                )}
+                  );
+                })}
               </tbody>
             </table>
           </div>
-
-          {/* Add Tier Button */}
-          <div className="mt-3">
-            <button onClick={addTier} className="btn btn-secondary text-sm">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              Add Tier
+          <div className="flex items-center gap-2">
+            <select
+              className="form-select text-sm w-48"
+              value={overrideDepot}
+              onChange={(e) => setOverrideDepot(e.target.value)}
+            >
+              <option value="">Select a depot...</option>
+              {depots
+                .filter((depot) => !(depot in calendarConfig.depot_non_working_weekdays))
+                .map((depot) => (
+                  <option key={depot} value={depot}>
+                    {depot}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={addDepotWeek}
+              disabled={!overrideDepot}
+              className="btn btn-secondary text-xs py-1.5"
+            >
+              + Depot Working Week
             </button>
+            <p className="text-xs text-surface-500">Depots without their own week follow the company week</p>
           </div>
 
-          {/* Preview */}
-          {currentConfig.enabled && currentConfig.tiers.length > 0 && (
-            <div className="mt-4 p-4 rounded-lg bg-primary-50 border border-primary-100">
-              <h4 className="text-sm font-semibold text-primary-900 mb-2">
-                Preview Example
-              </h4>
-              <p className="text-sm text-primary-700">
-                A driver with <strong>2.10 km/L</strong> fuel efficiency would receive a{" "}
-                <strong>{formatCurrency(previewBonus)}</strong> bonus added to their incentive.
-              </p>
-              <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
-                {currentConfig.tiers.map((tier) => (
-                  <div
-                    key={tier.id}
-                    className="p-2 rounded bg-white border border-primary-200"
-                  >
-                    <p className="text-xs text-surface-500">
-                      {tier.min_efficiency} - {tier.max_efficiency} km/L
-                    </p>
-                    <p className="text-sm font-semibold text-primary-600">
-                      {formatCurrency(tier.bonus_amount)}
-                    </p>
-                  </div>
+          {/* Holidays & Exceptions */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-surface-900">Public Holidays & Exceptions</p>
+              <input
+                type="number"
+                className="form-input text-sm w-24"
+                value={calendarYear}
+                onChange={(e) => setCalendarYear(parseInt(e.target.value) || calendarYear)}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-3">
+              <input
+                type="date"
+                className="form-input text-sm"
+                value={newCalendarDay.calendar_date}
+                onChange={(e) => setNewCalendarDay((prev) => ({ ...prev, calendar_date: e.target.value }))}
+              />
+              <input
+                type="text"
+                className="form-input text-sm"
+                placeholder="Name, e.g. Heroes Day"
+                value={newCalendarDay.name}
+                onChange={(e) => setNewCalendarDay((prev) => ({ ...prev, name: e.target.value }))}
+              />
+              <select
+                className="form-select text-sm"
+                value={newCalendarDay.day_type}
+                onChange={(e) =>
+                  setNewCalendarDay((prev) => ({ ...prev, day_type: e.target.value as CalendarDay["day_type"] }))
+                }
+              >
+                {Object.entries(CALENDAR_DAY_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
                 ))}
-              </div>
+              </select>
+              <select
+                className="form-select text-sm"
+                value={newCalendarDay.depot ?? ""}
+                onChange={(e) => setNewCalendarDay((prev) => ({ ...prev, depot: e.target.value || null }))}
+              >
+                <option value="">Whole company</option>
+                {depots.map((depot) => (
+                  <option key={depot} value={depot}>
+                    {depot}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={addCalendarDay}
+                disabled={isSavingCalendarDay}
+                className="btn btn-secondary text-sm"
+              >
+                {isSavingCalendarDay ? "Adding..." : "+ Add Day"}
+              </button>
             </div>
-          )}
+            {calendarDays.filter((d) => d.calendar_date.startsWith(`${calendarYear}-`)).length > 0 ? (
+              <div className="border border-surface-200 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-surface-50">
+                    <tr>
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th className="text-left px-4 py-2 text-xs font-semibold text-surface-600 uppercase tracking-wider">
+                        Applies To
+                      </th>
+                      <th className="w-16" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calendarDays
+                      .filter((d) => d.calendar_date.startsWith(`${calendarYear}-`))
+                      .map((day) => (
+                        <tr key={day.id} className="border-t border-surface-100">
+                          <td className="px-4 py-2 text-sm font-mono text-surface-900">{day.calendar_date}</td>
+                          <td className="px-4 py-2 text-sm text-surface-900">{day.name}</td>
+                          <td className="px-4 py-2 text-sm">
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded-full ${
+                                day.day_type === "working" ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700"
+                              }`}
+                            >
+                              {CALENDAR_DAY_TYPE_LABELS[day.day_type]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-surface-600">{day.depot ?? "Whole company"}</td>
+                          <td className="px-2 py-2 text-center">
+                            <button
+                              onClick={() => deleteCalendarDay(day)}
+                              className="text-xs text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-xs text-surface-500">No holidays or exceptions entered for {calendarYear}</p>
+            )}
+          </div>
         </div>
       </div>
 
@@ -431,10 +2880,10 @@ export default function SettingsPage() {
         <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider mb-3">
           Other Incentive Settings
         </h2>
-        {incentiveSettings.filter(s => !s.setting_key.includes("fuel_efficiency")).length > 0 ? (
+        {currentSettings.filter(s => !isEditedSetting(s.setting_key)).length > 0 ? (
           <div className="space-y-2">
-            {incentiveSettings
-              .filter(s => !s.setting_key.includes("fuel_efficiency"))
+            {currentSettings
+              .filter(s => !isEditedSetting(s.setting_key))
               .map((setting) => (
                 <div
                   key={setting.id}
@@ -442,10 +2891,7 @@ export default function SettingsPage() {
                 >
                   <div>
                     <p className="text-sm font-medium text-surface-900">
-                      {setting.setting_key
-                        .split("_")
-                        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-                        .join(" ")}
+                      {formatSettingKey(setting.setting_key)}
                     </p>
                     <p className="text-xs text-surface-500 mt-0.5">
                       {setting.description}
@@ -467,6 +2913,57 @@ export default function SettingsPage() {
         )}
       </div>
 
+      {/* Settings History */}
+      <div className="bg-white rounded-lg border border-surface-200 p-4">
+        <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider mb-1">
+          Settings History
+        </h2>
+        <p className="text-xs text-surface-500 mb-3">
+          Every saved version of each setting and the period it applies to
+        </p>
+        {settingKeys.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {settingKeys.map((key) => {
+              const versions = getSettingVersions(incentiveSettings, key);
+              const inForce = currentSettings.find((s) => s.setting_key === key);
+              return (
+                <div key={key} className="p-3 rounded-lg bg-surface-50">
+                  <p className="text-sm font-medium text-surface-900 mb-2">{formatSettingKey(key)}</p>
+                  <ol className="relative border-l border-surface-200 ml-1.5 space-y-2">
+                    {versions.map((version) => (
+                      <li key={version.id} className="ml-4">
+                        <span
+                          className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-white ${
+                            version.id === inForce?.id ? "bg-primary-500" : "bg-surface-300"
+                          }`}
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-surface-600">{formatVersionRange(version)}</p>
+                          <p className="font-mono text-xs text-surface-900 truncate max-w-[50%]">
+                            {summarizeSettingValue(version.setting_value)}
+                          </p>
+                        </div>
+                        {(version.id === inForce?.id || !version.is_active) && (
+                          <p
+                            className={`text-xs font-medium ${
+                              version.is_active ? "text-primary-600" : "text-surface-400"
+                            }`}
+                          >
+                            {version.is_active ? "In force today" : "Inactive"}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-xs text-surface-500">No incentive settings saved yet</p>
+        )}
+      </div>
+
       {/* ZIG-USD Conversion Rates */}
       <div className="bg-white rounded-lg border border-surface-200">
         <div className="px-4 py-3 border-b border-surface-100">
@@ -725,3 +3222,72 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+// Settings with a dedicated editor above (hidden from "Other Incentive Settings")
+function isEditedSetting(key: string): boolean {
+  return (
+    key.includes("fuel_efficiency") ||
+    key.startsWith("achievement_tiers_") ||
+    key.startsWith("incentive_limits_") ||
+    key === PAYOUT_SPLIT_SETTING_KEY ||
+    PERFORMANCE_BONUS_METRICS.some(
+      (m) => key === getPerformanceBonusSettingKey(m, "local") || key === getPerformanceBonusSettingKey(m, "export")
+    ) ||
+    key === DEDUCTION_RULES_SETTING_KEY ||
+    key === PERIOD_BONUS_RULES_SETTING_KEY ||
+    key === APPROVAL_CHAINS_SETTING_KEY ||
+    key === PERIOD_CLOSE_SETTING_KEY ||
+    key === PAYROLL_EXPORT_SETTING_KEY ||
+    key === WORKING_CALENDAR_SETTING_KEY
+  );
+}
+
+// USD share input for the payout split ("70% USD / 30% ZIG")
+function PayoutPercentageInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-surface-600 mb-1">{label}</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="5"
+          className="form-input text-sm w-24 text-center font-mono"
+          value={value}
+          onChange={(e) => onChange(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100))}
+        />
+        <span className="text-sm text-surface-600">% USD / {100 - value}% ZIG</span>
+      </div>
+    </div>
+  );
+}
+
+// "incentive_divisor_local" -> "Incentive Divisor Local"
+function formatSettingKey(key: string): string {
+  return key
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+// Compact description of a setting value for the history timeline
+function summarizeSettingValue(value: unknown): string {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const config = value as { enabled?: boolean; tiers?: unknown[]; rules?: unknown[] };
+    const items = config.tiers ?? config.rules;
+    if (Array.isArray(items)) {
+      const state = config.enabled === false ? "Disabled" : "Enabled";
+      return `${state} · ${items.length} ${config.tiers ? "tiers" : "rules"}`;
+    }
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,320 @@
+/**
+ * Vehicles Page
+ * Truck registry per fleet, dated driver assignments and the monthly truck
+ * counts derived from trucks in service
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import AssignVehicleModal from "../components/AssignVehicleModal";
+import VehicleModal from "../components/VehicleModal";
+import { useStore } from "../store/useStore";
+import type { Vehicle } from "../types/database";
+import { formatDate, getMonthShortName } from "../utils/formatters";
+import
+  {
+    getAssignmentHistory,
+    getAssignmentOn,
+    getFleetTruckCount,
+    VEHICLE_STATUS_LABELS,
+  } from "../utils/vehicles";
+
+type FleetFilter = "all" | "local" | "export";
+
+export default function VehiclesPage() {
+  const { vehicles, vehicleAssignments, drivers } = useStore();
+
+  const [fleetFilter, setFleetFilter] = useState<FleetFilter>("all");
+  const [showRetired, setShowRetired] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [assigningVehicle, setAssigningVehicle] = useState<Vehicle | null>(null);
+  const [historyVehicleId, setHistoryVehicleId] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split("T")[0];
+  const year = new Date().getFullYear();
+
+  const driverNames = useMemo(
+    () => new Map(drivers.map((d) => [d.id, `${d.first_name} ${d.last_name}`])),
+    [drivers]
+  );
+
+  const filteredVehicles = useMemo(
+    () =>
+      vehicles.filter(
+        (v) => (fleetFilter === "all" || v.fleet === fleetFilter) && (showRetired || v.status !== "retired")
+      ),
+    [vehicles, fleetFilter, showRetired]
+  );
+
+  // Trucks in service per month of the current year
+  const monthlyCounts = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, i) => ({
+        month: i + 1,
+        local: getFleetTruckCount(vehicles, "local", year, i + 1),
+        export: getFleetTruckCount(vehicles, "export", year, i + 1),
+      })),
+    [vehicles, year]
+  );
+
+  const currentMonth = monthlyCounts[new Date().getMonth()];
+  const unassignedCount = vehicles.filter(
+    (v) => v.status === "active" && !getAssignmentOn(vehicleAssignments, { vehicleId: v.id }, today)
+  ).length;
+
+  return (
+    <div className="space-y-5">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-surface-900">Vehicles</h1>
+          <p className="text-sm text-surface-500 mt-0.5">
+            Truck registry, driver assignments and monthly truck counts
+          </p>
+        </div>
+        <button onClick={() => setShowAddModal(true)} className="btn btn-primary">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Register Vehicle
+        </button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Local Trucks</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{currentMonth.local}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Export Trucks</p>
+          <p className="text-xl font-semibold text-surface-900 mt-1">{currentMonth.export}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">In Maintenance</p>
+          <p className="text-xl font-semibold text-amber-600 mt-1">
+            {vehicles.filter((v) => v.status === "maintenance").length}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg border border-surface-200 p-3">
+          <p className="text-xs text-surface-500 uppercase tracking-wider font-medium">Unassigned</p>
+          <p className="text-xl font-semibold text-red-600 mt-1">{unassignedCount}</p>
+        </div>
+      </div>
+
+      {/* Registry */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">Registry</h2>
+          <div className="flex items-center gap-3">
+            <div className="flex gap-1">
+              {(["all", "local", "export"] as const).map((fleet) => (
+                <button
+                  key={fleet}
+                  onClick={() => setFleetFilter(fleet)}
+                  className={`px-3 py-1 rounded text-xs font-medium capitalize transition-colors ${
+                    fleetFilter === fleet
+                      ? "bg-surface-900 text-white"
+                      : "bg-surface-100 text-surface-600 hover:bg-surface-200"
+                  }`}
+                >
+                  {fleet}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-surface-600">
+              <input
+                type="checkbox"
+                className="w-3.5 h-3.5 accent-primary-500"
+                checked={showRetired}
+                onChange={(e) => setShowRetired(e.target.checked)}
+              />
+              Show retired
+            </label>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Registration</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Type</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Fleet</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Status</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">In Service</th>
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Driver</th>
+                <th className="text-right py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredVehicles.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="py-8 text-center text-surface-500">
+                    No vehicles registered
+                  </td>
+                </tr>
+              ) : (
+                filteredVehicles.map((vehicle) => {
+                  const current = getAssignmentOn(vehicleAssignments, { vehicleId: vehicle.id }, today);
+                  const history =
+                    historyVehicleId === vehicle.id
+                      ? getAssignmentHistory(vehicleAssignments, { vehicleId: vehicle.id })
+                      : [];
+
+                  return (
+                    <Fragment key={vehicle.id}>
+                      <tr className="border-b border-surface-100 hover:bg-surface-50">
+                        <td className="py-2 px-3 font-mono font-medium text-surface-900">
+                          {vehicle.registration_number}
+                        </td>
+                        <td className="py-2 px-3 text-sm text-surface-700">
+                          {vehicle.vehicle_type}
+                          {(vehicle.make || vehicle.model) && (
+                            <p className="text-xs text-surface-500">
+                              {[vehicle.make, vehicle.model].filter(Boolean).join(" ")}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-sm capitalize">{vehicle.fleet}</td>
+                        <td className="py-2 px-3">
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${getVehicleStatusColor(vehicle.status)}`}
+                          >
+                            {VEHICLE_STATUS_LABELS[vehicle.status]}
+                          </span>
+                        </td>
+                        <td className="py-2 px-3 text-sm text-surface-600">
+                          {formatDate(vehicle.commissioned_date)}
+                          {vehicle.retired_date && ` – ${formatDate(vehicle.retired_date)}`}
+                        </td>
+                        <td className="py-2 px-3 text-sm">
+                          {current ? (
+                            <Link to={`/drivers/${current.driver_id}`} className="text-primary-600 hover:text-primary-700">
+                              {driverNames.get(current.driver_id) || "Unknown"}
+                            </Link>
+                          ) : (
+                            <span className="text-surface-400">—</span>
+                          )}
+                        </td>
+                        <td className="py-2 px-3">
+                          <div className="flex justify-end gap-1">
+                            {vehicle.status !== "retired" && (
+                              <button
+                                onClick={() => setAssigningVehicle(vehicle)}
+                                className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                              >
+                                Assign
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setHistoryVehicleId(historyVehicleId === vehicle.id ? null : vehicle.id)}
+                              className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                            >
+                              History
+                            </button>
+                            <button
+                              onClick={() => setEditingVehicle(vehicle)}
+                              className="text-xs px-2 py-0.5 bg-white border border-surface-200 rounded hover:bg-surface-100"
+                            >
+                              Edit
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {historyVehicleId === vehicle.id && (
+                        <tr className="border-b border-surface-100 bg-surface-50">
+                          <td colSpan={7} className="px-6 py-3">
+                            {history.length === 0 ? (
+                              <p className="text-sm text-surface-500">No assignments yet</p>
+                            ) : (
+                              <ul className="space-y-1">
+                                {history.map((a) => (
+                                  <li key={a.id} className="text-sm text-surface-700">
+                                    <span className="font-medium">{driverNames.get(a.driver_id) || "Unknown"}</span>
+                                    <span className="text-surface-500">
+                                      {" "}
+                                      · {formatDate(a.start_date)} – {a.end_date ? formatDate(a.end_date) : "present"}
+                                    </span>
+                                    {a.notes && <span className="text-surface-500"> · {a.notes}</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Monthly Truck Counts */}
+      <div className="bg-white rounded-lg border border-surface-200">
+        <div className="px-4 py-3 border-b border-surface-100">
+          <h2 className="text-sm font-semibold text-surface-900 uppercase tracking-wider">
+            Trucks in Service ({year})
+          </h2>
+          <p className="text-xs text-surface-500 mt-0.5">
+            Used as the monthly budget truck count in the Master Sheet
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-surface-200">
+                <th className="text-left py-2 px-3 text-xs font-semibold text-surface-600 uppercase">Fleet</th>
+                {monthlyCounts.map((c) => (
+                  <th key={c.month} className="text-center py-2 px-2 text-xs font-semibold text-surface-600 uppercase">
+                    {getMonthShortName(c.month)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(["local", "export"] as const).map((fleet) => (
+                <tr key={fleet} className="border-b border-surface-100">
+                  <td className="py-2 px-3 text-sm font-medium capitalize">{fleet}</td>
+                  {monthlyCounts.map((c) => (
+                    <td key={c.month} className="py-2 px-2 text-center font-mono text-sm">
+                      {c[fleet]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Modals */}
+      {(showAddModal || editingVehicle) && (
+        <VehicleModal
+          vehicle={editingVehicle ?? undefined}
+          onClose={() => {
+            setShowAddModal(false);
+            setEditingVehicle(null);
+          }}
+        />
+      )}
+      {assigningVehicle && (
+        <AssignVehicleModal vehicle={assigningVehicle} onClose={() => setAssigningVehicle(null)} />
+      )}
+    </div>
+  );
+}
+
+function getVehicleStatusColor(status: Vehicle["status"]): string {
+  switch (status) {
+    case "active":
+      return "bg-green-100 text-green-700";
+    case "maintenance":
+      return "bg-amber-100 text-amber-700";
+    case "retired":
+      return "bg-surface-100 text-surface-600";
+  }
+}
@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import type {
+  CalendarDay,
   CustomFormula,
   Driver,
   DriverPerformance,
@@ -8,6 +9,10 @@ import type {
   IncentiveSetting,
   KilometerRate,
   MonthlyBudget,
+  PaymentRun,
+  PayrollPeriod,
+  Vehicle,
+  VehicleAssignment,
   ZigUsdConversionRate,
 } from "../types/database";
 
@@ -52,6 +57,24 @@ interface AppState {
   incentiveCalculations: IncentiveCalculation[];
   setIncentiveCalculations: (calculations: IncentiveCalculation[]) => void;
 
+  // Vehicles
+  vehicles: Vehicle[];
+  setVehicles: (vehicles: Vehicle[]) => void;
+  vehicleAssignments: VehicleAssignment[];
+  setVehicleAssignments: (assignments: VehicleAssignment[]) => void;
+
+  // Working calendar
+  calendarDays: CalendarDay[];
+  setCalendarDays: (calendarDays: CalendarDay[]) => void;
+
+  // Payroll period close
+  payrollPeriods: PayrollPeriod[];
+  setPayrollPeriods: (periods: PayrollPeriod[]) => void;
+
+  // Payment runs
+  paymentRuns: PaymentRun[];
+  setPaymentRuns: (runs: PaymentRun[]) => void;
+
   // UI State
   selectedYear: number;
   selectedMonth: number;
@@ -117,6 +140,24 @@ export const useStore = create<AppState>((set) => ({
   setIncentiveCalculations: (incentiveCalculations) =>
     set({ incentiveCalculations }),
 
+  // Vehicles
+  vehicles: [],
+  setVehicles: (vehicles) => set({ vehicles }),
+  vehicleAssignments: [],
+  setVehicleAssignments: (vehicleAssignments) => set({ vehicleAssignments }),
+
+  // Working calendar
+  calendarDays: [],
+  setCalendarDays: (calendarDays) => set({ calendarDays }),
+
+  // Payroll period close
+  payrollPeriods: [],
+  setPayrollPeriods: (payrollPeriods) => set({ payrollPeriods }),
+
+  // Payment runs
+  paymentRuns: [],
+  setPaymentRuns: (paymentRuns) => set({ paymentRuns }),
+
   // UI State
   selectedYear: new Date().getFullYear(),
   selectedMonth: new Date().getMonth() + 1,
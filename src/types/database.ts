@@ -24,6 +24,7 @@ export interface DriverRow {
   passport_number: string | null;
   passport_expiry: string | null;
   driver_type: "local" | "export";
+  depot: string | null;
   status: "active" | "inactive" | "suspended" | "terminated";
   usd_base_salary: number;
   zig_base_salary: number;
@@ -157,13 +158,16 @@ export interface IncentiveSettingRow {
   setting_value: Json;
   description: string | null;
   is_active: boolean;
+  effective_from: string | null; // first day this version applies (null = since the beginning)
+  effective_to: string | null;   // last day this version applies (null = until replaced)
   created_at: string;
   updated_at: string;
 }
 export type IncentiveSettingInsert = Omit<
   IncentiveSettingRow,
-  "id" | "created_at" | "updated_at"
->;
+  "id" | "created_at" | "updated_at" | "effective_from" | "effective_to"
+> &
+  Partial<Pick<IncentiveSettingRow, "effective_from" | "effective_to">>;
 export type IncentiveSettingUpdate = Partial<IncentiveSettingInsert>;
 
 // Kilometer rate types
@@ -184,6 +188,9 @@ export type KilometerRateInsert = Omit<
 >;
 export type KilometerRateUpdate = Partial<KilometerRateInsert>;
 
+// How the KM incentive rate is derived: divisor ÷ target km per truck, or the kilometer_rates table
+export type RateMode = "divisor" | "fixed_rate";
+
 // Monthly budget types
 export interface MonthlyBudgetRow {
   id: string;
@@ -240,6 +247,21 @@ export type DriverSalaryHistoryInsert = Omit<
 export type DriverSalaryHistoryUpdate = Partial<DriverSalaryHistoryInsert>;
 export type DriverSalaryHistory = DriverSalaryHistoryRow;
 
+// Driver status history types (dated status changes, recorded by trigger)
+export interface DriverStatusHistoryRow {
+  id: string;
+  driver_id: string;
+  status: DriverRow["status"];
+  effective_date: string;
+  notes: string | null;
+  created_at: string;
+}
+export type DriverStatusHistoryInsert = Omit<
+  DriverStatusHistoryRow,
+  "id" | "created_at"
+>;
+export type DriverStatusHistory = DriverStatusHistoryRow;
+
 // Driver performance types
 export interface DriverPerformanceRow {
   id: string;
@@ -249,6 +271,9 @@ export interface DriverPerformanceRow {
   actual_kilometers: number;
   trips_completed: number;
   fuel_efficiency: number | null;
+  fuel_efficiency_source: "manual" | "ledger";
+  fuel_transaction_ids: string[]; // fuel_transactions the ledger km/L came from
+  trip_totals_source: "manual" | "trips"; // trips when km and trips completed are rolled up from the trip log
   on_time_delivery_rate: number | null;
   customer_rating: number | null;
   safety_score: number | null;
@@ -277,10 +302,12 @@ export interface IncentiveCalculationRow {
   total_incentive: number;
   total_earnings: number;
   calculation_details: Json | null;
+  settings_version_id: string | null; // newest incentive_settings version in force for the period
   status: "draft" | "pending_approval" | "approved" | "paid";
   approved_by: string | null;
   approved_date: string | null;
   paid_date: string | null;
+  payment_run_id: string | null;      // payment run the calculation is paid in
   created_at: string;
   updated_at: string;
 }
@@ -310,6 +337,114 @@ export type CustomFormulaInsert = Omit<
 >;
 export type CustomFormulaUpdate = Partial<CustomFormulaInsert>;
 
+// Vehicle types (truck registry)
+export interface VehicleRow {
+  id: string;
+  registration_number: string;
+  vehicle_type: string;
+  make: string | null;
+  model: string | null;
+  fleet: "local" | "export";
+  status: "active" | "maintenance" | "retired";
+  commissioned_date: string;
+  retired_date: string | null;
+  tank_capacity_litres: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type VehicleInsert = Omit<VehicleRow, "id" | "created_at" | "updated_at">;
+export type VehicleUpdate = Partial<VehicleInsert>;
+export type Vehicle = VehicleRow;
+
+// Vehicle assignment types (dated driver-to-truck assignments)
+export interface VehicleAssignmentRow {
+  id: string;
+  vehicle_id: string;
+  driver_id: string;
+  start_date: string;
+  end_date: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type VehicleAssignmentInsert = Omit<
+  VehicleAssignmentRow,
+  "id" | "created_at" | "updated_at"
+>;
+export type VehicleAssignment = VehicleAssignmentRow;
+
+// Trip types (driver_performance totals are rolled up from completed trips)
+export interface TripRow {
+  id: string;
+  driver_id: string;
+  vehicle_id: string | null;
+  trip_date: string;
+  origin: string;
+  destination: string;
+  start_odometer: number | null;
+  end_odometer: number | null;
+  kilometers: number;
+  load_reference: string | null;
+  planned_delivery_at: string | null;
+  actual_delivery_at: string | null;
+  status: "completed" | "voided";
+  void_reason: string | null;
+  voided_at: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type TripInsert = Omit<TripRow, "id" | "created_at" | "updated_at">;
+export type TripUpdate = Partial<TripInsert>;
+export type Trip = TripRow;
+
+// Daily kilometre log types (one entry per driver per day)
+export interface DailyKilometerRow {
+  id: string;
+  driver_id: string;
+  log_date: string;
+  kilometers: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type DailyKilometerInsert = Omit<DailyKilometerRow, "id" | "created_at" | "updated_at">;
+export type DailyKilometer = DailyKilometerRow;
+
+// Fuel ledger types (fills feeding the monthly km/L)
+export interface FuelTransactionRow {
+  id: string;
+  driver_id: string;
+  vehicle_id: string | null;
+  transaction_date: string;
+  litres: number;
+  cost: number;
+  currency: "USD" | "ZIG";
+  odometer: number;
+  station: string | null;
+  receipt_reference: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type FuelTransactionInsert = Omit<FuelTransactionRow, "id" | "created_at" | "updated_at">;
+export type FuelTransaction = FuelTransactionRow;
+
+// Working calendar types (holidays and exceptions to the regular working week)
+export interface CalendarDayRow {
+  id: string;
+  calendar_date: string;
+  depot: string | null; // null for the whole company
+  day_type: "public_holiday" | "non_working" | "working";
+  name: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+export type CalendarDayInsert = Omit<CalendarDayRow, "id" | "created_at" | "updated_at">;
+export type CalendarDay = CalendarDayRow;
+
 // Database interface for Supabase client
 export interface Database {
   public: {
@@ -404,7 +539,17 @@ export interface AuditLogRow {
   id: string;
   table_name: string;
   record_id: string;
-  action: "insert" | "update" | "delete" | "batch_calculate" | "approve" | "rollback";
+  action:
+    | "insert"
+    | "update"
+    | "delete"
+    | "batch_calculate"
+    | "approve"
+    | "rollback"
+    | "close_period"
+    | "reopen_period"
+    | "recalculate"
+    | "period_bonus_run";
   old_values: Json | null;
   new_values: Json | null;
   changed_by: string | null;
@@ -436,6 +581,28 @@ export type CalculationSnapshot = CalculationSnapshotRow;
 
 export type CalculationSnapshotInsert = Omit<CalculationSnapshotRow, "id" | "created_at">;
 
+// ============================================
+// WHAT-IF SCENARIO TYPES
+// ============================================
+
+export interface WhatIfScenarioRow {
+  id: string;
+  driver_id: string;
+  name: string;
+  additional_km: number | null;
+  fuel_efficiency: number | null;
+  safety_score: number | null;
+  on_time_delivery_rate: number | null;
+  customer_rating: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedWhatIfScenario = WhatIfScenarioRow;
+
+export type WhatIfScenarioInsert = Omit<WhatIfScenarioRow, "id" | "created_at" | "updated_at">;
+
 // ============================================
 // FUEL EFFICIENCY BONUS TYPES
 // ============================================
@@ -452,6 +619,333 @@ export interface FuelEfficiencyBonusConfig {
   tiers: FuelEfficiencyTier[];
 }
 
+// ============================================
+// PERFORMANCE BONUS TYPES
+// ============================================
+
+export type PerformanceBonusMetric = "on_time" | "customer_rating" | "safety";
+
+export interface PerformanceBonusTier {
+  id: string;
+  min_value: number;       // on-time %, customer rating or safety score (lower bound, inclusive)
+  bonus_amount: number;    // USD bonus
+}
+
+export interface PerformanceBonusConfig {
+  enabled: boolean;
+  tiers: PerformanceBonusTier[];
+}
+
+export type PerformanceBonusConfigs = Record<PerformanceBonusMetric, PerformanceBonusConfig>;
+
+// ============================================
+// ACHIEVEMENT TIER TYPES
+// ============================================
+
+export interface AchievementTier {
+  id: string;
+  name: string;                        // e.g. Bronze, Silver, Gold, Platinum
+  min_achievement: number;             // % of (pro-rated) target, inclusive
+  reward_type: "multiplier" | "flat";
+  reward_value: number;                // KM incentive multiplier, or flat USD kicker
+}
+
+export interface AchievementTierConfig {
+  enabled: boolean;
+  tiers: AchievementTier[];
+}
+
+// ============================================
+// INCENTIVE LIMIT TYPES
+// ============================================
+
+export interface IncentiveLimitsConfig {
+  enabled: boolean;
+  cap_type: "none" | "absolute" | "percent_of_salary";
+  cap_value: number;          // USD, or % of base salary
+  floor_amount: number;       // minimum guaranteed USD incentive for a full month (0 = none)
+  pool_enabled: boolean;
+  pool_amount: number;        // monthly USD incentive pool for the driver type
+}
+
+// ============================================
+// PAYOUT CURRENCY TYPES
+// ============================================
+
+export type PayoutSplitMode = "usd_only" | "fixed_ratio" | "by_driver_type";
+
+export interface PayoutSplitConfig {
+  mode: PayoutSplitMode;
+  usd_percentage: number;          // fixed_ratio: % of the incentive paid in USD, the rest in ZIG
+  local_usd_percentage: number;    // by_driver_type
+  export_usd_percentage: number;   // by_driver_type
+}
+
+// ============================================
+// DEDUCTION RULE TYPES
+// ============================================
+
+export type DeductionRuleType =
+  | "accident_damage_recovery" // % of at-fault accident costs in the month
+  | "unresolved_fines"         // % of unresolved incident fines in the month
+  | "unpaid_leave"             // daily base salary x approved unpaid leave days
+  | "suspension_forfeit";      // % of gross incentive forfeited while suspended
+
+export interface DeductionRule {
+  id: string;
+  type: DeductionRuleType;
+  label: string;
+  enabled: boolean;
+  applies_to: "all" | "local" | "export";
+  percentage: number;     // % of the rule basis to deduct
+  cap: number | null;     // maximum USD deducted per month (null = no cap)
+  prorate?: boolean;      // suspension_forfeit: scale by suspended days in the month
+}
+
+export interface DeductionRulesConfig {
+  enabled: boolean;
+  rules: DeductionRule[];
+}
+
+// ============================================
+// PERIOD BONUS TYPES (quarterly / annual)
+// ============================================
+
+export type BonusPeriodType = "quarterly" | "annual";
+
+export type PeriodBonusRuleType =
+  | "consistent_achievement"   // achievement >= threshold in every month of the period
+  | "accident_free"            // no accidents in the period, with performance every month
+  | "retention";               // employed for the whole period and active at its end
+
+export interface PeriodBonusRule {
+  id: string;
+  type: PeriodBonusRuleType;
+  label: string;
+  enabled: boolean;
+  period: BonusPeriodType;
+  applies_to: "all" | "local" | "export";
+  amount: number;              // USD bonus when the rule is met
+  min_achievement?: number;    // consistent_achievement: % of target required each month
+  at_fault_only?: boolean;     // accident_free: only at-fault accidents break the streak
+}
+
+export interface PeriodBonusRulesConfig {
+  enabled: boolean;
+  rules: PeriodBonusRule[];
+}
+
+export interface PeriodBonusRow {
+  id: string;
+  driver_id: string;
+  period_type: BonusPeriodType;
+  year: number;
+  period_number: number;       // quarter (1-4), or 1 for annual
+  rule_id: string;
+  rule_type: PeriodBonusRuleType;
+  label: string;
+  amount: number;
+  details: Json | null;
+  status: "draft" | "pending_approval" | "approved" | "paid";
+  approved_by: string | null;
+  approved_date: string | null;
+  paid_date: string | null;
+  run_id: string | null;       // bonus run that last wrote the line (audit_log record_id)
+  created_at: string;
+  updated_at: string;
+}
+
+export type PeriodBonus = PeriodBonusRow;
+
+export type PeriodBonusInsert = Omit<PeriodBonusRow, "id" | "created_at" | "updated_at">;
+
+// ============================================
+// WORKING CALENDAR TYPES
+// ============================================
+
+export interface WorkingCalendarConfig {
+  non_working_weekdays: number[];                        // 0 = Sunday ... 6 = Saturday
+  depot_non_working_weekdays: Record<string, number[]>;  // replaces the company week for a depot
+}
+
+// ============================================
+// PAYROLL PERIOD TYPES (close and lock)
+// ============================================
+
+export type PayrollPeriodStatus = "open" | "closing" | "closed";
+
+export interface PayrollPeriodRow {
+  id: string;
+  year: number;
+  month: number;
+  status: PayrollPeriodStatus;
+  closed_by: string | null;
+  closed_at: string | null;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PayrollPeriod = PayrollPeriodRow;
+
+export type PayrollPeriodInsert = Omit<PayrollPeriodRow, "id" | "created_at" | "updated_at">;
+
+export interface PeriodCloseConfig {
+  reopen_approvers: string[];  // emails allowed to reopen a closed month; empty for any signed-in user
+}
+
+// ============================================
+// PAYMENT RUN TYPES
+// ============================================
+
+export type PaymentRunStatus = "draft" | "posted";
+
+export interface PaymentRunRow {
+  id: string;
+  year: number;
+  month: number;
+  reference: string;           // e.g. "PR-2026-10-01"
+  status: PaymentRunStatus;
+  created_by: string | null;
+  posted_by: string | null;
+  posted_at: string | null;
+  driver_count: number;        // totals are stamped when the run is posted
+  total_incentive: number;
+  total_usd: number;
+  total_zig: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentRun = PaymentRunRow;
+
+export type PaymentRunInsert = Omit<PaymentRunRow, "id" | "created_at" | "updated_at">;
+
+// ============================================
+// PAYROLL EXPORT TYPES
+// ============================================
+
+export type PayrollExportFormat = "sage" | "quickbooks" | "custom";
+
+export type PayrollComponent =
+  | "base_salary"
+  | "km_incentive"
+  | "performance_bonus"
+  | "safety_bonus"
+  | "incentive_adjustment"      // cap, floor, pool and tier adjustments to the total incentive
+  | "deductions";
+
+export interface PayrollCodeMapping {
+  component: PayrollComponent;
+  code: string;                 // payroll earning or deduction code
+  enabled: boolean;
+}
+
+export type PayrollExportField =
+  | "employee_id"
+  | "employee_name"
+  | "driver_type"
+  | "period"
+  | "period_start"
+  | "period_end"
+  | "code"
+  | "description"
+  | "line_type"
+  | "amount";
+
+export interface PayrollExportColumn {
+  header: string;
+  field: PayrollExportField;
+}
+
+export interface PayrollExportProfile {
+  id: string;
+  label: string;
+  format: PayrollExportFormat;
+  delimiter: "," | ";" | "\t";
+  negative_deductions: boolean; // custom layouts: write deductions as negative amounts
+  mappings: PayrollCodeMapping[];
+  columns: PayrollExportColumn[]; // custom layouts only
+}
+
+export interface PayrollExportConfig {
+  profiles: PayrollExportProfile[];
+}
+
+export interface PayrollExportRow {
+  id: string;
+  year: number;
+  month: number;
+  profile_id: string;
+  profile_label: string;
+  format: PayrollExportFormat;
+  file_name: string;
+  calculation_count: number;
+  line_count: number;
+  total_earnings: number;
+  total_deductions: number;
+  exported_by: string | null;
+  exported_at: string;
+  voided_by: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+}
+
+export type PayrollExport = PayrollExportRow;
+
+export type PayrollExportInsert = Omit<
+  PayrollExportRow,
+  "id" | "exported_at" | "voided_by" | "voided_at" | "void_reason"
+>;
+
+// ============================================
+// APPROVAL CHAIN TYPES
+// ============================================
+
+export interface ApprovalStep {
+  id: string;
+  label: string;               // e.g. "Supervisor"
+  approvers: string[];         // emails of the users who may sign off this step
+}
+
+export interface ApprovalChain {
+  id: string;
+  label: string;
+  enabled: boolean;
+  applies_to: "all" | "local" | "export";
+  min_amount: number;          // USD total incentive from which the chain applies
+  steps: ApprovalStep[];
+}
+
+export interface ApprovalChainsConfig {
+  enabled: boolean;
+  chains: ApprovalChain[];
+}
+
+export interface CalculationApprovalRow {
+  id: string;
+  calculation_id: string;
+  chain_id: string;
+  step_index: number;
+  step_label: string;
+  approved_by: string;
+  approved_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;          // user who returned it to draft, or "recalculation"
+  created_at: string;
+}
+
+export type CalculationApproval = CalculationApprovalRow;
+
+export type CalculationApprovalInsert = Omit<
+  CalculationApprovalRow,
+  "id" | "approved_at" | "revoked_at" | "revoked_by" | "created_at"
+>;
+
 // ============================================
 // BATCH CALCULATION TYPES
 // ============================================
@@ -470,6 +964,24 @@ export interface BatchCalculationJobRow {
   created_at: string;
   completed_at: string | null;
   error_log: Json | null;
+  driver_ids: string[] | null;          // drivers the job saves; null = all calculated
+  processed_driver_ids: string[];       // saved, skipped or failed; not redone on resume
+  skipped_count: number;                // calculations past draft, left unchanged
+  retry_of: string | null;              // job whose failed drivers this job retries
+  updated_at: string;
 }
 
 export type BatchCalculationJob = BatchCalculationJobRow;
+
+export type BatchCalculationJobInsert = Omit<
+  BatchCalculationJobRow,
+  "id" | "created_at" | "updated_at" | "completed_at" | "error_log" | "processed_driver_ids"
+>;
+
+/** One entry of a job's error_log */
+export interface BatchCalculationJobError {
+  driver_id: string;
+  driver_name: string;
+  stage: "calculate" | "save";
+  message: string;
+}
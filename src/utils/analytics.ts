@@ -2,7 +2,7 @@
  * Analytics utilities for performance tracking and projections
  */
 
-import type { Driver, DriverPerformance, IncentiveCalculation } from "../types/database";
+import type { DailyKilometer, Driver, DriverPerformance, IncentiveCalculation } from "../types/database";
 
 // Types for analytics
 export interface TrendDataPoint {
@@ -43,6 +43,11 @@ export interface MonthlyTrend {
   driverCount: number;
 }
 
+export interface DailyKmPoint {
+  date: string; // yyyy-MM-dd
+  value: number;
+}
+
 export interface IncentiveBreakdown {
   category: string;
   value: number;
@@ -51,16 +56,19 @@ export interface IncentiveBreakdown {
 }
 
 /**
- * Calculate month-end projection based on current pace
+ * Calculate month-end projection based on current pace. Days are working days
+ * when a calendar is in use (see utils/workingCalendar). Without a daily pace
+ * the kilometers are assumed to have accrued evenly over the days elapsed.
  */
 export function calculateProjection(
   currentKm: number,
   targetKm: number,
-  currentDay: number,
-  totalDaysInMonth: number
+  daysElapsed: number,
+  totalDays: number,
+  dailyPace?: number
 ): PerformanceProjection {
-  const daysRemaining = totalDaysInMonth - currentDay;
-  const dailyAverage = currentDay > 0 ? currentKm / currentDay : 0;
+  const daysRemaining = totalDays - daysElapsed;
+  const dailyAverage = dailyPace ?? (daysElapsed > 0 ? currentKm / daysElapsed : 0);
   const projectedMonthEnd = currentKm + dailyAverage * daysRemaining;
   const percentageToTarget = targetKm > 0 ? (projectedMonthEnd / targetKm) * 100 : 0;
   const dailyKmNeeded =
@@ -102,6 +110,62 @@ export function calculateProjection(
   };
 }
 
+/**
+ * Total kilometers per day from the daily log, for one driver or the fleet
+ */
+export function getDailyKmTotals(
+  entries: DailyKilometer[],
+  driverId: string | null = null
+): DailyKmPoint[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    if (driverId && entry.driver_id !== driverId) continue;
+    totals.set(entry.log_date, (totals.get(entry.log_date) || 0) + entry.kilometers);
+  }
+  return [...totals.entries()]
+    .map(([date, value]) => ({ date, value }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Month-end projection from the daily log. Working days up to and including
+ * asOfDay have elapsed (as in countWorkingDays), whether or not they are logged
+ * yet, and the pace is the average over the trailing paceWindow working days
+ * to asOfDay, so recent days off the road or a late surge show up in the
+ * projection. Unlogged working days count as 0; kilometers logged on days off
+ * still count. workingDays lists the month's working days (every day when omitted).
+ */
+export function calculateDailyProjection(
+  entries: DailyKmPoint[],
+  targetKm: number,
+  year: number,
+  month: number,
+  asOfDay: number,
+  workingDays?: number[],
+  paceWindow: number = 7
+): PerformanceProjection {
+  const prefix = `${year}-${month.toString().padStart(2, "0")}-`;
+  const byDay = new Map<number, number>();
+  for (const entry of entries) {
+    if (!entry.date.startsWith(prefix)) continue;
+    const day = parseInt(entry.date.slice(prefix.length));
+    if (day <= asOfDay) byDay.set(day, (byDay.get(day) || 0) + entry.value);
+  }
+
+  const days = workingDays ?? Array.from({ length: getDaysInMonth(year, month) }, (_, i) => i + 1);
+  const loggedKm = [...byDay.values()].reduce((sum, km) => sum + km, 0);
+  const elapsedDays = days.filter((day) => day <= asOfDay);
+  const windowDays = elapsedDays.slice(-paceWindow);
+  const windowStart = windowDays.length > 0 ? windowDays[0] : asOfDay + 1;
+  let windowKm = 0;
+  for (let day = windowStart; day <= asOfDay; day++) {
+    windowKm += byDay.get(day) || 0;
+  }
+  const pace = windowDays.length > 0 ? windowKm / windowDays.length : 0;
+
+  return calculateProjection(loggedKm, targetKm, elapsedDays.length, days.length, pace);
+}
+
 /**
  * Get trend data for sparklines (last 6 months)
  */
@@ -329,7 +393,7 @@ export function getYearOverYearComparison(
 }
 
 /**
- * Get days in a month
+ * Get calendar days in a month (working days come from utils/workingCalendar)
  */
 export function getDaysInMonth(year: number, month: number): number {
   return new Date(year, month, 0).getDate();
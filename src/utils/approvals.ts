@@ -0,0 +1,187 @@
+/**
+ * Approval Chains
+ * Multi-level sign-off for incentive calculations. The chain for a calculation
+ * is picked by driver type and incentive amount; each step is signed off in
+ * order by one of its approvers, and no user may sign off twice. The database
+ * checks sign-offs and approvals against the same rules (migration 030).
+ */
+
+import type {
+    ApprovalChain,
+    ApprovalChainsConfig,
+    ApprovalStep,
+    CalculationApproval,
+    IncentiveSetting,
+} from "../types/database";
+import { getAvailableTransitions, type WorkflowStatus, type WorkflowTransition } from "./calculations";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ApprovalProgress {
+  chain: ApprovalChain;
+  signOffs: CalculationApproval[];      // active sign-offs of this chain, in step order
+  nextStepIndex: number | null;         // null once every step is signed off
+  nextStep: ApprovalStep | null;
+}
+
+/** A workflow transition the user may take, with the chain step it signs off */
+export interface EntitledTransition extends WorkflowTransition {
+  stepIndex?: number;
+  completesChain?: boolean;             // signing off this step approves the calculation
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const APPROVAL_CHAINS_SETTING_KEY = "approval_chains";
+
+/**
+ * Default approval chain (shown in Settings, disabled until saved)
+ */
+export const DEFAULT_APPROVAL_CHAINS: ApprovalChainsConfig = {
+  enabled: false,
+  chains: [
+    {
+      id: "standard",
+      label: "Standard approval",
+      enabled: true,
+      applies_to: "all",
+      min_amount: 0,
+      steps: [
+        { id: "supervisor", label: "Supervisor", approvers: [] },
+        { id: "operations_manager", label: "Operations Manager", approvers: [] },
+        { id: "finance", label: "Finance", approvers: [] },
+      ],
+    },
+  ],
+};
+
+/**
+ * Get approval chains config from settings
+ */
+export function getApprovalChainsConfig(settings: IncentiveSetting[]): ApprovalChainsConfig {
+  const setting = settings.find((s) => s.setting_key === APPROVAL_CHAINS_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as ApprovalChainsConfig;
+    return {
+      enabled: config.enabled ?? false,
+      chains: config.chains ?? [],
+    };
+  }
+
+  return { enabled: false, chains: [] };
+}
+
+// ============================================
+// CHAIN SELECTION
+// ============================================
+
+/**
+ * Chain for a calculation: among the enabled chains for the driver type whose
+ * threshold the incentive reaches, the one with the highest threshold. A chain
+ * for the driver type wins over an "all" chain with the same threshold.
+ * Returns null when chains are off or none applies (single-step approval).
+ */
+export function selectApprovalChain(
+  config: ApprovalChainsConfig,
+  driverType: "local" | "export" | undefined,
+  amount: number
+): ApprovalChain | null {
+  if (!config.enabled) return null;
+
+  const candidates = config.chains.filter(
+    (c) =>
+      c.enabled &&
+      c.steps.length > 0 &&
+      (c.applies_to === "all" || c.applies_to === driverType) &&
+      amount >= c.min_amount
+  );
+  candidates.sort(
+    (a, b) => b.min_amount - a.min_amount || Number(b.applies_to !== "all") - Number(a.applies_to !== "all")
+  );
+  return candidates[0] ?? null;
+}
+
+function isSameUser(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Whether a user may sign off a step
+ */
+export function canApproveStep(step: ApprovalStep, userEmail: string | null): boolean {
+  return !!userEmail && step.approvers.some((a) => isSameUser(a, userEmail));
+}
+
+/**
+ * Sign-offs so far and the step waiting for approval. Only active sign-offs
+ * made under this chain count.
+ */
+export function getApprovalProgress(chain: ApprovalChain, approvals: CalculationApproval[]): ApprovalProgress {
+  const signOffs = approvals
+    .filter((a) => a.chain_id === chain.id && a.revoked_at === null)
+    .sort((a, b) => a.step_index - b.step_index);
+  const signed = new Set(signOffs.map((a) => a.step_index));
+  const nextStepIndex = chain.steps.findIndex((_, i) => !signed.has(i));
+
+  return {
+    chain,
+    signOffs,
+    nextStepIndex: nextStepIndex === -1 ? null : nextStepIndex,
+    nextStep: nextStepIndex === -1 ? null : chain.steps[nextStepIndex],
+  };
+}
+
+/**
+ * Short progress note for a pending calculation, e.g. "Step 2 of 3: Finance"
+ */
+export function describeApprovalProgress(progress: ApprovalProgress): string {
+  if (!progress.nextStep || progress.nextStepIndex === null) return "All steps signed off";
+  return `Step ${progress.nextStepIndex + 1} of ${progress.chain.steps.length}: ${progress.nextStep.label}`;
+}
+
+// ============================================
+// ENTITLEMENT
+// ============================================
+
+/**
+ * Transitions the signed-in user may take from a status. Without a chain any
+ * signed-in user may take a transition that requires an approver. With a
+ * chain, approving signs off the next step and needs one of its approvers who
+ * has not signed off an earlier step; reverting an approval needs one of the
+ * chain's approvers.
+ */
+export function getEntitledTransitions(
+  status: WorkflowStatus,
+  chain: ApprovalChain | null,
+  approvals: CalculationApproval[],
+  userEmail: string | null
+): EntitledTransition[] {
+  const transitions = getAvailableTransitions(status);
+  if (!chain) return transitions.filter((t) => !t.requiresApprover || !!userEmail);
+
+  const progress = getApprovalProgress(chain, approvals);
+  const entitled: EntitledTransition[] = [];
+  for (const t of transitions) {
+    if (t.from === "pending_approval" && t.to === "approved") {
+      const { nextStep, nextStepIndex, signOffs } = progress;
+      if (!nextStep || nextStepIndex === null || !canApproveStep(nextStep, userEmail)) continue;
+      if (signOffs.some((a) => isSameUser(a.approved_by, userEmail!))) continue;
+      entitled.push({
+        ...t,
+        label: `Approve as ${nextStep.label}`,
+        stepIndex: nextStepIndex,
+        completesChain: nextStepIndex === chain.steps.length - 1,
+      });
+    } else if (t.requiresApprover) {
+      if (chain.steps.some((step) => canApproveStep(step, userEmail))) entitled.push(t);
+    } else {
+      entitled.push(t);
+    }
+  }
+  return entitled;
+}
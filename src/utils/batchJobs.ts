@@ -0,0 +1,76 @@
+/**
+ * Batch Calculation Jobs
+ * Each month-end batch run is recorded as a job with its progress and per-driver
+ * errors. Interrupted jobs are resumed from the drivers not yet processed, and the
+ * failed drivers of a job can be retried as a new job.
+ */
+
+import type { BatchCalculationJob, BatchCalculationJobError } from "../types/database";
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const BATCH_JOB_STATUS_LABELS: Record<BatchCalculationJob["status"], string> = {
+  pending: "Pending",
+  processing: "Processing",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+// A running job writes its progress every few drivers; one silent for this long has stalled
+export const BATCH_JOB_STALL_MINUTES = 5;
+
+// Drivers saved between progress updates
+export const BATCH_JOB_PROGRESS_INTERVAL = 5;
+
+// ============================================
+// JOB STATE
+// ============================================
+
+/**
+ * Per-driver errors recorded on a job
+ */
+export function getBatchJobErrors(job: BatchCalculationJob): BatchCalculationJobError[] {
+  return Array.isArray(job.error_log) ? (job.error_log as unknown as BatchCalculationJobError[]) : [];
+}
+
+/**
+ * Drivers that failed in a job, once each
+ */
+export function getFailedDriverIds(job: BatchCalculationJob): string[] {
+  return [...new Set(getBatchJobErrors(job).map((e) => e.driver_id))];
+}
+
+/**
+ * Whether a pending or processing job has stopped reporting progress (e.g. its browser was closed)
+ */
+export function isBatchJobStalled(job: BatchCalculationJob, now: Date = new Date()): boolean {
+  if (job.status !== "pending" && job.status !== "processing") return false;
+  const lastUpdate = new Date(job.updated_at ?? job.created_at).getTime();
+  return now.getTime() - lastUpdate > BATCH_JOB_STALL_MINUTES * 60 * 1000;
+}
+
+/**
+ * Whether a job is being processed right now
+ */
+export function isBatchJobRunning(job: BatchCalculationJob, now: Date = new Date()): boolean {
+  return (job.status === "pending" || job.status === "processing") && !isBatchJobStalled(job, now);
+}
+
+/**
+ * Drivers of a job not yet processed. Jobs over the whole month take their
+ * drivers from the month's calculation.
+ */
+export function getRemainingDriverIds(job: BatchCalculationJob, monthDriverIds: string[]): string[] {
+  const processed = new Set(job.processed_driver_ids ?? []);
+  return (job.driver_ids ?? monthDriverIds).filter((id) => !processed.has(id));
+}
+
+/**
+ * Share of a job's drivers processed, 0-100
+ */
+export function getBatchJobProgress(job: BatchCalculationJob): number {
+  if (job.total_drivers === 0) return job.status === "completed" ? 100 : 0;
+  return Math.min(100, Math.round((job.processed_count / job.total_drivers) * 100));
+}
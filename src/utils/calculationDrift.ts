@@ -0,0 +1,175 @@
+/**
+ * Calculation Drift
+ * Compare stored incentive calculations with a fresh engine run for the same
+ * period, to find rows left stale by later settings, rate or data changes
+ */
+
+import type { IncentiveCalculation } from "../types/database";
+import type { BatchCalculationResult, CalculationResult, WorkflowStatus } from "./calculations";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DriftField =
+  | "base_salary"
+  | "km_incentive"
+  | "performance_bonus"
+  | "safety_bonus"
+  | "deductions"
+  | "total_incentive"
+  | "total_earnings";
+
+export interface FieldDrift {
+  field: DriftField;
+  label: string;
+  stored: number;
+  recalculated: number;
+  difference: number;             // recalculated - stored
+}
+
+export interface CalculationDrift {
+  calculationId: string;
+  driverId: string;
+  driverName: string;
+  status: WorkflowStatus;
+  fields: FieldDrift[];           // only the fields that differ
+  earningsDifference: number;
+  result: CalculationResult;
+}
+
+export interface DriftReport {
+  /** Stored rows that no longer match the engine, largest earnings difference first */
+  drifted: CalculationDrift[];
+  matchedCount: number;
+  /** Stored rows the engine can no longer calculate */
+  unverifiable: { calculationId: string; driverName: string; status: WorkflowStatus; reason: string }[];
+  /** Drivers the engine calculates but who have no stored row */
+  uncalculated: { driverId: string; driverName: string }[];
+  summary: {
+    checked: number;
+    draftDrifted: number;
+    lockedDrifted: number;        // pending approval, approved or paid
+    draftDifference: number;
+    lockedDifference: number;
+  };
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+/** Differences below this (in USD) are rounding, not drift */
+export const DRIFT_TOLERANCE = 0.01;
+
+export const DRIFT_FIELDS: { field: DriftField; label: string; resultKey: keyof CalculationResult }[] = [
+  { field: "base_salary", label: "Base Salary", resultKey: "baseSalary" },
+  { field: "km_incentive", label: "KM Incentive", resultKey: "kmIncentive" },
+  { field: "performance_bonus", label: "Performance Bonus", resultKey: "performanceBonus" },
+  { field: "safety_bonus", label: "Safety Bonus", resultKey: "safetyBonus" },
+  { field: "deductions", label: "Deductions", resultKey: "deductions" },
+  { field: "total_incentive", label: "Total Incentive", resultKey: "totalIncentive" },
+  { field: "total_earnings", label: "Total Earnings", resultKey: "totalEarnings" },
+];
+
+/**
+ * Drafts can simply be recalculated; anything further along the workflow
+ * needs a correction through rollback or an adjustment instead
+ */
+export function isLockedStatus(status: WorkflowStatus): boolean {
+  return status !== "draft";
+}
+
+/**
+ * Monetary fields of a stored calculation that differ from a fresh result
+ */
+export function compareCalculation(
+  stored: IncentiveCalculation,
+  result: CalculationResult,
+  tolerance = DRIFT_TOLERANCE
+): FieldDrift[] {
+  return DRIFT_FIELDS.map(({ field, label, resultKey }) => {
+    const storedValue = Number(stored[field]) || 0;
+    const recalculated = result[resultKey] as number;
+    return { field, label, stored: storedValue, recalculated, difference: recalculated - storedValue };
+  }).filter((d) => Math.abs(d.difference) >= tolerance);
+}
+
+/**
+ * Diff every stored calculation for a period against a batch run of the same
+ * period. The batch must cover all drivers so pool scaling matches.
+ */
+export function buildDriftReport(
+  calculations: IncentiveCalculation[],
+  batch: BatchCalculationResult,
+  driverNames: Map<string, string>,
+  tolerance = DRIFT_TOLERANCE
+): DriftReport {
+  const resultsByDriver = new Map(batch.success.map((r) => [r.driverId, r]));
+  const failedByDriver = new Map(batch.failed.map((f) => [f.driverId, f.reason]));
+  const storedDriverIds = new Set(calculations.map((c) => c.driver_id));
+
+  const drifted: CalculationDrift[] = [];
+  const unverifiable: DriftReport["unverifiable"] = [];
+  let matchedCount = 0;
+
+  for (const calc of calculations) {
+    const status = calc.status as WorkflowStatus;
+    const driverName = driverNames.get(calc.driver_id) || "Unknown";
+    const result = resultsByDriver.get(calc.driver_id);
+
+    if (!result) {
+      unverifiable.push({
+        calculationId: calc.id,
+        driverName,
+        status,
+        reason: failedByDriver.get(calc.driver_id) || "Driver is no longer included in the batch",
+      });
+      continue;
+    }
+
+    const fields = compareCalculation(calc, result, tolerance);
+    if (fields.length === 0) {
+      matchedCount++;
+      continue;
+    }
+
+    drifted.push({
+      calculationId: calc.id,
+      driverId: calc.driver_id,
+      driverName,
+      status,
+      fields,
+      earningsDifference: result.totalEarnings - (Number(calc.total_earnings) || 0),
+      result,
+    });
+  }
+
+  drifted.sort((a, b) => Math.abs(b.earningsDifference) - Math.abs(a.earningsDifference));
+
+  return {
+    drifted,
+    matchedCount,
+    unverifiable,
+    uncalculated: batch.success
+      .filter((r) => !storedDriverIds.has(r.driverId))
+      .map((r) => ({ driverId: r.driverId, driverName: r.driverName })),
+    summary: summarizeDrift(drifted, calculations.length),
+  };
+}
+
+/**
+ * Drift counts and earnings differences split into drafts and locked rows
+ */
+export function summarizeDrift(drifted: CalculationDrift[], checked: number): DriftReport["summary"] {
+  const drafts = drifted.filter((d) => !isLockedStatus(d.status));
+  const locked = drifted.filter((d) => isLockedStatus(d.status));
+
+  return {
+    checked,
+    draftDrifted: drafts.length,
+    lockedDrifted: locked.length,
+    draftDifference: drafts.reduce((sum, d) => sum + d.earningsDifference, 0),
+    lockedDifference: locked.reduce((sum, d) => sum + d.earningsDifference, 0),
+  };
+}
@@ -0,0 +1,362 @@
+/**
+ * Calculation Trace
+ * Ordered, human-readable steps explaining how an incentive was calculated,
+ * stored in calculation_details.trace so supervisors can answer pay queries
+ */
+
+import type { CalculationResult } from "./calculations";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TraceUnit = "km" | "usd" | "zig" | "percent" | "rate" | "factor";
+
+export interface CalculationTraceStep {
+  key: string;                    // stable identifier, e.g. "rate_per_km"
+  label: string;
+  formula: string;
+  inputs: Record<string, number | string | null>;
+  result: number;
+  unit: TraceUnit;
+}
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Derive the trace from a calculated result. Called by the engine after each
+ * calculation, and again when a pool rescales the incentive.
+ */
+export function buildCalculationTrace(result: CalculationResult): CalculationTraceStep[] {
+  const details = result.calculationDetails;
+  const steps: CalculationTraceStep[] = [];
+
+  // Components as calculated; a pool scales the stored ones afterwards
+  const components = details.incentive_limits?.pre_pool_components ?? {
+    km_incentive: result.kmIncentive,
+    performance_bonus: result.performanceBonus,
+    safety_bonus: result.safetyBonus,
+    deductions: result.deductions,
+  };
+  const step = (s: CalculationTraceStep) => steps.push(s);
+
+  // Targets
+  step({
+    key: "target_km_per_truck",
+    label: "Target KM per truck",
+    formula: "budget_km ÷ truck_count",
+    inputs: { budget_km: details.budget_km, truck_count: details.truck_count },
+    result: details.target_km_per_truck,
+    unit: "km",
+  });
+
+  if (details.proration) {
+    step({
+      key: "proration_factor",
+      label: "Days available",
+      formula: "available_days ÷ period_days",
+      inputs: {
+        available_days: details.proration.available_days,
+        period_days: details.proration.period_days,
+        days_before_hire: details.proration.days_before_hire,
+        inactive_days: details.proration.inactive_days,
+        leave_days: details.proration.leave_days,
+      },
+      result: details.proration.factor,
+      unit: "factor",
+    });
+    step({
+      key: "prorated_target_km",
+      label: "Pro-rated target KM",
+      formula: "budget_km × proration_factor",
+      inputs: { budget_km: details.budget_km, proration_factor: details.proration.factor },
+      result: result.targetKm,
+      unit: "km",
+    });
+  }
+
+  // Rate per KM
+  if (details.rate_mode === "fixed_rate" && details.rate_segments) {
+    for (const segment of details.rate_segments) {
+      step({
+        key: `rate_segment_${segment.rate_id}`,
+        label: `KM at ${segment.rate_per_km}/km (${segment.start_date} to ${segment.end_date})`,
+        formula: "actual_km × days ÷ period_days × rate_per_km",
+        inputs: {
+          actual_km: details.actual_km,
+          days: segment.days,
+          km: segment.km,
+          rate_per_km: segment.rate_per_km,
+        },
+        result: segment.amount,
+        unit: "usd",
+      });
+    }
+    step({
+      key: "rate_per_km",
+      label: "Effective rate per KM",
+      formula: "Σ rate_per_km × day share",
+      inputs: { segments: details.rate_segments.length },
+      result: details.rate_per_km,
+      unit: "rate",
+    });
+  } else {
+    step({
+      key: "rate_per_km",
+      label: "Rate per KM",
+      formula: "divisor ÷ target_km_per_truck",
+      inputs: { divisor: details.divisor, target_km_per_truck: details.target_km_per_truck },
+      result: details.rate_per_km,
+      unit: "rate",
+    });
+  }
+
+  step({
+    key: "achievement",
+    label: "Achievement",
+    formula: "actual_km ÷ prorated_target_km × 100",
+    inputs: { actual_km: details.actual_km, prorated_target_km: result.targetKm },
+    result: result.achievement,
+    unit: "percent",
+  });
+
+  // KM incentive and achievement tier
+  const tier = details.achievement_tier;
+  step({
+    key: "base_km_incentive",
+    label: "KM incentive",
+    formula: "actual_km × rate_per_km",
+    inputs: { actual_km: details.actual_km, rate_per_km: details.rate_per_km },
+    result: tier ? tier.base_km_incentive : components.km_incentive,
+    unit: "usd",
+  });
+  if (tier) {
+    step({
+      key: "achievement_tier",
+      label: `${tier.name} tier bonus (achievement ≥ ${tier.min_achievement}%)`,
+      formula:
+        tier.reward_type === "multiplier"
+          ? "base_km_incentive × (multiplier − 1)"
+          : "flat tier bonus",
+      inputs: {
+        achievement: result.achievement,
+        base_km_incentive: tier.base_km_incentive,
+        [tier.reward_type === "multiplier" ? "multiplier" : "flat_bonus"]: tier.reward_value,
+      },
+      result: tier.tier_bonus,
+      unit: "usd",
+    });
+  }
+
+  // Bonus rules matched
+  const breakdown = details.bonus_breakdown || {};
+  const formulasApplied = details.formula_applied?.split(", ") || [];
+  const bonusRule = (formulaKey: string, metric: string, threshold: number | undefined) =>
+    formulasApplied.includes(formulaKey)
+      ? `custom formula "${formulaKey}"`
+      : threshold !== undefined
+        ? `${metric} ≥ ${threshold}`
+        : `${metric} below the lowest tier`;
+
+  if (breakdown.on_time_rate !== undefined) {
+    step({
+      key: "on_time_bonus",
+      label: "On-time delivery bonus",
+      formula: bonusRule("on_time_bonus", "on_time_rate", breakdown.on_time_bonus_threshold),
+      inputs: { on_time_rate: breakdown.on_time_rate },
+      result: breakdown.on_time_bonus || 0,
+      unit: "usd",
+    });
+  }
+  if (breakdown.customer_rating !== undefined) {
+    step({
+      key: "customer_bonus",
+      label: "Customer rating bonus",
+      formula: bonusRule("customer_bonus", "customer_rating", breakdown.customer_bonus_threshold),
+      inputs: { customer_rating: breakdown.customer_rating },
+      result: breakdown.customer_bonus || 0,
+      unit: "usd",
+    });
+  }
+  if (breakdown.safety_score !== undefined) {
+    step({
+      key: "safety_bonus",
+      label: "Safety bonus",
+      formula: bonusRule("safety_bonus", "safety_score", breakdown.safety_bonus_threshold),
+      inputs: { safety_score: breakdown.safety_score },
+      result: breakdown.safety_bonus || 0,
+      unit: "usd",
+    });
+  }
+  if (breakdown.fuel_efficiency !== undefined) {
+    step({
+      key: "fuel_efficiency_bonus",
+      label: "Fuel efficiency bonus",
+      formula: breakdown.fuel_efficiency_tier
+        ? `fuel_efficiency in ${breakdown.fuel_efficiency_tier}`
+        : "no fuel tier matched",
+      inputs: { fuel_efficiency: breakdown.fuel_efficiency },
+      result: breakdown.fuel_efficiency_bonus || 0,
+      unit: "usd",
+    });
+  }
+
+  const grossIncentive = details.gross_incentive ?? components.km_incentive + components.performance_bonus + components.safety_bonus;
+  step({
+    key: "gross_incentive",
+    label: "Gross incentive",
+    formula: "km_incentive + performance_bonus + safety_bonus + fuel_bonus",
+    inputs: {
+      km_incentive: components.km_incentive,
+      performance_bonus: components.performance_bonus,
+      safety_bonus: components.safety_bonus,
+      fuel_bonus: breakdown.fuel_efficiency_bonus || 0,
+    },
+    result: grossIncentive,
+    unit: "usd",
+  });
+
+  // Deductions
+  for (const line of details.deduction_lines || []) {
+    step({
+      key: `deduction_${line.rule_id}`,
+      label: `Deduction: ${line.label}`,
+      formula: line.capped ? "basis × percentage (capped)" : "basis × percentage",
+      inputs: {
+        basis: line.basis,
+        percentage: line.percentage,
+        ...(line.days !== undefined ? { days: line.days } : {}),
+      },
+      result: -line.amount,
+      unit: "usd",
+    });
+  }
+
+  step({
+    key: "net_incentive",
+    label: "Net incentive",
+    formula: "gross_incentive − deductions",
+    inputs: { gross_incentive: grossIncentive, deductions: components.deductions },
+    result: grossIncentive - components.deductions,
+    unit: "usd",
+  });
+
+  // Cap, floor and pool
+  const limits = details.incentive_limits;
+  if (limits) {
+    if (limits.cap !== null) {
+      step({
+        key: "incentive_cap",
+        label: limits.capped ? "Capped at per-driver maximum" : "Per-driver cap (not reached)",
+        formula: "min(net_incentive, cap)",
+        inputs: { net_incentive: limits.pre_cap_incentive, cap: limits.cap },
+        result: Math.min(limits.pre_cap_incentive, limits.cap),
+        unit: "usd",
+      });
+    }
+    if (limits.floor !== null) {
+      step({
+        key: "incentive_floor",
+        label: limits.floored ? "Raised to minimum guarantee" : "Minimum guarantee (not needed)",
+        formula: "max(incentive, pro-rated floor)",
+        inputs: { floor: limits.floor },
+        result: limits.pre_pool_incentive,
+        unit: "usd",
+      });
+    } else if (limits.floor_forfeited) {
+      step({
+        key: "incentive_floor",
+        label: "Minimum guarantee forfeited",
+        formula: "no floor: suspension forfeiture, or deductions took the incentive to zero or below",
+        inputs: { incentive: limits.pre_pool_incentive },
+        result: limits.pre_pool_incentive,
+        unit: "usd",
+      });
+    }
+    if (limits.pool_amount !== null) {
+      step({
+        key: "incentive_pool",
+        label: limits.pool_held_at_floor
+          ? "Monthly pool scaling (held at minimum guarantee)"
+          : "Monthly pool scaling",
+        formula: limits.pool_held_at_floor
+          ? "floor; the minimum guarantee takes precedence over the pool"
+          : "incentive × pool_scaling_factor, applied to each component",
+        inputs: {
+          incentive: limits.pre_pool_incentive,
+          pool_amount: limits.pool_amount,
+          pool_scaling_factor: limits.pool_scaling_factor,
+        },
+        result: result.totalIncentive,
+        unit: "usd",
+      });
+    }
+  }
+
+  step({
+    key: "total_incentive",
+    label: "Total incentive",
+    formula: limits ? "net incentive within cap, floor and pool" : "net_incentive",
+    inputs: {},
+    result: result.totalIncentive,
+    unit: "usd",
+  });
+
+  // Base salary and earnings
+  const salary = details.base_salary;
+  if (salary) {
+    step({
+      key: "base_salary",
+      label: "Base salary",
+      formula: salary.conversion_rate ? "usd_base_salary + zig_base_salary ÷ conversion_rate" : "usd_base_salary",
+      inputs: {
+        usd_base_salary: salary.usd_base_salary,
+        zig_base_salary: salary.zig_base_salary,
+        conversion_rate: salary.conversion_rate,
+      },
+      result: salary.base_salary_usd,
+      unit: "usd",
+    });
+  }
+  step({
+    key: "total_earnings",
+    label: "Total earnings",
+    formula: "base_salary + total_incentive",
+    inputs: { base_salary: result.baseSalary, total_incentive: result.totalIncentive },
+    result: result.totalEarnings,
+    unit: "usd",
+  });
+
+  // Payout currencies
+  const split = details.payout_split;
+  if (split && split.usd_percentage < 100) {
+    step({
+      key: "payout_usd",
+      label: "Incentive paid in USD",
+      formula: "total_incentive × usd_percentage",
+      inputs: { total_incentive: result.totalIncentive, usd_percentage: split.usd_percentage },
+      result: split.usd_amount,
+      unit: "usd",
+    });
+    step({
+      key: "payout_zig",
+      label: "Incentive paid in ZIG",
+      formula: "(total_incentive − usd_paid) × conversion_rate",
+      inputs: { zig_usd_equivalent: split.zig_usd_equivalent, conversion_rate: split.conversion_rate },
+      result: split.zig_amount,
+      unit: "zig",
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Trace stored with a calculation (empty for calculations made before traces were recorded)
+ */
+export function getStoredTrace(details: unknown): CalculationTraceStep[] {
+  const trace = (details as { trace?: unknown } | null)?.trace;
+  return Array.isArray(trace) ? (trace as CalculationTraceStep[]) : [];
+}
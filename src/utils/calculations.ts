@@ -4,14 +4,45 @@
  */
 
 import type {
+    AchievementTier,
+    AchievementTierConfig,
     CustomFormula,
+    DeductionRulesConfig,
     Driver,
     DriverPerformance,
+    DriverSalaryHistory,
     FuelEfficiencyBonusConfig,
     IncentiveCalculation,
+    IncentiveLimitsConfig,
     IncentiveSetting,
+    Json,
+    KilometerRate,
     MonthlyBudget,
+    PayoutSplitConfig,
+    PerformanceBonusConfig,
+    PerformanceBonusConfigs,
+    PerformanceBonusMetric,
+    PerformanceBonusTier,
+    RateMode,
+    ZigUsdConversionRate,
 } from "../types/database";
+import {
+    calculateDeductions,
+    getDeductionRulesConfig,
+    summarizeDeductions,
+    type DeductionLine,
+} from "./deductions";
+import { getDriverSalaryForPeriod, getMonthName } from "./formatters";
+import { buildCalculationTrace, type CalculationTraceStep } from "./calculationTrace";
+import { evaluateFormula, FormulaError, type FormulaScope } from "./formulaEngine";
+import { getEffectiveRate, getRateSegments, priceKilometers, type RateSegment } from "./kilometerRates";
+import {
+    calculateAvailability,
+    filterDriverRecords,
+    type DriverPeriodRecords,
+    type ProrationDetails,
+} from "./periods";
+import { getSettingsVersion, resolveSettingsForPeriod, type SettingsVersion } from "./settingsVersions";
 
 // ============================================
 // TYPES
@@ -23,7 +54,25 @@ export interface CalculationInput {
   budget: MonthlyBudget | null;
   divisor: number;
   formulas: CustomFormula[];
+  /** "fixed_rate" prices KM from kilometerRates instead of divisor ÷ target KM per truck */
+  rateMode?: RateMode;
+  kilometerRates?: KilometerRate[];
   fuelEfficiencyConfig?: FuelEfficiencyBonusConfig;
+  /** On-time, customer rating and safety bonus tiers (defaults to DEFAULT_PERFORMANCE_BONUSES) */
+  performanceBonusConfigs?: PerformanceBonusConfigs;
+  achievementTierConfig?: AchievementTierConfig;
+  /** When provided, the base salary is derived for the calculated month instead of the driver's current salary */
+  salaryHistory?: DriverSalaryHistory[];
+  conversionRates?: ZigUsdConversionRate[];
+  /** Deduction rules and this driver's accidents/incidents/leave/disciplinary/status records */
+  deductionRules?: DeductionRulesConfig;
+  records?: DriverPeriodRecords;
+  /** Per-driver cap and minimum guaranteed incentive (the pool is applied by batchCalculateIncentives) */
+  incentiveLimits?: IncentiveLimitsConfig;
+  /** Share of the incentive paid in USD and ZIG (defaults to all USD) */
+  payoutSplit?: PayoutSplitConfig;
+  /** incentive_settings versions the divisor and configs were resolved from */
+  settingsVersion?: SettingsVersion;
 }
 
 export interface CalculationResult {
@@ -43,7 +92,11 @@ export interface CalculationResult {
   deductionReason: string | null;
   totalIncentive: number;
   totalEarnings: number;
+  /** totalIncentive split into the USD paid and the ZIG paid (in ZIG) */
+  incentiveUsd: number;
+  incentiveZig: number;
   achievement: number;
+  settingsVersionId: string | null;
   calculationDetails: CalculationDetails;
 }
 
@@ -54,30 +107,117 @@ export interface CalculationDetails {
   divisor: number;
   rate_per_km: number;
   actual_km: number;
+  rate_mode?: RateMode;
+  rate_segments?: RateSegment[];
   formula_applied?: string;
   bonus_breakdown?: BonusBreakdown;
+  base_salary?: BaseSalaryDetails;
+  gross_incentive?: number;
+  deduction_lines?: DeductionLine[];
+  proration?: ProrationDetails;
+  achievement_tier?: AchievementTierDetails | null;
+  incentive_limits?: IncentiveLimitDetails;
+  payout_split?: PayoutSplitDetails;
+  settings_versions?: Record<string, string>;
+  /** Ordered steps from budget KM to payout, for explaining the numbers */
+  trace?: CalculationTraceStep[];
+}
+
+export interface PayoutSplitDetails {
+  usd_percentage: number;
+  usd_amount: number;
+  zig_usd_equivalent: number;     // USD value of the ZIG part
+  zig_amount: number;             // ZIG paid (zig_usd_equivalent x conversion rate)
+  conversion_rate: number | null;
+  conversion_rate_id: string | null;
+  conversion_rate_year: number | null;
+  conversion_rate_month: number | null;
+}
+
+export interface IncentiveLimitDetails {
+  pre_cap_incentive: number;      // incentive after deductions, before cap, floor and pool
+  cap: number | null;
+  floor: number | null;           // pro-rated for partial months
+  capped: boolean;
+  floored: boolean;
+  floor_forfeited: boolean;       // no guarantee: suspension forfeiture, or deductions took the incentive to zero or below
+  pool_amount: number | null;
+  pre_pool_incentive: number;     // incentive after cap and floor
+  pool_scaling_factor: number;    // 1 when the pool was not exceeded; applied to the total and each component
+  pool_held_at_floor: boolean;    // the floor takes precedence: scaling stopped at the minimum guarantee
+  pre_pool_components: PoolComponents | null;  // stored components before pool scaling
+}
+
+/** Stored incentive components, scaled together with the total by the pool */
+export interface PoolComponents {
+  km_incentive: number;
+  performance_bonus: number;
+  safety_bonus: number;
+  deductions: number;
+}
+
+export interface AchievementTierDetails {
+  tier_id: string;
+  name: string;
+  min_achievement: number;
+  reward_type: AchievementTier["reward_type"];
+  reward_value: number;
+  base_km_incentive: number;
+  tier_bonus: number;
+}
+
+export interface BaseSalaryDetails {
+  source: "salary_history" | "driver_record";
+  salary_record_id: string | null;
+  salary_year: number | null;
+  salary_month: number | null;
+  usd_base_salary: number;
+  zig_base_salary: number;
+  conversion_rate: number | null;
+  conversion_rate_id: string | null;
+  conversion_rate_year: number | null;
+  conversion_rate_month: number | null;
+  base_salary_usd: number;
 }
 
 export interface BonusBreakdown {
   safety_score?: number;
   safety_bonus_rate?: number;
   safety_bonus?: number;
+  safety_bonus_threshold?: number;
   on_time_rate?: number;
   on_time_bonus?: number;
+  on_time_bonus_threshold?: number;
   customer_rating?: number;
   customer_bonus?: number;
+  customer_bonus_threshold?: number;
   fuel_efficiency?: number;
   fuel_efficiency_bonus?: number;
   fuel_efficiency_tier?: string;
 }
 
+/** Changes a what-if scenario makes to the driver's month (undefined = keep the actual value) */
+export interface WhatIfAdjustments {
+  additionalKm?: number;
+  fuelEfficiency?: number;
+  safetyScore?: number;
+  onTimeRate?: number;
+  customerRating?: number;
+}
+
+export interface WhatIfScenarioInput extends WhatIfAdjustments {
+  name: string;
+}
+
 export interface WhatIfScenario {
   scenarioName: string;
+  adjustments: WhatIfAdjustments;
   additionalKm: number;
   projectedKm: number;
   projectedIncentive: number;
   projectedEarnings: number;
   projectedAchievement: number;
+  result: CalculationResult;
   difference: {
     km: number;
     incentive: number;
@@ -86,6 +226,15 @@ export interface WhatIfScenario {
   };
 }
 
+export interface BatchCalculationContext {
+  salaryHistory?: DriverSalaryHistory[];
+  conversionRates?: ZigUsdConversionRate[];
+  /** Records for all drivers in the period; filtered per driver by the batch */
+  records?: DriverPeriodRecords;
+  /** Needed when a driver type uses the fixed rate table */
+  kilometerRates?: KilometerRate[];
+}
+
 export interface BatchCalculationResult {
   success: CalculationResult[];
   failed: { driverId: string; driverName: string; reason: string }[];
@@ -95,14 +244,34 @@ export interface BatchCalculationResult {
     failedCount: number;
     totalIncentives: number;
     totalEarnings: number;
+    pools: Record<"local" | "export", PoolUtilisation | null>;
   };
 }
 
+export interface PoolUtilisation {
+  poolAmount: number;
+  requested: number;              // total incentives before pool scaling
+  paid: number;                   // total incentives after pool scaling
+  utilisation: number;            // requested as % of the pool
+  scalingFactor: number;          // 1 when the pool was not exceeded; drivers held at their floor scale less
+  heldAtFloor: number;            // drivers the pool would have pushed below their minimum guarantee
+}
+
 export interface AuditEntry {
   id?: string;
   tableName: string;
   recordId: string;
-  action: "insert" | "update" | "delete" | "batch_calculate" | "approve" | "rollback";
+  action:
+    | "insert"
+    | "update"
+    | "delete"
+    | "batch_calculate"
+    | "approve"
+    | "rollback"
+    | "close_period"
+    | "reopen_period"
+    | "recalculate"
+    | "period_bonus_run";
   oldValues: Record<string, unknown> | null;
   newValues: Record<string, unknown> | null;
   changedBy: string;
@@ -129,52 +298,148 @@ export interface CalculationSnapshot {
 
 /**
  * Calculate incentive for a single driver
+ * Throws FormulaError when an active custom formula cannot be parsed or evaluated.
  */
 export function calculateDriverIncentive(input: CalculationInput): CalculationResult {
-  const { driver, performance, budget, divisor, formulas, fuelEfficiencyConfig } = input;
+  const {
+    driver,
+    performance,
+    budget,
+    divisor,
+    formulas,
+    fuelEfficiencyConfig,
+    performanceBonusConfigs,
+    achievementTierConfig,
+  } = input;
+
+  const salary = resolvePeriodBaseSalary(
+    driver,
+    performance.year,
+    performance.month,
+    input.salaryHistory,
+    input.conversionRates
+  );
+  const baseSalary = salary.base_salary_usd;
 
   const budgetKm = budget?.budgeted_kilometers || 0;
   const truckCount = budget?.truck_count || 1;
   const targetKmPerTruck = truckCount > 0 ? budgetKm / truckCount : 0;
   const actualKm = performance.actual_kilometers;
 
-  // Calculate rate per KM: Divisor ÷ Target KM per Truck
-  const ratePerKm = targetKmPerTruck > 0 && divisor > 0 ? divisor / targetKmPerTruck : 0;
-
-  // Calculate KM incentive
-  const kmIncentive = actualKm * ratePerKm;
+  // Pro-rate targets for days before hire, inactive/suspended/terminated days and approved leave
+  const proration = calculateAvailability(driver, performance.year, performance.month, input.records);
+  const proratedBudgetKm = budgetKm * proration.factor;
+  const proratedTargetKmPerTruck = targetKmPerTruck * proration.factor;
 
-  // Calculate achievement percentage
-  const achievement = budgetKm > 0 ? (actualKm / budgetKm) * 100 : 0;
+  // Calculate rate per KM: Divisor ÷ Target KM per Truck
+  // (full-month target, so each KM pays the same and the incentive scales with days worked)
+  // In fixed rate mode, KM before and after a mid-month rate change are priced separately
+  const rateMode = input.rateMode || "divisor";
+  const rateSegments =
+    rateMode === "fixed_rate"
+      ? priceKilometers(
+          performance.actual_kilometers,
+          getRateSegments(input.kilometerRates || [], driver.driver_type, performance.year, performance.month)
+        )
+      : undefined;
+  const ratePerKm = rateSegments
+    ? getEffectiveRate(rateSegments)
+    : targetKmPerTruck > 0 && divisor > 0 ? divisor / targetKmPerTruck : 0;
+
+  // Calculate achievement percentage against the pro-rated target
+  const achievement = proratedBudgetKm > 0 ? (actualKm / proratedBudgetKm) * 100 : 0;
+
+  // Calculate KM incentive, uplifted by the achievement tier reached
+  const baseKmIncentive = actualKm * ratePerKm;
+  const achievementTier = applyAchievementTier(baseKmIncentive, achievement, achievementTierConfig);
+  const kmIncentive = baseKmIncentive + (achievementTier?.tier_bonus || 0);
+
+  // Variables exposed to custom formulas
+  const scope = buildFormulaScope(driver, performance, {
+    base_salary: baseSalary,
+    budget_km: budgetKm,
+    truck_count: truckCount,
+    target_km_per_truck: targetKmPerTruck,
+    divisor,
+    rate_per_km: ratePerKm,
+    km_incentive: kmIncentive,
+    achievement,
+    prorated_budget_km: proratedBudgetKm,
+    prorated_target_km_per_truck: proratedTargetKmPerTruck,
+    proration_factor: proration.factor,
+    available_days: proration.available_days,
+  });
 
   // Calculate bonuses based on performance metrics (including fuel efficiency)
-  const bonusBreakdown = calculateBonuses(performance, formulas, fuelEfficiencyConfig);
+  const { breakdown: bonusBreakdown, formulasApplied } = calculateBonuses(
+    performance,
+    getApplicableFormulas(formulas, driver.driver_type),
+    scope,
+    fuelEfficiencyConfig,
+    performanceBonusConfigs
+  );
   const performanceBonus = (bonusBreakdown.on_time_bonus || 0) + (bonusBreakdown.customer_bonus || 0);
   const safetyBonus = bonusBreakdown.safety_bonus || 0;
   const fuelEfficiencyBonus = bonusBreakdown.fuel_efficiency_bonus || 0;
 
-  // Total incentive (KM + bonuses + fuel efficiency bonus - deductions)
-  const totalIncentive = kmIncentive + performanceBonus + safetyBonus + fuelEfficiencyBonus;
-  const totalEarnings = driver.base_salary + totalIncentive;
+  const grossIncentive = kmIncentive + performanceBonus + safetyBonus + fuelEfficiencyBonus;
 
-  return {
+  // Deductions from incidents, accidents, unpaid leave and suspensions
+  const deductionLines = calculateDeductions(input.deductionRules, input.records, {
+    driverType: driver.driver_type,
+    year: performance.year,
+    month: performance.month,
+    baseSalary,
+    grossIncentive,
+  });
+  const deductions = deductionLines.reduce((sum, line) => sum + line.amount, 0);
+
+  // Total incentive (KM + bonuses + fuel efficiency bonus - deductions), within the cap and floor
+  // A suspension forfeiture, or deductions wiping out the incentive, forfeits the minimum guarantee
+  const netIncentive = grossIncentive - deductions;
+  const floorForfeited =
+    (deductions > 0 && netIncentive <= 0) ||
+    deductionLines.some((line) => line.rule_type === "suspension_forfeit" && line.amount > 0);
+  const limits = applyIncentiveLimits(
+    netIncentive,
+    baseSalary,
+    proration.factor,
+    floorForfeited,
+    input.incentiveLimits
+  );
+  const totalIncentive = limits ? limits.pre_pool_incentive : netIncentive;
+  const totalEarnings = baseSalary + totalIncentive;
+
+  // Split the incentive into USD and ZIG at the month's conversion rate
+  const payoutSplit = splitPayout(
+    totalIncentive,
+    getUsdPercentage(input.payoutSplit, driver.driver_type),
+    input.conversionRates || [],
+    performance.year,
+    performance.month
+  );
+
+  const result: CalculationResult = {
     driverId: driver.id,
     driverName: `${driver.first_name} ${driver.last_name}`,
     year: performance.year,
     month: performance.month,
-    baseSalary: driver.base_salary,
+    baseSalary,
     actualKm,
-    targetKm: budgetKm,
-    targetKmPerTruck,
+    targetKm: proratedBudgetKm,
+    targetKmPerTruck: proratedTargetKmPerTruck,
     ratePerKm,
     kmIncentive,
     performanceBonus,
     safetyBonus,
-    deductions: 0,
-    deductionReason: null,
+    deductions,
+    deductionReason: summarizeDeductions(deductionLines),
     totalIncentive,
     totalEarnings,
+    incentiveUsd: payoutSplit.usd_amount,
+    incentiveZig: payoutSplit.zig_amount,
     achievement,
+    settingsVersionId: input.settingsVersion?.id ?? null,
     calculationDetails: {
       budget_km: budgetKm,
       truck_count: truckCount,
@@ -182,9 +447,199 @@ export function calculateDriverIncentive(input: CalculationInput): CalculationRe
       divisor,
       rate_per_km: ratePerKm,
       actual_km: actualKm,
+      rate_mode: rateMode,
+      rate_segments: rateSegments,
+      formula_applied: formulasApplied.length > 0 ? formulasApplied.join(", ") : undefined,
       bonus_breakdown: bonusBreakdown,
+      base_salary: salary,
+      gross_incentive: grossIncentive,
+      deduction_lines: deductionLines,
+      proration,
+      achievement_tier: achievementTier,
+      incentive_limits: limits ?? undefined,
+      payout_split: payoutSplit,
+      settings_versions: input.settingsVersion?.keys,
     },
   };
+
+  result.calculationDetails.trace = buildCalculationTrace(result);
+  return result;
+}
+
+/**
+ * Resolve the USD base salary in force for a period.
+ * Uses the driver's salary history (exact month, else the latest earlier record)
+ * and that month's ZIG/USD rate (else the latest earlier rate). Without history
+ * the driver's current base_salary is used, as before.
+ * Throws when a ZIG component exists but no conversion rate is known for the period.
+ */
+export function resolvePeriodBaseSalary(
+  driver: Driver,
+  year: number,
+  month: number,
+  salaryHistory: DriverSalaryHistory[] = [],
+  conversionRates: ZigUsdConversionRate[] = []
+): BaseSalaryDetails {
+  const { usdBaseSalary, zigBaseSalary, record } = getDriverSalaryForPeriod(
+    driver.id,
+    year,
+    month,
+    salaryHistory,
+    driver
+  );
+
+  if (!record) {
+    return {
+      source: "driver_record",
+      salary_record_id: null,
+      salary_year: null,
+      salary_month: null,
+      usd_base_salary: driver.usd_base_salary,
+      zig_base_salary: driver.zig_base_salary,
+      conversion_rate: null,
+      conversion_rate_id: null,
+      conversion_rate_year: null,
+      conversion_rate_month: null,
+      base_salary_usd: driver.base_salary,
+    };
+  }
+
+  const rate = zigBaseSalary > 0 ? findConversionRateForPeriod(conversionRates, year, month) : null;
+  if (zigBaseSalary > 0 && !rate) {
+    throw new Error(`No ZIG/USD conversion rate on or before ${getMonthName(month)} ${year}`);
+  }
+
+  return {
+    source: "salary_history",
+    salary_record_id: record.id,
+    salary_year: record.year,
+    salary_month: record.month,
+    usd_base_salary: usdBaseSalary,
+    zig_base_salary: zigBaseSalary,
+    conversion_rate: rate?.rate ?? null,
+    conversion_rate_id: rate?.id ?? null,
+    conversion_rate_year: rate?.year ?? null,
+    conversion_rate_month: rate?.month ?? null,
+    base_salary_usd: usdBaseSalary + (rate ? zigBaseSalary / rate.rate : 0),
+  };
+}
+
+/**
+ * ZIG/USD rate for a period, falling back to the most recent earlier month
+ */
+export function findConversionRateForPeriod(
+  conversionRates: ZigUsdConversionRate[],
+  year: number,
+  month: number
+): ZigUsdConversionRate | null {
+  const candidates = conversionRates
+    .filter((r) => r.rate > 0 && (r.year < year || (r.year === year && r.month <= month)))
+    .sort((a, b) => (a.year !== b.year ? b.year - a.year : b.month - a.month));
+  return candidates[0] || null;
+}
+
+// ============================================
+// CUSTOM FORMULAS
+// ============================================
+
+/**
+ * Formula keys the engine evaluates. An active formula for one of these keys
+ * replaces the built-in rule for that bonus; other keys are ignored.
+ */
+export const FORMULA_BONUS_KEYS = ["safety_bonus", "on_time_bonus", "customer_bonus"] as const;
+
+export type FormulaBonusKey = (typeof FORMULA_BONUS_KEYS)[number];
+
+/**
+ * Active formulas that apply to a driver type, in evaluation (priority) order
+ */
+export function getApplicableFormulas(
+  formulas: CustomFormula[],
+  driverType: "local" | "export"
+): CustomFormula[] {
+  return formulas
+    .filter((f) => f.is_active && (!f.applies_to || f.applies_to === "all" || f.applies_to === driverType))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Build the variable scope available to custom formulas
+ */
+function buildFormulaScope(
+  driver: Driver,
+  performance: DriverPerformance,
+  derived: {
+    base_salary: number;
+    budget_km: number;
+    truck_count: number;
+    target_km_per_truck: number;
+    divisor: number;
+    rate_per_km: number;
+    km_incentive: number;
+    achievement: number;
+    prorated_budget_km: number;
+    prorated_target_km_per_truck: number;
+    proration_factor: number;
+    available_days: number;
+  }
+): FormulaScope {
+  return {
+    ...derived,
+    budgeted_kilometers: derived.budget_km,
+    target_km: derived.budget_km,
+    is_export: driver.driver_type === "export" ? 1 : 0,
+    actual_km: performance.actual_kilometers,
+    actual_kilometers: performance.actual_kilometers,
+    trips_completed: performance.trips_completed,
+    fuel_efficiency: performance.fuel_efficiency,
+    on_time_delivery_rate: performance.on_time_delivery_rate,
+    on_time_rate: performance.on_time_delivery_rate,
+    customer_rating: performance.customer_rating,
+    safety_score: performance.safety_score,
+  };
+}
+
+/**
+ * Numeric constants declared in a formula's `variables` JSON.
+ * Accepts `{ "threshold": 95 }` or `{ "threshold": { "value": 95 } }`;
+ * descriptive (string) entries are ignored.
+ */
+function getFormulaConstants(variables: Json | null): Record<string, number> {
+  const constants: Record<string, number> = {};
+  if (!variables || typeof variables !== "object" || Array.isArray(variables)) {
+    return constants;
+  }
+
+  for (const [name, raw] of Object.entries(variables)) {
+    if (typeof raw === "number") {
+      constants[name] = raw;
+    } else if (raw && typeof raw === "object" && !Array.isArray(raw) && typeof raw.value === "number") {
+      constants[name] = raw.value;
+    }
+  }
+  return constants;
+}
+
+/**
+ * Evaluate a custom formula. Engine variables take precedence over the
+ * formula's own constants so a formula cannot shadow real performance data.
+ */
+export function evaluateCustomFormula(formula: CustomFormula, scope: FormulaScope): number {
+  try {
+    return evaluateFormula(formula.formula_expression, {
+      ...getFormulaConstants(formula.variables),
+      ...scope,
+    });
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      throw new FormulaError(
+        `Formula "${formula.formula_name}" (${formula.formula_key}) ${error.kind} error: ${error.message}`,
+        error.kind,
+        error.position
+      );
+    }
+    throw error;
+  }
 }
 
 /**
@@ -193,48 +648,69 @@ export function calculateDriverIncentive(input: CalculationInput): CalculationRe
 function calculateBonuses(
   performance: DriverPerformance,
   formulas: CustomFormula[],
-  fuelEfficiencyConfig?: FuelEfficiencyBonusConfig
-): BonusBreakdown {
+  scope: FormulaScope,
+  fuelEfficiencyConfig?: FuelEfficiencyBonusConfig,
+  bonusConfigs: PerformanceBonusConfigs = DEFAULT_PERFORMANCE_BONUSES
+): { breakdown: BonusBreakdown; formulasApplied: string[] } {
   const breakdown: BonusBreakdown = {};
+  const formulasApplied: string[] = [];
+
+  // Evaluate bonus formulas in priority order; each result is added to the
+  // scope so later formulas can build on earlier ones
+  const metricFor: Record<FormulaBonusKey, number | null> = {
+    safety_bonus: performance.safety_score,
+    on_time_bonus: performance.on_time_delivery_rate,
+    customer_bonus: performance.customer_rating,
+  };
+  const formulaResults: Partial<Record<FormulaBonusKey, number>> = {};
+  const formulaScope: FormulaScope = { ...scope };
+
+  for (const formula of formulas) {
+    const key = formula.formula_key as FormulaBonusKey;
+    if (!FORMULA_BONUS_KEYS.includes(key) || key in formulaResults) continue;
+    if (metricFor[key] === null || metricFor[key] === undefined) continue;
+
+    const value = evaluateCustomFormula(formula, formulaScope);
+    formulaResults[key] = value;
+    formulaScope[key] = value;
+    formulasApplied.push(formula.formula_key);
+  }
 
   // Safety bonus calculation
   if (performance.safety_score !== null && performance.safety_score !== undefined) {
     breakdown.safety_score = performance.safety_score;
-    // Apply safety formula if exists, otherwise use default
-    const safetyFormula = formulas.find(
-      (f) => f.formula_key === "safety_bonus" && f.is_active
-    );
-    if (safetyFormula) {
-      try {
-        // Simple evaluation - in production use a proper formula parser
-        const safetyBonus = performance.safety_score >= 95 ? 500 : performance.safety_score >= 90 ? 300 : 0;
-        breakdown.safety_bonus_rate = safetyBonus;
-        breakdown.safety_bonus = safetyBonus;
-      } catch {
-        breakdown.safety_bonus_rate = 0;
-        breakdown.safety_bonus = 0;
-      }
+    if (formulaResults.safety_bonus !== undefined) {
+      breakdown.safety_bonus_rate = formulaResults.safety_bonus;
+      breakdown.safety_bonus = formulaResults.safety_bonus;
     } else {
-      // Default safety bonus calculation
-      const safetyBonus = performance.safety_score >= 95 ? 500 : performance.safety_score >= 90 ? 300 : 0;
-      breakdown.safety_bonus = safetyBonus;
+      const tier = findPerformanceBonusTier(performance.safety_score, bonusConfigs.safety);
+      breakdown.safety_bonus = tier?.bonus_amount || 0;
+      if (tier) breakdown.safety_bonus_threshold = tier.min_value;
     }
   }
 
   // On-time delivery bonus
   if (performance.on_time_delivery_rate !== null && performance.on_time_delivery_rate !== undefined) {
     breakdown.on_time_rate = performance.on_time_delivery_rate;
-    const onTimeBonus = performance.on_time_delivery_rate >= 98 ? 300 : 
-                        performance.on_time_delivery_rate >= 95 ? 200 : 0;
-    breakdown.on_time_bonus = onTimeBonus;
+    if (formulaResults.on_time_bonus !== undefined) {
+      breakdown.on_time_bonus = formulaResults.on_time_bonus;
+    } else {
+      const tier = findPerformanceBonusTier(performance.on_time_delivery_rate, bonusConfigs.on_time);
+      breakdown.on_time_bonus = tier?.bonus_amount || 0;
+      if (tier) breakdown.on_time_bonus_threshold = tier.min_value;
+    }
   }
 
   // Customer rating bonus
   if (performance.customer_rating !== null && performance.customer_rating !== undefined) {
     breakdown.customer_rating = performance.customer_rating;
-    const customerBonus = performance.customer_rating >= 4.8 ? 200 : 
-                          performance.customer_rating >= 4.5 ? 100 : 0;
-    breakdown.customer_bonus = customerBonus;
+    if (formulaResults.customer_bonus !== undefined) {
+      breakdown.customer_bonus = formulaResults.customer_bonus;
+    } else {
+      const tier = findPerformanceBonusTier(performance.customer_rating, bonusConfigs.customer_rating);
+      breakdown.customer_bonus = tier?.bonus_amount || 0;
+      if (tier) breakdown.customer_bonus_threshold = tier.min_value;
+    }
   }
 
   // Fuel efficiency bonus calculation
@@ -257,7 +733,7 @@ function calculateBonuses(
     }
   }
 
-  return breakdown;
+  return { breakdown, formulasApplied };
 }
 
 // ============================================
@@ -274,21 +750,28 @@ export function batchCalculateIncentives(
   settings: IncentiveSetting[],
   formulas: CustomFormula[],
   year: number,
-  month: number
+  month: number,
+  context: BatchCalculationContext = {}
 ): BatchCalculationResult {
   const success: CalculationResult[] = [];
   const failed: { driverId: string; driverName: string; reason: string }[] = [];
 
-  // Get divisors
-  const localDivisor = getDivisor(settings, "local");
-  const exportDivisor = getDivisor(settings, "export");
+  // Use the settings versions in force for the period, not today's
+  const periodSettings = resolveSettingsForPeriod(settings, year, month);
+  const settingsVersion = getSettingsVersion(periodSettings);
 
-  // Get fuel efficiency configs
-  const localFuelConfig = getFuelEfficiencyConfig(settings, "local");
-  const exportFuelConfig = getFuelEfficiencyConfig(settings, "export");
+  // Divisor, rate mode, bonus, tier, deduction and limit configs per driver type
+  const typeConfigs = {
+    local: getDriverTypeConfig(periodSettings, "local"),
+    export: getDriverTypeConfig(periodSettings, "export"),
+  };
 
-  // Filter active drivers
-  const activeDrivers = drivers.filter((d) => d.status === "active");
+  // Active drivers, plus drivers who left mid-month but have performance for the period
+  const activeDrivers = drivers.filter(
+    (d) =>
+      d.status === "active" ||
+      performances.some((p) => p.driver_id === d.id && p.year === year && p.month === month)
+  );
 
   for (const driver of activeDrivers) {
     try {
@@ -311,16 +794,17 @@ export function batchCalculateIncentives(
         (b) => b.year === year && b.month === month && b.driver_type === driver.driver_type
       ) || null;
 
-      const divisor = driver.driver_type === "export" ? exportDivisor : localDivisor;
-      const fuelConfig = driver.driver_type === "export" ? exportFuelConfig : localFuelConfig;
-
       const result = calculateDriverIncentive({
         driver,
         performance,
         budget,
-        divisor,
         formulas,
-        fuelEfficiencyConfig: fuelConfig,
+        ...typeConfigs[driver.driver_type],
+        kilometerRates: context.kilometerRates,
+        salaryHistory: context.salaryHistory,
+        conversionRates: context.conversionRates,
+        records: context.records && filterDriverRecords(context.records, driver.id),
+        settingsVersion,
       });
 
       success.push(result);
@@ -333,6 +817,18 @@ export function batchCalculateIncentives(
     }
   }
 
+  // Scale each driver type down to its pool when exceeded
+  const pools = {
+    local: applyIncentivePool(
+      success.filter((r) => isDriverType(drivers, r.driverId, "local")),
+      typeConfigs.local.incentiveLimits
+    ),
+    export: applyIncentivePool(
+      success.filter((r) => isDriverType(drivers, r.driverId, "export")),
+      typeConfigs.export.incentiveLimits
+    ),
+  };
+
   // Calculate summary
   const totalIncentives = success.reduce((sum, r) => sum + r.totalIncentive, 0);
   const totalEarnings = success.reduce((sum, r) => sum + r.totalEarnings, 0);
@@ -346,10 +842,46 @@ export function batchCalculateIncentives(
       failedCount: failed.length,
       totalIncentives,
       totalEarnings,
+      pools,
     },
   };
 }
 
+function isDriverType(drivers: Driver[], driverId: string, type: "local" | "export"): boolean {
+  return drivers.find((d) => d.id === driverId)?.driver_type === type;
+}
+
+/** Settings-driven part of a driver's CalculationInput */
+export type DriverTypeConfig = Required<
+  Pick<
+    CalculationInput,
+    | "divisor"
+    | "rateMode"
+    | "fuelEfficiencyConfig"
+    | "performanceBonusConfigs"
+    | "achievementTierConfig"
+    | "deductionRules"
+    | "incentiveLimits"
+    | "payoutSplit"
+  >
+>;
+
+/**
+ * Resolve every settings-driven input for a driver type from (period-resolved) settings
+ */
+export function getDriverTypeConfig(settings: IncentiveSetting[], type: "local" | "export"): DriverTypeConfig {
+  return {
+    divisor: getDivisor(settings, type),
+    rateMode: getRateMode(settings, type),
+    fuelEfficiencyConfig: getFuelEfficiencyConfig(settings, type),
+    performanceBonusConfigs: getPerformanceBonusConfigs(settings, type),
+    achievementTierConfig: getAchievementTierConfig(settings, type),
+    deductionRules: getDeductionRulesConfig(settings),
+    incentiveLimits: getIncentiveLimitsConfig(settings, type),
+    payoutSplit: getPayoutSplitConfig(settings),
+  };
+}
+
 /**
  * Get divisor from settings
  */
@@ -359,6 +891,15 @@ function getDivisor(settings: IncentiveSetting[], type: "local" | "export"): num
   return setting ? (setting.setting_value as number) : 1;
 }
 
+/**
+ * Get the KM rate mode from settings (divisor unless the fixed rate table is chosen)
+ */
+export function getRateMode(settings: IncentiveSetting[], type: "local" | "export"): RateMode {
+  const key = type === "local" ? "rate_mode_local" : "rate_mode_export";
+  const setting = settings.find((s) => s.setting_key === key && s.is_active);
+  return setting?.setting_value === "fixed_rate" ? "fixed_rate" : "divisor";
+}
+
 /**
  * Get fuel efficiency bonus config from settings
  */
@@ -407,41 +948,546 @@ export const DEFAULT_EXPORT_FUEL_TIERS: FuelEfficiencyBonusConfig = {
 };
 
 // ============================================
-// WHAT-IF SCENARIO CALCULATOR
+// PERFORMANCE BONUSES
 // ============================================
 
+export const PERFORMANCE_BONUS_METRICS: PerformanceBonusMetric[] = ["on_time", "customer_rating", "safety"];
+
+export const PERFORMANCE_BONUS_LABELS: Record<PerformanceBonusMetric, { label: string; unit: string }> = {
+  on_time: { label: "On-Time Delivery", unit: "%" },
+  customer_rating: { label: "Customer Rating", unit: "/5" },
+  safety: { label: "Safety Score", unit: "%" },
+};
+
 /**
- * Calculate what-if scenarios for a driver
+ * Setting key for a performance bonus config, e.g. on_time_bonus_local
  */
-export function calculateWhatIfScenarios(
-  currentResult: CalculationResult,
-  scenarios: { name: string; additionalKm: number }[]
-): WhatIfScenario[] {
-  return scenarios.map((scenario) => {
-    const projectedKm = currentResult.actualKm + scenario.additionalKm;
-    const projectedIncentive = projectedKm * currentResult.ratePerKm + 
-                               currentResult.performanceBonus + 
-                               currentResult.safetyBonus;
-    const projectedEarnings = currentResult.baseSalary + projectedIncentive;
-    const projectedAchievement = currentResult.targetKm > 0 
-      ? (projectedKm / currentResult.targetKm) * 100 
-      : 0;
+export function getPerformanceBonusSettingKey(
+  metric: PerformanceBonusMetric,
+  type: "local" | "export"
+): string {
+  return `${metric}_bonus_${type}`;
+}
 
+/**
+ * Get a performance bonus config from settings.
+ * Falls back to the defaults (the original fixed thresholds) when never configured.
+ */
+export function getPerformanceBonusConfig(
+  settings: IncentiveSetting[],
+  metric: PerformanceBonusMetric,
+  type: "local" | "export"
+): PerformanceBonusConfig {
+  const key = getPerformanceBonusSettingKey(metric, type);
+  const setting = settings.find((s) => s.setting_key === key && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as PerformanceBonusConfig;
     return {
-      scenarioName: scenario.name,
-      additionalKm: scenario.additionalKm,
-      projectedKm,
-      projectedIncentive,
-      projectedEarnings,
-      projectedAchievement,
-      difference: {
-        km: scenario.additionalKm,
-        incentive: projectedIncentive - currentResult.totalIncentive,
-        earnings: projectedEarnings - currentResult.totalEarnings,
-        achievement: projectedAchievement - currentResult.achievement,
-      },
+      enabled: config.enabled ?? false,
+      tiers: config.tiers ?? [],
     };
-  });
+  }
+
+  return DEFAULT_PERFORMANCE_BONUSES[metric];
+}
+
+/**
+ * On-time, customer rating and safety bonus configs for a driver type
+ */
+export function getPerformanceBonusConfigs(
+  settings: IncentiveSetting[],
+  type: "local" | "export"
+): PerformanceBonusConfigs {
+  return {
+    on_time: getPerformanceBonusConfig(settings, "on_time", type),
+    customer_rating: getPerformanceBonusConfig(settings, "customer_rating", type),
+    safety: getPerformanceBonusConfig(settings, "safety", type),
+  };
+}
+
+/**
+ * Find the highest tier whose threshold the metric reaches
+ */
+export function findPerformanceBonusTier(
+  value: number,
+  config: PerformanceBonusConfig | undefined
+): PerformanceBonusTier | null {
+  if (!config?.enabled) return null;
+
+  return config.tiers
+    .filter((t) => value >= t.min_value)
+    .reduce<PerformanceBonusTier | null>(
+      (best, t) => (!best || t.min_value > best.min_value ? t : best),
+      null
+    );
+}
+
+/**
+ * Default performance bonus tiers (same for Local and Export drivers)
+ */
+export const DEFAULT_PERFORMANCE_BONUSES: PerformanceBonusConfigs = {
+  on_time: {
+    enabled: true,
+    tiers: [
+      { id: "1", min_value: 95, bonus_amount: 200 },
+      { id: "2", min_value: 98, bonus_amount: 300 },
+    ],
+  },
+  customer_rating: {
+    enabled: true,
+    tiers: [
+      { id: "1", min_value: 4.5, bonus_amount: 100 },
+      { id: "2", min_value: 4.8, bonus_amount: 200 },
+    ],
+  },
+  safety: {
+    enabled: true,
+    tiers: [
+      { id: "1", min_value: 90, bonus_amount: 300 },
+      { id: "2", min_value: 95, bonus_amount: 500 },
+    ],
+  },
+};
+
+// ============================================
+// CAPS, FLOORS AND POOLS
+// ============================================
+
+/**
+ * Get incentive caps, floor and pool config from settings
+ */
+export function getIncentiveLimitsConfig(
+  settings: IncentiveSetting[],
+  type: "local" | "export"
+): IncentiveLimitsConfig {
+  const key = type === "local" ? "incentive_limits_local" : "incentive_limits_export";
+  const setting = settings.find((s) => s.setting_key === key && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as Partial<IncentiveLimitsConfig>;
+    return { ...DEFAULT_INCENTIVE_LIMITS, ...config };
+  }
+
+  return DEFAULT_INCENTIVE_LIMITS;
+}
+
+/**
+ * Default incentive limits (no cap, floor or pool)
+ */
+export const DEFAULT_INCENTIVE_LIMITS: IncentiveLimitsConfig = {
+  enabled: false,
+  cap_type: "none",
+  cap_value: 0,
+  floor_amount: 0,
+  pool_enabled: false,
+  pool_amount: 0,
+};
+
+/**
+ * Cap a driver's incentive (absolute or % of base salary), then lift it to the
+ * minimum guaranteed incentive. The floor is pro-rated for partial months and
+ * does not apply to a forfeited incentive.
+ */
+function applyIncentiveLimits(
+  incentive: number,
+  baseSalary: number,
+  prorationFactor: number,
+  floorForfeited: boolean,
+  config: IncentiveLimitsConfig | undefined
+): IncentiveLimitDetails | null {
+  if (!config?.enabled) return null;
+
+  const cap =
+    config.cap_type === "absolute"
+      ? config.cap_value
+      : config.cap_type === "percent_of_salary"
+        ? baseSalary * (config.cap_value / 100)
+        : null;
+  const floorApplies = config.floor_amount > 0 && !floorForfeited;
+  const floor = floorApplies ? config.floor_amount * prorationFactor : null;
+
+  const capped = cap !== null && incentive > cap;
+  let limited = capped ? (cap as number) : incentive;
+  const floored = floor !== null && limited < floor;
+  if (floored) limited = floor as number;
+
+  return {
+    pre_cap_incentive: incentive,
+    cap,
+    floor,
+    capped,
+    floored,
+    floor_forfeited: config.floor_amount > 0 && floorForfeited,
+    pool_amount: null,
+    pre_pool_incentive: limited,
+    pool_scaling_factor: 1,
+    pool_held_at_floor: false,
+    pre_pool_components: null,
+  };
+}
+
+/**
+ * Scale a driver type's incentives down pro-rata when their total exceeds the pool.
+ * The minimum guarantee takes precedence over the pool: a driver the pool would push
+ * below their floor is held at it, and the rest of the pool is shared pro-rata among
+ * the others (when the floors alone exceed the pool, the pool is overdrawn).
+ * The total and each stored component are scaled by the same factor, so they keep
+ * adding up. Updates the results in place and records the factor in calculation_details.
+ * Returns null when no pool is configured.
+ */
+export function applyIncentivePool(
+  results: CalculationResult[],
+  config: IncentiveLimitsConfig
+): PoolUtilisation | null {
+  if (!config.enabled || !config.pool_enabled) return null;
+
+  const pooled = results.filter((r) => r.calculationDetails.incentive_limits && r.totalIncentive > 0);
+  const requested = pooled.reduce((sum, r) => sum + r.totalIncentive, 0);
+  const floorOf = (r: CalculationResult) => r.calculationDetails.incentive_limits?.floor ?? 0;
+
+  // Hold drivers at their floor until the shared factor no longer pushes anyone below it
+  const held = new Set<CalculationResult>();
+  let scalingFactor = 1;
+  if (requested > config.pool_amount) {
+    for (;;) {
+      const heldTotal = [...held].reduce((sum, r) => sum + floorOf(r), 0);
+      const free = pooled.filter((r) => !held.has(r));
+      const freeRequested = free.reduce((sum, r) => sum + r.totalIncentive, 0);
+      scalingFactor = freeRequested > 0 ? Math.min(Math.max(config.pool_amount - heldTotal, 0) / freeRequested, 1) : 1;
+
+      const belowFloor = free.filter((r) => r.totalIncentive * scalingFactor < floorOf(r));
+      if (belowFloor.length === 0) break;
+      belowFloor.forEach((r) => held.add(r));
+    }
+  }
+
+  for (const result of results) {
+    const limits = result.calculationDetails.incentive_limits;
+    if (!limits) continue;
+
+    const factor = !pooled.includes(result)
+      ? 1
+      : held.has(result)
+        ? floorOf(result) / result.totalIncentive
+        : scalingFactor;
+
+    limits.pool_amount = config.pool_amount;
+    limits.pool_scaling_factor = factor;
+    limits.pool_held_at_floor = held.has(result);
+    limits.pre_pool_components = {
+      km_incentive: result.kmIncentive,
+      performance_bonus: result.performanceBonus,
+      safety_bonus: result.safetyBonus,
+      deductions: result.deductions,
+    };
+    if (factor !== 1) {
+      result.kmIncentive *= factor;
+      result.performanceBonus *= factor;
+      result.safetyBonus *= factor;
+      result.deductions *= factor;
+      result.totalIncentive = held.has(result) ? floorOf(result) : result.totalIncentive * factor;
+      result.totalEarnings = result.baseSalary + result.totalIncentive;
+      rescalePayoutSplit(result, factor);
+    }
+    result.calculationDetails.trace = buildCalculationTrace(result);
+  }
+
+  return {
+    poolAmount: config.pool_amount,
+    requested,
+    paid: pooled.reduce((sum, r) => sum + r.totalIncentive, 0),
+    utilisation: config.pool_amount > 0 ? (requested / config.pool_amount) * 100 : 0,
+    scalingFactor,
+    heldAtFloor: held.size,
+  };
+}
+
+// ============================================
+// PAYOUT CURRENCY SPLIT
+// ============================================
+
+export const PAYOUT_SPLIT_SETTING_KEY = "payout_currency_split";
+
+/**
+ * Default payout split (whole incentive in USD, as before)
+ */
+export const DEFAULT_PAYOUT_SPLIT: PayoutSplitConfig = {
+  mode: "usd_only",
+  usd_percentage: 100,
+  local_usd_percentage: 100,
+  export_usd_percentage: 100,
+};
+
+/**
+ * Get the payout currency split from settings
+ */
+export function getPayoutSplitConfig(settings: IncentiveSetting[]): PayoutSplitConfig {
+  const setting = settings.find((s) => s.setting_key === PAYOUT_SPLIT_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as Partial<PayoutSplitConfig>;
+    return { ...DEFAULT_PAYOUT_SPLIT, ...config };
+  }
+
+  return DEFAULT_PAYOUT_SPLIT;
+}
+
+/**
+ * Percentage of a driver type's incentive paid in USD (0-100)
+ */
+export function getUsdPercentage(config: PayoutSplitConfig | undefined, type: "local" | "export"): number {
+  if (!config || config.mode === "usd_only") return 100;
+  const percentage =
+    config.mode === "by_driver_type"
+      ? type === "local" ? config.local_usd_percentage : config.export_usd_percentage
+      : config.usd_percentage;
+  return Math.min(Math.max(percentage, 0), 100);
+}
+
+/**
+ * Split an incentive into its USD part and its ZIG part.
+ * Throws when part of it is paid in ZIG but no conversion rate is known for the period.
+ */
+function splitPayout(
+  incentive: number,
+  usdPercentage: number,
+  conversionRates: ZigUsdConversionRate[],
+  year: number,
+  month: number
+): PayoutSplitDetails {
+  const rate = usdPercentage < 100 ? findConversionRateForPeriod(conversionRates, year, month) : null;
+  if (usdPercentage < 100 && !rate) {
+    throw new Error(`No ZIG/USD conversion rate on or before ${getMonthName(month)} ${year} for the ZIG payout`);
+  }
+
+  const usdAmount = incentive * (usdPercentage / 100);
+  const zigUsdEquivalent = incentive - usdAmount;
+
+  return {
+    usd_percentage: usdPercentage,
+    usd_amount: usdAmount,
+    zig_usd_equivalent: zigUsdEquivalent,
+    zig_amount: rate ? zigUsdEquivalent * rate.rate : 0,
+    conversion_rate: rate?.rate ?? null,
+    conversion_rate_id: rate?.id ?? null,
+    conversion_rate_year: rate?.year ?? null,
+    conversion_rate_month: rate?.month ?? null,
+  };
+}
+
+// Keep the currency split in step with a pool-scaled incentive
+function rescalePayoutSplit(result: CalculationResult, factor: number): void {
+  const split = result.calculationDetails.payout_split;
+  if (!split) return;
+
+  split.usd_amount *= factor;
+  split.zig_usd_equivalent *= factor;
+  split.zig_amount *= factor;
+  result.incentiveUsd = split.usd_amount;
+  result.incentiveZig = split.zig_amount;
+}
+
+/**
+ * USD and ZIG paid for a stored calculation. Calculations made before the split
+ * existed were paid entirely in USD.
+ */
+export function getStoredPayoutSplit(calc: IncentiveCalculation): { usd: number; zig: number; conversionRate: number | null } {
+  const split = (calc.calculation_details as { payout_split?: PayoutSplitDetails } | null)?.payout_split;
+  if (!split) return { usd: calc.total_incentive, zig: 0, conversionRate: null };
+  return { usd: split.usd_amount, zig: split.zig_amount, conversionRate: split.conversion_rate };
+}
+
+// ============================================
+// ACHIEVEMENT TIERS
+// ============================================
+
+/**
+ * Get achievement tier config from settings
+ */
+export function getAchievementTierConfig(
+  settings: IncentiveSetting[],
+  type: "local" | "export"
+): AchievementTierConfig {
+  const key = type === "local" ? "achievement_tiers_local" : "achievement_tiers_export";
+  const setting = settings.find((s) => s.setting_key === key && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as AchievementTierConfig;
+    return {
+      enabled: config.enabled ?? false,
+      tiers: config.tiers ?? [],
+    };
+  }
+
+  return { enabled: false, tiers: [] };
+}
+
+/**
+ * Find the highest tier whose threshold the achievement reaches
+ */
+export function findAchievementTier(
+  achievement: number,
+  config: AchievementTierConfig | undefined
+): AchievementTier | null {
+  if (!config?.enabled) return null;
+
+  return config.tiers
+    .filter((t) => achievement >= t.min_achievement)
+    .reduce<AchievementTier | null>(
+      (best, t) => (!best || t.min_achievement > best.min_achievement ? t : best),
+      null
+    );
+}
+
+/**
+ * Assign the achievement tier and work out its uplift on the KM incentive.
+ * A multiplier scales the KM incentive; a flat tier adds a fixed kicker.
+ */
+function applyAchievementTier(
+  baseKmIncentive: number,
+  achievement: number,
+  config: AchievementTierConfig | undefined
+): AchievementTierDetails | null {
+  const tier = findAchievementTier(achievement, config);
+  if (!tier) return null;
+
+  const tierBonus =
+    tier.reward_type === "multiplier"
+      ? baseKmIncentive * (tier.reward_value - 1)
+      : tier.reward_value;
+
+  return {
+    tier_id: tier.id,
+    name: tier.name,
+    min_achievement: tier.min_achievement,
+    reward_type: tier.reward_type,
+    reward_value: tier.reward_value,
+    base_km_incentive: baseKmIncentive,
+    tier_bonus: tierBonus,
+  };
+}
+
+/**
+ * Default achievement tiers for Local drivers
+ */
+export const DEFAULT_LOCAL_ACHIEVEMENT_TIERS: AchievementTierConfig = {
+  enabled: true,
+  tiers: [
+    { id: "bronze", name: "Bronze", min_achievement: 90, reward_type: "flat", reward_value: 10 },
+    { id: "silver", name: "Silver", min_achievement: 100, reward_type: "multiplier", reward_value: 1.05 },
+    { id: "gold", name: "Gold", min_achievement: 110, reward_type: "multiplier", reward_value: 1.1 },
+    { id: "platinum", name: "Platinum", min_achievement: 120, reward_type: "multiplier", reward_value: 1.15 },
+  ],
+};
+
+/**
+ * Default achievement tiers for Export drivers
+ */
+export const DEFAULT_EXPORT_ACHIEVEMENT_TIERS: AchievementTierConfig = {
+  enabled: true,
+  tiers: [
+    { id: "bronze", name: "Bronze", min_achievement: 90, reward_type: "flat", reward_value: 15 },
+    { id: "silver", name: "Silver", min_achievement: 100, reward_type: "multiplier", reward_value: 1.05 },
+    { id: "gold", name: "Gold", min_achievement: 110, reward_type: "multiplier", reward_value: 1.1 },
+    { id: "platinum", name: "Platinum", min_achievement: 120, reward_type: "multiplier", reward_value: 1.15 },
+  ],
+};
+
+/**
+ * Badge colours for achievement tiers (unknown tier names use the primary colour)
+ */
+export function getTierBadgeColor(tierName: string): string {
+  switch (tierName.toLowerCase()) {
+    case "bronze":
+      return "bg-orange-100 text-orange-800";
+    case "silver":
+      return "bg-slate-200 text-slate-700";
+    case "gold":
+      return "bg-yellow-100 text-yellow-800";
+    case "platinum":
+      return "bg-indigo-100 text-indigo-700";
+    default:
+      return "bg-primary-100 text-primary-700";
+  }
+}
+
+/**
+ * Achievement tier recorded on a saved calculation, if any
+ */
+export function getCalculationTier(
+  calc: Pick<IncentiveCalculation, "calculation_details">
+): AchievementTierDetails | null {
+  const details = calc.calculation_details as unknown as CalculationDetails | null;
+  return details?.achievement_tier ?? null;
+}
+
+// ============================================
+// WHAT-IF SCENARIO CALCULATOR
+// ============================================
+
+/**
+ * Calculate what-if scenarios for a driver.
+ * Each scenario adjusts the performance record and runs through calculateDriverIncentive
+ * with the same settings, so bonuses, tiers, deductions and caps all apply.
+ * Throws FormulaError (or a rate/salary error) like calculateDriverIncentive.
+ */
+export function calculateWhatIfScenarios(
+  input: CalculationInput,
+  scenarios: WhatIfScenarioInput[]
+): { current: CalculationResult; scenarios: WhatIfScenario[] } {
+  const current = calculateDriverIncentive(input);
+
+  return {
+    current,
+    scenarios: scenarios.map((scenario) => {
+      const result = calculateDriverIncentive({
+        ...input,
+        performance: applyWhatIfAdjustments(input.performance, scenario),
+      });
+      const additionalKm = scenario.additionalKm || 0;
+
+      return {
+        scenarioName: scenario.name,
+        adjustments: {
+          additionalKm: scenario.additionalKm,
+          fuelEfficiency: scenario.fuelEfficiency,
+          safetyScore: scenario.safetyScore,
+          onTimeRate: scenario.onTimeRate,
+          customerRating: scenario.customerRating,
+        },
+        additionalKm,
+        projectedKm: result.actualKm,
+        projectedIncentive: result.totalIncentive,
+        projectedEarnings: result.totalEarnings,
+        projectedAchievement: result.achievement,
+        result,
+        difference: {
+          km: additionalKm,
+          incentive: result.totalIncentive - current.totalIncentive,
+          earnings: result.totalEarnings - current.totalEarnings,
+          achievement: result.achievement - current.achievement,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Apply a scenario's adjustments to a performance record
+ */
+function applyWhatIfAdjustments(
+  performance: DriverPerformance,
+  adjustments: WhatIfAdjustments
+): DriverPerformance {
+  return {
+    ...performance,
+    actual_kilometers: Math.max(performance.actual_kilometers + (adjustments.additionalKm || 0), 0),
+    fuel_efficiency: adjustments.fuelEfficiency ?? performance.fuel_efficiency,
+    safety_score: adjustments.safetyScore ?? performance.safety_score,
+    on_time_delivery_rate: adjustments.onTimeRate ?? performance.on_time_delivery_rate,
+    customer_rating: adjustments.customerRating ?? performance.customer_rating,
+  };
 }
 
 /**
@@ -450,8 +1496,8 @@ export function calculateWhatIfScenarios(
 export function generateDefaultScenarios(
   currentKm: number,
   targetKm: number
-): { name: string; additionalKm: number }[] {
-  const scenarios: { name: string; additionalKm: number }[] = [];
+): WhatIfScenarioInput[] {
+  const scenarios: WhatIfScenarioInput[] = [];
 
   // Scenario: Reach 100% target
   if (currentKm < targetKm) {
@@ -584,6 +1630,10 @@ export function formatAuditEntry(entry: AuditEntry): string {
     batch_calculate: "Batch Calculated",
     approve: "Approved",
     rollback: "Rolled Back",
+    close_period: "Period Closed",
+    reopen_period: "Period Reopened",
+    recalculate: "Recalculated",
+    period_bonus_run: "Period Bonuses Run",
   };
 
   return `${actionLabels[entry.action]} by ${entry.changedBy} on ${entry.changedAt.toLocaleString()}`;
@@ -613,9 +1663,11 @@ export function resultToIncentiveCalculation(
     total_incentive: result.totalIncentive,
     total_earnings: result.totalEarnings,
     calculation_details: result.calculationDetails as unknown as IncentiveCalculation["calculation_details"],
+    settings_version_id: result.settingsVersionId,
     status,
     approved_by: null,
     approved_date: null,
     paid_date: null,
+    payment_run_id: null,
   };
 }
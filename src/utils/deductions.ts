@@ -0,0 +1,253 @@
+/**
+ * Deductions Engine
+ * Rule-based deductions fed by accidents, incidents, leave and disciplinary records
+ */
+
+import { format, parseISO } from "date-fns";
+import type {
+    DeductionRule,
+    DeductionRulesConfig,
+    DisciplinaryRecord,
+    IncentiveSetting,
+} from "../types/database";
+import {
+    getPeriodBounds,
+    isWithinPeriod,
+    overlapDays,
+    type DriverPeriodRecords,
+    type PeriodBounds,
+} from "./periods";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DeductionLine {
+  rule_id: string;
+  rule_type: DeductionRule["type"];
+  label: string;
+  basis: number;          // amount the percentage was applied to (USD)
+  percentage: number;
+  amount: number;         // final deduction (after cap)
+  capped: boolean;
+  days?: number;          // leave / suspension days within the month
+  source_ids: string[];   // ids of the records that triggered the line
+}
+
+export interface DeductionContext {
+  driverType: "local" | "export";
+  year: number;
+  month: number;
+  baseSalary: number;
+  grossIncentive: number;
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const DEDUCTION_RULES_SETTING_KEY = "deduction_rules";
+
+/**
+ * Default deduction rules (shown in Settings, disabled until saved)
+ */
+export const DEFAULT_DEDUCTION_RULES: DeductionRulesConfig = {
+  enabled: false,
+  rules: [
+    {
+      id: "accident_damage_recovery",
+      type: "accident_damage_recovery",
+      label: "At-fault accident damage recovery",
+      enabled: true,
+      applies_to: "all",
+      percentage: 10,
+      cap: 250,
+    },
+    {
+      id: "unresolved_fines",
+      type: "unresolved_fines",
+      label: "Unresolved fines",
+      enabled: true,
+      applies_to: "all",
+      percentage: 100,
+      cap: null,
+    },
+    {
+      id: "unpaid_leave",
+      type: "unpaid_leave",
+      label: "Unpaid leave",
+      enabled: true,
+      applies_to: "all",
+      percentage: 100,
+      cap: null,
+    },
+    {
+      id: "suspension_forfeit",
+      type: "suspension_forfeit",
+      label: "Incentive forfeited during suspension",
+      enabled: true,
+      applies_to: "all",
+      percentage: 100,
+      cap: null,
+      prorate: true,
+    },
+  ],
+};
+
+export const DEDUCTION_RULE_TYPE_LABELS: Record<DeductionRule["type"], string> = {
+  accident_damage_recovery: "% of at-fault accident costs",
+  unresolved_fines: "% of unresolved fines",
+  unpaid_leave: "% of daily base salary per unpaid day",
+  suspension_forfeit: "% of gross incentive",
+};
+
+/**
+ * Get deduction rules config from settings
+ */
+export function getDeductionRulesConfig(settings: IncentiveSetting[]): DeductionRulesConfig {
+  const setting = settings.find((s) => s.setting_key === DEDUCTION_RULES_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as DeductionRulesConfig;
+    return {
+      enabled: config.enabled ?? false,
+      rules: config.rules ?? [],
+    };
+  }
+
+  return { enabled: false, rules: [] };
+}
+
+// ============================================
+// RULE EVALUATION
+// ============================================
+
+/**
+ * Apply all enabled deduction rules for one driver and month
+ */
+export function calculateDeductions(
+  config: DeductionRulesConfig | undefined,
+  records: DriverPeriodRecords | undefined,
+  context: DeductionContext
+): DeductionLine[] {
+  if (!config?.enabled || !records) return [];
+
+  const period = getPeriodBounds(context.year, context.month);
+  const lines: DeductionLine[] = [];
+
+  for (const rule of config.rules) {
+    if (!rule.enabled) continue;
+    if (rule.applies_to !== "all" && rule.applies_to !== context.driverType) continue;
+
+    const line = evaluateRule(rule, records, context, period);
+    if (line && line.amount > 0) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Human-readable summary for incentive_calculations.deduction_reason
+ */
+export function summarizeDeductions(lines: DeductionLine[]): string | null {
+  if (lines.length === 0) return null;
+  return lines.map((l) => `${l.label}: $${l.amount.toFixed(2)}`).join("; ");
+}
+
+function evaluateRule(
+  rule: DeductionRule,
+  records: DriverPeriodRecords,
+  context: DeductionContext,
+  period: PeriodBounds
+): DeductionLine | null {
+  switch (rule.type) {
+    case "accident_damage_recovery": {
+      const accidents = records.accidents.filter(
+        (a) => a.at_fault && isWithinPeriod(a.incident_date, period)
+      );
+      if (accidents.length === 0) return null;
+      const basis = accidents.reduce(
+        (sum, a) => sum + (Number(a.vehicle_damage_cost) || 0) + (Number(a.third_party_cost) || 0),
+        0
+      );
+      return buildLine(rule, basis, accidents.map((a) => a.id));
+    }
+
+    case "unresolved_fines": {
+      const incidents = records.incidents.filter(
+        (i) => !i.resolved && Number(i.fine_amount) > 0 && isWithinPeriod(i.incident_date, period)
+      );
+      if (incidents.length === 0) return null;
+      const basis = incidents.reduce((sum, i) => sum + Number(i.fine_amount), 0);
+      return buildLine(rule, basis, incidents.map((i) => i.id));
+    }
+
+    case "unpaid_leave": {
+      const leave = records.leaveRecords
+        .filter((l) => l.leave_type === "unpaid" && l.status === "approved")
+        .map((l) => ({ id: l.id, days: overlapDays(l.start_date, l.end_date, period) }))
+        .filter((l) => l.days > 0);
+      const days = leave.reduce((sum, l) => sum + l.days, 0);
+      if (days === 0) return null;
+      const dailyRate = context.baseSalary / period.days;
+      return {
+        ...buildLine(rule, dailyRate * days, leave.map((l) => l.id)),
+        days,
+      };
+    }
+
+    case "suspension_forfeit": {
+      const suspensions = records.disciplinaryRecords
+        .filter((d) => d.record_type === "suspension" && d.appeal_status !== "approved")
+        .map((d) => {
+          const { start, end } = getSuspensionRange(d);
+          return { id: d.id, days: overlapDays(start, end, period) };
+        })
+        .filter((d) => d.days > 0);
+      const days = Math.min(
+        period.days,
+        suspensions.reduce((sum, d) => sum + d.days, 0)
+      );
+      if (days === 0 || context.grossIncentive <= 0) return null;
+      const basis = rule.prorate
+        ? context.grossIncentive * (days / period.days)
+        : context.grossIncentive;
+      return {
+        ...buildLine(rule, basis, suspensions.map((d) => d.id)),
+        days,
+      };
+    }
+  }
+}
+
+function buildLine(rule: DeductionRule, basis: number, sourceIds: string[]): DeductionLine {
+  const raw = basis * (rule.percentage / 100);
+  const capped = rule.cap !== null && rule.cap !== undefined && raw > rule.cap;
+  return {
+    rule_id: rule.id,
+    rule_type: rule.type,
+    label: rule.label,
+    basis,
+    percentage: rule.percentage,
+    amount: capped ? (rule.cap as number) : raw,
+    capped,
+    source_ids: sourceIds,
+  };
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+function getSuspensionRange(record: DisciplinaryRecord): { start: string; end: string } {
+  const start = record.start_date || record.record_date;
+  if (record.end_date) return { start, end: record.end_date };
+
+  // Open-ended suspensions run for duration_days, or a single day if unknown
+  const startDate = parseISO(start);
+  const endDate = new Date(startDate);
+  endDate.setDate(endDate.getDate() + Math.max((record.duration_days || 1) - 1, 0));
+  return { start, end: format(endDate, "yyyy-MM-dd") };
+}
@@ -6,8 +6,10 @@
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import * as XLSX from "xlsx";
-import type { Driver, DriverPerformance, IncentiveCalculation } from "../types/database";
-import { formatCurrency, formatNumber, getMonthName } from "./formatters";
+import type { Driver, DriverPerformance, IncentiveCalculation, PaymentRun } from "../types/database";
+import { getStoredPayoutSplit } from "./calculations";
+import { formatCurrency, formatDate, formatNumber, formatZigCurrency, getMonthName } from "./formatters";
+import { getPaymentRunTotals, PAYMENT_RUN_STATUS_LABELS } from "./paymentRuns";
 
 // Extend jsPDF type to include autoTable
 declare module "jspdf" {
@@ -34,6 +36,8 @@ interface MonthlyIncentiveData {
   exportKm: number;
   exportIncentive: number;
   exportFuelBonus: number;
+  usdPayout: number;
+  zigPayout: number;
 }
 
 interface DriverMonthlyData {
@@ -47,11 +51,15 @@ interface DriverMonthlyData {
     incentive: number;
     fuelBonus: number;
     combined: number;
+    usdPayout: number;
+    zigPayout: number;
   }[];
   totalKm: number;
   totalIncentive: number;
   totalFuelBonus: number;
   totalCombined: number;
+  totalUsdPayout: number;
+  totalZigPayout: number;
 }
 
 export interface ExportData {
@@ -142,6 +150,10 @@ function generateMonthlySummary(data: ExportData): MonthlyIncentiveData[] {
       .filter((c) => exportDriverIds.has(c.driver_id))
       .reduce((sum, c) => sum + getFuelBonusFromCalculation(c), 0);
 
+    // Incentive paid in each currency
+    const usdPayout = monthCalc.reduce((sum, c) => sum + getStoredPayoutSplit(c).usd, 0);
+    const zigPayout = monthCalc.reduce((sum, c) => sum + getStoredPayoutSplit(c).zig, 0);
+
     // Calculate overall totals
     const totalKm = localKm + exportKm;
     const totalIncentive = localIncentive + exportIncentive;
@@ -165,6 +177,8 @@ function generateMonthlySummary(data: ExportData): MonthlyIncentiveData[] {
       exportKm,
       exportIncentive,
       exportFuelBonus,
+      usdPayout,
+      zigPayout,
     });
   }
 
@@ -201,6 +215,7 @@ function generateDriverMonthlyData(data: ExportData): DriverMonthlyData[] {
       const incentive = calc?.total_incentive || 0;
       // Get fuel bonus from the stored calculation_details
       const fuelBonus = getFuelBonusFromCalculation(calc);
+      const payout = calc ? getStoredPayoutSplit(calc) : { usd: 0, zig: 0 };
 
       return {
         month,
@@ -208,6 +223,8 @@ function generateDriverMonthlyData(data: ExportData): DriverMonthlyData[] {
         incentive,
         fuelBonus,
         combined: incentive + fuelBonus,
+        usdPayout: payout.usd,
+        zigPayout: payout.zig,
       };
     });
 
@@ -215,6 +232,8 @@ function generateDriverMonthlyData(data: ExportData): DriverMonthlyData[] {
     const totalIncentive = monthlyData.reduce((sum, m) => sum + m.incentive, 0);
     const totalFuelBonus = monthlyData.reduce((sum, m) => sum + m.fuelBonus, 0);
     const totalCombined = totalIncentive + totalFuelBonus;
+    const totalUsdPayout = monthlyData.reduce((sum, m) => sum + m.usdPayout, 0);
+    const totalZigPayout = monthlyData.reduce((sum, m) => sum + m.zigPayout, 0);
 
     return {
       driverId: driver.id,
@@ -226,6 +245,8 @@ function generateDriverMonthlyData(data: ExportData): DriverMonthlyData[] {
       totalIncentive,
       totalFuelBonus,
       totalCombined,
+      totalUsdPayout,
+      totalZigPayout,
     };
   });
 }
@@ -459,10 +480,12 @@ export function exportToExcel(data: ExportData): void {
       ["KM Incentive", summary.totalIncentive],
       ["Fuel Efficiency Bonus", summary.totalFuelBonus],
       ["Grand Total", summary.totalCombined],
+      ["Incentive Paid in USD", summary.usdPayout],
+      ["Incentive Paid in ZIG", summary.zigPayout],
       [],
       [],
       ["DRIVER DETAILS"],
-      ["Employee ID", "Driver Name", "Type", "KM", "KM Incentive", "Fuel Bonus", "Total"],
+      ["Employee ID", "Driver Name", "Type", "KM", "KM Incentive", "Fuel Bonus", "Total", "Paid USD", "Paid ZIG"],
       ...driverData.map((d) => [
         d.employeeId,
         d.driverName,
@@ -471,6 +494,8 @@ export function exportToExcel(data: ExportData): void {
         d.totalIncentive,
         d.totalFuelBonus,
         d.totalCombined,
+        d.totalUsdPayout,
+        d.totalZigPayout,
       ]),
       [],
       ["TOTAL", "", "", 
@@ -478,6 +503,8 @@ export function exportToExcel(data: ExportData): void {
         driverData.reduce((s, d) => s + d.totalIncentive, 0),
         driverData.reduce((s, d) => s + d.totalFuelBonus, 0),
         driverData.reduce((s, d) => s + d.totalCombined, 0),
+        driverData.reduce((s, d) => s + d.totalUsdPayout, 0),
+        driverData.reduce((s, d) => s + d.totalZigPayout, 0),
       ],
     ];
 
@@ -490,6 +517,8 @@ export function exportToExcel(data: ExportData): void {
       { wch: 14 },
       { wch: 14 },
       { wch: 14 },
+      { wch: 14 },
+      { wch: 16 },
     ];
 
     XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
@@ -500,7 +529,7 @@ export function exportToExcel(data: ExportData): void {
       [`${companyName} - Incentive Report ${periodLabel}`],
       [`Generated: ${new Date().toLocaleDateString()}`],
       [],
-      ["Month", "Drivers", "Total KM", "KM Incentive", "Fuel Bonus", "Total Payment"],
+      ["Month", "Drivers", "Total KM", "KM Incentive", "Fuel Bonus", "Total Payment", "Paid USD", "Paid ZIG"],
       ...monthlyData.map((m) => [
         m.monthName,
         m.driverCount,
@@ -508,6 +537,8 @@ export function exportToExcel(data: ExportData): void {
         m.totalIncentive,
         m.totalFuelBonus,
         m.totalCombined,
+        m.usdPayout,
+        m.zigPayout,
       ]),
       [],
       [
@@ -517,6 +548,8 @@ export function exportToExcel(data: ExportData): void {
         monthlyData.reduce((s, m) => s + m.totalIncentive, 0),
         monthlyData.reduce((s, m) => s + m.totalFuelBonus, 0),
         monthlyData.reduce((s, m) => s + m.totalCombined, 0),
+        monthlyData.reduce((s, m) => s + m.usdPayout, 0),
+        monthlyData.reduce((s, m) => s + m.zigPayout, 0),
       ],
     ];
 
@@ -528,6 +561,8 @@ export function exportToExcel(data: ExportData): void {
       { wch: 14 },
       { wch: 14 },
       { wch: 16 },
+      { wch: 14 },
+      { wch: 16 },
     ];
 
     XLSX.utils.book_append_sheet(workbook, summarySheet, "Monthly Summary");
@@ -536,7 +571,7 @@ export function exportToExcel(data: ExportData): void {
     const driverRows = [
       ["Driver Details - Annual Totals"],
       [],
-      ["Employee ID", "Driver Name", "Type", "Total KM", "KM Incentive", "Fuel Bonus", "Total Payment"],
+      ["Employee ID", "Driver Name", "Type", "Total KM", "KM Incentive", "Fuel Bonus", "Total Payment", "Paid USD", "Paid ZIG"],
       ...driverData.map((d) => [
         d.employeeId,
         d.driverName,
@@ -545,6 +580,8 @@ export function exportToExcel(data: ExportData): void {
         d.totalIncentive,
         d.totalFuelBonus,
         d.totalCombined,
+        d.totalUsdPayout,
+        d.totalZigPayout,
       ]),
     ];
 
@@ -557,6 +594,8 @@ export function exportToExcel(data: ExportData): void {
       { wch: 14 },
       { wch: 14 },
       { wch: 16 },
+      { wch: 14 },
+      { wch: 16 },
     ];
 
     XLSX.utils.book_append_sheet(workbook, driverSheet, "Driver Totals");
@@ -861,6 +900,10 @@ export interface DriverEarningsExportData {
     deductions: number;
     totalIncentive: number;
     totalEarnings: number;
+    /** Incentive paid in USD and in ZIG (from the stored payout split) */
+    incentiveUsd?: number;
+    incentiveZig?: number;
+    payoutRate?: number | null;
   }[];
   yearOverYearData?: {
     month: string;
@@ -875,6 +918,13 @@ export interface DriverEarningsExportData {
     totalEarnings: number;
     incentivePercent: number;
   }[];
+  /** Quarterly and annual bonus lines paid in the year (separate from monthly incentives) */
+  periodBonuses?: {
+    period: string;
+    label: string;
+    amount: number;
+    status: string;
+  }[];
   chartImages?: {
     earningsChart?: string;
     yearOverYearChart?: string;
@@ -895,6 +945,7 @@ export function exportDriverEarningsToPDF(data: DriverEarningsExportData): void
     monthlyEarnings,
     yearOverYearData,
     annualSummary,
+    periodBonuses,
     chartImages 
   } = data;
   
@@ -1093,6 +1144,106 @@ export function exportDriverEarningsToPDF(data: DriverEarningsExportData): void
     },
   });
 
+  // Incentive payout by currency (USD and ZIG side by side)
+  const payoutMonths = monthlyEarnings.filter((e) => e.incentiveUsd !== undefined || e.incentiveZig !== undefined);
+  if (payoutMonths.length > 0) {
+    currentY = doc.lastAutoTable.finalY + 12;
+    if (currentY > pageHeight - 60) {
+      currentY = addNewPage();
+    }
+
+    doc.setFontSize(12);
+    doc.setTextColor(33, 37, 41);
+    doc.text("Incentive Payout by Currency", 14, currentY);
+
+    autoTable(doc, {
+      startY: currentY + 4,
+      head: [["Month", "Paid in USD", "Paid in ZIG", "ZIG Rate", "ZIG in USD"]],
+      body: payoutMonths.map((e) => [
+        getMonthName(e.month).substring(0, 3),
+        formatCurrency(e.incentiveUsd || 0),
+        `ZIG ${formatNumber(e.incentiveZig || 0, 2)}`,
+        e.payoutRate ? formatNumber(e.payoutRate, 2) : "-",
+        formatCurrency(e.payoutRate ? (e.incentiveZig || 0) / e.payoutRate : 0),
+      ]),
+      foot: [
+        [
+          "TOTAL",
+          formatCurrency(payoutMonths.reduce((s, e) => s + (e.incentiveUsd || 0), 0)),
+          `ZIG ${formatNumber(payoutMonths.reduce((s, e) => s + (e.incentiveZig || 0), 0), 2)}`,
+          "",
+          formatCurrency(
+            payoutMonths.reduce((s, e) => s + (e.payoutRate ? (e.incentiveZig || 0) / e.payoutRate : 0), 0)
+          ),
+        ],
+      ],
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+      },
+      headStyles: {
+        fillColor: [59, 130, 246],
+        textColor: 255,
+        fontStyle: "bold",
+      },
+      footStyles: {
+        fillColor: [34, 197, 94],
+        textColor: 255,
+        fontStyle: "bold",
+      },
+      columnStyles: {
+        0: { cellWidth: 20 },
+        1: { halign: "right" },
+        2: { halign: "right" },
+        3: { halign: "right" },
+        4: { halign: "right" },
+      },
+    });
+  }
+
+  // Quarterly and annual bonuses (their own payslip lines)
+  if (periodBonuses && periodBonuses.length > 0) {
+    currentY = doc.lastAutoTable.finalY + 12;
+    if (currentY > pageHeight - 60) {
+      currentY = addNewPage();
+    }
+
+    doc.setFontSize(12);
+    doc.setTextColor(33, 37, 41);
+    doc.text("Quarterly & Annual Bonuses", 14, currentY);
+
+    autoTable(doc, {
+      startY: currentY + 4,
+      head: [["Period", "Bonus", "Status", "Amount"]],
+      body: periodBonuses.map((b) => [
+        b.period,
+        b.label,
+        b.status.replace("_", " "),
+        formatCurrency(b.amount),
+      ]),
+      foot: [["TOTAL", "", "", formatCurrency(periodBonuses.reduce((s, b) => s + b.amount, 0))]],
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+      },
+      headStyles: {
+        fillColor: [59, 130, 246],
+        textColor: 255,
+        fontStyle: "bold",
+      },
+      footStyles: {
+        fillColor: [34, 197, 94],
+        textColor: 255,
+        fontStyle: "bold",
+      },
+      columnStyles: {
+        0: { cellWidth: 22 },
+        2: { cellWidth: 30 },
+        3: { halign: "right" },
+      },
+    });
+  }
+
   // ============ PAGE 3: Charts (if provided) ============
   if (chartImages) {
     currentY = addNewPage();
@@ -1356,3 +1507,207 @@ export async function captureAllCharts(chartIds: {
   return images;
 }
 
+// ============================================
+// PAYMENT RUN EXPORT
+// ============================================
+
+export interface PaymentRunExportData {
+  run: PaymentRun;
+  calculations: IncentiveCalculation[];   // the run's calculations
+  drivers: Driver[];
+  companyName?: string;
+}
+
+// One line per calculation in the run, ordered by employee ID
+function getPaymentRunLines(data: PaymentRunExportData) {
+  return data.calculations
+    .map((calc) => {
+      const driver = data.drivers.find((d) => d.id === calc.driver_id);
+      const split = getStoredPayoutSplit(calc);
+      return {
+        employeeId: driver?.employee_id ?? "",
+        driverName: driver ? `${driver.first_name} ${driver.last_name}` : "Unknown",
+        driverType: driver?.driver_type === "export" ? "Export" : "Local",
+        incentive: calc.total_incentive,
+        usd: split.usd,
+        zig: split.zig,
+        conversionRate: split.conversionRate,
+      };
+    })
+    .sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+}
+
+/**
+ * Export a payment run summary to PDF
+ */
+export function exportPaymentRunToPDF(data: PaymentRunExportData): void {
+  const { run, companyName = "Driver Incentives" } = data;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const totals = getPaymentRunTotals(run, data.calculations);
+  const lines = getPaymentRunLines(data);
+
+  // Title
+  doc.setFontSize(20);
+  doc.setTextColor(33, 37, 41);
+  doc.text(companyName, pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(14);
+  doc.setTextColor(108, 117, 125);
+  doc.text(`Payment Run ${run.reference} - ${getMonthName(run.month)} ${run.year}`, pageWidth / 2, 28, {
+    align: "center",
+  });
+
+  doc.setFontSize(10);
+  doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, 35, {
+    align: "center",
+  });
+
+  autoTable(doc, {
+    startY: 44,
+    head: [["Description", "Value"]],
+    body: [
+      ["Status", PAYMENT_RUN_STATUS_LABELS[run.status]],
+      ["Created By", run.created_by ?? "-"],
+      ["Posted", run.posted_at ? `${formatDate(run.posted_at)} by ${run.posted_by ?? "-"}` : "Not posted"],
+      ["Drivers", totals.driver_count.toString()],
+      ["Total Incentive", formatCurrency(totals.total_incentive)],
+      ["Paid in USD", formatCurrency(totals.total_usd)],
+      ["Paid in ZIG", formatZigCurrency(totals.total_zig)],
+    ],
+    styles: {
+      fontSize: 10,
+      cellPadding: 4,
+    },
+    headStyles: {
+      fillColor: [59, 130, 246],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+    columnStyles: {
+      0: { cellWidth: 80 },
+      1: { cellWidth: 80, halign: "right" },
+    },
+  });
+
+  const lastY = doc.lastAutoTable.finalY + 15;
+  doc.setFontSize(12);
+  doc.setTextColor(33, 37, 41);
+  doc.text("Payments", 14, lastY);
+
+  autoTable(doc, {
+    startY: lastY + 4,
+    head: [["Employee ID", "Driver", "Type", "Incentive", "Paid USD", "Paid ZIG"]],
+    body: lines.map((l) => [
+      l.employeeId,
+      l.driverName,
+      l.driverType,
+      formatCurrency(l.incentive),
+      formatCurrency(l.usd),
+      formatZigCurrency(l.zig),
+    ]),
+    foot: [
+      [
+        "TOTAL",
+        "",
+        "",
+        formatCurrency(totals.total_incentive),
+        formatCurrency(totals.total_usd),
+        formatZigCurrency(totals.total_zig),
+      ],
+    ],
+    styles: {
+      fontSize: 9,
+      cellPadding: 3,
+    },
+    headStyles: {
+      fillColor: [59, 130, 246],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+    footStyles: {
+      fillColor: [243, 244, 246],
+      textColor: [33, 37, 41],
+      fontStyle: "bold",
+    },
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+  });
+
+  if (run.notes) {
+    doc.setFontSize(9);
+    doc.setTextColor(108, 117, 125);
+    doc.text(`Notes: ${run.notes}`, 14, doc.lastAutoTable.finalY + 10, { maxWidth: pageWidth - 28 });
+  }
+
+  doc.save(`Payment_Run_${run.reference}.pdf`);
+}
+
+/**
+ * Export a payment run summary to Excel
+ */
+export function exportPaymentRunToExcel(data: PaymentRunExportData): void {
+  const { run, companyName = "Driver Incentives" } = data;
+  const workbook = XLSX.utils.book_new();
+  const totals = getPaymentRunTotals(run, data.calculations);
+  const lines = getPaymentRunLines(data);
+
+  const rows = [
+    [`${companyName} - Payment Run ${run.reference}`],
+    [`Period: ${getMonthName(run.month)} ${run.year}`],
+    [`Generated: ${new Date().toLocaleDateString()}`],
+    [],
+    ["SUMMARY"],
+    ["Status", PAYMENT_RUN_STATUS_LABELS[run.status]],
+    ["Created By", run.created_by ?? ""],
+    ["Posted By", run.posted_by ?? ""],
+    ["Posted At", run.posted_at ? formatDate(run.posted_at) : ""],
+    ["Drivers", totals.driver_count],
+    ["Total Incentive (USD)", totals.total_incentive],
+    ["Paid in USD", totals.total_usd],
+    ["Paid in ZIG", totals.total_zig],
+    ["Notes", run.notes ?? ""],
+    [],
+    ["PAYMENTS"],
+    ["Employee ID", "Driver Name", "Type", "Incentive (USD)", "Paid USD", "Paid ZIG", "ZIG/USD Rate"],
+    ...lines.map((l) => [l.employeeId, l.driverName, l.driverType, l.incentive, l.usd, l.zig, l.conversionRate ?? ""]),
+    [],
+    ["TOTAL", "", "", totals.total_incentive, totals.total_usd, totals.total_zig],
+  ];
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = [
+    { wch: 22 },
+    { wch: 22 },
+    { wch: 10 },
+    { wch: 16 },
+    { wch: 14 },
+    { wch: 16 },
+    { wch: 14 },
+  ];
+
+  XLSX.utils.book_append_sheet(workbook, sheet, "Payment Run");
+  XLSX.writeFile(workbook, `Payment_Run_${run.reference}.xlsx`);
+}
+
+// ============================================
+// PAYROLL SYSTEM EXPORT
+// ============================================
+
+/**
+ * Download a payroll export file as CSV
+ */
+export function exportPayrollCsv(rows: (string | number)[][], fileName: string, delimiter: string): void {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const csv = XLSX.utils.sheet_to_csv(sheet, { FS: delimiter, blankrows: false });
+
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
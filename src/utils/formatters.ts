@@ -203,13 +203,15 @@ export function formatZigCurrency(amount: number | null | undefined): string {
  * Get driver salary for a specific period from salary history
  * Falls back to driver's current salary if no history exists
  */
-export function getDriverSalaryForPeriod(
+export function getDriverSalaryForPeriod<
+  T extends { driver_id: string; year: number; month: number; usd_base_salary: number; zig_base_salary: number },
+>(
   driverId: string,
   year: number,
   month: number,
-  salaryHistory: { driver_id: string; year: number; month: number; usd_base_salary: number; zig_base_salary: number }[],
+  salaryHistory: T[],
   driver?: { usd_base_salary?: number; zig_base_salary?: number; base_salary?: number }
-): { usdBaseSalary: number; zigBaseSalary: number; fromHistory: boolean } {
+): { usdBaseSalary: number; zigBaseSalary: number; fromHistory: boolean; record: T | null } {
   // First, try to find exact match in history
   const exactMatch = salaryHistory.find(
     (s) => s.driver_id === driverId && s.year === year && s.month === month
@@ -220,6 +222,7 @@ export function getDriverSalaryForPeriod(
       usdBaseSalary: exactMatch.usd_base_salary,
       zigBaseSalary: exactMatch.zig_base_salary,
       fromHistory: true,
+      record: exactMatch,
     };
   }
   
@@ -240,6 +243,7 @@ export function getDriverSalaryForPeriod(
       usdBaseSalary: previousSalaries[0].usd_base_salary,
       zigBaseSalary: previousSalaries[0].zig_base_salary,
       fromHistory: true,
+      record: previousSalaries[0],
     };
   }
   
@@ -248,6 +252,7 @@ export function getDriverSalaryForPeriod(
     usdBaseSalary: driver?.usd_base_salary || 0,
     zigBaseSalary: driver?.zig_base_salary || 0,
     fromHistory: false,
+    record: null,
   };
 }
 
@@ -0,0 +1,543 @@
+/**
+ * Formula Engine
+ * Sandboxed evaluator for CustomFormula.formula_expression
+ *
+ * Supported syntax:
+ * - Arithmetic: + - * / % and parentheses
+ * - Comparisons: = == != <> < <= > >=
+ * - Logic: AND, OR, NOT, TRUE, FALSE
+ * - Conditionals: IF cond THEN a ELSE b, CASE WHEN cond THEN a [WHEN ...] [ELSE b] END
+ * - Functions: min, max, round, floor, ceil, abs, clamp
+ *
+ * Expressions are parsed into an AST and walked - nothing is ever passed to eval()
+ * or Function(), and only whitelisted functions and scope variables are reachable.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FormulaScope = Record<string, number | null | undefined>;
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "unary"; operator: "-" | "+" | "not"; operand: FormulaNode }
+  | { type: "binary"; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: "conditional"; branches: { when: FormulaNode; then: FormulaNode }[]; otherwise: FormulaNode | null }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+type BinaryOperator =
+  | "+" | "-" | "*" | "/" | "%"
+  | "=" | "!=" | "<" | "<=" | ">" | ">="
+  | "and" | "or";
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "identifier"; value: string; position: number }
+  | { kind: "keyword"; value: string; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "eof"; position: number };
+
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: "parse" | "runtime",
+    public readonly position?: number
+  ) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 64;
+
+const KEYWORDS = new Set(["if", "then", "else", "case", "when", "end", "and", "or", "not", "true", "false"]);
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; fn: (...args: number[]) => number }> = {
+  min: { minArgs: 1, maxArgs: Infinity, fn: (...args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, fn: (...args) => Math.max(...args) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    fn: (value, digits = 0) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(value * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, fn: (value) => Math.floor(value) },
+  ceil: { minArgs: 1, maxArgs: 1, fn: (value) => Math.ceil(value) },
+  abs: { minArgs: 1, maxArgs: 1, fn: (value) => Math.abs(value) },
+  clamp: { minArgs: 3, maxArgs: 3, fn: (value, lo, hi) => Math.min(Math.max(value, lo), hi) },
+};
+
+// Own keys only, so names like "constructor" or "toString" are unknown functions
+function getFunction(name: string) {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(expression[i + 1] ?? ""))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i));
+      if (!match) {
+        throw new FormulaError(`Invalid number at position ${i}`, "parse", i);
+      }
+      tokens.push({ kind: "number", value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      const word = match[0].toLowerCase();
+      tokens.push(
+        KEYWORDS.has(word)
+          ? { kind: "keyword", value: word, position: i }
+          : { kind: "identifier", value: match[0], position: i }
+      );
+      i += match[0].length;
+      continue;
+    }
+
+    const twoChar = expression.slice(i, i + 2);
+    if (["<=", ">=", "!=", "<>", "=="].includes(twoChar)) {
+      tokens.push({ kind: "operator", value: twoChar === "<>" ? "!=" : twoChar === "==" ? "=" : twoChar, position: i });
+      i += 2;
+      continue;
+    }
+
+    if ("+-*/%()<>=,".includes(char)) {
+      tokens.push({ kind: "operator", value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}" at position ${i}`, "parse", i);
+  }
+
+  tokens.push({ kind: "eof", position: expression.length });
+  return tokens;
+}
+
+// ============================================
+// PARSER (recursive descent)
+// ============================================
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.kind !== "eof") {
+      throw new FormulaError(`Unexpected ${describeToken(next)} at position ${next.position}`, "parse", next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "keyword" && token.value === value;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "operator" && token.value === value;
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.isKeyword(value)) {
+      const token = this.peek();
+      throw new FormulaError(
+        `Expected ${value.toUpperCase()} but found ${describeToken(token)} at position ${token.position}`,
+        "parse",
+        token.position
+      );
+    }
+    this.advance();
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.isOperator(value)) {
+      const token = this.peek();
+      throw new FormulaError(
+        `Expected "${value}" but found ${describeToken(token)} at position ${token.position}`,
+        "parse",
+        token.position
+      );
+    }
+    this.advance();
+  }
+
+  private parseExpression(): FormulaNode {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new FormulaError("Formula is nested too deeply", "parse", this.peek().position);
+    }
+    const node = this.parseOr();
+    this.depth--;
+    return node;
+  }
+
+  private parseOr(): FormulaNode {
+    let left = this.parseAnd();
+    while (this.isKeyword("or")) {
+      this.advance();
+      left = { type: "binary", operator: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FormulaNode {
+    let left = this.parseNot();
+    while (this.isKeyword("and")) {
+      this.advance();
+      left = { type: "binary", operator: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FormulaNode {
+    if (this.isKeyword("not")) {
+      this.advance();
+      return { type: "unary", operator: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FormulaNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.kind === "operator" && ["=", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      this.advance();
+      return {
+        type: "binary",
+        operator: token.value as BinaryOperator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseTerm();
+    while (this.isOperator("+") || this.isOperator("-")) {
+      const operator = this.advance() as { value: "+" | "-" };
+      left = { type: "binary", operator: operator.value, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): FormulaNode {
+    let left = this.parseUnary();
+    while (this.isOperator("*") || this.isOperator("/") || this.isOperator("%")) {
+      const operator = this.advance() as { value: "*" | "/" | "%" };
+      left = { type: "binary", operator: operator.value, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator("-") || this.isOperator("+")) {
+      const operator = this.advance() as { value: "-" | "+" };
+      return { type: "unary", operator: operator.value, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+
+    if (token.kind === "number") {
+      this.advance();
+      return { type: "number", value: token.value };
+    }
+
+    if (token.kind === "keyword") {
+      switch (token.value) {
+        case "true":
+          this.advance();
+          return { type: "number", value: 1 };
+        case "false":
+          this.advance();
+          return { type: "number", value: 0 };
+        case "if":
+          return this.parseIf();
+        case "case":
+          return this.parseCase();
+      }
+    }
+
+    if (token.kind === "identifier") {
+      this.advance();
+      if (this.isOperator("(")) {
+        return this.parseCall(token.value, token.position);
+      }
+      return { type: "variable", name: token.value };
+    }
+
+    if (this.isOperator("(")) {
+      this.advance();
+      const inner = this.parseExpression();
+      this.expectOperator(")");
+      return inner;
+    }
+
+    throw new FormulaError(`Unexpected ${describeToken(token)} at position ${token.position}`, "parse", token.position);
+  }
+
+  private parseIf(): FormulaNode {
+    this.expectKeyword("if");
+    const when = this.parseExpression();
+    this.expectKeyword("then");
+    const then = this.parseExpression();
+    this.expectKeyword("else");
+    const otherwise = this.parseExpression();
+    // Optional END lets IF blocks be closed explicitly inside larger expressions
+    if (this.isKeyword("end")) this.advance();
+    return { type: "conditional", branches: [{ when, then }], otherwise };
+  }
+
+  private parseCase(): FormulaNode {
+    this.expectKeyword("case");
+    const branches: { when: FormulaNode; then: FormulaNode }[] = [];
+    while (this.isKeyword("when")) {
+      this.advance();
+      const when = this.parseExpression();
+      this.expectKeyword("then");
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) {
+      const token = this.peek();
+      throw new FormulaError(`CASE requires at least one WHEN at position ${token.position}`, "parse", token.position);
+    }
+    let otherwise: FormulaNode | null = null;
+    if (this.isKeyword("else")) {
+      this.advance();
+      otherwise = this.parseExpression();
+    }
+    this.expectKeyword("end");
+    return { type: "conditional", branches, otherwise };
+  }
+
+  private parseCall(name: string, position: number): FormulaNode {
+    const fnName = name.toLowerCase();
+    const definition = getFunction(fnName);
+    if (!definition) {
+      throw new FormulaError(`Unknown function "${name}" at position ${position}`, "parse", position);
+    }
+
+    this.expectOperator("(");
+    const args: FormulaNode[] = [];
+    if (!this.isOperator(")")) {
+      args.push(this.parseExpression());
+      while (this.isOperator(",")) {
+        this.advance();
+        args.push(this.parseExpression());
+      }
+    }
+    this.expectOperator(")");
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      throw new FormulaError(`Wrong number of arguments for ${fnName}() at position ${position}`, "parse", position);
+    }
+
+    return { type: "call", name: fnName, args };
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case "eof":
+      return "end of formula";
+    case "number":
+      return `number ${token.value}`;
+    case "keyword":
+      return token.value.toUpperCase();
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+const parseCache = new Map<string, FormulaNode>();
+
+/**
+ * Parse a formula expression into an AST (cached by expression text)
+ */
+export function parseFormula(expression: string): FormulaNode {
+  const cached = parseCache.get(expression);
+  if (cached) return cached;
+
+  if (!expression.trim()) {
+    throw new FormulaError("Formula expression is empty", "parse", 0);
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new FormulaError(`Formula exceeds ${MAX_EXPRESSION_LENGTH} characters`, "parse", 0);
+  }
+
+  const node = new Parser(tokenize(expression)).parse();
+  parseCache.set(expression, node);
+  return node;
+}
+
+/**
+ * Evaluate a formula against a scope of named numeric values.
+ * Comparisons and logical operators yield 1 (true) or 0 (false).
+ */
+export function evaluateFormula(formula: string | FormulaNode, scope: FormulaScope): number {
+  const node = typeof formula === "string" ? parseFormula(formula) : formula;
+  const result = evaluateNode(node, scope);
+  if (!Number.isFinite(result)) {
+    throw new FormulaError("Formula did not produce a finite number", "runtime");
+  }
+  return result;
+}
+
+/**
+ * Collect the variable names referenced by a formula
+ */
+export function getFormulaVariables(formula: string | FormulaNode): string[] {
+  const node = typeof formula === "string" ? parseFormula(formula) : formula;
+  const names = new Set<string>();
+  const visit = (n: FormulaNode) => {
+    switch (n.type) {
+      case "variable":
+        names.add(n.name);
+        break;
+      case "unary":
+        visit(n.operand);
+        break;
+      case "binary":
+        visit(n.left);
+        visit(n.right);
+        break;
+      case "conditional":
+        n.branches.forEach((b) => {
+          visit(b.when);
+          visit(b.then);
+        });
+        if (n.otherwise) visit(n.otherwise);
+        break;
+      case "call":
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return Array.from(names);
+}
+
+function evaluateNode(node: FormulaNode, scope: FormulaScope): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+
+    case "variable": {
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw new FormulaError(`Unknown variable "${node.name}"`, "runtime");
+      }
+      const value = scope[node.name];
+      if (value === null || value === undefined || Number.isNaN(value)) {
+        throw new FormulaError(`Variable "${node.name}" has no value`, "runtime");
+      }
+      return value;
+    }
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, scope);
+      if (node.operator === "-") return -operand;
+      if (node.operator === "not") return operand ? 0 : 1;
+      return operand;
+    }
+
+    case "binary": {
+      // Short-circuit logic so guarded branches never touch missing values
+      if (node.operator === "and") {
+        return evaluateNode(node.left, scope) && evaluateNode(node.right, scope) ? 1 : 0;
+      }
+      if (node.operator === "or") {
+        return evaluateNode(node.left, scope) || evaluateNode(node.right, scope) ? 1 : 0;
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          if (right === 0) throw new FormulaError("Division by zero", "runtime");
+          return left / right;
+        case "%":
+          if (right === 0) throw new FormulaError("Division by zero", "runtime");
+          return left % right;
+        case "=":
+          return left === right ? 1 : 0;
+        case "!=":
+          return left !== right ? 1 : 0;
+        case "<":
+          return left < right ? 1 : 0;
+        case "<=":
+          return left <= right ? 1 : 0;
+        case ">":
+          return left > right ? 1 : 0;
+        case ">=":
+          return left >= right ? 1 : 0;
+      }
+      throw new FormulaError(`Unsupported operator "${node.operator}"`, "runtime");
+    }
+
+    case "conditional": {
+      for (const branch of node.branches) {
+        if (evaluateNode(branch.when, scope)) {
+          return evaluateNode(branch.then, scope);
+        }
+      }
+      return node.otherwise ? evaluateNode(node.otherwise, scope) : 0;
+    }
+
+    case "call": {
+      const args = node.args.map((arg) => evaluateNode(arg, scope));
+      const definition = getFunction(node.name);
+      if (!definition) {
+        throw new FormulaError(`Unknown function "${node.name}"`, "runtime");
+      }
+      return definition.fn(...args);
+    }
+  }
+}
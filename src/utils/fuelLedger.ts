@@ -0,0 +1,179 @@
+/**
+ * Fuel Ledger
+ * Computes km/L from fuel fills: the kilometres between consecutive fills of
+ * the same truck divided by the litres that refilled the tank. Implausible
+ * fills are flagged and left out of a driver's monthly km/L.
+ */
+
+import { format, subDays } from "date-fns";
+import type { FuelTransaction, Vehicle } from "../types/database";
+import { getPeriodBounds } from "./periods";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FuelFlag = "over_capacity" | "odometer_regression" | "outlier";
+
+export interface FuelFillAnalysis {
+  transaction: FuelTransaction;
+  previousOdometer: number | null;   // null for the first fill of a truck in the data
+  distance: number | null;
+  kmPerLitre: number | null;
+  flags: FuelFlag[];
+}
+
+export interface DriverFuelEfficiency {
+  driverId: string;
+  kmPerLitre: number | null;         // null when no fill in the month could be used
+  distance: number;
+  litres: number;
+  transactionIds: string[];          // fills the km/L was computed from
+  fillCount: number;
+  flaggedCount: number;
+}
+
+export const FUEL_FLAG_LABELS: Record<FuelFlag, string> = {
+  over_capacity: "Above tank capacity",
+  odometer_regression: "Odometer not past previous fill",
+  outlier: "km/L outlier",
+};
+
+/** Fills further than this from their fleet's median km/L are outliers */
+export const FUEL_OUTLIER_TOLERANCE = 0.4;
+
+/** Fewest usable fills a fleet needs before outliers are flagged */
+export const FUEL_OUTLIER_MIN_SAMPLE = 3;
+
+/** Days before the month fetched so the month's first fills have a previous fill */
+export const FUEL_LOOKBACK_DAYS = 60;
+
+// ============================================
+// FILL ANALYSIS
+// ============================================
+
+/**
+ * Date range (yyyy-MM-dd) to fetch fills for a month's km/L, including the
+ * lookback for each truck's previous fill
+ */
+export function getFuelLedgerRange(year: number, month: number): { start: string; end: string } {
+  const { start, end } = getPeriodBounds(year, month);
+  return {
+    start: format(subDays(start, FUEL_LOOKBACK_DAYS), "yyyy-MM-dd"),
+    end: format(end, "yyyy-MM-dd"),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Distance and km/L for every fill, with plausibility flags. Fills are chained
+ * per truck (per driver when no truck is recorded) in date and odometer order.
+ */
+export function analyzeFuelFills(transactions: FuelTransaction[], vehicles: Vehicle[]): FuelFillAnalysis[] {
+  const vehicleById = new Map(vehicles.map((v) => [v.id, v]));
+  const chains = new Map<string, FuelTransaction[]>();
+  for (const t of transactions) {
+    const key = t.vehicle_id ?? `driver:${t.driver_id}`;
+    chains.set(key, [...(chains.get(key) || []), t]);
+  }
+
+  const analyses: FuelFillAnalysis[] = [];
+  for (const chain of chains.values()) {
+    chain.sort((a, b) => a.transaction_date.localeCompare(b.transaction_date) || a.odometer - b.odometer);
+
+    let previousOdometer: number | null = null;
+    for (const t of chain) {
+      const flags: FuelFlag[] = [];
+      const capacity = t.vehicle_id ? vehicleById.get(t.vehicle_id)?.tank_capacity_litres : null;
+      if (capacity && t.litres > capacity) flags.push("over_capacity");
+
+      const lastReading = previousOdometer;
+      let distance: number | null = null;
+      if (previousOdometer !== null && t.odometer <= previousOdometer) {
+        // Keep the chain on the last good reading
+        flags.push("odometer_regression");
+      } else {
+        if (previousOdometer !== null) distance = Math.round((t.odometer - previousOdometer) * 10) / 10;
+        previousOdometer = t.odometer;
+      }
+
+      analyses.push({
+        transaction: t,
+        previousOdometer: distance !== null ? lastReading : null,
+        distance,
+        kmPerLitre: distance !== null ? Math.round((distance / t.litres) * 100) / 100 : null,
+        flags,
+      });
+    }
+  }
+
+  // Outliers against the median of each fleet's unflagged fills
+  const fleetOf = (a: FuelFillAnalysis) =>
+    (a.transaction.vehicle_id && vehicleById.get(a.transaction.vehicle_id)?.fleet) || "unknown";
+  const fleets = new Map<string, number[]>();
+  for (const a of analyses) {
+    if (a.kmPerLitre === null || a.flags.length > 0) continue;
+    fleets.set(fleetOf(a), [...(fleets.get(fleetOf(a)) || []), a.kmPerLitre]);
+  }
+  for (const a of analyses) {
+    const sample = fleets.get(fleetOf(a));
+    if (a.kmPerLitre === null || !sample || sample.length < FUEL_OUTLIER_MIN_SAMPLE) continue;
+    const mid = median(sample);
+    if (mid > 0 && Math.abs(a.kmPerLitre - mid) / mid > FUEL_OUTLIER_TOLERANCE) a.flags.push("outlier");
+  }
+
+  return analyses.sort(
+    (a, b) =>
+      b.transaction.transaction_date.localeCompare(a.transaction.transaction_date) ||
+      b.transaction.odometer - a.transaction.odometer
+  );
+}
+
+// ============================================
+// MONTHLY KM/L
+// ============================================
+
+/**
+ * Each driver's km/L for a month from the fills dated in it. Flagged fills and
+ * first fills (no previous reading) are left out.
+ */
+export function getMonthlyFuelEfficiency(
+  analyses: FuelFillAnalysis[],
+  year: number,
+  month: number
+): DriverFuelEfficiency[] {
+  const prefix = `${year}-${month.toString().padStart(2, "0")}-`;
+  const byDriver = new Map<string, DriverFuelEfficiency>();
+
+  for (const a of analyses) {
+    if (!a.transaction.transaction_date.startsWith(prefix)) continue;
+    const driverId = a.transaction.driver_id;
+    let entry = byDriver.get(driverId);
+    if (!entry) {
+      entry = { driverId, kmPerLitre: null, distance: 0, litres: 0, transactionIds: [], fillCount: 0, flaggedCount: 0 };
+      byDriver.set(driverId, entry);
+    }
+
+    entry.fillCount++;
+    if (a.flags.length > 0) {
+      entry.flaggedCount++;
+      continue;
+    }
+    if (a.distance === null) continue;
+    entry.distance += a.distance;
+    entry.litres += a.transaction.litres;
+    entry.transactionIds.push(a.transaction.id);
+  }
+
+  return [...byDriver.values()].map((entry) => ({
+    ...entry,
+    distance: Math.round(entry.distance * 10) / 10,
+    litres: Math.round(entry.litres * 100) / 100,
+    kmPerLitre: entry.litres > 0 ? Math.round((entry.distance / entry.litres) * 100) / 100 : null,
+  }));
+}
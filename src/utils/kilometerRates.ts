@@ -0,0 +1,163 @@
+/**
+ * Kilometer Rates
+ * Fixed rate table mode: price a month's kilometers with the kilometer_rates
+ * in force on each day, splitting the month at mid-month rate changes
+ */
+
+import { format, subDays } from "date-fns";
+import type { KilometerRate } from "../types/database";
+import { getPeriodBounds } from "./periods";
+import type { SettingVersionPlan } from "./settingsVersions";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Part of a month priced at one kilometer rate, stored in calculation_details.rate_segments */
+export interface RateSegment {
+  rate_id: string;
+  rate_per_km: number;
+  start_date: string;
+  end_date: string;
+  days: number;
+  share: number;              // days / days in month
+  km: number;                 // actual km x share
+  amount: number;             // km x rate_per_km
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Active rate for a driver type on a date (the latest effective_from wins)
+ */
+export function getRateInForce(
+  rates: KilometerRate[],
+  driverType: "local" | "export",
+  date: string
+): KilometerRate | null {
+  return rates
+    .filter(
+      (r) =>
+        r.driver_type === driverType &&
+        r.is_active &&
+        r.effective_from <= date &&
+        (!r.effective_to || r.effective_to >= date)
+    )
+    .reduce<KilometerRate | null>(
+      (best, r) => (!best || r.effective_from > best.effective_from ? r : best),
+      null
+    );
+}
+
+/**
+ * Split a month into runs of days priced at the same rate.
+ * Throws when a day of the month has no rate in force.
+ */
+export function getRateSegments(
+  rates: KilometerRate[],
+  driverType: "local" | "export",
+  year: number,
+  month: number
+): RateSegment[] {
+  const period = getPeriodBounds(year, month);
+  const segments: RateSegment[] = [];
+
+  for (let day = 1; day <= period.days; day++) {
+    const date = format(new Date(year, month - 1, day), "yyyy-MM-dd");
+    const rate = getRateInForce(rates, driverType, date);
+    if (!rate) {
+      throw new Error(`No ${driverType} kilometer rate in force on ${date}`);
+    }
+
+    const last = segments[segments.length - 1];
+    if (last && last.rate_id === rate.id) {
+      last.end_date = date;
+      last.days++;
+    } else {
+      segments.push({
+        rate_id: rate.id,
+        rate_per_km: rate.rate_per_km,
+        start_date: date,
+        end_date: date,
+        days: 1,
+        share: 0,
+        km: 0,
+        amount: 0,
+      });
+    }
+  }
+
+  return segments.map((s) => ({ ...s, share: s.days / period.days }));
+}
+
+/**
+ * Price actual kilometers across the month's rate segments.
+ * Kilometers are assumed to be driven evenly across the month.
+ */
+export function priceKilometers(actualKm: number, segments: RateSegment[]): RateSegment[] {
+  return segments.map((s) => {
+    const km = actualKm * s.share;
+    return { ...s, km, amount: km * s.rate_per_km };
+  });
+}
+
+/**
+ * Day-weighted rate per kilometer for the month
+ */
+export function getEffectiveRate(segments: RateSegment[]): number {
+  return segments.reduce((sum, s) => sum + s.rate_per_km * s.share, 0);
+}
+
+// ============================================
+// SAVING
+// ============================================
+
+/**
+ * Work out how to save a new rate for a driver type starting on `effectiveFrom`.
+ * A rate starting on the same date is updated in place; otherwise a new rate is
+ * inserted, the one it supersedes is closed the day before, and the new one
+ * ends the day before any later rate starts.
+ */
+export function planKilometerRate(
+  rates: KilometerRate[],
+  driverType: "local" | "export",
+  effectiveFrom: string
+): SettingVersionPlan {
+  const typeRates = rates.filter((r) => r.driver_type === driverType && r.is_active);
+
+  const same = typeRates.find((r) => r.effective_from === effectiveFrom);
+  if (same) {
+    return { updateId: same.id, effectiveTo: same.effective_to, close: null };
+  }
+
+  const previous = typeRates
+    .filter((r) => r.effective_from < effectiveFrom)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+  const next = typeRates
+    .filter((r) => r.effective_from > effectiveFrom)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from))[0];
+
+  return {
+    updateId: null,
+    effectiveTo: next ? dayBefore(next.effective_from) : null,
+    close:
+      previous && (!previous.effective_to || previous.effective_to >= effectiveFrom)
+        ? { id: previous.id, effective_to: dayBefore(effectiveFrom) }
+        : null,
+  };
+}
+
+/**
+ * All rates for a driver type, newest first
+ */
+export function getKilometerRateHistory(rates: KilometerRate[], driverType: "local" | "export"): KilometerRate[] {
+  return rates
+    .filter((r) => r.driver_type === driverType)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+}
+
+function dayBefore(date: string): string {
+  return format(subDays(new Date(`${date}T00:00:00`), 1), "yyyy-MM-dd");
+}
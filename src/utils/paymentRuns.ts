@@ -0,0 +1,107 @@
+/**
+ * Payment Runs
+ * Approved calculations of a month are grouped into a payment run and paid
+ * together when the run is posted. Posting stamps the run with its totals and
+ * currency split; calculations in a posted run are locked by the database.
+ */
+
+import type { IncentiveCalculation, PaymentRun, PaymentRunStatus } from "../types/database";
+import { getStoredPayoutSplit } from "./calculations";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PaymentRunTotals {
+  driver_count: number;
+  total_incentive: number;
+  total_usd: number;
+  total_zig: number;
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const PAYMENT_RUN_STATUS_LABELS: Record<PaymentRunStatus, string> = {
+  draft: "Draft",
+  posted: "Posted",
+};
+
+// ============================================
+// RUNS
+// ============================================
+
+/**
+ * Next reference for a month's run, e.g. "PR-2026-10-02" for its second run
+ */
+export function getNextPaymentRunReference(runs: PaymentRun[], year: number, month: number): string {
+  const prefix = `PR-${year}-${String(month).padStart(2, "0")}-`;
+  const taken = runs
+    .filter((r) => r.reference.startsWith(prefix))
+    .map((r) => parseInt(r.reference.slice(prefix.length)) || 0);
+  const next = taken.length > 0 ? Math.max(...taken) + 1 : 1;
+  return `${prefix}${String(next).padStart(2, "0")}`;
+}
+
+/**
+ * Payment runs of a month, newest first
+ */
+export function getPeriodPaymentRuns(runs: PaymentRun[], year: number, month: number): PaymentRun[] {
+  return runs
+    .filter((r) => r.year === year && r.month === month)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Calculations in a run
+ */
+export function getRunCalculations<T extends IncentiveCalculation>(calculations: T[], runId: string): T[] {
+  return calculations.filter((c) => c.payment_run_id === runId);
+}
+
+/**
+ * Approved calculations of a month not yet in a run
+ */
+export function getUnassignedApprovedCalculations<T extends IncentiveCalculation>(
+  calculations: T[],
+  year: number,
+  month: number
+): T[] {
+  return calculations.filter(
+    (c) => c.year === year && c.month === month && c.status === "approved" && !c.payment_run_id
+  );
+}
+
+/**
+ * Driver count, incentive total and USD/ZIG split of a run's calculations
+ */
+export function summarisePaymentRun(calculations: IncentiveCalculation[]): PaymentRunTotals {
+  return calculations.reduce<PaymentRunTotals>(
+    (totals, calc) => {
+      const split = getStoredPayoutSplit(calc);
+      return {
+        driver_count: totals.driver_count + 1,
+        total_incentive: totals.total_incentive + calc.total_incentive,
+        total_usd: totals.total_usd + split.usd,
+        total_zig: totals.total_zig + split.zig,
+      };
+    },
+    { driver_count: 0, total_incentive: 0, total_usd: 0, total_zig: 0 }
+  );
+}
+
+/**
+ * Totals of a run: stamped when posted, otherwise from its current calculations
+ */
+export function getPaymentRunTotals(run: PaymentRun, calculations: IncentiveCalculation[]): PaymentRunTotals {
+  if (run.status === "posted") {
+    return {
+      driver_count: run.driver_count,
+      total_incentive: Number(run.total_incentive),
+      total_usd: Number(run.total_usd),
+      total_zig: Number(run.total_zig),
+    };
+  }
+  return summarisePaymentRun(getRunCalculations(calculations, run.id));
+}
@@ -0,0 +1,352 @@
+/**
+ * Payroll Export
+ * Maps the components of incentive calculations to payroll earning and
+ * deduction codes, keyed by employee ID, and lays them out for the payroll
+ * system: Sage- and QuickBooks-style CSV, or a user-defined column layout.
+ */
+
+import { endOfMonth, format } from "date-fns";
+import type {
+    Driver,
+    IncentiveCalculation,
+    IncentiveSetting,
+    PayrollCodeMapping,
+    PayrollComponent,
+    PayrollExport,
+    PayrollExportConfig,
+    PayrollExportField,
+    PayrollExportFormat,
+    PayrollExportProfile,
+} from "../types/database";
+import { getMonthName } from "./formatters";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One payroll line: a component of one employee's calculation */
+export interface PayrollLine {
+  employeeId: string;
+  employeeName: string;
+  driverType: "local" | "export";
+  component: PayrollComponent;
+  code: string;
+  description: string;
+  lineType: "earning" | "deduction";
+  amount: number;                 // deductions are positive and signed by the layout; adjustments keep their sign
+}
+
+export interface PayrollExportFile {
+  fileName: string;
+  rows: (string | number)[][];    // header row first
+  lines: PayrollLine[];
+  calculationCount: number;
+  skippedEmployees: string[];     // drivers without an employee ID
+  totalEarnings: number;
+  totalDeductions: number;
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const PAYROLL_EXPORT_SETTING_KEY = "payroll_export_profiles";
+
+export const PAYROLL_COMPONENTS: { component: PayrollComponent; label: string; lineType: "earning" | "deduction" }[] = [
+  { component: "base_salary", label: "Base Salary", lineType: "earning" },
+  { component: "km_incentive", label: "KM Incentive", lineType: "earning" },
+  { component: "performance_bonus", label: "Performance Bonus", lineType: "earning" },
+  { component: "safety_bonus", label: "Safety Bonus", lineType: "earning" },
+  { component: "incentive_adjustment", label: "Incentive Adjustment", lineType: "earning" },
+  { component: "deductions", label: "Deductions", lineType: "deduction" },
+];
+
+export const PAYROLL_EXPORT_FORMAT_LABELS: Record<PayrollExportFormat, string> = {
+  sage: "Sage",
+  quickbooks: "QuickBooks",
+  custom: "Custom CSV",
+};
+
+export const PAYROLL_EXPORT_FIELD_LABELS: Record<PayrollExportField, string> = {
+  employee_id: "Employee ID",
+  employee_name: "Employee Name",
+  driver_type: "Driver Type",
+  period: "Period (YYYY-MM)",
+  period_start: "Period Start",
+  period_end: "Period End",
+  code: "Payroll Code",
+  description: "Description",
+  line_type: "Earning/Deduction",
+  amount: "Amount",
+};
+
+// Base salary is already held by payroll, so it is off by default
+function defaultMappings(codes: Record<PayrollComponent, string>): PayrollCodeMapping[] {
+  return PAYROLL_COMPONENTS.map(({ component }) => ({
+    component,
+    code: codes[component],
+    enabled: component !== "base_salary",
+  }));
+}
+
+/**
+ * Built-in profiles (shown in Settings until profiles are saved)
+ */
+export const DEFAULT_PAYROLL_EXPORT_CONFIG: PayrollExportConfig = {
+  profiles: [
+    {
+      id: "sage",
+      label: "Sage Payroll",
+      format: "sage",
+      delimiter: ",",
+      negative_deductions: false,
+      mappings: defaultMappings({
+        base_salary: "BASIC",
+        km_incentive: "KMINC",
+        performance_bonus: "PERFBON",
+        safety_bonus: "SAFEBON",
+        incentive_adjustment: "INCADJ",
+        deductions: "INCDED",
+      }),
+      columns: [],
+    },
+    {
+      id: "quickbooks",
+      label: "QuickBooks Payroll",
+      format: "quickbooks",
+      delimiter: ",",
+      negative_deductions: true,
+      mappings: defaultMappings({
+        base_salary: "Salary",
+        km_incentive: "KM Incentive",
+        performance_bonus: "Performance Bonus",
+        safety_bonus: "Safety Bonus",
+        incentive_adjustment: "Incentive Adjustment",
+        deductions: "Incentive Deduction",
+      }),
+      columns: [],
+    },
+  ],
+};
+
+/**
+ * Get payroll export profiles from settings
+ */
+export function getPayrollExportConfig(settings: IncentiveSetting[]): PayrollExportConfig {
+  const setting = settings.find((s) => s.setting_key === PAYROLL_EXPORT_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as PayrollExportConfig;
+    return { profiles: config.profiles ?? [] };
+  }
+
+  return DEFAULT_PAYROLL_EXPORT_CONFIG;
+}
+
+// ============================================
+// LINES
+// ============================================
+
+function getComponentAmount(calc: IncentiveCalculation, component: PayrollComponent): number {
+  switch (component) {
+    case "base_salary":
+      return calc.base_salary;
+    case "km_incentive":
+      return calc.km_incentive;
+    case "performance_bonus":
+      return calc.performance_bonus;
+    case "safety_bonus":
+      return calc.safety_bonus;
+    case "incentive_adjustment":
+      // Whatever caps, floors, the pool or tiers changed, so the lines add up to the total incentive
+      return (
+        calc.total_incentive -
+        (calc.km_incentive + calc.performance_bonus + calc.safety_bonus - calc.deductions)
+      );
+    case "deductions":
+      return calc.deductions;
+  }
+}
+
+/**
+ * Payroll lines for the enabled mappings of a profile. Zero amounts are left out;
+ * the adjustment line keeps its sign, so a downward adjustment is a negative earning.
+ */
+export function buildPayrollLines(
+  calculations: IncentiveCalculation[],
+  drivers: Driver[],
+  profile: PayrollExportProfile
+): { lines: PayrollLine[]; skippedEmployees: string[] } {
+  const driverById = new Map(drivers.map((d) => [d.id, d]));
+  const lines: PayrollLine[] = [];
+  const skippedEmployees: string[] = [];
+
+  for (const calc of calculations) {
+    const driver = driverById.get(calc.driver_id);
+    if (!driver) continue;
+    const employeeName = `${driver.first_name} ${driver.last_name}`;
+    if (!driver.employee_id?.trim()) {
+      skippedEmployees.push(employeeName);
+      continue;
+    }
+
+    for (const mapping of profile.mappings) {
+      if (!mapping.enabled || !mapping.code.trim()) continue;
+      const component = PAYROLL_COMPONENTS.find((c) => c.component === mapping.component);
+      if (!component) continue;
+
+      const amount = Math.round(getComponentAmount(calc, mapping.component) * 100) / 100;
+      if (amount === 0) continue;
+
+      lines.push({
+        employeeId: driver.employee_id.trim(),
+        employeeName,
+        driverType: driver.driver_type,
+        component: mapping.component,
+        code: mapping.code.trim(),
+        description: component.label,
+        lineType: component.lineType,
+        amount,
+      });
+    }
+  }
+
+  lines.sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+  return { lines, skippedEmployees };
+}
+
+// ============================================
+// LAYOUTS
+// ============================================
+
+function getFieldValue(
+  line: PayrollLine,
+  field: PayrollExportField,
+  year: number,
+  month: number,
+  negativeDeductions: boolean
+): string | number {
+  const periodStart = new Date(year, month - 1, 1);
+  switch (field) {
+    case "employee_id":
+      return line.employeeId;
+    case "employee_name":
+      return line.employeeName;
+    case "driver_type":
+      return line.driverType === "local" ? "Local" : "Export";
+    case "period":
+      return format(periodStart, "yyyy-MM");
+    case "period_start":
+      return format(periodStart, "yyyy-MM-dd");
+    case "period_end":
+      return format(endOfMonth(periodStart), "yyyy-MM-dd");
+    case "code":
+      return line.code;
+    case "description":
+      return line.description;
+    case "line_type":
+      return line.lineType === "earning" ? "Earning" : "Deduction";
+    case "amount":
+      return negativeDeductions && line.lineType === "deduction" ? -line.amount : line.amount;
+  }
+}
+
+/**
+ * Columns of a profile's layout. Sage imports one pay element per row with
+ * positive values; QuickBooks takes payroll items with deductions as negatives.
+ */
+export function getProfileColumns(profile: PayrollExportProfile): { header: string; field: PayrollExportField }[] {
+  switch (profile.format) {
+    case "sage":
+      return [
+        { header: "Employee Reference", field: "employee_id" },
+        { header: "Pay Element", field: "code" },
+        { header: "Description", field: "description" },
+        { header: "Value", field: "amount" },
+      ];
+    case "quickbooks":
+      return [
+        { header: "Employee ID", field: "employee_id" },
+        { header: "Employee", field: "employee_name" },
+        { header: "Pay Period Start", field: "period_start" },
+        { header: "Pay Period End", field: "period_end" },
+        { header: "Payroll Item", field: "code" },
+        { header: "Amount", field: "amount" },
+      ];
+    case "custom":
+      return profile.columns;
+  }
+}
+
+function usesNegativeDeductions(profile: PayrollExportProfile): boolean {
+  if (profile.format === "sage") return false;
+  if (profile.format === "quickbooks") return true;
+  return profile.negative_deductions;
+}
+
+/**
+ * Build the export file for a period's calculations
+ */
+export function buildPayrollExportFile(
+  calculations: IncentiveCalculation[],
+  drivers: Driver[],
+  profile: PayrollExportProfile,
+  year: number,
+  month: number
+): PayrollExportFile {
+  const { lines, skippedEmployees } = buildPayrollLines(calculations, drivers, profile);
+  const columns = getProfileColumns(profile);
+  const negativeDeductions = usesNegativeDeductions(profile);
+
+  const rows: (string | number)[][] = [
+    columns.map((c) => c.header),
+    ...lines.map((line) => columns.map((c) => getFieldValue(line, c.field, year, month, negativeDeductions))),
+  ];
+
+  const sum = (type: PayrollLine["lineType"]) =>
+    Math.round(lines.filter((l) => l.lineType === type).reduce((s, l) => s + l.amount, 0) * 100) / 100;
+
+  return {
+    fileName: `Payroll_${profile.id}_${year}-${String(month).padStart(2, "0")}.csv`,
+    rows,
+    lines,
+    calculationCount: calculations.length - skippedEmployees.length,
+    skippedEmployees,
+    totalEarnings: sum("earning"),
+    totalDeductions: sum("deduction"),
+  };
+}
+
+// ============================================
+// EXPORT LOG
+// ============================================
+
+/**
+ * Calculations of a period ready for payroll: approved or paid
+ */
+export function getPayrollExportCalculations<T extends IncentiveCalculation>(
+  calculations: T[],
+  year: number,
+  month: number
+): T[] {
+  return calculations.filter(
+    (c) => c.year === year && c.month === month && (c.status === "approved" || c.status === "paid")
+  );
+}
+
+/**
+ * The export that posted a period to payroll (not voided), if any
+ */
+export function getPostedPayrollExport(exports: PayrollExport[], year: number, month: number): PayrollExport | undefined {
+  return exports.find((e) => e.year === year && e.month === month && e.voided_at === null);
+}
+
+/**
+ * Short description of an export, e.g. "Sage Payroll (October 2026), 12 Nov 2026 by finance@example.com"
+ */
+export function describePayrollExport(entry: PayrollExport): string {
+  const when = format(new Date(entry.exported_at), "d MMM yyyy");
+  return `${entry.profile_label} (${getMonthName(entry.month)} ${entry.year}), ${when}${
+    entry.exported_by ? ` by ${entry.exported_by}` : ""
+  }`;
+}
@@ -0,0 +1,359 @@
+/**
+ * Period Bonuses
+ * Quarterly and annual consistency and retention bonuses, evaluated over
+ * driver_performance, accidents and incentive_calculations history
+ */
+
+import { endOfMonth, format } from "date-fns";
+import type {
+    Accident,
+    BonusPeriodType,
+    Driver,
+    DriverPerformance,
+    DriverStatusHistory,
+    IncentiveCalculation,
+    IncentiveSetting,
+    PeriodBonusInsert,
+    PeriodBonusRule,
+    PeriodBonusRulesConfig,
+} from "../types/database";
+import type { WorkflowStatus } from "./calculations";
+import { getMonthName } from "./formatters";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BonusPeriod {
+  type: BonusPeriodType;
+  year: number;
+  number: number;                 // quarter (1-4), or 1 for annual
+}
+
+/** Evidence stored in period_bonuses.details */
+export interface PeriodBonusDetails {
+  months: string[];               // yyyy-MM, oldest first
+  achievements?: { month: string; achievement: number | null }[];
+  min_achievement?: number;
+  accident_ids?: string[];
+  hire_date?: string | null;
+  status_at_end?: string;
+}
+
+export interface PeriodBonusEvaluation {
+  driverId: string;
+  driverName: string;
+  rule: PeriodBonusRule;
+  eligible: boolean;
+  reason: string;                 // why the rule was (not) met
+  details: PeriodBonusDetails;
+}
+
+export interface PeriodBonusInput {
+  drivers: Driver[];
+  performances: DriverPerformance[];
+  calculations: IncentiveCalculation[];
+  /** Accidents within the period and status changes up to its end */
+  accidents: Accident[];
+  statusChanges: DriverStatusHistory[];
+}
+
+export interface PeriodBonusRunResult {
+  awarded: PeriodBonusEvaluation[];
+  ineligible: PeriodBonusEvaluation[];
+  totalAmount: number;
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const PERIOD_BONUS_RULES_SETTING_KEY = "period_bonus_rules";
+
+/**
+ * Default period bonus rules (shown in Settings, disabled until saved)
+ */
+export const DEFAULT_PERIOD_BONUS_RULES: PeriodBonusRulesConfig = {
+  enabled: false,
+  rules: [
+    {
+      id: "quarterly_consistency",
+      type: "consistent_achievement",
+      label: "Quarterly consistency bonus",
+      enabled: true,
+      period: "quarterly",
+      applies_to: "all",
+      amount: 50,
+      min_achievement: 100,
+    },
+    {
+      id: "annual_accident_free",
+      type: "accident_free",
+      label: "12 months accident-free",
+      enabled: true,
+      period: "annual",
+      applies_to: "all",
+      amount: 200,
+      at_fault_only: false,
+    },
+    {
+      id: "annual_retention",
+      type: "retention",
+      label: "Year-end retention bonus",
+      enabled: true,
+      period: "annual",
+      applies_to: "all",
+      amount: 150,
+    },
+  ],
+};
+
+export const PERIOD_BONUS_RULE_TYPE_LABELS: Record<PeriodBonusRule["type"], string> = {
+  consistent_achievement: "Achievement at or above target every month",
+  accident_free: "No accidents, with performance every month",
+  retention: "Employed all period and active at its end",
+};
+
+/**
+ * Get period bonus rules config from settings
+ */
+export function getPeriodBonusRulesConfig(settings: IncentiveSetting[]): PeriodBonusRulesConfig {
+  const setting = settings.find((s) => s.setting_key === PERIOD_BONUS_RULES_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as PeriodBonusRulesConfig;
+    return {
+      enabled: config.enabled ?? false,
+      rules: config.rules ?? [],
+    };
+  }
+
+  return { enabled: false, rules: [] };
+}
+
+// ============================================
+// PERIODS
+// ============================================
+
+/**
+ * Months covered by a quarter or year, oldest first
+ */
+export function getBonusPeriodMonths(period: BonusPeriod): { year: number; month: number }[] {
+  const first = period.type === "annual" ? 1 : (period.number - 1) * 3 + 1;
+  const count = period.type === "annual" ? 12 : 3;
+  return Array.from({ length: count }, (_, i) => ({ year: period.year, month: first + i }));
+}
+
+/**
+ * First and last day of the period (yyyy-MM-dd)
+ */
+export function getBonusPeriodBounds(period: BonusPeriod): { start: string; end: string } {
+  const months = getBonusPeriodMonths(period);
+  const last = months[months.length - 1];
+  return {
+    start: format(new Date(period.year, months[0].month - 1, 1), "yyyy-MM-dd"),
+    end: format(endOfMonth(new Date(period.year, last.month - 1, 1)), "yyyy-MM-dd"),
+  };
+}
+
+export function getBonusPeriodLabel(period: Pick<BonusPeriod, "type" | "year" | "number">): string {
+  return period.type === "annual" ? `${period.year}` : `Q${period.number} ${period.year}`;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Achievement recorded with a stored calculation, as the engine computed it
+ * (actual KM against the pro-rated budget). Null when the details are missing.
+ */
+export function getStoredAchievement(calc: IncentiveCalculation): number | null {
+  const details = calc.calculation_details as {
+    budget_km?: number;
+    actual_km?: number;
+    proration?: { factor: number };
+  } | null;
+  if (!details || details.budget_km === undefined || details.actual_km === undefined) return null;
+
+  const target = details.budget_km * (details.proration?.factor ?? 1);
+  return target > 0 ? (details.actual_km / target) * 100 : 0;
+}
+
+/**
+ * Evaluate every enabled rule for the period against every driver employed
+ * during it. Rules for the other period type are skipped.
+ */
+export function evaluatePeriodBonuses(
+  input: PeriodBonusInput,
+  config: PeriodBonusRulesConfig,
+  period: BonusPeriod
+): PeriodBonusRunResult {
+  const awarded: PeriodBonusEvaluation[] = [];
+  const ineligible: PeriodBonusEvaluation[] = [];
+
+  if (!config.enabled) return { awarded, ineligible, totalAmount: 0 };
+
+  const rules = config.rules.filter((r) => r.enabled && r.period === period.type);
+  const months = getBonusPeriodMonths(period);
+  const { start, end } = getBonusPeriodBounds(period);
+  const monthKeys = months.map((m) => `${m.year}-${m.month.toString().padStart(2, "0")}`);
+
+  const drivers = input.drivers.filter((d) => !d.hire_date || d.hire_date <= end);
+
+  for (const driver of drivers) {
+    const driverName = `${driver.first_name} ${driver.last_name}`;
+    const performances = months.map(({ year, month }) =>
+      input.performances.find((p) => p.driver_id === driver.id && p.year === year && p.month === month)
+    );
+
+    // Skip drivers with nothing to evaluate (left before the period, never drove in it)
+    const statusAtEnd = getStatusAt(driver, input.statusChanges, end);
+    if (statusAtEnd !== "active" && performances.every((p) => !p)) continue;
+
+    for (const rule of rules) {
+      if (rule.applies_to !== "all" && rule.applies_to !== driver.driver_type) continue;
+
+      const evaluation = evaluateRule(rule, {
+        driver,
+        months,
+        monthKeys,
+        start,
+        statusAtEnd,
+        performances,
+        calculations: input.calculations,
+        accidents: input.accidents.filter(
+          (a) => a.driver_id === driver.id && a.incident_date >= start && a.incident_date <= end
+        ),
+      });
+
+      (evaluation.eligible ? awarded : ineligible).push({ driverId: driver.id, driverName, rule, ...evaluation });
+    }
+  }
+
+  return {
+    awarded,
+    ineligible,
+    totalAmount: awarded.reduce((sum, a) => sum + a.rule.amount, 0),
+  };
+}
+
+interface RuleContext {
+  driver: Driver;
+  months: { year: number; month: number }[];
+  monthKeys: string[];
+  start: string;
+  statusAtEnd: string;
+  performances: (DriverPerformance | undefined)[];
+  calculations: IncentiveCalculation[];
+  accidents: Accident[];
+}
+
+function evaluateRule(
+  rule: PeriodBonusRule,
+  ctx: RuleContext
+): { eligible: boolean; reason: string; details: PeriodBonusDetails } {
+  const details: PeriodBonusDetails = { months: ctx.monthKeys };
+  const missingMonth = ctx.performances.findIndex((p) => !p);
+
+  switch (rule.type) {
+    case "consistent_achievement": {
+      const minAchievement = rule.min_achievement ?? 100;
+      const achievements = ctx.months.map(({ year, month }) => {
+        const calc = ctx.calculations.find(
+          (c) => c.driver_id === ctx.driver.id && c.year === year && c.month === month
+        );
+        return calc ? getStoredAchievement(calc) : null;
+      });
+      details.achievements = ctx.monthKeys.map((month, i) => ({ month, achievement: achievements[i] }));
+      details.min_achievement = minAchievement;
+
+      const missing = achievements.findIndex((a) => a === null);
+      if (missing >= 0) {
+        return { eligible: false, reason: `No calculation for ${getMonthName(ctx.months[missing].month)}`, details };
+      }
+      const below = achievements.findIndex((a) => (a as number) < minAchievement);
+      if (below >= 0) {
+        return {
+          eligible: false,
+          reason: `${(achievements[below] as number).toFixed(1)}% in ${getMonthName(ctx.months[below].month)} (needs ${minAchievement}%)`,
+          details,
+        };
+      }
+      return { eligible: true, reason: `≥ ${minAchievement}% in all ${ctx.months.length} months`, details };
+    }
+
+    case "accident_free": {
+      const accidents = rule.at_fault_only ? ctx.accidents.filter((a) => a.at_fault) : ctx.accidents;
+      details.accident_ids = accidents.map((a) => a.id);
+
+      if (missingMonth >= 0) {
+        return {
+          eligible: false,
+          reason: `No performance for ${getMonthName(ctx.months[missingMonth].month)}`,
+          details,
+        };
+      }
+      if (accidents.length > 0) {
+        return {
+          eligible: false,
+          reason: `${accidents.length} ${rule.at_fault_only ? "at-fault " : ""}accident${accidents.length === 1 ? "" : "s"} in the period`,
+          details,
+        };
+      }
+      return { eligible: true, reason: `Accident-free for ${ctx.months.length} months`, details };
+    }
+
+    case "retention": {
+      details.hire_date = ctx.driver.hire_date;
+      details.status_at_end = ctx.statusAtEnd;
+
+      if (ctx.driver.hire_date && ctx.driver.hire_date > ctx.start) {
+        return { eligible: false, reason: `Hired ${ctx.driver.hire_date}, after the period started`, details };
+      }
+      if (ctx.statusAtEnd !== "active") {
+        return { eligible: false, reason: `Status at period end: ${ctx.statusAtEnd}`, details };
+      }
+      return { eligible: true, reason: "Employed all period and active at its end", details };
+    }
+  }
+}
+
+/**
+ * Driver status in force on a date: the latest status change on or before
+ * it, falling back to the driver's current status without history
+ */
+function getStatusAt(driver: Driver, statusChanges: DriverStatusHistory[], date: string): string {
+  const latest = statusChanges
+    .filter((s) => s.driver_id === driver.id && s.effective_date <= date)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+    .pop();
+  return latest?.status ?? driver.status;
+}
+
+/**
+ * Convert an awarded evaluation to a period_bonuses row
+ */
+export function evaluationToPeriodBonus(
+  evaluation: PeriodBonusEvaluation,
+  period: BonusPeriod,
+  status: WorkflowStatus = "draft",
+  runId: string | null = null
+): PeriodBonusInsert {
+  return {
+    driver_id: evaluation.driverId,
+    period_type: period.type,
+    year: period.year,
+    period_number: period.number,
+    rule_id: evaluation.rule.id,
+    rule_type: evaluation.rule.type,
+    label: evaluation.rule.label,
+    amount: evaluation.rule.amount,
+    details: evaluation.details as unknown as PeriodBonusInsert["details"],
+    status,
+    approved_by: null,
+    approved_date: null,
+    paid_date: null,
+    run_id: runId,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Period Close
+ * Payroll months move from open to closing to closed. From closing onwards
+ * the database rejects changes to the month's performance, budget, salary and
+ * rate rows; reopening a closed month is restricted and audited.
+ */
+
+import type {
+    IncentiveCalculation,
+    IncentiveSetting,
+    PayrollPeriod,
+    PayrollPeriodStatus,
+    PeriodCloseConfig,
+} from "../types/database";
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const PERIOD_CLOSE_SETTING_KEY = "period_close";
+
+export const PAYROLL_PERIOD_STATUS_LABELS: Record<PayrollPeriodStatus, string> = {
+  open: "Open",
+  closing: "Closing",
+  closed: "Closed",
+};
+
+/**
+ * Get period close config from settings
+ */
+export function getPeriodCloseConfig(settings: IncentiveSetting[]): PeriodCloseConfig {
+  const setting = settings.find((s) => s.setting_key === PERIOD_CLOSE_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as PeriodCloseConfig;
+    return { reopen_approvers: config.reopen_approvers ?? [] };
+  }
+
+  return { reopen_approvers: [] };
+}
+
+/**
+ * Whether a user may reopen a closed month: only listed approvers, so nobody
+ * until approvers are configured (the database enforces the same rule)
+ */
+export function canReopenPeriod(config: PeriodCloseConfig, userEmail: string | null): boolean {
+  if (!userEmail) return false;
+  return config.reopen_approvers.some((a) => a.trim().toLowerCase() === userEmail.trim().toLowerCase());
+}
+
+// ============================================
+// PERIOD STATUS
+// ============================================
+
+export function getPayrollPeriod(periods: PayrollPeriod[], year: number, month: number): PayrollPeriod | undefined {
+  return periods.find((p) => p.year === year && p.month === month);
+}
+
+/**
+ * Close status of a month (open when it has no row)
+ */
+export function getPeriodStatus(periods: PayrollPeriod[], year: number, month: number): PayrollPeriodStatus {
+  return getPayrollPeriod(periods, year, month)?.status ?? "open";
+}
+
+/**
+ * Whether a month's inputs are frozen (closing or closed)
+ */
+export function isPeriodLocked(periods: PayrollPeriod[], year: number, month: number): boolean {
+  return getPeriodStatus(periods, year, month) !== "open";
+}
+
+/**
+ * Whether a date (yyyy-MM-dd) falls in a locked month
+ */
+export function isDateLocked(periods: PayrollPeriod[], date: string): boolean {
+  return isPeriodLocked(periods, parseInt(date.slice(0, 4)), parseInt(date.slice(5, 7)));
+}
+
+/**
+ * Locked months (1-12) of a year
+ */
+export function getLockedMonths(periods: PayrollPeriod[], year: number): number[] {
+  return periods
+    .filter((p) => p.year === year && p.status !== "open")
+    .map((p) => p.month)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Reasons a month cannot be closed yet: every calculation must be approved or paid
+ */
+export function getPeriodCloseBlockers(calculations: IncentiveCalculation[]): string[] {
+  const blockers: string[] = [];
+  const drafts = calculations.filter((c) => c.status === "draft").length;
+  const pending = calculations.filter((c) => c.status === "pending_approval").length;
+  if (drafts > 0) blockers.push(`${drafts} calculation${drafts === 1 ? "" : "s"} still in draft`);
+  if (pending > 0) blockers.push(`${pending} calculation${pending === 1 ? "" : "s"} pending approval`);
+  return blockers;
+}
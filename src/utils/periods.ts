@@ -0,0 +1,164 @@
+/**
+ * Period Helpers
+ * Per-driver records for a calculation month and working-day availability
+ */
+
+import { differenceInCalendarDays, endOfMonth, format, max as maxDate, min as minDate, parseISO } from "date-fns";
+import type {
+    Accident,
+    DisciplinaryRecord,
+    Driver,
+    DriverStatusHistory,
+    Incident,
+    LeaveRecord,
+} from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Source records for one driver, used by deductions and pro-ration */
+export interface DriverPeriodRecords {
+  accidents: Accident[];
+  incidents: Incident[];
+  leaveRecords: LeaveRecord[];
+  disciplinaryRecords: DisciplinaryRecord[];
+  statusChanges: DriverStatusHistory[];
+}
+
+/** How much of the month a driver was available, stored in calculation_details.proration */
+export interface ProrationDetails {
+  factor: number;             // available_days / period_days
+  period_days: number;
+  available_days: number;
+  days_before_hire: number;
+  inactive_days: number;      // employed but inactive, suspended or terminated
+  leave_days: number;         // approved leave on otherwise available days
+  leave_record_ids: string[];
+  status_change_ids: string[];
+}
+
+export interface PeriodBounds {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+export const EMPTY_PERIOD_RECORDS: DriverPeriodRecords = {
+  accidents: [],
+  incidents: [],
+  leaveRecords: [],
+  disciplinaryRecords: [],
+  statusChanges: [],
+};
+
+/**
+ * Narrow period records down to a single driver
+ */
+export function filterDriverRecords(records: DriverPeriodRecords, driverId: string): DriverPeriodRecords {
+  return {
+    accidents: records.accidents.filter((r) => r.driver_id === driverId),
+    incidents: records.incidents.filter((r) => r.driver_id === driverId),
+    leaveRecords: records.leaveRecords.filter((r) => r.driver_id === driverId),
+    disciplinaryRecords: records.disciplinaryRecords.filter((r) => r.driver_id === driverId),
+    statusChanges: records.statusChanges.filter((r) => r.driver_id === driverId),
+  };
+}
+
+// ============================================
+// AVAILABILITY
+// ============================================
+
+/**
+ * Work out how many days of the month a driver was available.
+ * A day counts when it is on or after hire_date, the driver's status in force
+ * that day is 'active' (latest status change on or before it) and no approved
+ * leave covers it. Without status history the driver is treated as active.
+ */
+export function calculateAvailability(
+  driver: Pick<Driver, "hire_date">,
+  year: number,
+  month: number,
+  records?: Pick<DriverPeriodRecords, "leaveRecords" | "statusChanges">
+): ProrationDetails {
+  const period = getPeriodBounds(year, month);
+  const hireDate = driver.hire_date ? parseISO(driver.hire_date) : null;
+
+  const statusChanges = [...(records?.statusChanges || [])].sort((a, b) =>
+    a.effective_date.localeCompare(b.effective_date)
+  );
+  const leave = (records?.leaveRecords || [])
+    .filter((l) => l.status === "approved")
+    .map((l) => ({ id: l.id, start: parseISO(l.start_date), end: parseISO(l.end_date) }));
+
+  let daysBeforeHire = 0;
+  let inactiveDays = 0;
+  let leaveDays = 0;
+  const leaveIds = new Set<string>();
+  const statusIds = new Set<string>();
+
+  for (let day = 1; day <= period.days; day++) {
+    const date = new Date(year, month - 1, day);
+
+    if (hireDate && date < hireDate) {
+      daysBeforeHire++;
+      continue;
+    }
+
+    const key = format(date, "yyyy-MM-dd");
+    let status: DriverStatusHistory | undefined;
+    for (const change of statusChanges) {
+      if (change.effective_date > key) break;
+      status = change;
+    }
+    if (status && status.status !== "active") {
+      inactiveDays++;
+      statusIds.add(status.id);
+      continue;
+    }
+
+    const onLeave = leave.find((l) => date >= l.start && date <= l.end);
+    if (onLeave) {
+      leaveDays++;
+      leaveIds.add(onLeave.id);
+    }
+  }
+
+  const availableDays = period.days - daysBeforeHire - inactiveDays - leaveDays;
+
+  return {
+    factor: availableDays / period.days,
+    period_days: period.days,
+    available_days: availableDays,
+    days_before_hire: daysBeforeHire,
+    inactive_days: inactiveDays,
+    leave_days: leaveDays,
+    leave_record_ids: [...leaveIds],
+    status_change_ids: [...statusIds],
+  };
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+export function getPeriodBounds(year: number, month: number): PeriodBounds {
+  const start = new Date(year, month - 1, 1);
+  const end = endOfMonth(start);
+  return { start, end, days: end.getDate() };
+}
+
+export function isWithinPeriod(date: string, period: PeriodBounds): boolean {
+  const d = parseISO(date);
+  return d >= period.start && d <= period.end;
+}
+
+/**
+ * Inclusive number of days a date range overlaps the period
+ */
+export function overlapDays(startDate: string, endDate: string, period: PeriodBounds): number {
+  const start = maxDate([parseISO(startDate), period.start]);
+  const end = minDate([parseISO(endDate), period.end]);
+  const days = differenceInCalendarDays(end, start) + 1;
+  return days > 0 ? days : 0;
+}
@@ -0,0 +1,254 @@
+/**
+ * Policy Simulation
+ * Replay stored months under draft incentive settings and compare the cost
+ * with the settings that were actually in force. Nothing is written.
+ */
+
+import type {
+  CustomFormula,
+  Driver,
+  DriverPerformance,
+  IncentiveSetting,
+  Json,
+  MonthlyBudget,
+} from "../types/database";
+import {
+  batchCalculateIncentives,
+  type BatchCalculationContext,
+  type CalculationResult,
+} from "./calculations";
+import type { DriverPeriodRecords } from "./periods";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Draft setting values by setting_key, applied to every simulated month */
+export type PolicyDraft = Record<string, Json>;
+
+export interface SimulationPeriod {
+  year: number;
+  month: number;
+}
+
+export interface CostComparison {
+  baseline: number;
+  proposed: number;
+  delta: number;
+}
+
+export interface MonthImpact extends SimulationPeriod, CostComparison {
+  byType: Record<"local" | "export", CostComparison>;
+  driverCount: number;
+  failedCount: number;
+}
+
+export interface DriverImpact extends CostComparison {
+  driverId: string;
+  driverName: string;
+  driverType: "local" | "export";
+  months: number;
+}
+
+export interface PolicySimulationResult {
+  months: MonthImpact[];
+  drivers: DriverImpact[];        // largest gain first
+  totals: CostComparison & { byType: Record<"local" | "export", CostComparison> };
+  failed: { year: number; month: number; driverName: string; reason: string }[];
+}
+
+export interface PolicySimulationInput {
+  drivers: Driver[];
+  performances: DriverPerformance[];
+  budgets: MonthlyBudget[];
+  settings: IncentiveSetting[];
+  formulas: CustomFormula[];
+  context?: Omit<BatchCalculationContext, "records">;
+  /** Period records keyed by getPeriodKey(year, month) */
+  records?: Record<string, DriverPeriodRecords>;
+}
+
+// ============================================
+// PERIODS
+// ============================================
+
+/**
+ * The `count` months ending with (and including) the given month, oldest first
+ */
+export function getTrailingPeriods(year: number, month: number, count = 12): SimulationPeriod[] {
+  return Array.from({ length: count }, (_, i) => {
+    const offset = year * 12 + (month - 1) - (count - 1 - i);
+    return { year: Math.floor(offset / 12), month: (offset % 12) + 1 };
+  });
+}
+
+export function getPeriodKey(year: number, month: number): string {
+  return `${year}-${month}`;
+}
+
+// ============================================
+// DRAFT SETTINGS
+// ============================================
+
+/**
+ * Replace every version of the drafted keys with a single undated version,
+ * so the draft value is in force for all simulated months
+ */
+export function applyPolicyDraft(settings: IncentiveSetting[], draft: PolicyDraft): IncentiveSetting[] {
+  const draftKeys = Object.keys(draft);
+  const now = new Date().toISOString();
+
+  return [
+    ...settings.filter((s) => !draftKeys.includes(s.setting_key)),
+    ...draftKeys.map((key) => ({
+      id: `draft-${key}`,
+      setting_key: key,
+      setting_value: draft[key],
+      description: "Draft (simulation only)",
+      is_active: true,
+      effective_from: null,
+      effective_to: null,
+      created_at: now,
+      updated_at: now,
+    })),
+  ];
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+/**
+ * Run the batch engine for each period twice - with the stored settings and
+ * with the draft applied - and aggregate the incentive cost difference
+ * per month, per driver type and per driver.
+ */
+export function simulatePolicyImpact(
+  input: PolicySimulationInput,
+  draft: PolicyDraft,
+  periods: SimulationPeriod[]
+): PolicySimulationResult {
+  const draftSettings = applyPolicyDraft(input.settings, draft);
+  const driverTypes = new Map(input.drivers.map((d) => [d.id, d.driver_type]));
+
+  const months: MonthImpact[] = [];
+  const driverImpacts = new Map<string, DriverImpact>();
+  const failed: PolicySimulationResult["failed"] = [];
+
+  for (const { year, month } of periods) {
+    // Only drivers with stored performance can be replayed
+    const periodDrivers = input.drivers.filter((d) =>
+      input.performances.some((p) => p.driver_id === d.id && p.year === year && p.month === month)
+    );
+    if (periodDrivers.length === 0) continue;
+
+    const context: BatchCalculationContext = {
+      ...input.context,
+      records: input.records?.[getPeriodKey(year, month)],
+    };
+    const run = (settings: IncentiveSetting[]) =>
+      batchCalculateIncentives(
+        periodDrivers,
+        input.performances,
+        input.budgets,
+        settings,
+        input.formulas,
+        year,
+        month,
+        context
+      );
+
+    const baseline = run(input.settings);
+    const proposed = run(draftSettings);
+
+    const monthImpact: MonthImpact = {
+      year,
+      month,
+      ...emptyComparison(),
+      byType: { local: emptyComparison(), export: emptyComparison() },
+      driverCount: 0,
+      failedCount: 0,
+    };
+
+    const baselineById = new Map(baseline.success.map((r) => [r.driverId, r]));
+
+    // Compare only drivers that calculate under both policies
+    for (const result of proposed.success) {
+      const before = baselineById.get(result.driverId);
+      if (!before) continue;
+
+      const driverType = driverTypes.get(result.driverId) || "local";
+      addCost(monthImpact, before, result);
+      addCost(monthImpact.byType[driverType], before, result);
+      monthImpact.driverCount++;
+
+      const driverImpact = driverImpacts.get(result.driverId) || {
+        driverId: result.driverId,
+        driverName: result.driverName,
+        driverType,
+        months: 0,
+        ...emptyComparison(),
+      };
+      addCost(driverImpact, before, result);
+      driverImpact.months++;
+      driverImpacts.set(result.driverId, driverImpact);
+    }
+
+    const failedIds = new Set<string>();
+    for (const f of [...baseline.failed, ...proposed.failed]) {
+      if (failedIds.has(f.driverId)) continue;
+      failedIds.add(f.driverId);
+      failed.push({ year, month, driverName: f.driverName, reason: f.reason });
+    }
+    monthImpact.failedCount = failedIds.size;
+
+    months.push(monthImpact);
+  }
+
+  const totals = {
+    ...sumComparisons(months),
+    byType: {
+      local: sumComparisons(months.map((m) => m.byType.local)),
+      export: sumComparisons(months.map((m) => m.byType.export)),
+    },
+  };
+
+  return {
+    months,
+    drivers: [...driverImpacts.values()].sort((a, b) => b.delta - a.delta),
+    totals,
+    failed,
+  };
+}
+
+/**
+ * Drivers better off (winners) and worse off (losers) under the draft
+ */
+export function getWinnersAndLosers(
+  drivers: DriverImpact[],
+  limit = 5
+): { winners: DriverImpact[]; losers: DriverImpact[] } {
+  return {
+    winners: drivers.filter((d) => d.delta > 0).slice(0, limit),
+    losers: drivers
+      .filter((d) => d.delta < 0)
+      .sort((a, b) => a.delta - b.delta)
+      .slice(0, limit),
+  };
+}
+
+function emptyComparison(): CostComparison {
+  return { baseline: 0, proposed: 0, delta: 0 };
+}
+
+function addCost(target: CostComparison, before: CalculationResult, after: CalculationResult): void {
+  target.baseline += before.totalIncentive;
+  target.proposed += after.totalIncentive;
+  target.delta = target.proposed - target.baseline;
+}
+
+function sumComparisons(items: CostComparison[]): CostComparison {
+  const baseline = items.reduce((sum, c) => sum + c.baseline, 0);
+  const proposed = items.reduce((sum, c) => sum + c.proposed, 0);
+  return { baseline, proposed, delta: proposed - baseline };
+}
@@ -0,0 +1,162 @@
+/**
+ * Settings Versions
+ * Effective-dated incentive_settings: each row is one version of its setting_key
+ */
+
+import { format, subDays } from "date-fns";
+import type { IncentiveSetting } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Settings versions a calculation was made with */
+export interface SettingsVersion {
+  id: string | null;               // newest version in force (stored on incentive_calculations)
+  keys: Record<string, string>;    // setting_key -> version id
+}
+
+/** Writes needed to save a new version of a setting */
+export interface SettingVersionPlan {
+  updateId: string | null;         // existing version starting on the same date, updated in place
+  effectiveTo: string | null;      // end date for a newly inserted version
+  close: { id: string; effective_to: string } | null;  // version the new one supersedes
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * First day of a month as a yyyy-MM-dd string
+ */
+export function getPeriodStartDate(year: number, month: number): string {
+  return `${year}-${month.toString().padStart(2, "0")}-01`;
+}
+
+export function isSettingInForce(setting: IncentiveSetting, date: string): boolean {
+  return (
+    setting.is_active &&
+    (!setting.effective_from || setting.effective_from <= date) &&
+    (!setting.effective_to || setting.effective_to >= date)
+  );
+}
+
+/**
+ * One row per setting_key: the active version in force on the given date
+ */
+export function resolveSettingsForDate(settings: IncentiveSetting[], date: string): IncentiveSetting[] {
+  const byKey = new Map<string, IncentiveSetting>();
+
+  for (const setting of settings) {
+    if (!isSettingInForce(setting, date)) continue;
+    const current = byKey.get(setting.setting_key);
+    if (!current || compareVersions(setting, current) > 0) {
+      byKey.set(setting.setting_key, setting);
+    }
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * Settings in force for a calculation period (as of the first day of the month)
+ */
+export function resolveSettingsForPeriod(
+  settings: IncentiveSetting[],
+  year: number,
+  month: number
+): IncentiveSetting[] {
+  return resolveSettingsForDate(settings, getPeriodStartDate(year, month));
+}
+
+/**
+ * Settings in force today
+ */
+export function getCurrentSettings(settings: IncentiveSetting[]): IncentiveSetting[] {
+  return resolveSettingsForDate(settings, format(new Date(), "yyyy-MM-dd"));
+}
+
+/**
+ * Identify the versions a set of resolved settings came from
+ */
+export function getSettingsVersion(resolved: IncentiveSetting[]): SettingsVersion {
+  const newest = resolved.reduce<IncentiveSetting | null>(
+    (best, s) => (!best || compareVersions(s, best) > 0 ? s : best),
+    null
+  );
+
+  return {
+    id: newest?.id ?? null,
+    keys: Object.fromEntries(resolved.map((s) => [s.setting_key, s.id])),
+  };
+}
+
+/**
+ * All versions of a setting, newest first
+ */
+export function getSettingVersions(settings: IncentiveSetting[], key: string): IncentiveSetting[] {
+  return settings
+    .filter((s) => s.setting_key === key)
+    .sort((a, b) => compareVersions(b, a));
+}
+
+// ============================================
+// SAVING
+// ============================================
+
+/**
+ * Work out how to save a new version of `key` starting on `effectiveFrom`.
+ * A version starting on the same date is updated in place; otherwise a new
+ * version is inserted, the one it supersedes is closed the day before, and
+ * the new one ends the day before any later version starts.
+ */
+export function planSettingVersion(
+  settings: IncentiveSetting[],
+  key: string,
+  effectiveFrom: string
+): SettingVersionPlan {
+  const versions = settings.filter((s) => s.setting_key === key);
+
+  const same = versions.find((v) => v.effective_from === effectiveFrom);
+  if (same) {
+    return { updateId: same.id, effectiveTo: same.effective_to, close: null };
+  }
+
+  const previous = versions
+    .filter((v) => !v.effective_from || v.effective_from < effectiveFrom)
+    .sort((a, b) => compareVersions(b, a))[0];
+  const next = versions
+    .filter((v) => v.effective_from && v.effective_from > effectiveFrom)
+    .sort((a, b) => compareVersions(a, b))[0];
+
+  return {
+    updateId: null,
+    effectiveTo: next ? dayBefore(next.effective_from as string) : null,
+    close:
+      previous && (!previous.effective_to || previous.effective_to >= effectiveFrom)
+        ? { id: previous.id, effective_to: dayBefore(effectiveFrom) }
+        : null,
+  };
+}
+
+/**
+ * Short label for a version's validity, e.g. "Jan 2026 → Mar 2026"
+ */
+export function formatVersionRange(setting: Pick<IncentiveSetting, "effective_from" | "effective_to">): string {
+  const from = setting.effective_from ? format(new Date(`${setting.effective_from}T00:00:00`), "d MMM yyyy") : "Beginning";
+  const to = setting.effective_to ? format(new Date(`${setting.effective_to}T00:00:00`), "d MMM yyyy") : "Present";
+  return `${from} → ${to}`;
+}
+
+// Order versions by start date (open start first), then by creation time
+function compareVersions(a: IncentiveSetting, b: IncentiveSetting): number {
+  const fromA = a.effective_from || "";
+  const fromB = b.effective_from || "";
+  if (fromA !== fromB) return fromA < fromB ? -1 : 1;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+function dayBefore(date: string): string {
+  return format(subDays(new Date(`${date}T00:00:00`), 1), "yyyy-MM-dd");
+}
@@ -0,0 +1,108 @@
+/**
+ * Trips
+ * Trip log helpers. Monthly driver_performance totals are rolled up from
+ * completed trips in the database (see migration 026); these helpers mirror
+ * that roll-up for display and validate trips before they are saved.
+ */
+
+import type { Trip, TripInsert } from "../types/database";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TripMonthSummary {
+  year: number;
+  month: number;
+  kilometers: number;
+  tripsCompleted: number;
+  voided: number;
+  onTimeRate: number | null;         // null when no completed trip has both delivery times
+}
+
+// ============================================
+// TRIP FIELDS
+// ============================================
+
+/**
+ * Distance from the odometer readings, or null unless both are recorded
+ */
+export function getOdometerKilometers(
+  startOdometer: number | null,
+  endOdometer: number | null
+): number | null {
+  if (startOdometer === null || endOdometer === null) return null;
+  return Math.round((endOdometer - startOdometer) * 100) / 100;
+}
+
+/**
+ * Whether a trip was delivered on time, or null when either time is missing
+ */
+export function isTripOnTime(trip: Pick<Trip, "planned_delivery_at" | "actual_delivery_at">): boolean | null {
+  if (!trip.planned_delivery_at || !trip.actual_delivery_at) return null;
+  return new Date(trip.actual_delivery_at).getTime() <= new Date(trip.planned_delivery_at).getTime();
+}
+
+/**
+ * Problems that stop a trip from being saved (empty when it is valid)
+ */
+export function validateTrip(trip: TripInsert): string[] {
+  const errors: string[] = [];
+
+  if (!trip.trip_date) errors.push("Trip date is required");
+  if (!trip.origin.trim() || !trip.destination.trim()) errors.push("Origin and destination are required");
+  if (trip.start_odometer !== null && trip.end_odometer !== null && trip.end_odometer < trip.start_odometer) {
+    errors.push("End odometer cannot be below the start odometer");
+  }
+  if (isNaN(trip.kilometers) || trip.kilometers < 0) errors.push("Kilometers must be zero or more");
+
+  return errors;
+}
+
+// ============================================
+// MONTHLY ROLL-UP
+// ============================================
+
+/**
+ * Monthly totals from a driver's trips, newest month first. Matches the
+ * values the database writes to driver_performance for months the trip log
+ * owns (trip_totals_source 'trips'); manually entered months keep their own.
+ */
+export function summarizeTripsByMonth(trips: Trip[]): TripMonthSummary[] {
+  const months = new Map<string, { summary: TripMonthSummary; timed: number; onTime: number }>();
+
+  for (const trip of trips) {
+    const [year, month] = trip.trip_date.split("-").map(Number);
+    const key = `${year}-${month}`;
+    let entry = months.get(key);
+    if (!entry) {
+      entry = {
+        summary: { year, month, kilometers: 0, tripsCompleted: 0, voided: 0, onTimeRate: null },
+        timed: 0,
+        onTime: 0,
+      };
+      months.set(key, entry);
+    }
+
+    if (trip.status === "voided") {
+      entry.summary.voided++;
+      continue;
+    }
+
+    entry.summary.kilometers += trip.kilometers;
+    entry.summary.tripsCompleted++;
+    const onTime = isTripOnTime(trip);
+    if (onTime !== null) {
+      entry.timed++;
+      if (onTime) entry.onTime++;
+    }
+  }
+
+  return [...months.values()]
+    .map(({ summary, timed, onTime }) => ({
+      ...summary,
+      kilometers: Math.round(summary.kilometers * 100) / 100,
+      onTimeRate: timed > 0 ? Math.round((onTime / timed) * 10000) / 100 : null,
+    }))
+    .sort((a, b) => b.year - a.year || b.month - a.month);
+}
@@ -0,0 +1,127 @@
+/**
+ * Vehicles
+ * Truck registry helpers: trucks in service per month (the budget truck
+ * count) and dated driver-to-truck assignments
+ */
+
+import { format, parseISO, subDays } from "date-fns";
+import type { Vehicle, VehicleAssignment } from "../types/database";
+import { getPeriodBounds } from "./periods";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** What saving a new assignment changes: open assignments to close first */
+export interface AssignmentPlan {
+  close: { id: string; end_date: string }[];
+}
+
+export const VEHICLE_TYPES = ["Horse & Trailer", "Rigid Truck", "Tanker", "Refrigerated", "Flatbed", "Tipper"];
+
+export const VEHICLE_STATUS_LABELS: Record<Vehicle["status"], string> = {
+  active: "Active",
+  maintenance: "In Maintenance",
+  retired: "Retired",
+};
+
+// ============================================
+// TRUCK COUNTS
+// ============================================
+
+/**
+ * Whether a truck was in service on any day between two dates (yyyy-MM-dd)
+ */
+export function isVehicleInService(vehicle: Vehicle, start: string, end: string): boolean {
+  return vehicle.commissioned_date <= end && (!vehicle.retired_date || vehicle.retired_date >= start);
+}
+
+/**
+ * Whether the registry holds any trucks for a fleet (once it does, truck
+ * counts are derived from it instead of typed in)
+ */
+export function hasFleetRegistry(vehicles: Vehicle[], fleet: "local" | "export"): boolean {
+  return vehicles.some((v) => v.fleet === fleet);
+}
+
+/**
+ * Number of active trucks in a fleet that were in service during the month.
+ * Trucks in maintenance are left out; retired trucks count for the months
+ * before their retired date.
+ */
+export function getFleetTruckCount(
+  vehicles: Vehicle[],
+  fleet: "local" | "export",
+  year: number,
+  month: number
+): number {
+  const period = getPeriodBounds(year, month);
+  const start = format(period.start, "yyyy-MM-dd");
+  const end = format(period.end, "yyyy-MM-dd");
+  return vehicles.filter(
+    (v) => v.fleet === fleet && v.status !== "maintenance" && isVehicleInService(v, start, end)
+  ).length;
+}
+
+// ============================================
+// ASSIGNMENTS
+// ============================================
+
+/**
+ * Assignment in force on a date for a driver or a truck
+ */
+export function getAssignmentOn(
+  assignments: VehicleAssignment[],
+  match: { driverId?: string; vehicleId?: string },
+  date: string
+): VehicleAssignment | null {
+  return (
+    assignments.find(
+      (a) =>
+        (!match.driverId || a.driver_id === match.driverId) &&
+        (!match.vehicleId || a.vehicle_id === match.vehicleId) &&
+        a.start_date <= date &&
+        (!a.end_date || a.end_date >= date)
+    ) || null
+  );
+}
+
+/**
+ * Assignments for a driver or a truck, newest first
+ */
+export function getAssignmentHistory(
+  assignments: VehicleAssignment[],
+  match: { driverId?: string; vehicleId?: string }
+): VehicleAssignment[] {
+  return assignments
+    .filter(
+      (a) =>
+        (!match.driverId || a.driver_id === match.driverId) &&
+        (!match.vehicleId || a.vehicle_id === match.vehicleId)
+    )
+    .sort((a, b) => b.start_date.localeCompare(a.start_date));
+}
+
+/**
+ * Work out how to assign a driver to a truck from a date. The truck's and the
+ * driver's open assignments end the day before; an assignment starting on or
+ * after the new start date cannot be cut short and is rejected.
+ */
+export function planVehicleAssignment(
+  assignments: VehicleAssignment[],
+  vehicleId: string,
+  driverId: string,
+  startDate: string
+): AssignmentPlan {
+  const affected = assignments.filter(
+    (a) => (a.vehicle_id === vehicleId || a.driver_id === driverId) && (!a.end_date || a.end_date >= startDate)
+  );
+
+  const conflict = affected.find((a) => a.start_date >= startDate);
+  if (conflict) {
+    throw new Error(`An assignment already starts on ${conflict.start_date}; pick a later start date`);
+  }
+
+  const endDate = format(subDays(parseISO(startDate), 1), "yyyy-MM-dd");
+  return { close: affected.map((a) => ({ id: a.id, end_date: endDate })) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Working Calendar
+ * Which days of a month are working days: the regular working week from
+ * settings (per depot when configured), adjusted by dated calendar entries
+ * for public holidays and other exceptions. A depot's entry for a date takes
+ * precedence over the company-wide one.
+ */
+
+import type { CalendarDay, IncentiveSetting, WorkingCalendarConfig } from "../types/database";
+
+// ============================================
+// CONFIG
+// ============================================
+
+export const WORKING_CALENDAR_SETTING_KEY = "working_calendar";
+
+/**
+ * Default working week: Monday to Saturday, Sunday off
+ */
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendarConfig = {
+  non_working_weekdays: [0],
+  depot_non_working_weekdays: {},
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const CALENDAR_DAY_TYPE_LABELS: Record<CalendarDay["day_type"], string> = {
+  public_holiday: "Public holiday",
+  non_working: "Non-working day",
+  working: "Working day",
+};
+
+/**
+ * Get working calendar config from settings
+ */
+export function getWorkingCalendarConfig(settings: IncentiveSetting[]): WorkingCalendarConfig {
+  const setting = settings.find((s) => s.setting_key === WORKING_CALENDAR_SETTING_KEY && s.is_active);
+
+  if (setting && typeof setting.setting_value === "object" && setting.setting_value !== null) {
+    const config = setting.setting_value as unknown as WorkingCalendarConfig;
+    return {
+      non_working_weekdays: config.non_working_weekdays ?? DEFAULT_WORKING_CALENDAR.non_working_weekdays,
+      depot_non_working_weekdays: config.depot_non_working_weekdays ?? {},
+    };
+  }
+
+  return DEFAULT_WORKING_CALENDAR;
+}
+
+/**
+ * Depots named on drivers or calendar entries, sorted
+ */
+export function getDepots(driverDepots: (string | null)[], calendarDays: CalendarDay[]): string[] {
+  const depots = new Set<string>();
+  for (const depot of [...driverDepots, ...calendarDays.map((d) => d.depot)]) {
+    if (depot) depots.add(depot);
+  }
+  return [...depots].sort();
+}
+
+// ============================================
+// WORKING DAYS
+// ============================================
+
+/**
+ * Whether a date (yyyy-MM-dd) is a working day for a depot, or for the
+ * company when no depot is given
+ */
+export function isWorkingDay(
+  date: string,
+  calendarDays: CalendarDay[],
+  config: WorkingCalendarConfig,
+  depot: string | null = null
+): boolean {
+  const entries = calendarDays.filter((d) => d.calendar_date === date);
+  const entry =
+    (depot ? entries.find((d) => d.depot === depot) : undefined) ?? entries.find((d) => d.depot === null);
+  if (entry) return entry.day_type === "working";
+
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  const daysOff = (depot && config.depot_non_working_weekdays[depot]) || config.non_working_weekdays;
+  return !daysOff.includes(weekday);
+}
+
+/**
+ * Days of the month (1-based) that are working days
+ */
+export function getWorkingDaysInMonth(
+  year: number,
+  month: number,
+  calendarDays: CalendarDay[],
+  config: WorkingCalendarConfig,
+  depot: string | null = null
+): number[] {
+  const prefix = `${year}-${month.toString().padStart(2, "0")}-`;
+  const monthEntries = calendarDays.filter((d) => d.calendar_date.startsWith(prefix));
+  const daysInMonth = new Date(year, month, 0).getDate();
+
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (isWorkingDay(`${prefix}${day.toString().padStart(2, "0")}`, monthEntries, config, depot)) days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Working days elapsed (up to and including asOfDay) and remaining in a month
+ */
+export function countWorkingDays(
+  workingDays: number[],
+  asOfDay: number
+): { total: number; elapsed: number; remaining: number } {
+  const elapsed = workingDays.filter((day) => day <= asOfDay).length;
+  return { total: workingDays.length, elapsed, remaining: workingDays.length - elapsed };
+}
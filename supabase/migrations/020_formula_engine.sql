@@ -0,0 +1,24 @@
+-- Migration: 020_formula_engine
+-- Description: Align seeded custom formulas with the sandboxed formula engine
+-- The engine now evaluates formula_expression for safety_bonus, on_time_bonus and
+-- customer_bonus. The seeded safety_bonus formula referenced accident_count and
+-- incident_count, which were never evaluated - the app applied fixed 95/90 thresholds.
+-- Rewrite it to those thresholds so enabling the engine does not change payouts.
+-- Created: 2026-10-19
+
+-- ============================================
+-- SAFETY BONUS FORMULA
+-- ============================================
+
+UPDATE custom_formulas
+SET
+    formula_expression = 'IF safety_score >= gold_threshold THEN gold_bonus ELSE IF safety_score >= silver_threshold THEN silver_bonus ELSE 0',
+    variables = '{"gold_threshold": 95, "gold_bonus": 500, "silver_threshold": 90, "silver_bonus": 300}',
+    description = 'Safety bonus tiers by monthly safety score (IF/THEN/ELSE syntax, thresholds in variables)',
+    updated_at = NOW()
+WHERE formula_key = 'safety_bonus'
+  AND formula_expression LIKE 'CASE WHEN accident_count%';
+
+COMMENT ON COLUMN custom_formulas.formula_expression IS 'Expression evaluated by the app formula engine: arithmetic, comparisons, AND/OR/NOT, IF/THEN/ELSE, CASE WHEN ... END, min/max/round/floor/ceil/abs/clamp';
+COMMENT ON COLUMN custom_formulas.variables IS 'Numeric constants available to the formula (e.g. {"threshold": 95}); string values are treated as descriptions';
+COMMENT ON COLUMN custom_formulas.priority IS 'Evaluation order (ascending); later formulas can reference earlier results by formula_key';
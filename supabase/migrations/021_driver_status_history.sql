@@ -0,0 +1,65 @@
+-- Migration: 021_driver_status_history
+-- Description: Track dated driver status changes so partial months can be pro-rated
+-- The calculation engine counts a driver as available only on days they were
+-- employed (on or after hire_date), 'active' and not on approved leave.
+-- Created: 2026-10-19
+
+-- ============================================
+-- DRIVER STATUS HISTORY TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS driver_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'inactive', 'suspended', 'terminated')),
+    effective_date DATE NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_status_history_driver ON driver_status_history(driver_id, effective_date);
+
+-- ============================================
+-- TRIGGER: Record status on insert and on every status change
+-- ============================================
+CREATE OR REPLACE FUNCTION record_driver_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO driver_status_history (driver_id, status, effective_date, notes)
+    VALUES (NEW.id, NEW.status, NEW.hire_date, 'Initial status');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO driver_status_history (driver_id, status, effective_date)
+    VALUES (NEW.id, NEW.status, CURRENT_DATE);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS driver_status_history_on_change ON drivers;
+CREATE TRIGGER driver_status_history_on_change
+  AFTER INSERT OR UPDATE OF status ON drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION record_driver_status_change();
+
+-- ============================================
+-- BACKFILL
+-- Existing drivers start 'active' at hire_date. Drivers that are no longer
+-- active get their current status from the date the row was last updated,
+-- the closest record we have of when it changed.
+-- ============================================
+INSERT INTO driver_status_history (driver_id, status, effective_date, notes)
+SELECT d.id, 'active', d.hire_date, 'Backfilled from hire date'
+FROM drivers d
+WHERE NOT EXISTS (SELECT 1 FROM driver_status_history h WHERE h.driver_id = d.id);
+
+INSERT INTO driver_status_history (driver_id, status, effective_date, notes)
+SELECT d.id, d.status, GREATEST(d.updated_at::DATE, d.hire_date), 'Backfilled from last driver update'
+FROM drivers d
+WHERE d.status <> 'active'
+  AND NOT EXISTS (
+    SELECT 1 FROM driver_status_history h
+    WHERE h.driver_id = d.id AND h.status = d.status
+  );
+
+COMMENT ON TABLE driver_status_history IS 'Dated driver status changes, used to pro-rate targets for partial months';
+COMMENT ON COLUMN driver_status_history.effective_date IS 'First day the status applies (backdate manually if the change was recorded late)';
@@ -0,0 +1,46 @@
+-- Migration: 022_settings_versioning
+-- Description: Effective-dated versions of incentive settings
+-- Each incentive_settings row becomes one version of its setting_key, valid from
+-- effective_from to effective_to (inclusive). Recalculating a past month uses the
+-- version that was in force on the first day of that month instead of today's.
+-- Existing rows become the first version of each key and apply to all periods.
+-- Created: 2026-10-19
+
+-- ============================================
+-- INCENTIVE SETTINGS VERSIONS
+-- ============================================
+
+ALTER TABLE incentive_settings
+    ADD COLUMN IF NOT EXISTS effective_from DATE,
+    ADD COLUMN IF NOT EXISTS effective_to DATE;
+
+-- setting_key is no longer unique on its own: one row per key and start date
+ALTER TABLE incentive_settings DROP CONSTRAINT IF EXISTS incentive_settings_setting_key_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incentive_settings_key_effective
+    ON incentive_settings(setting_key, effective_from);
+
+-- Only one open-start version per key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incentive_settings_key_initial
+    ON incentive_settings(setting_key)
+    WHERE effective_from IS NULL;
+
+ALTER TABLE incentive_settings
+    DROP CONSTRAINT IF EXISTS incentive_settings_effective_range;
+ALTER TABLE incentive_settings
+    ADD CONSTRAINT incentive_settings_effective_range
+    CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from);
+
+-- ============================================
+-- CALCULATION SETTINGS VERSION
+-- ============================================
+
+ALTER TABLE incentive_calculations
+    ADD COLUMN IF NOT EXISTS settings_version_id UUID REFERENCES incentive_settings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incentive_calculations_settings_version
+    ON incentive_calculations(settings_version_id);
+
+COMMENT ON COLUMN incentive_settings.effective_from IS 'First day this version applies (NULL = since the beginning)';
+COMMENT ON COLUMN incentive_settings.effective_to IS 'Last day this version applies (NULL = until replaced)';
+COMMENT ON COLUMN incentive_calculations.settings_version_id IS 'Newest incentive_settings version in force for the period; calculation_details.settings_versions lists every key';
@@ -0,0 +1,33 @@
+-- Migration: 023_what_if_scenarios
+-- Description: Save a driver's what-if scenarios for later comparison
+-- Each scenario stores the adjustments it makes to the driver's month (extra km,
+-- fuel efficiency, safety score, on-time rate, customer rating); results are
+-- recalculated with the current engine whenever the scenario is loaded.
+-- Created: 2026-10-19
+
+-- ============================================
+-- WHAT-IF SCENARIOS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS what_if_scenarios (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    additional_km DECIMAL(12, 2),
+    fuel_efficiency DECIMAL(6, 2),
+    safety_score DECIMAL(5, 2),
+    on_time_delivery_rate DECIMAL(5, 2),
+    customer_rating DECIMAL(3, 2),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_what_if_scenarios_driver ON what_if_scenarios(driver_id);
+
+DROP TRIGGER IF EXISTS update_what_if_scenarios_updated_at ON what_if_scenarios;
+CREATE TRIGGER update_what_if_scenarios_updated_at BEFORE UPDATE ON what_if_scenarios
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE what_if_scenarios IS 'Saved what-if scenarios per driver (adjustments only; results are recalculated on load)';
+COMMENT ON COLUMN what_if_scenarios.additional_km IS 'KM added to the actual kilometers (may be negative); NULL keeps the actual value';
+COMMENT ON COLUMN what_if_scenarios.fuel_efficiency IS 'Replacement fuel efficiency (km/L); NULL keeps the actual value';
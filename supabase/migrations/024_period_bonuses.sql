@@ -0,0 +1,56 @@
+-- Migration: 024_period_bonuses
+-- Description: Quarterly and annual consistency/retention bonuses
+-- Rules live in incentive_settings under 'period_bonus_rules'. A quarterly or
+-- annual run evaluates them over driver_performance, accidents and
+-- incentive_calculations history and writes one line per driver and rule met.
+-- Lines follow their own draft -> approval -> payment workflow, separate from
+-- the monthly calculations, and are itemised on payslips.
+-- Created: 2026-10-19
+
+-- ============================================
+-- PERIOD BONUSES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS period_bonuses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    period_type VARCHAR(20) NOT NULL CHECK (period_type IN ('quarterly', 'annual')),
+    year INTEGER NOT NULL,
+    period_number INTEGER NOT NULL DEFAULT 1 CHECK (period_number BETWEEN 1 AND 4),
+    rule_id VARCHAR(100) NOT NULL,
+    rule_type VARCHAR(50) NOT NULL,
+    label VARCHAR(200) NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    details JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'pending_approval', 'approved', 'paid')),
+    approved_by VARCHAR(100),
+    approved_date TIMESTAMP WITH TIME ZONE,
+    paid_date TIMESTAMP WITH TIME ZONE,
+    run_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(driver_id, period_type, year, period_number, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_bonuses_period ON period_bonuses(period_type, year, period_number);
+CREATE INDEX IF NOT EXISTS idx_period_bonuses_driver ON period_bonuses(driver_id);
+CREATE INDEX IF NOT EXISTS idx_period_bonuses_status ON period_bonuses(status);
+
+DROP TRIGGER IF EXISTS update_period_bonuses_updated_at ON period_bonuses;
+CREATE TRIGGER update_period_bonuses_updated_at BEFORE UPDATE ON period_bonuses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE period_bonuses IS 'Quarterly and annual bonus lines, one per driver and rule met, with their own approval workflow';
+COMMENT ON COLUMN period_bonuses.period_number IS 'Quarter (1-4) for quarterly bonuses, 1 for annual bonuses';
+COMMENT ON COLUMN period_bonuses.run_id IS 'Bonus run that last wrote the line; the record_id of the run''s audit_log entry';
+COMMENT ON COLUMN period_bonuses.details IS 'Evidence for the award: monthly achievements, accident ids, hire date and status at period end';
+
+-- ============================================
+-- REALTIME: bonus lines
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'period_bonuses') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE period_bonuses;
+    END IF;
+END $$;
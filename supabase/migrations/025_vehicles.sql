@@ -0,0 +1,80 @@
+-- Migration: 025_vehicles
+-- Description: Vehicle registry and dated driver-to-truck assignments
+-- Each truck belongs to the local or export fleet and is in service from its
+-- commissioned_date until its retired_date. Monthly truck counts for budgets
+-- are derived from the trucks in service during the month.
+-- Created: 2026-10-19
+
+-- ============================================
+-- VEHICLES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS vehicles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    registration_number VARCHAR(20) NOT NULL UNIQUE,
+    vehicle_type VARCHAR(50) NOT NULL,
+    make VARCHAR(50),
+    model VARCHAR(50),
+    fleet VARCHAR(20) NOT NULL CHECK (fleet IN ('local', 'export')),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'maintenance', 'retired')),
+    commissioned_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    retired_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    CHECK (retired_date IS NULL OR retired_date >= commissioned_date),
+    CHECK (status <> 'retired' OR retired_date IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_fleet ON vehicles(fleet, commissioned_date);
+
+DROP TRIGGER IF EXISTS update_vehicles_updated_at ON vehicles;
+CREATE TRIGGER update_vehicles_updated_at BEFORE UPDATE ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE vehicles IS 'Truck registry; trucks in service during a month make up that month''s truck count';
+COMMENT ON COLUMN vehicles.fleet IS 'Fleet the truck runs in, matching monthly_budgets.driver_type';
+COMMENT ON COLUMN vehicles.retired_date IS 'Last day in service; required once the truck is retired';
+
+-- ============================================
+-- VEHICLE ASSIGNMENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS vehicle_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_assignments_vehicle ON vehicle_assignments(vehicle_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_vehicle_assignments_driver ON vehicle_assignments(driver_id, start_date);
+
+-- A truck has at most one open assignment, and so does a driver
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_assignments_open_vehicle
+    ON vehicle_assignments(vehicle_id) WHERE end_date IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_assignments_open_driver
+    ON vehicle_assignments(driver_id) WHERE end_date IS NULL;
+
+DROP TRIGGER IF EXISTS update_vehicle_assignments_updated_at ON vehicle_assignments;
+CREATE TRIGGER update_vehicle_assignments_updated_at BEFORE UPDATE ON vehicle_assignments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE vehicle_assignments IS 'Which driver drove which truck, and when';
+COMMENT ON COLUMN vehicle_assignments.end_date IS 'Last day of the assignment; NULL while it is current';
+
+-- ============================================
+-- REALTIME: vehicles and assignments
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'vehicles') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE vehicles;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'vehicle_assignments') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE vehicle_assignments;
+    END IF;
+END $$;
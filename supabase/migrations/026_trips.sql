@@ -0,0 +1,148 @@
+-- Migration: 026_trips
+-- Description: Trip log that rolls up into the monthly driver_performance totals
+-- Each trip records the odometer readings, load and delivery times. Kilometers,
+-- trips completed and the on-time delivery rate in driver_performance are
+-- recomputed from the month's trips whenever a trip is added, edited or voided.
+-- Voided trips are kept for the record but excluded from the totals. Months whose
+-- kilometres were entered by hand are not taken over by the trip log.
+-- Created: 2026-10-19
+
+-- ============================================
+-- TRIPS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS trips (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    trip_date DATE NOT NULL,
+    origin VARCHAR(100) NOT NULL,
+    destination VARCHAR(100) NOT NULL,
+    start_odometer DECIMAL(12, 1),
+    end_odometer DECIMAL(12, 1),
+    kilometers DECIMAL(10, 2) NOT NULL CHECK (kilometers >= 0),
+    load_reference VARCHAR(50),
+    planned_delivery_at TIMESTAMP WITH TIME ZONE,
+    actual_delivery_at TIMESTAMP WITH TIME ZONE,
+    status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'voided')),
+    void_reason TEXT,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    CHECK (end_odometer IS NULL OR start_odometer IS NULL OR end_odometer >= start_odometer),
+    CHECK (status <> 'voided' OR void_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_driver_date ON trips(driver_id, trip_date);
+
+DROP TRIGGER IF EXISTS update_trips_updated_at ON trips;
+CREATE TRIGGER update_trips_updated_at BEFORE UPDATE ON trips
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- PERFORMANCE LINK
+-- ============================================
+ALTER TABLE driver_performance
+ADD COLUMN IF NOT EXISTS trip_totals_source VARCHAR(10) NOT NULL DEFAULT 'manual'
+    CHECK (trip_totals_source IN ('manual', 'trips'));
+
+COMMENT ON COLUMN driver_performance.trip_totals_source IS 'manual when kilometres and trips were typed in, trips when rolled up from the trip log';
+
+-- ============================================
+-- FUNCTION: Recompute a driver's monthly totals from their trips
+-- Only the trip-derived columns are written; fuel efficiency, ratings and
+-- notes entered on the performance record are left alone. Trips take over a
+-- month that has no kilometres or trips entered yet, and never overwrite
+-- manually entered totals. When a month's last completed trip goes, the
+-- totals the trips supplied are reset. The on-time rate is only written when
+-- the trips carry delivery times.
+-- ============================================
+CREATE OR REPLACE FUNCTION rollup_driver_trips(p_driver_id UUID, p_year INTEGER, p_month INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_km DECIMAL(12, 2);
+  v_trips INTEGER;
+  v_timed INTEGER;
+  v_on_time INTEGER;
+BEGIN
+  SELECT
+    COALESCE(SUM(kilometers), 0),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE planned_delivery_at IS NOT NULL AND actual_delivery_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE actual_delivery_at <= planned_delivery_at)
+  INTO v_km, v_trips, v_timed, v_on_time
+  FROM trips
+  WHERE driver_id = p_driver_id
+    AND status = 'completed'
+    AND EXTRACT(YEAR FROM trip_date) = p_year
+    AND EXTRACT(MONTH FROM trip_date) = p_month;
+
+  IF v_trips = 0 THEN
+    UPDATE driver_performance
+    SET actual_kilometers = 0,
+        trips_completed = 0,
+        trip_totals_source = 'manual'
+    WHERE driver_id = p_driver_id
+      AND year = p_year
+      AND month = p_month
+      AND trip_totals_source = 'trips';
+    RETURN;
+  END IF;
+
+  INSERT INTO driver_performance (driver_id, year, month, actual_kilometers, trips_completed, on_time_delivery_rate, trip_totals_source)
+  VALUES (
+    p_driver_id, p_year, p_month, v_km, v_trips,
+    CASE WHEN v_timed > 0 THEN ROUND(v_on_time * 100.0 / v_timed, 2) END,
+    'trips'
+  )
+  ON CONFLICT (driver_id, year, month) DO UPDATE SET
+    actual_kilometers = EXCLUDED.actual_kilometers,
+    trips_completed = EXCLUDED.trips_completed,
+    on_time_delivery_rate = COALESCE(EXCLUDED.on_time_delivery_rate, driver_performance.on_time_delivery_rate),
+    trip_totals_source = 'trips'
+  WHERE driver_performance.trip_totals_source = 'trips'
+     OR (driver_performance.actual_kilometers = 0 AND driver_performance.trips_completed = 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rollup_trip_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM rollup_driver_trips(
+      OLD.driver_id,
+      EXTRACT(YEAR FROM OLD.trip_date)::INTEGER,
+      EXTRACT(MONTH FROM OLD.trip_date)::INTEGER
+    );
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM rollup_driver_trips(
+      NEW.driver_id,
+      EXTRACT(YEAR FROM NEW.trip_date)::INTEGER,
+      EXTRACT(MONTH FROM NEW.trip_date)::INTEGER
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trips_rollup_performance ON trips;
+CREATE TRIGGER trips_rollup_performance
+  AFTER INSERT OR UPDATE OR DELETE ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_trip_change();
+
+COMMENT ON TABLE trips IS 'Individual trips; monthly driver_performance totals are derived from completed trips';
+COMMENT ON COLUMN trips.kilometers IS 'Trip distance; end_odometer - start_odometer when both readings are recorded';
+COMMENT ON COLUMN trips.status IS 'completed trips count towards the monthly totals, voided trips do not';
+COMMENT ON FUNCTION rollup_driver_trips IS 'Writes kilometers, trips completed and on-time rate for a driver''s month from their completed trips; manually entered months are left alone';
+
+-- ============================================
+-- REALTIME: trip log
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'trips') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE trips;
+    END IF;
+END $$;
@@ -0,0 +1,39 @@
+-- Migration: 027_daily_kilometers
+-- Description: Daily kilometre log per driver
+-- One row per driver per day. Month-end projections use the pace from these
+-- entries instead of assuming the month's kilometres accrued evenly, and the
+-- daily values feed the heatmap calendar on the dashboard and driver profile.
+-- Created: 2026-10-19
+
+-- ============================================
+-- DAILY KILOMETERS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS daily_kilometers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    log_date DATE NOT NULL,
+    kilometers DECIMAL(10, 2) NOT NULL CHECK (kilometers >= 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(driver_id, log_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_kilometers_date ON daily_kilometers(log_date);
+
+DROP TRIGGER IF EXISTS update_daily_kilometers_updated_at ON daily_kilometers;
+CREATE TRIGGER update_daily_kilometers_updated_at BEFORE UPDATE ON daily_kilometers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE daily_kilometers IS 'Kilometres driven per driver per day, used for daily-pace projections and the heatmap calendar';
+COMMENT ON COLUMN daily_kilometers.kilometers IS 'Kilometres driven on log_date (0 records a logged day off the road)';
+
+-- ============================================
+-- REALTIME: daily kilometres
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'daily_kilometers') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE daily_kilometers;
+    END IF;
+END $$;
@@ -0,0 +1,68 @@
+-- Migration: 028_fuel_ledger
+-- Description: Fuel transaction ledger feeding driver_performance.fuel_efficiency
+-- Each fill records litres, cost, odometer, station and truck. A driver's monthly
+-- km/L is the kilometres between consecutive fills of the same truck divided by
+-- the litres that refilled them; implausible fills (over tank capacity, odometer
+-- going backwards, km/L outliers) are left out. The computed value is written to
+-- driver_performance together with the ids of the fills it came from.
+-- Created: 2026-10-19
+
+-- ============================================
+-- TANK CAPACITY
+-- ============================================
+ALTER TABLE vehicles
+ADD COLUMN IF NOT EXISTS tank_capacity_litres DECIMAL(8, 2);
+
+COMMENT ON COLUMN vehicles.tank_capacity_litres IS 'Fuel tank capacity; fills above it are flagged as implausible';
+
+-- ============================================
+-- FUEL TRANSACTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS fuel_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    transaction_date DATE NOT NULL,
+    litres DECIMAL(8, 2) NOT NULL CHECK (litres > 0),
+    cost DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (cost >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'ZIG')),
+    odometer DECIMAL(12, 1) NOT NULL CHECK (odometer >= 0),
+    station VARCHAR(100),
+    receipt_reference VARCHAR(50),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_transactions_driver_date ON fuel_transactions(driver_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_fuel_transactions_vehicle_odometer ON fuel_transactions(vehicle_id, odometer);
+
+DROP TRIGGER IF EXISTS update_fuel_transactions_updated_at ON fuel_transactions;
+CREATE TRIGGER update_fuel_transactions_updated_at BEFORE UPDATE ON fuel_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE fuel_transactions IS 'Fuel fills; the source of the monthly km/L in driver_performance';
+COMMENT ON COLUMN fuel_transactions.odometer IS 'Odometer reading at the fill, used for the distance since the truck''s previous fill';
+
+-- ============================================
+-- PERFORMANCE LINK
+-- ============================================
+ALTER TABLE driver_performance
+ADD COLUMN IF NOT EXISTS fuel_efficiency_source VARCHAR(10) NOT NULL DEFAULT 'manual'
+    CHECK (fuel_efficiency_source IN ('manual', 'ledger'));
+
+ALTER TABLE driver_performance
+ADD COLUMN IF NOT EXISTS fuel_transaction_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN driver_performance.fuel_efficiency_source IS 'manual when typed in, ledger when computed from fuel_transactions';
+COMMENT ON COLUMN driver_performance.fuel_transaction_ids IS 'Fuel fills the ledger km/L was computed from';
+
+-- ============================================
+-- REALTIME: fuel ledger
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'fuel_transactions') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE fuel_transactions;
+    END IF;
+END $$;
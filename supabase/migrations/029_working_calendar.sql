@@ -0,0 +1,52 @@
+-- Migration: 029_working_calendar
+-- Description: Company working-day calendar with per-depot overrides
+-- The regular working week is an incentive setting ('working_calendar'). Dated
+-- entries mark public holidays and other non-working days, or working days
+-- that fall on a usual day off. An entry for a depot takes precedence over the
+-- company-wide entry (depot NULL) for the same date. Projections count working
+-- days elapsed and remaining instead of calendar days.
+-- Created: 2026-10-19
+
+-- ============================================
+-- DRIVER DEPOT
+-- ============================================
+ALTER TABLE drivers
+ADD COLUMN IF NOT EXISTS depot VARCHAR(100);
+
+COMMENT ON COLUMN drivers.depot IS 'Depot the driver works from; selects the depot''s working calendar';
+
+-- ============================================
+-- CALENDAR DAYS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS calendar_days (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_date DATE NOT NULL,
+    depot VARCHAR(100),
+    day_type VARCHAR(20) NOT NULL CHECK (day_type IN ('public_holiday', 'non_working', 'working')),
+    name VARCHAR(100) NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- One entry per date for the company and one per date for each depot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_days_date_depot
+    ON calendar_days(calendar_date, COALESCE(depot, ''));
+
+DROP TRIGGER IF EXISTS update_calendar_days_updated_at ON calendar_days;
+CREATE TRIGGER update_calendar_days_updated_at BEFORE UPDATE ON calendar_days
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE calendar_days IS 'Public holidays and exceptions to the regular working week';
+COMMENT ON COLUMN calendar_days.depot IS 'NULL for the whole company; a depot name overrides the company entry for that depot';
+COMMENT ON COLUMN calendar_days.day_type IS 'public_holiday and non_working are days off; working makes a usual day off a working day';
+
+-- ============================================
+-- REALTIME: calendar entries
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'calendar_days') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE calendar_days;
+    END IF;
+END $$;
@@ -0,0 +1,260 @@
+-- Migration: 030_approval_chains
+-- Description: Per-step sign-offs for multi-level incentive approval chains
+-- Chains (e.g. supervisor -> operations manager -> finance) are configured in the
+-- 'approval_chains' incentive setting, per driver type and incentive amount
+-- threshold. Each sign-off records the step, who approved and when. A calculation
+-- becomes approved once its last step is signed off. Returning it to draft, or
+-- recalculating its amounts, revokes its sign-offs, which are kept for the record.
+-- The same user cannot sign off two steps of the same approval. Sign-offs go through
+-- sign_off_calculation, and the database checks each one against the step's
+-- approvers and the signed-in user.
+-- Created: 2026-10-19
+
+-- ============================================
+-- CALCULATION APPROVALS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS calculation_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calculation_id UUID NOT NULL REFERENCES incentive_calculations(id) ON DELETE CASCADE,
+    chain_id VARCHAR(50) NOT NULL,
+    step_index INTEGER NOT NULL CHECK (step_index >= 0),
+    step_label VARCHAR(100) NOT NULL,
+    approved_by VARCHAR(200) NOT NULL,
+    approved_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_calculation_approvals_calculation ON calculation_approvals(calculation_id);
+
+-- One sign-off per step, and the same user cannot approve twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calculation_approvals_step
+    ON calculation_approvals(calculation_id, step_index) WHERE revoked_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calculation_approvals_approver
+    ON calculation_approvals(calculation_id, LOWER(approved_by)) WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE calculation_approvals IS 'Sign-offs of the approval chain steps for incentive calculations';
+COMMENT ON COLUMN calculation_approvals.approved_by IS 'Email of the signed-in user who signed off the step';
+COMMENT ON COLUMN calculation_approvals.revoked_at IS 'Set when the calculation is returned to draft or recalculated; revoked sign-offs no longer count';
+COMMENT ON COLUMN calculation_approvals.revoked_by IS 'Who returned the calculation to draft, or ''recalculation'' when its amounts changed';
+
+-- ============================================
+-- FUNCTION: Sign-offs are for the amounts they approved
+-- ============================================
+CREATE OR REPLACE FUNCTION revoke_approvals_on_recalculation()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE calculation_approvals
+    SET revoked_at = TIMEZONE('utc', NOW()),
+        revoked_by = 'recalculation'
+    WHERE calculation_id = NEW.id
+      AND revoked_at IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS revoke_incentive_calculation_approvals ON incentive_calculations;
+CREATE TRIGGER revoke_incentive_calculation_approvals
+    AFTER UPDATE ON incentive_calculations
+    FOR EACH ROW
+    WHEN (
+        OLD.total_incentive IS DISTINCT FROM NEW.total_incentive OR
+        OLD.calculation_details IS DISTINCT FROM NEW.calculation_details
+    )
+    EXECUTE FUNCTION revoke_approvals_on_recalculation();
+
+-- ============================================
+-- FUNCTION: Approval chain for a calculation
+-- ============================================
+-- Mirrors selectApprovalChain: among the enabled chains for the driver type whose
+-- threshold the incentive reaches, the one with the highest threshold, a chain for
+-- the driver type winning a tie with an "all" chain. Chains come from the version
+-- of the 'approval_chains' setting in force for the calculation's month.
+CREATE OR REPLACE FUNCTION get_calculation_approval_chain(p_calculation_id UUID)
+RETURNS JSONB AS $$
+    SELECT c.chain
+    FROM incentive_calculations ic
+    JOIN drivers d ON d.id = ic.driver_id
+    CROSS JOIN LATERAL (
+        SELECT s.setting_value
+        FROM incentive_settings s
+        WHERE s.setting_key = 'approval_chains'
+          AND s.is_active
+          AND (s.effective_from IS NULL OR s.effective_from <= make_date(ic.year, ic.month, 1))
+          AND (s.effective_to IS NULL OR s.effective_to >= make_date(ic.year, ic.month, 1))
+        ORDER BY s.effective_from DESC NULLS LAST, s.created_at DESC
+        LIMIT 1
+    ) cfg
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(cfg.setting_value -> 'chains', '[]'::jsonb)) AS c(chain)
+    WHERE ic.id = p_calculation_id
+      AND COALESCE((cfg.setting_value ->> 'enabled')::BOOLEAN, FALSE)
+      AND COALESCE((c.chain ->> 'enabled')::BOOLEAN, FALSE)
+      AND jsonb_array_length(COALESCE(c.chain -> 'steps', '[]'::jsonb)) > 0
+      AND c.chain ->> 'applies_to' IN ('all', d.driver_type)
+      AND ic.total_incentive >= COALESCE((c.chain ->> 'min_amount')::DECIMAL, 0)
+    ORDER BY COALESCE((c.chain ->> 'min_amount')::DECIMAL, 0) DESC, (c.chain ->> 'applies_to' <> 'all') DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- FUNCTION: Validate sign-offs
+-- ============================================
+-- A sign-off is recorded under the signed-in user, for the next step of the chain
+-- that applies to a pending calculation, by one of that step's approvers
+CREATE OR REPLACE FUNCTION check_calculation_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    -- The signed-in user's email when the request carries a JWT
+    jwt_email TEXT := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'email';
+    v_status VARCHAR(20);
+    v_chain JSONB;
+    v_step JSONB;
+    v_signed INTEGER;
+BEGIN
+    IF jwt_email IS NOT NULL AND LOWER(jwt_email) <> LOWER(TRIM(NEW.approved_by)) THEN
+        RAISE EXCEPTION 'Sign-offs are recorded under the signed-in user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT status INTO v_status FROM incentive_calculations WHERE id = NEW.calculation_id;
+    IF v_status IS DISTINCT FROM 'pending_approval' THEN
+        RAISE EXCEPTION 'Only calculations pending approval can be signed off'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_chain := get_calculation_approval_chain(NEW.calculation_id);
+    IF v_chain IS NULL OR v_chain ->> 'id' <> NEW.chain_id THEN
+        RAISE EXCEPTION 'Approval chain % does not apply to this calculation', NEW.chain_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_step := v_chain -> 'steps' -> NEW.step_index;
+    IF v_step IS NULL THEN
+        RAISE EXCEPTION 'Approval chain % has no step %', NEW.chain_id, NEW.step_index + 1
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(v_step -> 'approvers', '[]'::jsonb)) AS a(email)
+        WHERE LOWER(TRIM(a.email)) = LOWER(TRIM(NEW.approved_by))
+    ) THEN
+        RAISE EXCEPTION '% is not an approver for %', NEW.approved_by, v_step ->> 'label'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Steps are signed off in order
+    SELECT COUNT(*) INTO v_signed
+    FROM calculation_approvals
+    WHERE calculation_id = NEW.calculation_id
+      AND chain_id = NEW.chain_id
+      AND revoked_at IS NULL
+      AND step_index < NEW.step_index;
+    IF v_signed <> NEW.step_index THEN
+        RAISE EXCEPTION 'Earlier steps of % must be signed off first', v_chain ->> 'label'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.step_label := v_step ->> 'label';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_calculation_approval_insert ON calculation_approvals;
+CREATE TRIGGER check_calculation_approval_insert
+    BEFORE INSERT ON calculation_approvals
+    FOR EACH ROW EXECUTE FUNCTION check_calculation_approval();
+
+-- ============================================
+-- FUNCTION: Approving needs the whole chain
+-- ============================================
+-- A calculation under a chain is approved only once every step is signed off; the
+-- approver is the signed-in user either way
+CREATE OR REPLACE FUNCTION check_calculation_approved()
+RETURNS TRIGGER AS $$
+DECLARE
+    jwt_email TEXT := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'email';
+    v_chain JSONB;
+    v_signed INTEGER;
+BEGIN
+    IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+        RETURN NEW;
+    END IF;
+
+    IF jwt_email IS NOT NULL AND LOWER(jwt_email) <> LOWER(TRIM(COALESCE(NEW.approved_by, ''))) THEN
+        RAISE EXCEPTION 'Approvals are recorded under the signed-in user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    v_chain := get_calculation_approval_chain(NEW.id);
+    IF v_chain IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_signed
+        FROM calculation_approvals
+        WHERE calculation_id = NEW.id
+          AND chain_id = v_chain ->> 'id'
+          AND revoked_at IS NULL;
+        IF v_signed < jsonb_array_length(v_chain -> 'steps') THEN
+            RAISE EXCEPTION 'Every step of % must be signed off before approval', v_chain ->> 'label'
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_incentive_calculation_approved ON incentive_calculations;
+CREATE TRIGGER check_incentive_calculation_approved
+    BEFORE UPDATE OF status ON incentive_calculations
+    FOR EACH ROW EXECUTE FUNCTION check_calculation_approved();
+
+-- ============================================
+-- FUNCTION: Sign off a step
+-- ============================================
+-- Records the sign-off and, when it is the chain's last step, approves the
+-- calculation in the same transaction. Returns whether the calculation was approved.
+CREATE OR REPLACE FUNCTION sign_off_calculation(
+    p_calculation_id UUID,
+    p_chain_id VARCHAR,
+    p_step_index INTEGER,
+    p_step_label VARCHAR,
+    p_approved_by VARCHAR
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_chain JSONB;
+    v_signed INTEGER;
+BEGIN
+    INSERT INTO calculation_approvals (calculation_id, chain_id, step_index, step_label, approved_by)
+    VALUES (p_calculation_id, p_chain_id, p_step_index, p_step_label, p_approved_by);
+
+    v_chain := get_calculation_approval_chain(p_calculation_id);
+    SELECT COUNT(*) INTO v_signed
+    FROM calculation_approvals
+    WHERE calculation_id = p_calculation_id
+      AND chain_id = p_chain_id
+      AND revoked_at IS NULL;
+    IF v_signed < jsonb_array_length(v_chain -> 'steps') THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE incentive_calculations
+    SET status = 'approved',
+        approved_by = p_approved_by,
+        approved_date = NOW()
+    WHERE id = p_calculation_id;
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION sign_off_calculation IS 'Signs off a chain step and approves the calculation when it was the last one';
+
+-- ============================================
+-- REALTIME: sign-off progress
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'calculation_approvals') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE calculation_approvals;
+    END IF;
+END $$;
@@ -0,0 +1,207 @@
+-- Migration: 031_period_close
+-- Description: Payroll period close and lock
+-- A payroll month is open, closing or closed (no row means open). From closing
+-- onwards the month's driver_performance, monthly_budgets, driver_salary_history
+-- and zig_usd_conversion_rates rows, and kilometer_rates taking effect in the
+-- month, are frozen so the stored calculations keep matching their inputs. This
+-- also blocks trip and fuel roll-ups into a locked month. Reopening a closed
+-- month needs a reason and a user listed in the 'period_close' setting's
+-- reopen_approvers (nobody while the list is empty). Every status change is
+-- written to audit_log.
+-- Created: 2026-10-19
+
+-- ============================================
+-- PAYROLL PERIODS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS payroll_periods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    year INTEGER NOT NULL,
+    month INTEGER NOT NULL CHECK (month >= 1 AND month <= 12),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closing', 'closed')),
+    closed_by VARCHAR(200),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    reopened_by VARCHAR(200),
+    reopened_at TIMESTAMP WITH TIME ZONE,
+    reopen_reason TEXT,
+    updated_by VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    UNIQUE(year, month)
+);
+
+DROP TRIGGER IF EXISTS update_payroll_periods_updated_at ON payroll_periods;
+CREATE TRIGGER update_payroll_periods_updated_at BEFORE UPDATE ON payroll_periods
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE payroll_periods IS 'Close status of each payroll month; months without a row are open';
+COMMENT ON COLUMN payroll_periods.status IS 'open: editable; closing: inputs frozen while payroll is finalised; closed: final, reopen is audited';
+COMMENT ON COLUMN payroll_periods.updated_by IS 'User who made the last status change, recorded in audit_log';
+
+-- ============================================
+-- AUDIT LOG ACTIONS
+-- ============================================
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+    CHECK (action IN ('insert', 'update', 'delete', 'batch_calculate', 'approve', 'rollback', 'close_period', 'reopen_period'));
+
+-- ============================================
+-- FUNCTION: Whether a month is locked
+-- ============================================
+CREATE OR REPLACE FUNCTION is_period_locked(p_year INTEGER, p_month INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM payroll_periods
+        WHERE year = p_year AND month = p_month AND status IN ('closing', 'closed')
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- FUNCTION: Reject changes to rows of a locked month
+-- ============================================
+CREATE OR REPLACE FUNCTION prevent_locked_period_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_year INTEGER;
+    old_month INTEGER;
+    new_year INTEGER;
+    new_month INTEGER;
+BEGIN
+    -- kilometer_rates are dated; the month is the one the rate takes effect in
+    IF TG_TABLE_NAME = 'kilometer_rates' THEN
+        IF TG_OP <> 'INSERT' THEN
+            old_year := EXTRACT(YEAR FROM OLD.effective_from);
+            old_month := EXTRACT(MONTH FROM OLD.effective_from);
+        END IF;
+        IF TG_OP <> 'DELETE' THEN
+            new_year := EXTRACT(YEAR FROM NEW.effective_from);
+            new_month := EXTRACT(MONTH FROM NEW.effective_from);
+        END IF;
+    ELSE
+        IF TG_OP <> 'INSERT' THEN
+            old_year := OLD.year;
+            old_month := OLD.month;
+        END IF;
+        IF TG_OP <> 'DELETE' THEN
+            new_year := NEW.year;
+            new_month := NEW.month;
+        END IF;
+    END IF;
+
+    IF (TG_OP <> 'INSERT' AND is_period_locked(old_year, old_month))
+        OR (TG_OP <> 'DELETE' AND is_period_locked(new_year, new_month)) THEN
+        RAISE EXCEPTION 'Payroll period %-% is locked; reopen it before changing %',
+            COALESCE(new_year, old_year), LPAD(COALESCE(new_month, old_month)::TEXT, 2, '0'), TG_TABLE_NAME
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_driver_performance ON driver_performance;
+CREATE TRIGGER lock_driver_performance
+    BEFORE INSERT OR UPDATE OR DELETE ON driver_performance
+    FOR EACH ROW EXECUTE FUNCTION prevent_locked_period_changes();
+
+DROP TRIGGER IF EXISTS lock_monthly_budgets ON monthly_budgets;
+CREATE TRIGGER lock_monthly_budgets
+    BEFORE INSERT OR UPDATE OR DELETE ON monthly_budgets
+    FOR EACH ROW EXECUTE FUNCTION prevent_locked_period_changes();
+
+DROP TRIGGER IF EXISTS lock_driver_salary_history ON driver_salary_history;
+CREATE TRIGGER lock_driver_salary_history
+    BEFORE INSERT OR UPDATE OR DELETE ON driver_salary_history
+    FOR EACH ROW EXECUTE FUNCTION prevent_locked_period_changes();
+
+DROP TRIGGER IF EXISTS lock_zig_usd_conversion_rates ON zig_usd_conversion_rates;
+CREATE TRIGGER lock_zig_usd_conversion_rates
+    BEFORE INSERT OR UPDATE OR DELETE ON zig_usd_conversion_rates
+    FOR EACH ROW EXECUTE FUNCTION prevent_locked_period_changes();
+
+DROP TRIGGER IF EXISTS lock_kilometer_rates ON kilometer_rates;
+CREATE TRIGGER lock_kilometer_rates
+    BEFORE INSERT OR UPDATE OR DELETE ON kilometer_rates
+    FOR EACH ROW EXECUTE FUNCTION prevent_locked_period_changes();
+
+-- ============================================
+-- FUNCTION: Whether a user may reopen a closed month
+-- ============================================
+-- Approvers come from the version of the 'period_close' setting in force today
+CREATE OR REPLACE FUNCTION can_reopen_period(p_email TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((
+        SELECT EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(COALESCE(s.setting_value -> 'reopen_approvers', '[]'::jsonb)) AS a(email)
+            WHERE LOWER(TRIM(a.email)) = LOWER(TRIM(p_email))
+        )
+        FROM incentive_settings s
+        WHERE s.setting_key = 'period_close'
+          AND s.is_active
+          AND (s.effective_from IS NULL OR s.effective_from <= CURRENT_DATE)
+          AND (s.effective_to IS NULL OR s.effective_to >= CURRENT_DATE)
+        ORDER BY s.effective_from DESC NULLS LAST, s.created_at DESC
+        LIMIT 1
+    ), FALSE);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- FUNCTION: Validate and audit period status changes
+-- ============================================
+CREATE OR REPLACE FUNCTION audit_payroll_period_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_status VARCHAR(20) := CASE WHEN TG_OP = 'INSERT' THEN 'open' ELSE OLD.status END;
+    -- The signed-in user's email when the request carries a JWT
+    jwt_email TEXT := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'email';
+BEGIN
+    IF NEW.status = old_status THEN
+        RETURN NEW;
+    END IF;
+
+    IF old_status = 'closed' AND (NEW.reopened_by IS NULL OR COALESCE(TRIM(NEW.reopen_reason), '') = '') THEN
+        RAISE EXCEPTION 'Reopening %-% needs the user and a reason', NEW.year, LPAD(NEW.month::TEXT, 2, '0')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF old_status = 'closed' AND (
+        (jwt_email IS NOT NULL AND LOWER(jwt_email) <> LOWER(TRIM(NEW.reopened_by)))
+        OR NOT can_reopen_period(NEW.reopened_by)
+    ) THEN
+        RAISE EXCEPTION '% is not authorised to reopen %-%', NEW.reopened_by, NEW.year, LPAD(NEW.month::TEXT, 2, '0')
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+    VALUES (
+        'payroll_periods',
+        NEW.id,
+        CASE
+            WHEN NEW.status = 'closed' THEN 'close_period'
+            WHEN old_status = 'closed' THEN 'reopen_period'
+            ELSE 'update'
+        END,
+        jsonb_build_object('status', old_status),
+        jsonb_build_object('status', NEW.status, 'year', NEW.year, 'month', NEW.month, 'reason', NEW.reopen_reason),
+        COALESCE(NEW.updated_by, 'system')
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_payroll_period_status ON payroll_periods;
+CREATE TRIGGER audit_payroll_period_status
+    BEFORE INSERT OR UPDATE OF status ON payroll_periods
+    FOR EACH ROW EXECUTE FUNCTION audit_payroll_period_change();
+
+-- ============================================
+-- REALTIME: period status
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'payroll_periods') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE payroll_periods;
+    END IF;
+END $$;
@@ -0,0 +1,216 @@
+-- Migration: 032_payment_runs
+-- Description: Payment runs that pay approved calculations as one payroll batch
+-- A payment run belongs to a payroll month. Approved calculations of that month are
+-- added to a draft run, and posting the run marks them all paid at once. Posting
+-- stamps the run with its totals and the USD/ZIG split. Calculations in a posted
+-- run are locked, and a calculation can only become paid through a run. Posting
+-- goes through post_payment_run so the run and its calculations change together.
+-- Created: 2026-10-19
+
+-- ============================================
+-- PAYMENT RUNS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS payment_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    year INTEGER NOT NULL,
+    month INTEGER NOT NULL CHECK (month >= 1 AND month <= 12),
+    reference VARCHAR(50) NOT NULL UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'posted')),
+    created_by VARCHAR(200),
+    posted_by VARCHAR(200),
+    posted_at TIMESTAMP WITH TIME ZONE,
+    driver_count INTEGER NOT NULL DEFAULT 0,
+    total_incentive DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_usd DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_zig DECIMAL(14,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_runs_period ON payment_runs(year, month);
+
+DROP TRIGGER IF EXISTS update_payment_runs_updated_at ON payment_runs;
+CREATE TRIGGER update_payment_runs_updated_at BEFORE UPDATE ON payment_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE payment_runs IS 'Payroll batches that pay approved incentive calculations together';
+COMMENT ON COLUMN payment_runs.reference IS 'Payroll reference, e.g. PR-2026-10-01';
+COMMENT ON COLUMN payment_runs.total_usd IS 'Incentive paid in USD, from the calculations'' payout split';
+COMMENT ON COLUMN payment_runs.total_zig IS 'Incentive paid in ZIG, from the calculations'' payout split';
+
+-- ============================================
+-- CALCULATIONS: PAYMENT RUN
+-- ============================================
+ALTER TABLE incentive_calculations
+    ADD COLUMN IF NOT EXISTS payment_run_id UUID REFERENCES payment_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incentive_calculations_payment_run ON incentive_calculations(payment_run_id);
+
+COMMENT ON COLUMN incentive_calculations.payment_run_id IS 'Payment run the calculation is paid in';
+
+-- ============================================
+-- FUNCTION: Keep calculations consistent with their payment run
+-- ============================================
+CREATE OR REPLACE FUNCTION check_calculation_payment_run()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_run payment_runs%ROWTYPE;
+    new_run payment_runs%ROWTYPE;
+BEGIN
+    -- Calculations of a posted run are locked
+    IF OLD.payment_run_id IS NOT NULL THEN
+        SELECT * INTO old_run FROM payment_runs WHERE id = OLD.payment_run_id;
+        IF old_run.status = 'posted' THEN
+            RAISE EXCEPTION 'Calculation is locked by posted payment run %', old_run.reference
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    -- A paid calculation stays in the run that paid it
+    IF OLD.status = 'paid' AND OLD.payment_run_id IS NOT NULL
+        AND NEW.payment_run_id IS DISTINCT FROM OLD.payment_run_id THEN
+        RAISE EXCEPTION 'Paid calculations cannot be removed from their payment run'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- A calculation leaving approved (e.g. reverted to draft) drops out of its run
+    IF NEW.payment_run_id IS NOT NULL AND NEW.status NOT IN ('approved', 'paid') THEN
+        NEW.payment_run_id := NULL;
+    END IF;
+
+    IF NEW.payment_run_id IS NOT NULL AND NEW.payment_run_id IS DISTINCT FROM OLD.payment_run_id THEN
+        SELECT * INTO new_run FROM payment_runs WHERE id = NEW.payment_run_id;
+        IF new_run.status <> 'draft' THEN
+            RAISE EXCEPTION 'Payment run % is already posted', new_run.reference
+                USING ERRCODE = 'check_violation';
+        END IF;
+        IF new_run.year <> NEW.year OR new_run.month <> NEW.month THEN
+            RAISE EXCEPTION 'Payment run % is for %-%', new_run.reference, new_run.year, LPAD(new_run.month::TEXT, 2, '0')
+                USING ERRCODE = 'check_violation';
+        END IF;
+        IF NEW.status <> 'approved' THEN
+            RAISE EXCEPTION 'Only approved calculations can be added to a payment run'
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF NEW.status = 'paid' AND OLD.status <> 'paid' AND NEW.payment_run_id IS NULL THEN
+        RAISE EXCEPTION 'Calculations are paid by posting a payment run'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_incentive_calculation_payment_run ON incentive_calculations;
+CREATE TRIGGER check_incentive_calculation_payment_run
+    BEFORE UPDATE OR DELETE ON incentive_calculations
+    FOR EACH ROW EXECUTE FUNCTION check_calculation_payment_run();
+
+-- ============================================
+-- FUNCTION: Posted runs are final
+-- ============================================
+CREATE OR REPLACE FUNCTION prevent_posted_payment_run_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'posted' THEN
+        RAISE EXCEPTION 'Payment run % is posted and cannot be changed', OLD.reference
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_posted_payment_runs ON payment_runs;
+CREATE TRIGGER lock_posted_payment_runs
+    BEFORE UPDATE OR DELETE ON payment_runs
+    FOR EACH ROW EXECUTE FUNCTION prevent_posted_payment_run_changes();
+
+-- ============================================
+-- FUNCTION: Post a payment run
+-- Marks the run's approved calculations paid, stamps the run with the totals
+-- and logs the posting, all in one transaction. The totals come from the page
+-- (the USD/ZIG split is read from the calculations' payout details there); a
+-- run whose calculations changed since they were summed is not posted.
+-- ============================================
+CREATE OR REPLACE FUNCTION post_payment_run(
+    p_run_id UUID,
+    p_posted_by VARCHAR,
+    p_driver_count INTEGER,
+    p_total_incentive DECIMAL,
+    p_total_usd DECIMAL,
+    p_total_zig DECIMAL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_run payment_runs%ROWTYPE;
+    v_calculation_ids UUID[];
+BEGIN
+    SELECT * INTO v_run FROM payment_runs WHERE id = p_run_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment run not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+    IF v_run.status <> 'draft' THEN
+        RAISE EXCEPTION 'Payment run % is already posted', v_run.reference
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(array_agg(id), '{}') INTO v_calculation_ids
+    FROM incentive_calculations
+    WHERE payment_run_id = p_run_id AND status = 'approved';
+
+    IF cardinality(v_calculation_ids) = 0 THEN
+        RAISE EXCEPTION 'Payment run % has no approved calculations', v_run.reference
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF cardinality(v_calculation_ids) <> p_driver_count THEN
+        RAISE EXCEPTION 'Payment run % changed while posting; reload and try again', v_run.reference
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE incentive_calculations
+    SET status = 'paid', paid_date = NOW()
+    WHERE id = ANY(v_calculation_ids);
+
+    UPDATE payment_runs
+    SET status = 'posted',
+        posted_by = p_posted_by,
+        posted_at = NOW(),
+        driver_count = p_driver_count,
+        total_incentive = p_total_incentive,
+        total_usd = p_total_usd,
+        total_zig = p_total_zig
+    WHERE id = p_run_id;
+
+    INSERT INTO audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+    VALUES (
+        'payment_runs',
+        p_run_id,
+        'update',
+        jsonb_build_object('status', 'draft'),
+        jsonb_build_object(
+            'status', 'posted',
+            'reference', v_run.reference,
+            'calculation_ids', to_jsonb(v_calculation_ids),
+            'driver_count', p_driver_count,
+            'total_incentive', p_total_incentive,
+            'total_usd', p_total_usd,
+            'total_zig', p_total_zig
+        ),
+        p_posted_by
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION post_payment_run IS 'Pays a draft run''s approved calculations and posts the run in one transaction';
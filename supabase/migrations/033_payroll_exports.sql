@@ -0,0 +1,52 @@
+-- Migration: 033_payroll_exports
+-- Description: Log of payroll system exports
+-- Incentive calculations are exported to the payroll system (Sage, QuickBooks or a
+-- user-defined CSV layout) with the profiles in the 'payroll_export_profiles'
+-- incentive setting. Each export is logged. A period can only have one export that
+-- has not been voided, so the same period is never posted to payroll twice.
+-- Re-exporting needs the earlier export voided, with a reason.
+-- Created: 2026-10-19
+
+-- ============================================
+-- PAYROLL EXPORTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS payroll_exports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    year INTEGER NOT NULL,
+    month INTEGER NOT NULL CHECK (month >= 1 AND month <= 12),
+    profile_id VARCHAR(50) NOT NULL,
+    profile_label VARCHAR(100) NOT NULL,
+    format VARCHAR(20) NOT NULL CHECK (format IN ('sage', 'quickbooks', 'custom')),
+    file_name VARCHAR(200) NOT NULL,
+    calculation_count INTEGER NOT NULL DEFAULT 0,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    total_earnings DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_deductions DECIMAL(12,2) NOT NULL DEFAULT 0,
+    exported_by VARCHAR(200),
+    exported_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    voided_by VARCHAR(200),
+    voided_at TIMESTAMP WITH TIME ZONE,
+    void_reason TEXT,
+    CHECK (voided_at IS NULL OR COALESCE(TRIM(void_reason), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_exports_period ON payroll_exports(year, month);
+
+-- One export per period until it is voided
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_exports_posted
+    ON payroll_exports(year, month) WHERE voided_at IS NULL;
+
+COMMENT ON TABLE payroll_exports IS 'Incentive exports posted to the payroll system, one per period unless voided';
+COMMENT ON COLUMN payroll_exports.total_earnings IS 'Sum of the earning lines in the file (USD)';
+COMMENT ON COLUMN payroll_exports.total_deductions IS 'Sum of the deduction lines in the file (USD)';
+COMMENT ON COLUMN payroll_exports.voided_at IS 'Set when the export was not (or no longer) posted, allowing the period to be exported again';
+
+-- ============================================
+-- REALTIME: export log
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'payroll_exports') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE payroll_exports;
+    END IF;
+END $$;
@@ -0,0 +1,41 @@
+-- Migration: 034_batch_job_tracking
+-- Description: Track batch calculation runs as resumable jobs
+-- Every month-end batch run is recorded in batch_calculation_jobs (from migration 009).
+-- The job keeps the drivers it covers and the drivers it has already processed, so a
+-- run interrupted by a closed browser can be resumed. Per-driver errors go to
+-- error_log, and a retry of the failed drivers is a new job pointing at the original.
+-- Calculations already past draft are not overwritten; they are counted as skipped.
+-- updated_at acts as a heartbeat: a processing job that stops updating has stalled.
+-- Created: 2026-10-19
+
+-- ============================================
+-- BATCH CALCULATION JOBS: SCOPE, PROGRESS AND RETRIES
+-- ============================================
+ALTER TABLE batch_calculation_jobs
+    ADD COLUMN IF NOT EXISTS driver_ids JSONB,
+    ADD COLUMN IF NOT EXISTS processed_driver_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES batch_calculation_jobs(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW());
+
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_created ON batch_calculation_jobs(created_at DESC);
+
+DROP TRIGGER IF EXISTS update_batch_calculation_jobs_updated_at ON batch_calculation_jobs;
+CREATE TRIGGER update_batch_calculation_jobs_updated_at BEFORE UPDATE ON batch_calculation_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN batch_calculation_jobs.driver_ids IS 'Drivers the job saves; NULL for every driver calculated in the month';
+COMMENT ON COLUMN batch_calculation_jobs.processed_driver_ids IS 'Drivers already saved, skipped or failed; not redone when the job is resumed';
+COMMENT ON COLUMN batch_calculation_jobs.skipped_count IS 'Drivers whose calculation is past draft and was left unchanged';
+COMMENT ON COLUMN batch_calculation_jobs.retry_of IS 'Job whose failed drivers this job retries';
+COMMENT ON COLUMN batch_calculation_jobs.error_log IS 'Per-driver errors: [{driver_id, driver_name, stage, message}]';
+
+-- ============================================
+-- REALTIME: live job progress
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'batch_calculation_jobs') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE batch_calculation_jobs;
+    END IF;
+END $$;
@@ -0,0 +1,14 @@
+-- Migration: 035_audit_actions
+-- Description: Audit actions for recalculations and period bonus runs
+-- Recalculating drifted draft calculations from the drift report is logged as
+-- 'recalculate' so it can be told apart from a manual edit. A quarterly or
+-- annual bonus run is logged as 'period_bonus_run' against the run id stamped
+-- on the lines it wrote.
+-- Created: 2026-10-19
+
+-- ============================================
+-- AUDIT LOG: ACTIONS
+-- ============================================
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+    CHECK (action IN ('insert', 'update', 'delete', 'batch_calculate', 'approve', 'rollback', 'close_period', 'reopen_period', 'recalculate', 'period_bonus_run'));